@@ -3,7 +3,7 @@ import Link from "next/link";
 import { headers } from "next/headers";
 import { readFile } from "node:fs/promises";
 import path from "node:path";
-import { ArrowLeft, FileText } from "lucide-react";
+import { ArrowLeft, Braces, FileText } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { injectDocsBaseUrl, resolveDocsBaseUrl } from "@/src/utils/api-docs";
 import { CopyAgentPromptButton } from "./CopyAgentPromptButton";
@@ -54,6 +54,12 @@ export default async function ApiDocsPage() {
                 Raw markdown
               </Link>
             </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/api/openapi.json">
+                <Braces className="h-4 w-4" />
+                OpenAPI
+              </Link>
+            </Button>
           </div>
         </div>
       </header>
@@ -3,11 +3,20 @@ import { NextRequest } from "next/server";
 import { GET as getIconsRoute } from "../icons/route";
 import { GET as getIconByIdRoute } from "../icons/[id]/route";
 import { POST as postGenerateRoute } from "../generate/route";
+import { POST as postBundleRoute } from "../bundle/route";
+import { POST as postGenerateBatchRoute } from "../generate/batch/route";
+import { POST as postCanvasRoute } from "../canvas/route";
+import { GET as getOpenApiRoute } from "../openapi.json/route";
+import JSZip from "jszip";
 import {
   getIconByIdServer,
   searchIconsServer,
 } from "@/src/utils/icon-catalog-server";
-import { renderSvgServer } from "@/src/utils/renderer-server";
+import {
+  renderRasterServer,
+  renderSvgServer,
+} from "@/src/utils/renderer-server";
+import { generateExportZipServer } from "@/src/utils/export-server";
 
 vi.mock("@/src/utils/icon-catalog-server", () => ({
   searchIconsServer: vi.fn(),
@@ -16,6 +25,12 @@ vi.mock("@/src/utils/icon-catalog-server", () => ({
 
 vi.mock("@/src/utils/renderer-server", () => ({
   renderSvgServer: vi.fn(),
+  renderRasterServer: vi.fn(),
+}));
+
+vi.mock("@/src/utils/export-server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/src/utils/export-server")>()),
+  generateExportZipServer: vi.fn(),
 }));
 
 describe("API routes", () => {
@@ -23,16 +38,21 @@ describe("API routes", () => {
     vi.mocked(searchIconsServer).mockReset();
     vi.mocked(getIconByIdServer).mockReset();
     vi.mocked(renderSvgServer).mockReset();
+    vi.mocked(renderRasterServer).mockReset();
+    vi.mocked(generateExportZipServer).mockReset();
   });
 
   it("returns filtered icon metadata for /api/icons", async () => {
     vi.mocked(searchIconsServer).mockResolvedValue([
       {
-        id: "feather-star",
-        name: "Star",
-        pack: "feather",
-        svg: "<svg />",
-        keywords: ["star"],
+        icon: {
+          id: "feather-star",
+          name: "Star",
+          pack: "feather",
+          svg: "<svg />",
+          keywords: ["star"],
+        },
+        score: 1,
       },
     ]);
 
@@ -46,6 +66,7 @@ describe("API routes", () => {
     expect(body.count).toBe(1);
     expect(body.icons[0].id).toBe("feather-star");
     expect(body.icons[0].svg).toBeUndefined();
+    expect(body.icons[0].score).toBe(1);
   });
 
   it("returns 404 for unknown icon in /api/icons/[id]", async () => {
@@ -137,6 +158,119 @@ describe("API routes", () => {
     expect(text).toBe("<svg>raw</svg>");
   });
 
+  it("returns PNG bytes when format=png is requested", async () => {
+    vi.mocked(getIconByIdServer).mockResolvedValue({
+      id: "feather-star",
+      name: "Star",
+      pack: "feather",
+      svg: '<svg viewBox="0 0 24 24"><path d="M0 0"/></svg>',
+      keywords: ["star"],
+    });
+    vi.mocked(renderRasterServer).mockResolvedValue(
+      Buffer.from([0x89, 0x50, 0x4e, 0x47])
+    );
+
+    const request = new NextRequest(
+      "http://localhost:3000/api/generate?format=png",
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+        },
+        body: JSON.stringify({
+          iconId: "feather-star",
+          size: 128,
+          width: 512,
+          height: 256,
+          cornerRadius: 20,
+          filename: "logo",
+        }),
+      }
+    );
+
+    const response = await postGenerateRoute(request);
+    const bytes = new Uint8Array(await response.arrayBuffer());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("image/png");
+    expect(response.headers.get("content-disposition")).toContain("logo.png");
+    expect(Array.from(bytes)).toEqual([0x89, 0x50, 0x4e, 0x47]);
+    expect(renderSvgServer).not.toHaveBeenCalled();
+    expect(renderRasterServer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        width: 512,
+        height: 256,
+        format: "png",
+        cornerRadius: 20,
+        quality: 0.92,
+      })
+    );
+  });
+
+  it("uses outputSize for raster dimensions and maps jpg to jpeg", async () => {
+    vi.mocked(getIconByIdServer).mockResolvedValue({
+      id: "feather-star",
+      name: "Star",
+      pack: "feather",
+      svg: '<svg viewBox="0 0 24 24"><path d="M0 0"/></svg>',
+      keywords: ["star"],
+    });
+    vi.mocked(renderRasterServer).mockResolvedValue(Buffer.from([0xff]));
+
+    const request = new NextRequest(
+      "http://localhost:3000/api/generate?format=jpg",
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+        },
+        body: JSON.stringify({
+          iconId: "feather-star",
+          outputSize: 1024,
+          quality: 80,
+        }),
+      }
+    );
+
+    const response = await postGenerateRoute(request);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("image/jpeg");
+    expect(response.headers.get("content-disposition")).toContain(
+      "generated-icon.jpg"
+    );
+    expect(renderRasterServer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        width: 1024,
+        height: 1024,
+        format: "jpeg",
+        quality: 0.8,
+      })
+    );
+  });
+
+  it("rejects unsupported /api/generate formats", async () => {
+    const request = new NextRequest(
+      "http://localhost:3000/api/generate?format=gif",
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+        },
+        body: JSON.stringify({ iconId: "feather-star" }),
+      }
+    );
+
+    const response = await postGenerateRoute(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error).toBe("validation_failed");
+    expect(body.message).toBe("Unsupported format 'gif'");
+    expect(body.details.supportedFormats).toContain("png");
+    expect(renderSvgServer).not.toHaveBeenCalled();
+  });
+
   it("returns validation error when /api/generate payload is invalid", async () => {
     const request = new NextRequest("http://localhost:3000/api/generate", {
       method: "POST",
@@ -155,4 +289,444 @@ describe("API routes", () => {
     expect(response.status).toBe(400);
     expect(body.error).toBe("validation_failed");
   });
+
+  it("returns a ZIP for /api/bundle with a built-in preset", async () => {
+    vi.mocked(getIconByIdServer).mockResolvedValue({
+      id: "feather-star",
+      name: "Star",
+      pack: "feather",
+      svg: '<svg viewBox="0 0 24 24"><path d="M0 0"/></svg>',
+      keywords: ["star"],
+    });
+    vi.mocked(generateExportZipServer).mockResolvedValue({
+      zip: new Uint8Array([0x50, 0x4b]),
+      metadata: {
+        exportedAt: "2024-01-01T00:00:00.000Z",
+        iconId: "feather-star",
+        iconName: "Star",
+        customization: {
+          backgroundColor: "#063940",
+          iconColor: "#ffffff",
+          iconSize: 123,
+        },
+        locations: [],
+        variants: ["favicon.ico"],
+      },
+      filenames: ["favicon.ico"],
+      issues: [],
+    });
+
+    const request = new NextRequest("http://localhost:3000/api/bundle", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        iconId: "feather-star",
+        presetId: "favicon-bundle",
+        cornerRadius: 25,
+      }),
+    });
+
+    const response = await postBundleRoute(request);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/zip");
+    expect(response.headers.get("content-disposition")).toContain(
+      "favicon-bundle-icons.zip"
+    );
+    const [, style, variants] = vi.mocked(generateExportZipServer).mock
+      .calls[0];
+    expect(style).toEqual(
+      expect.objectContaining({ cornerRadius: 25, iconSize: 123 })
+    );
+    expect(variants.map((v) => v.filename)).toContain("favicon.ico");
+  });
+
+  it("accepts inline variants for /api/bundle", async () => {
+    const iconGradient = {
+      type: "linear",
+      angle: 90,
+      stops: [
+        { color: "#ffffff", offset: 0 },
+        { color: "#ffcc00", offset: 100 },
+      ],
+    };
+    vi.mocked(getIconByIdServer).mockResolvedValue({
+      id: "feather-star",
+      name: "Star",
+      pack: "feather",
+      svg: '<svg viewBox="0 0 24 24"><path d="M0 0"/></svg>',
+      keywords: ["star"],
+    });
+    vi.mocked(generateExportZipServer).mockResolvedValue({
+      zip: new Uint8Array([0x50, 0x4b]),
+      metadata: {
+        exportedAt: "2024-01-01T00:00:00.000Z",
+        iconId: "feather-star",
+        iconName: "Star",
+        customization: {
+          backgroundColor: "#063940",
+          iconColor: "#ffffff",
+          iconSize: 123,
+        },
+        locations: [],
+        variants: ["brand.webp"],
+      },
+      filenames: ["brand.webp"],
+      issues: [],
+    });
+
+    const request = new NextRequest("http://localhost:3000/api/bundle", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        iconId: "feather-star",
+        variants: [
+          {
+            filename: "brand.webp",
+            width: 64,
+            height: 64,
+            format: "webp",
+            style: { iconColor: iconGradient },
+          },
+        ],
+        filename: "brand-assets",
+      }),
+    });
+
+    const response = await postBundleRoute(request);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-disposition")).toContain(
+      "brand-assets.zip"
+    );
+    expect(generateExportZipServer).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      [
+        expect.objectContaining({
+          filename: "brand.webp",
+          style: { iconColor: iconGradient },
+        }),
+      ],
+      expect.anything()
+    );
+  });
+
+  it("rejects /api/bundle requests without exactly one variant source", async () => {
+    const request = new NextRequest("http://localhost:3000/api/bundle", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ iconId: "feather-star" }),
+    });
+
+    const response = await postBundleRoute(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error).toBe("validation_failed");
+  });
+
+  it("returns 422 when /api/bundle variants break platform rules", async () => {
+    vi.mocked(getIconByIdServer).mockResolvedValue({
+      id: "feather-star",
+      name: "Star",
+      pack: "feather",
+      svg: "<svg />",
+      keywords: [],
+    });
+
+    const request = new NextRequest("http://localhost:3000/api/bundle", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        iconId: "feather-star",
+        variants: [
+          {
+            filename: "layers/ic_launcher_foreground.webp",
+            width: 432,
+            height: 432,
+            format: "webp",
+          },
+        ],
+        packaging: "android-adaptive-icon",
+      }),
+    });
+
+    const response = await postBundleRoute(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.error).toBe("platform_rules_failed");
+    expect(body.details.issues).toContainEqual(
+      expect.objectContaining({ severity: "error", rule: "required-file" })
+    );
+    expect(generateExportZipServer).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for unknown /api/bundle preset ids", async () => {
+    const request = new NextRequest("http://localhost:3000/api/bundle", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ iconId: "feather-star", presetId: "nope" }),
+    });
+
+    const response = await postBundleRoute(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(body.error).toBe("preset_not_found");
+  });
+
+  it("renders each /api/generate/batch job with shared defaults", async () => {
+    vi.mocked(getIconByIdServer).mockImplementation(async (id) =>
+      id === "missing"
+        ? null
+        : {
+            id,
+            name: id,
+            pack: "feather",
+            svg: '<svg viewBox="0 0 24 24"><path d="M0 0"/></svg>',
+            keywords: [],
+          }
+    );
+    vi.mocked(renderSvgServer).mockImplementation(
+      (options) => `<svg data-icon="${options.icon.id}"/>`
+    );
+
+    const request = new NextRequest(
+      "http://localhost:3000/api/generate/batch",
+      {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          defaults: { backgroundColor: "#111111", cornerRadius: 10 },
+          jobs: [
+            { iconId: "feather-star" },
+            { iconId: "feather-home", overrides: { iconColor: "#ff0000" } },
+            { iconId: "feather-bell", overrides: { iconColor: "red" } },
+            { iconId: "missing" },
+            { nope: true },
+          ],
+        }),
+      }
+    );
+
+    const response = await postGenerateBatchRoute(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.count).toBe(5);
+    expect(body.succeeded).toBe(2);
+    expect(body.failed).toBe(3);
+    expect(body.results[0]).toEqual({
+      index: 0,
+      iconId: "feather-star",
+      filename: "feather-star.svg",
+      svg: '<svg data-icon="feather-star"/>',
+    });
+    expect(body.results[2].error).toBe("validation_failed");
+    expect(body.results[2].details.fieldErrors.overrides).toBeDefined();
+    expect(body.results[3].error).toBe("icon_not_found");
+    expect(body.results[4].error).toBe("validation_failed");
+    expect(renderSvgServer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        backgroundColor: "#111111",
+        cornerRadius: 10,
+        iconColor: "#ff0000",
+      })
+    );
+  });
+
+  it("returns a ZIP keyed by filename for /api/generate/batch?format=zip", async () => {
+    vi.mocked(getIconByIdServer).mockImplementation(async (id) =>
+      id === "missing"
+        ? null
+        : {
+            id,
+            name: id,
+            pack: "feather",
+            svg: '<svg viewBox="0 0 24 24"><path d="M0 0"/></svg>',
+            keywords: [],
+          }
+    );
+    vi.mocked(renderSvgServer).mockReturnValue("<svg/>");
+
+    const request = new NextRequest(
+      "http://localhost:3000/api/generate/batch?format=zip",
+      {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          jobs: [
+            { iconId: "feather-star", filename: "logo" },
+            { iconId: "feather-home", filename: "logo" },
+            { iconId: "missing" },
+          ],
+        }),
+      }
+    );
+
+    const response = await postGenerateBatchRoute(request);
+    const zip = await JSZip.loadAsync(await response.arrayBuffer());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/zip");
+    expect(Object.keys(zip.files).sort()).toEqual([
+      "batch-errors.json",
+      "logo-2.svg",
+      "logo.svg",
+    ]);
+    const errors = JSON.parse(
+      await zip.file("batch-errors.json")!.async("string")
+    );
+    expect(errors[0]).toEqual(
+      expect.objectContaining({ index: 2, error: "icon_not_found" })
+    );
+  });
+
+  it("rejects /api/generate/batch requests with invalid defaults", async () => {
+    const request = new NextRequest(
+      "http://localhost:3000/api/generate/batch",
+      {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          defaults: { size: 9999 },
+          jobs: [{ iconId: "feather-star" }],
+        }),
+      }
+    );
+
+    const response = await postGenerateBatchRoute(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error).toBe("validation_failed");
+  });
+
+  it("returns an SVG composition for /api/canvas", async () => {
+    vi.mocked(getIconByIdServer).mockResolvedValue({
+      id: "feather-star",
+      name: "Star",
+      pack: "feather",
+      svg: '<svg viewBox="0 0 24 24"><path d="M1 1h22v22H1z"/></svg>',
+      keywords: ["star"],
+    });
+
+    const request = new NextRequest("http://localhost:3000/api/canvas", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        backgroundColor: "#112233",
+        outputSize: 512,
+        layers: [
+          { type: "icon", iconId: "feather-star", color: "#ffffff" },
+          { type: "text", text: "NEW", left: 768, top: 256, angle: -15 },
+        ],
+      }),
+    });
+
+    const response = await postCanvasRoute(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.layerCount).toBe(2);
+    expect(body.svg).toContain('width="512" height="512"');
+    expect(body.svg).toContain('fill="#112233"');
+    expect(body.svg).toContain("translate(768 256) rotate(-15)");
+  });
+
+  it("returns raw SVG for /api/canvas?format=svg", async () => {
+    const request = new NextRequest(
+      "http://localhost:3000/api/canvas?format=svg",
+      {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          layers: [{ type: "text", text: "Hi" }],
+          filename: "badge",
+        }),
+      }
+    );
+
+    const response = await postCanvasRoute(request);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("image/svg+xml");
+    expect(response.headers.get("content-disposition")).toContain("badge.svg");
+    expect(response.headers.get("content-security-policy")).toContain(
+      "default-src 'none'"
+    );
+    expect(await response.text()).toContain("<tspan");
+  });
+
+  it("does not serve script from /api/canvas image layer SVG markup", async () => {
+    const request = new NextRequest(
+      "http://localhost:3000/api/canvas?format=svg",
+      {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          layers: [
+            {
+              type: "image",
+              imageDataUrl: "data:image/svg+xml;base64,",
+              svgContent:
+                '<svg xmlns="http://www.w3.org/2000/svg" onload="alert(1)"><script>alert(2)</script></svg>',
+            },
+          ],
+        }),
+      }
+    );
+
+    const response = await postCanvasRoute(request);
+    const svg = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(svg).not.toContain("<script");
+    expect(svg).not.toContain("onload");
+  });
+
+  it("returns 404 when an /api/canvas icon layer is unknown", async () => {
+    vi.mocked(getIconByIdServer).mockResolvedValue(null);
+    const request = new NextRequest("http://localhost:3000/api/canvas", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        layers: [{ type: "icon", iconId: "missing" }],
+      }),
+    });
+
+    const response = await postCanvasRoute(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(body.error).toBe("icon_not_found");
+  });
+
+  it("rejects /api/canvas layers with unknown types", async () => {
+    const request = new NextRequest("http://localhost:3000/api/canvas", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        layers: [{ type: "shape" }],
+      }),
+    });
+
+    const response = await postCanvasRoute(request);
+
+    expect(response.status).toBe(400);
+  });
+
+  it("serves the OpenAPI document for /api/openapi.json", async () => {
+    const request = new NextRequest("http://localhost:3000/api/openapi.json");
+
+    const response = await getOpenApiRoute(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.openapi).toBe("3.1.0");
+    expect(body.servers).toHaveLength(1);
+    expect(body.paths["/api/generate"].post.operationId).toBe("generateIcon");
+  });
 });
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from "next/server";
+import { bundleRequestSchema } from "@/src/utils/api-schemas";
+import { getBuiltinExportPreset } from "@/src/utils/builtin-presets";
+import {
+  generateExportZipServer,
+  getBundleZipFilename,
+  toServerVariantSpec,
+} from "@/src/utils/export-server";
+import { resolveVariantFilenames } from "@/src/utils/filename-template";
+import { getIconByIdServer } from "@/src/utils/icon-catalog-server";
+import {
+  hasRuleErrors,
+  validatePresetRules,
+  type PlatformRuleIssue,
+} from "@/src/utils/platform-rules";
+
+export const runtime = "nodejs";
+
+function createZipFilename(
+  requestedFilename: string | undefined,
+  fallback: string
+): string {
+  if (!requestedFilename) {
+    return fallback;
+  }
+
+  const sanitized = requestedFilename.replace(/[^a-zA-Z0-9._-]/g, "-");
+  return sanitized.endsWith(".zip") ? sanitized : `${sanitized}.zip`;
+}
+
+function platformRulesFailed(issues: PlatformRuleIssue[]) {
+  return NextResponse.json(
+    {
+      error: "platform_rules_failed",
+      message: "The export does not meet the platform requirements",
+      details: { issues },
+    },
+    { status: 422 }
+  );
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsedBody = bundleRequestSchema.safeParse(await request.json());
+
+    if (!parsedBody.success) {
+      return NextResponse.json(
+        {
+          error: "validation_failed",
+          message: "Invalid request body",
+          details: parsedBody.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const payload = parsedBody.data;
+    const preset = payload.presetId
+      ? getBuiltinExportPreset(payload.presetId)
+      : undefined;
+    if (payload.presetId && !preset) {
+      return NextResponse.json(
+        {
+          error: "preset_not_found",
+          message: `Export preset '${payload.presetId}' was not found`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const icon = await getIconByIdServer(payload.iconId);
+    if (!icon) {
+      return NextResponse.json(
+        {
+          error: "icon_not_found",
+          message: `Icon '${payload.iconId}' was not found`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const packaging = preset?.packaging ?? payload.packaging;
+    const presetIssues = validatePresetRules({
+      id: preset?.id,
+      packaging,
+      variants: resolveVariantFilenames(
+        preset?.variants ?? payload.variants ?? [],
+        { iconId: icon.id, iconName: icon.name, preset: preset?.name }
+      ),
+    });
+    if (hasRuleErrors(presetIssues)) {
+      return platformRulesFailed(presetIssues);
+    }
+
+    const variants = (preset?.variants ?? payload.variants ?? []).map(
+      toServerVariantSpec
+    );
+    const result = await generateExportZipServer(
+      icon,
+      {
+        backgroundColor: payload.backgroundColor,
+        iconColor: payload.iconColor,
+        iconSize: payload.iconSize,
+        svgIconSize: payload.svgIconSize,
+        backgroundShape: payload.backgroundShape,
+        cornerRadius: payload.cornerRadius,
+        borderEnabled: payload.borderEnabled,
+        borderColor: payload.borderColor,
+        borderWidth: payload.borderWidth,
+        iconShadow: payload.iconShadow,
+        iconColorStyle: payload.iconColorStyle,
+        iconTransform: payload.iconTransform,
+      },
+      variants,
+      {
+        packaging,
+        presetName: preset?.name,
+        presetId: preset?.id,
+      }
+    );
+    if (hasRuleErrors(result.issues)) {
+      return platformRulesFailed(result.issues);
+    }
+
+    const filename = createZipFilename(
+      payload.filename,
+      getBundleZipFilename(preset)
+    );
+    return new NextResponse(new Uint8Array(result.zip), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Cache-Control": "no-store",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "X-Platform-Rule-Warnings": String(result.issues.length),
+      },
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Failed to generate bundle";
+    return NextResponse.json(
+      {
+        error: "bundle_generation_failed",
+        message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { canvasRenderRequestSchema } from "@/src/utils/api-schemas";
+import {
+  getCanvasIconIds,
+  renderCanvasSvgServer,
+} from "@/src/utils/canvas-export-server";
+import { getIconByIdServer } from "@/src/utils/icon-catalog-server";
+
+export const runtime = "nodejs";
+
+function shouldReturnRawSvg(request: NextRequest): boolean {
+  const explicitFormat = request.nextUrl.searchParams.get("format");
+  if (explicitFormat) {
+    return explicitFormat.toLowerCase() === "svg";
+  }
+
+  const accept = request.headers.get("accept")?.toLowerCase() ?? "";
+  return accept.includes("image/svg+xml");
+}
+
+function createSvgFilename(requestedFilename: string | undefined): string {
+  if (!requestedFilename) {
+    return "canvas-icon.svg";
+  }
+
+  const sanitized = requestedFilename.replace(/[^a-zA-Z0-9._-]/g, "-");
+  return sanitized.endsWith(".svg") ? sanitized : `${sanitized}.svg`;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsedBody = canvasRenderRequestSchema.safeParse(
+      await request.json()
+    );
+
+    if (!parsedBody.success) {
+      return NextResponse.json(
+        {
+          error: "validation_failed",
+          message: "Invalid request body",
+          details: parsedBody.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { outputSize, filename, ...canvasState } = parsedBody.data;
+
+    for (const iconId of getCanvasIconIds(canvasState)) {
+      const icon = await getIconByIdServer(iconId);
+      if (!icon) {
+        return NextResponse.json(
+          {
+            error: "icon_not_found",
+            message: `Icon '${iconId}' was not found`,
+          },
+          { status: 404 }
+        );
+      }
+    }
+
+    const svg = await renderCanvasSvgServer(canvasState, { outputSize });
+
+    if (shouldReturnRawSvg(request)) {
+      return new NextResponse(svg, {
+        headers: {
+          "Content-Type": "image/svg+xml; charset=utf-8",
+          "Cache-Control": "no-store",
+          "Content-Security-Policy":
+            "default-src 'none'; img-src data:; style-src 'unsafe-inline'",
+          "Content-Disposition": `inline; filename="${createSvgFilename(filename)}"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      outputSize,
+      layerCount: canvasState.layers.filter((layer) => layer.visible).length,
+      svg,
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Failed to render canvas";
+    return NextResponse.json(
+      {
+        error: "canvas_render_failed",
+        message,
+      },
+      { status: 500 }
+    );
+  }
+}
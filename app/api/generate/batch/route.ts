@@ -0,0 +1,215 @@
+import { NextRequest, NextResponse } from "next/server";
+import JSZip from "jszip";
+import {
+  batchJobSchema,
+  generateBatchRequestSchema,
+  generateRequestSchema,
+} from "@/src/utils/api-schemas";
+import { getIconByIdServer } from "@/src/utils/icon-catalog-server";
+import { renderSvgServer } from "@/src/utils/renderer-server";
+
+export const runtime = "nodejs";
+
+interface BatchItemSuccess {
+  index: number;
+  iconId: string;
+  filename: string;
+  svg: string;
+}
+
+interface BatchItemError {
+  index: number;
+  iconId?: string;
+  error: string;
+  message: string;
+  details?: unknown;
+}
+
+type BatchItemResult = BatchItemSuccess | BatchItemError;
+
+function isBatchItemError(result: BatchItemResult): result is BatchItemError {
+  return "error" in result;
+}
+
+function shouldReturnZip(request: NextRequest): boolean {
+  const explicitFormat = request.nextUrl.searchParams.get("format");
+  if (explicitFormat) {
+    return explicitFormat.toLowerCase() === "zip";
+  }
+
+  const accept = request.headers.get("accept")?.toLowerCase() ?? "";
+  return accept.includes("application/zip");
+}
+
+function createSvgFilename(
+  requestedFilename: string | undefined,
+  iconId: string
+): string {
+  const sanitized = (requestedFilename ?? iconId).replace(
+    /[^a-zA-Z0-9._-]/g,
+    "-"
+  );
+  return sanitized.endsWith(".svg") ? sanitized : `${sanitized}.svg`;
+}
+
+function dedupeFilename(filename: string, used: Set<string>): string {
+  let candidate = filename;
+  let counter = 2;
+  while (used.has(candidate)) {
+    candidate = filename.replace(/\.svg$/, `-${counter}.svg`);
+    counter++;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+async function runBatchJob(
+  job: unknown,
+  index: number,
+  defaults: Record<string, unknown>,
+  usedFilenames: Set<string>
+): Promise<BatchItemResult> {
+  const parsedJob = batchJobSchema.safeParse(job);
+  if (!parsedJob.success) {
+    return {
+      index,
+      error: "validation_failed",
+      message: "Invalid batch job",
+      details: parsedJob.error.flatten(),
+    };
+  }
+
+  const { iconId, filename, overrides } = parsedJob.data;
+  const parsedPayload = generateRequestSchema.safeParse({
+    ...defaults,
+    ...overrides,
+    iconId,
+  });
+  if (!parsedPayload.success) {
+    return {
+      index,
+      iconId,
+      error: "validation_failed",
+      message: "Invalid batch job",
+      details: parsedPayload.error.flatten(),
+    };
+  }
+
+  const payload = parsedPayload.data;
+
+  try {
+    const icon = await getIconByIdServer(iconId);
+    if (!icon) {
+      return {
+        index,
+        iconId,
+        error: "icon_not_found",
+        message: `Icon '${iconId}' was not found`,
+      };
+    }
+
+    const svg = renderSvgServer({
+      icon,
+      backgroundColor: payload.backgroundColor,
+      iconColor: payload.iconColor,
+      size: payload.size,
+      padding: payload.padding,
+      outputSize: payload.outputSize,
+      zendeskLocationMode: payload.zendeskLocationMode,
+      backgroundShape: payload.backgroundShape,
+      cornerRadius: payload.cornerRadius,
+      borderEnabled: payload.borderEnabled,
+      borderColor: payload.borderColor,
+      borderWidth: payload.borderWidth,
+      iconShadow: payload.iconShadow,
+      iconColorStyle: payload.iconColorStyle,
+      iconTransform: payload.iconTransform,
+    });
+
+    return {
+      index,
+      iconId,
+      filename: dedupeFilename(
+        createSvgFilename(filename, iconId),
+        usedFilenames
+      ),
+      svg,
+    };
+  } catch (error) {
+    return {
+      index,
+      iconId,
+      error: "svg_generation_failed",
+      message:
+        error instanceof Error ? error.message : "Failed to generate SVG",
+    };
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsedBody = generateBatchRequestSchema.safeParse(
+      await request.json()
+    );
+
+    if (!parsedBody.success) {
+      return NextResponse.json(
+        {
+          error: "validation_failed",
+          message: "Invalid request body",
+          details: parsedBody.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { defaults, jobs } = parsedBody.data;
+    const usedFilenames = new Set<string>();
+    const results: BatchItemResult[] = [];
+
+    // Run sequentially so generated filenames are deduplicated in job order
+    for (const [index, job] of jobs.entries()) {
+      results.push(await runBatchJob(job, index, defaults, usedFilenames));
+    }
+
+    const errors = results.filter(isBatchItemError);
+
+    if (shouldReturnZip(request)) {
+      const zip = new JSZip();
+      for (const result of results) {
+        if (!isBatchItemError(result)) {
+          zip.file(result.filename, result.svg);
+        }
+      }
+      if (errors.length > 0) {
+        zip.file("batch-errors.json", JSON.stringify(errors, null, 2));
+      }
+
+      const zipData = await zip.generateAsync({ type: "uint8array" });
+      return new NextResponse(new Uint8Array(zipData), {
+        headers: {
+          "Content-Type": "application/zip",
+          "Cache-Control": "no-store",
+          "Content-Disposition": 'attachment; filename="generated-icons.zip"',
+        },
+      });
+    }
+
+    return NextResponse.json({
+      count: results.length,
+      succeeded: results.length - errors.length,
+      failed: errors.length,
+      results,
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Failed to generate batch";
+    return NextResponse.json(
+      {
+        error: "batch_generation_failed",
+        message,
+      },
+      { status: 500 }
+    );
+  }
+}
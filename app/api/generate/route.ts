@@ -1,75 +1,102 @@
 import { NextRequest, NextResponse } from "next/server";
-import { z } from "zod";
+import { generateRequestSchema } from "@/src/utils/api-schemas";
 import { getIconByIdServer } from "@/src/utils/icon-catalog-server";
-import { renderSvgServer } from "@/src/utils/renderer-server";
+import {
+  renderRasterServer,
+  renderSvgServer,
+  type ServerRasterFormat,
+} from "@/src/utils/renderer-server";
 
 export const runtime = "nodejs";
 
-const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, {
-  message: "Expected color in #RRGGBB format",
-});
-
-const gradientStopSchema = z.object({
-  color: hexColorSchema,
-  offset: z.number().min(0).max(100),
-});
-
-const linearGradientSchema = z.object({
-  type: z.literal("linear"),
-  angle: z.number(),
-  stops: z.array(gradientStopSchema).min(2),
-});
-
-const radialGradientSchema = z.object({
-  type: z.literal("radial"),
-  centerX: z.number().min(0).max(100),
-  centerY: z.number().min(0).max(100),
-  radius: z.number().min(0).max(100),
-  stops: z.array(gradientStopSchema).min(2),
-});
-
-const backgroundSchema = z.union([
-  hexColorSchema,
-  linearGradientSchema,
-  radialGradientSchema,
-]);
-
-const generateRequestSchema = z.object({
-  iconId: z.string().min(1),
-  backgroundColor: backgroundSchema.default("#063940"),
-  iconColor: hexColorSchema.default("#ffffff"),
-  size: z.number().int().min(48).max(300).default(128),
-  padding: z.number().min(-200).max(200).default(8),
-  outputSize: z.number().int().min(16).max(4096).optional(),
-  zendeskLocationMode: z.boolean().default(false),
-  cornerRadius: z.number().min(0).max(100).default(0),
-  borderEnabled: z.boolean().default(false),
-  borderColor: hexColorSchema.default("#ffffff"),
-  borderWidth: z.number().min(0).max(64).default(6),
-  filename: z.string().min(1).max(120).optional(),
-});
-
-function shouldReturnRawSvg(request: NextRequest): boolean {
-  const explicitFormat = request.nextUrl.searchParams.get("format");
+type ResponseFormat = "json" | "svg" | ServerRasterFormat;
+
+const RASTER_MIME_TYPES: Record<ServerRasterFormat, string> = {
+  png: "image/png",
+  webp: "image/webp",
+  jpeg: "image/jpeg",
+};
+
+const RASTER_EXTENSIONS: Record<ServerRasterFormat, string> = {
+  png: "png",
+  webp: "webp",
+  jpeg: "jpg",
+};
+
+const SUPPORTED_FORMATS = ["json", "svg", "png", "webp", "jpeg", "jpg"];
+
+function isRasterFormat(format: ResponseFormat): format is ServerRasterFormat {
+  return format === "png" || format === "webp" || format === "jpeg";
+}
+
+/**
+ * Response format from `?format=` or the Accept header.
+ * Returns null for an unsupported `?format=` value.
+ */
+function resolveResponseFormat(request: NextRequest): ResponseFormat | null {
+  const explicitFormat = request.nextUrl.searchParams
+    .get("format")
+    ?.toLowerCase();
   if (explicitFormat) {
-    return explicitFormat.toLowerCase() === "svg";
+    if (explicitFormat === "jpg") {
+      return "jpeg";
+    }
+    if (
+      explicitFormat === "json" ||
+      explicitFormat === "svg" ||
+      explicitFormat === "png" ||
+      explicitFormat === "webp" ||
+      explicitFormat === "jpeg"
+    ) {
+      return explicitFormat;
+    }
+    return null;
   }
 
   const accept = request.headers.get("accept")?.toLowerCase() ?? "";
-  return accept.includes("image/svg+xml");
+  if (accept.includes("image/svg+xml")) {
+    return "svg";
+  }
+  if (accept.includes("image/png")) {
+    return "png";
+  }
+  if (accept.includes("image/webp")) {
+    return "webp";
+  }
+  if (accept.includes("image/jpeg")) {
+    return "jpeg";
+  }
+  return "json";
 }
 
-function createDownloadFilename(requestedFilename: string | undefined): string {
+function createDownloadFilename(
+  requestedFilename: string | undefined,
+  extension: string
+): string {
   if (!requestedFilename) {
-    return "generated-icon.svg";
+    return `generated-icon.${extension}`;
   }
 
   const sanitized = requestedFilename.replace(/[^a-zA-Z0-9._-]/g, "-");
-  return sanitized.endsWith(".svg") ? sanitized : `${sanitized}.svg`;
+  return sanitized.endsWith(`.${extension}`)
+    ? sanitized
+    : `${sanitized}.${extension}`;
 }
 
 export async function POST(request: NextRequest) {
   try {
+    const responseFormat = resolveResponseFormat(request);
+    if (!responseFormat) {
+      return NextResponse.json(
+        {
+          error: "validation_failed",
+          message: `Unsupported format '${request.nextUrl.searchParams.get("format")}'`,
+          details: { supportedFormats: SUPPORTED_FORMATS },
+        },
+        { status: 400 }
+      );
+    }
+
     const parsedBody = generateRequestSchema.safeParse(await request.json());
 
     if (!parsedBody.success) {
@@ -95,7 +122,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const svg = renderSvgServer({
+    const renderOptions = {
       icon,
       backgroundColor: payload.backgroundColor,
       iconColor: payload.iconColor,
@@ -103,14 +130,42 @@ export async function POST(request: NextRequest) {
       padding: payload.padding,
       outputSize: payload.outputSize,
       zendeskLocationMode: payload.zendeskLocationMode,
+      backgroundShape: payload.backgroundShape,
       cornerRadius: payload.cornerRadius,
       borderEnabled: payload.borderEnabled,
       borderColor: payload.borderColor,
       borderWidth: payload.borderWidth,
-    });
+      iconShadow: payload.iconShadow,
+      iconColorStyle: payload.iconColorStyle,
+      iconTransform: payload.iconTransform,
+    };
+
+    if (isRasterFormat(responseFormat)) {
+      const rasterSize = payload.outputSize ?? payload.size;
+      const image = await renderRasterServer({
+        ...renderOptions,
+        width: payload.width ?? rasterSize,
+        height: payload.height ?? rasterSize,
+        format: responseFormat,
+        quality: payload.quality / 100,
+      });
+      const filename = createDownloadFilename(
+        payload.filename,
+        RASTER_EXTENSIONS[responseFormat]
+      );
+      return new NextResponse(new Uint8Array(image), {
+        headers: {
+          "Content-Type": RASTER_MIME_TYPES[responseFormat],
+          "Cache-Control": "no-store",
+          "Content-Disposition": `inline; filename="${filename}"`,
+        },
+      });
+    }
+
+    const svg = renderSvgServer(renderOptions);
 
-    if (shouldReturnRawSvg(request)) {
-      const filename = createDownloadFilename(payload.filename);
+    if (responseFormat === "svg") {
+      const filename = createDownloadFilename(payload.filename, "svg");
       return new NextResponse(svg, {
         headers: {
           "Content-Type": "image/svg+xml; charset=utf-8",
@@ -133,10 +188,14 @@ export async function POST(request: NextRequest) {
         padding: payload.padding,
         outputSize: payload.outputSize ?? payload.size,
         zendeskLocationMode: payload.zendeskLocationMode,
+        backgroundShape: payload.backgroundShape,
         cornerRadius: payload.cornerRadius,
         borderEnabled: payload.borderEnabled,
         borderColor: payload.borderColor,
         borderWidth: payload.borderWidth,
+        iconShadow: payload.iconShadow,
+        iconColorStyle: payload.iconColorStyle,
+        iconTransform: payload.iconTransform,
       },
       svg,
     });
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { API_ICON_PACKS, ICON_SEARCH_LIMITS } from "@/src/utils/api-schemas";
 import {
   searchIconsServer,
   type ApiIconPack,
@@ -6,17 +7,6 @@ import {
 
 export const runtime = "nodejs";
 
-const API_ICON_PACKS: ApiIconPack[] = [
-  "all",
-  "garden",
-  "zendesk-garden",
-  "feather",
-  "remixicon",
-  "emoji",
-  "custom-svg",
-  "custom-image",
-];
-
 function normalizePackParam(pack: string | null): ApiIconPack {
   if (!pack) {
     return "all";
@@ -51,10 +41,20 @@ export async function GET(request: NextRequest) {
     const q = searchParams.get("q") ?? "";
     const pack = normalizePackParam(searchParams.get("pack"));
     const category = searchParams.get("category");
-    const limit = toSafeInteger(searchParams.get("limit"), 50, 1, 250);
-    const offset = toSafeInteger(searchParams.get("offset"), 0, 0, 10000);
+    const limit = toSafeInteger(
+      searchParams.get("limit"),
+      ICON_SEARCH_LIMITS.defaultLimit,
+      1,
+      ICON_SEARCH_LIMITS.maxLimit
+    );
+    const offset = toSafeInteger(
+      searchParams.get("offset"),
+      0,
+      0,
+      ICON_SEARCH_LIMITS.maxOffset
+    );
 
-    const icons = await searchIconsServer({
+    const results = await searchIconsServer({
       query: q,
       pack,
       category,
@@ -70,8 +70,8 @@ export async function GET(request: NextRequest) {
         limit,
         offset,
       },
-      count: icons.length,
-      icons: icons.map((icon) => ({
+      count: results.length,
+      icons: results.map(({ icon, score }) => ({
         id: icon.id,
         name: icon.name,
         pack: icon.pack,
@@ -80,6 +80,7 @@ export async function GET(request: NextRequest) {
         category: icon.category,
         size: icon.size,
         isRasterized: icon.isRasterized ?? false,
+        score,
       })),
     });
   } catch (error) {
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveDocsBaseUrl } from "@/src/utils/api-docs";
+import { buildOpenApiDocument } from "@/src/utils/openapi";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  try {
+    const baseUrl = resolveDocsBaseUrl({
+      host:
+        request.headers.get("x-forwarded-host") ?? request.headers.get("host"),
+      forwardedProto: request.headers.get("x-forwarded-proto"),
+    });
+
+    return NextResponse.json(buildOpenApiDocument(baseUrl), {
+      headers: {
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error
+        ? error.message
+        : "Failed to build OpenAPI document";
+    return NextResponse.json(
+      {
+        error: "openapi_build_failed",
+        message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -44,6 +44,10 @@ import {
   removeConfigFromUrl,
 } from "@/src/utils/restriction-codec";
 import { importUserPresets } from "@/src/utils/preset-storage";
+import { DEFAULT_BACKGROUND_SHAPE } from "@/src/utils/background-shape";
+import { DEFAULT_ICON_COLOR_STYLE } from "@/src/utils/icon-colors";
+import { DEFAULT_ICON_SHADOW } from "@/src/utils/icon-shadow";
+import { DEFAULT_ICON_TRANSFORM } from "@/src/utils/icon-transform";
 import type { PresetImportResult } from "@/src/types/preset";
 
 export default function Home() {
@@ -70,6 +74,9 @@ export default function Home() {
   // Track color analysis completion to trigger CustomImageColorOverride re-read
   const [colorAnalysisKey, setColorAnalysisKey] = React.useState(0);
 
+  // Icons multi-selected in the grid for batch export
+  const [batchIconIds, setBatchIconIds] = React.useState<string[]>([]);
+
   // Handle custom image color override changes
   const handleCustomImageColorOverride = React.useCallback(() => {
     // Increment key to trigger preview re-renders
@@ -161,10 +168,14 @@ export default function Home() {
       const firstStyle = allowedStyles[0];
       actions.setBackgroundColor(firstStyle.backgroundColor);
       actions.setIconColor(firstStyle.iconColor);
+      actions.setBackgroundShape(DEFAULT_BACKGROUND_SHAPE);
       actions.setCornerRadius(DEFAULT_APPEARANCE.CORNER_RADIUS);
       actions.setBorderEnabled(DEFAULT_APPEARANCE.BORDER_ENABLED);
       actions.setBorderColor(DEFAULT_APPEARANCE.BORDER_COLOR);
       actions.setBorderWidth(DEFAULT_APPEARANCE.BORDER_WIDTH);
+      actions.setIconShadow(DEFAULT_ICON_SHADOW);
+      actions.setIconColorStyle(DEFAULT_ICON_COLOR_STYLE);
+      actions.setIconTransform(DEFAULT_ICON_TRANSFORM);
       hasSetRestrictedStyleRef.current = true;
     }
   }, [isRestrictionLoading, isRestricted, allowedStyles, actions]);
@@ -381,6 +392,8 @@ export default function Home() {
                   onPackChange={actions.setSelectedPack}
                   selectedIconId={state.selectedIconId}
                   onIconSelect={actions.setSelectedIconId}
+                  selectedIconIds={batchIconIds}
+                  onSelectedIconIdsChange={setBatchIconIds}
                   selectedLocations={state.selectedLocations}
                   onColorAnalysisComplete={handleColorAnalysisComplete}
                 />
@@ -392,6 +405,8 @@ export default function Home() {
                   onBackgroundColorChange={actions.setBackgroundColor}
                   iconColor={state.iconColor}
                   onIconColorChange={actions.setIconColor}
+                  backgroundShape={state.backgroundShape}
+                  onBackgroundShapeChange={actions.setBackgroundShape}
                   cornerRadius={state.cornerRadius}
                   onCornerRadiusChange={actions.setCornerRadius}
                   borderEnabled={state.borderEnabled}
@@ -400,6 +415,12 @@ export default function Home() {
                   onBorderColorChange={actions.setBorderColor}
                   borderWidth={state.borderWidth}
                   onBorderWidthChange={actions.setBorderWidth}
+                  iconShadow={state.iconShadow}
+                  onIconShadowChange={actions.setIconShadow}
+                  iconColorStyle={state.iconColorStyle}
+                  onIconColorStyleChange={actions.setIconColorStyle}
+                  iconTransform={state.iconTransform}
+                  onIconTransformChange={actions.setIconTransform}
                   iconSize={state.iconSize}
                   onIconSizeChange={actions.setIconSize}
                   svgIconSize={state.svgIconSize}
@@ -416,6 +437,7 @@ export default function Home() {
                   selectedIconId={state.selectedIconId}
                   state={state}
                   colorOverrideKey={colorOverrideKey}
+                  batchIconIds={batchIconIds}
                 />
               </div>
             </>
@@ -4,8 +4,10 @@ import * as React from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Settings,
+  Move,
   Palette,
   SlidersHorizontal,
+  Sparkles,
   SquareRoundCorner,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -19,6 +21,10 @@ import {
 import { ColorPicker } from "@/src/components/ColorPicker";
 import { EffectSlider } from "@/src/components/EffectSlider";
 import { BackgroundControls } from "@/src/components/BackgroundControls";
+import { BackgroundShapeSelect } from "@/src/components/BackgroundShapeSelect";
+import { IconColorControls } from "@/src/components/IconColorControls";
+import { IconShadowControls } from "@/src/components/IconShadowControls";
+import { IconTransformControls } from "@/src/components/IconTransformControls";
 import { StylePresetEditor } from "@/src/components/StylePresetEditor";
 import { PresetSettingsModal } from "@/src/components/PresetSettingsModal";
 import { StylePresetSelector } from "@/src/components/StylePresetSelector";
@@ -29,7 +35,20 @@ import {
 } from "@/src/constants/app";
 import { useDebouncedValue } from "@/src/hooks/use-debounced-value";
 import { usePresets } from "@/src/hooks/use-presets";
+import {
+  DEFAULT_BACKGROUND_SHAPE,
+  type BackgroundShape,
+} from "@/src/utils/background-shape";
 import type { BackgroundValue } from "@/src/utils/gradients";
+import {
+  DEFAULT_ICON_COLOR_STYLE,
+  type IconColorStyle,
+} from "@/src/utils/icon-colors";
+import { DEFAULT_ICON_SHADOW, type IconShadow } from "@/src/utils/icon-shadow";
+import {
+  DEFAULT_ICON_TRANSFORM,
+  type IconTransform,
+} from "@/src/utils/icon-transform";
 import type { StylePreset } from "@/src/types/preset";
 import { isCustomImageIcon } from "@/src/utils/locations";
 import { useRestriction } from "@/src/contexts/RestrictionContext";
@@ -42,8 +61,10 @@ const SLIDER_DEBOUNCE_DELAY_MS = 300;
 export interface CustomizationControlsPaneProps {
   backgroundColor?: BackgroundValue;
   onBackgroundColorChange?: (color: BackgroundValue) => void;
-  iconColor?: string;
-  onIconColorChange?: (color: string) => void;
+  iconColor?: BackgroundValue;
+  onIconColorChange?: (color: BackgroundValue) => void;
+  backgroundShape?: BackgroundShape;
+  onBackgroundShapeChange?: (shape: BackgroundShape) => void;
   cornerRadius?: number;
   onCornerRadiusChange?: (radius: number) => void;
   borderEnabled?: boolean;
@@ -52,6 +73,12 @@ export interface CustomizationControlsPaneProps {
   onBorderColorChange?: (color: string) => void;
   borderWidth?: number;
   onBorderWidthChange?: (width: number) => void;
+  iconShadow?: IconShadow;
+  onIconShadowChange?: (shadow: IconShadow) => void;
+  iconColorStyle?: IconColorStyle;
+  onIconColorStyleChange?: (style: IconColorStyle) => void;
+  iconTransform?: IconTransform;
+  onIconTransformChange?: (transform: IconTransform) => void;
   iconSize?: number;
   onIconSizeChange?: (size: number) => void;
   svgIconSize?: number;
@@ -68,6 +95,8 @@ export function CustomizationControlsPane({
   onBackgroundColorChange,
   iconColor = DEFAULT_COLORS.ICON,
   onIconColorChange,
+  backgroundShape = DEFAULT_BACKGROUND_SHAPE,
+  onBackgroundShapeChange,
   cornerRadius = DEFAULT_APPEARANCE.CORNER_RADIUS,
   onCornerRadiusChange,
   borderEnabled = DEFAULT_APPEARANCE.BORDER_ENABLED,
@@ -76,6 +105,12 @@ export function CustomizationControlsPane({
   onBorderColorChange,
   borderWidth = DEFAULT_APPEARANCE.BORDER_WIDTH,
   onBorderWidthChange,
+  iconShadow = DEFAULT_ICON_SHADOW,
+  onIconShadowChange,
+  iconColorStyle = DEFAULT_ICON_COLOR_STYLE,
+  onIconColorStyleChange,
+  iconTransform = DEFAULT_ICON_TRANSFORM,
+  onIconTransformChange,
   iconSize = ICON_GRID.DEFAULT_ICON_SIZE,
   onIconSizeChange,
   svgIconSize = ICON_GRID.DEFAULT_ICON_SIZE,
@@ -154,6 +189,11 @@ export function CustomizationControlsPane({
       if (onIconColorChange) {
         onIconColorChange(preset.iconColor);
       }
+      if (onBackgroundShapeChange) {
+        onBackgroundShapeChange(
+          preset.backgroundShape ?? DEFAULT_BACKGROUND_SHAPE
+        );
+      }
       if (onCornerRadiusChange) {
         onCornerRadiusChange(preset.cornerRadius);
       }
@@ -166,14 +206,19 @@ export function CustomizationControlsPane({
       if (onBorderWidthChange) {
         onBorderWidthChange(preset.borderWidth);
       }
+      if (onIconShadowChange) {
+        onIconShadowChange(preset.iconShadow ?? DEFAULT_ICON_SHADOW);
+      }
     },
     [
       onBackgroundColorChange,
       onIconColorChange,
+      onBackgroundShapeChange,
       onCornerRadiusChange,
       onBorderEnabledChange,
       onBorderColorChange,
       onBorderWidthChange,
+      onIconShadowChange,
     ]
   );
 
@@ -252,6 +297,32 @@ export function CustomizationControlsPane({
   );
   const lastPropBorderWidthRef = React.useRef(borderWidth);
 
+  // Debounce icon shadow changes
+  const [localIconShadow, setLocalIconShadow] = React.useState(iconShadow);
+  const debouncedIconShadow = useDebouncedValue(
+    localIconShadow,
+    SLIDER_DEBOUNCE_DELAY_MS
+  );
+  const lastPropIconShadowRef = React.useRef(iconShadow);
+
+  // Debounce icon color style changes (secondary opacity slider)
+  const [localIconColorStyle, setLocalIconColorStyle] =
+    React.useState(iconColorStyle);
+  const debouncedIconColorStyle = useDebouncedValue(
+    localIconColorStyle,
+    SLIDER_DEBOUNCE_DELAY_MS
+  );
+  const lastPropIconColorStyleRef = React.useRef(iconColorStyle);
+
+  // Debounce icon transform changes
+  const [localIconTransform, setLocalIconTransform] =
+    React.useState(iconTransform);
+  const debouncedIconTransform = useDebouncedValue(
+    localIconTransform,
+    SLIDER_DEBOUNCE_DELAY_MS
+  );
+  const lastPropIconTransformRef = React.useRef(iconTransform);
+
   // Update parent when debounced value changes
   React.useEffect(() => {
     if (onIconSizeChange && debouncedIconSize !== lastPropSizeRef.current) {
@@ -290,6 +361,36 @@ export function CustomizationControlsPane({
     }
   }, [debouncedBorderWidth, onBorderWidthChange]);
 
+  React.useEffect(() => {
+    if (
+      onIconShadowChange &&
+      debouncedIconShadow !== lastPropIconShadowRef.current
+    ) {
+      lastPropIconShadowRef.current = debouncedIconShadow;
+      onIconShadowChange(debouncedIconShadow);
+    }
+  }, [debouncedIconShadow, onIconShadowChange]);
+
+  React.useEffect(() => {
+    if (
+      onIconColorStyleChange &&
+      debouncedIconColorStyle !== lastPropIconColorStyleRef.current
+    ) {
+      lastPropIconColorStyleRef.current = debouncedIconColorStyle;
+      onIconColorStyleChange(debouncedIconColorStyle);
+    }
+  }, [debouncedIconColorStyle, onIconColorStyleChange]);
+
+  React.useEffect(() => {
+    if (
+      onIconTransformChange &&
+      debouncedIconTransform !== lastPropIconTransformRef.current
+    ) {
+      lastPropIconTransformRef.current = debouncedIconTransform;
+      onIconTransformChange(debouncedIconTransform);
+    }
+  }, [debouncedIconTransform, onIconTransformChange]);
+
   // Sync local state when prop changes externally
   React.useEffect(() => {
     if (iconSize !== lastPropSizeRef.current) {
@@ -319,6 +420,27 @@ export function CustomizationControlsPane({
     }
   }, [borderWidth]);
 
+  React.useEffect(() => {
+    if (iconShadow !== lastPropIconShadowRef.current) {
+      lastPropIconShadowRef.current = iconShadow;
+      setLocalIconShadow(iconShadow);
+    }
+  }, [iconShadow]);
+
+  React.useEffect(() => {
+    if (iconColorStyle !== lastPropIconColorStyleRef.current) {
+      lastPropIconColorStyleRef.current = iconColorStyle;
+      setLocalIconColorStyle(iconColorStyle);
+    }
+  }, [iconColorStyle]);
+
+  React.useEffect(() => {
+    if (iconTransform !== lastPropIconTransformRef.current) {
+      lastPropIconTransformRef.current = iconTransform;
+      setLocalIconTransform(iconTransform);
+    }
+  }, [iconTransform]);
+
   const handleIconSizeChange = (value: number) => {
     setLocalIconSize(value);
   };
@@ -433,6 +555,25 @@ export function CustomizationControlsPane({
             </AccordionItem>
           ) : null}
 
+          {!isRestrictionLoading && !isRestricted && onIconTransformChange ? (
+            <AccordionItem value="position">
+              <AccordionTrigger>
+                <AccordionSectionHeader icon={Move} title="Position" />
+              </AccordionTrigger>
+              <AccordionContent>
+                <div className="space-y-4">
+                  <IconTransformControls
+                    value={localIconTransform}
+                    onChange={setLocalIconTransform}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Nudge, rotate or mirror the icon after it is centered.
+                  </p>
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+          ) : null}
+
           {!isRestrictionLoading &&
           !isRestricted &&
           onCornerRadiusChange &&
@@ -447,16 +588,26 @@ export function CustomizationControlsPane({
               </AccordionTrigger>
               <AccordionContent>
                 <div className="space-y-5">
-                  <EffectSlider
-                    id="corner-radius"
-                    label="Corner Radius"
-                    value={localCornerRadius}
-                    onChange={handleCornerRadiusChange}
-                    min={0}
-                    max={100}
-                    step={1}
-                    unit="%"
-                  />
+                  {onBackgroundShapeChange ? (
+                    <BackgroundShapeSelect
+                      id="background-shape"
+                      value={backgroundShape}
+                      onChange={onBackgroundShapeChange}
+                    />
+                  ) : null}
+
+                  {backgroundShape === "rounded" ? (
+                    <EffectSlider
+                      id="corner-radius"
+                      label="Corner Radius"
+                      value={localCornerRadius}
+                      onChange={handleCornerRadiusChange}
+                      min={0}
+                      max={100}
+                      step={1}
+                      unit="%"
+                    />
+                  ) : null}
 
                   <div className="flex items-center justify-between gap-3 border-t border-border/60 pt-4">
                     <label
@@ -496,6 +647,31 @@ export function CustomizationControlsPane({
             </AccordionItem>
           ) : null}
 
+          {!isRestrictionLoading &&
+          !isRestricted &&
+          onIconShadowChange &&
+          !isCustomImage ? (
+            <AccordionItem value="effects">
+              <AccordionTrigger>
+                <AccordionSectionHeader icon={Sparkles} title="Effects" />
+              </AccordionTrigger>
+              <AccordionContent>
+                <div className="space-y-4">
+                  <IconShadowControls
+                    value={localIconShadow}
+                    onChange={setLocalIconShadow}
+                    paletteColors={selectedStylePreset?.colorPalette}
+                  />
+                  {hasSvgVariants && localIconShadow.type !== "none" ? (
+                    <p className="text-xs text-muted-foreground">
+                      Transparent location SVG exports ignore the shadow.
+                    </p>
+                  ) : null}
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+          ) : null}
+
           <AccordionItem value="colors">
             <AccordionTrigger>
               <AccordionSectionHeader icon={Palette} title="Colors" />
@@ -518,9 +694,9 @@ export function CustomizationControlsPane({
                     {onIconColorChange &&
                     !selectedIconId?.startsWith("emoji-") &&
                     !isCustomImage ? (
-                      <ColorPicker
-                        id="icon-color"
+                      <BackgroundControls
                         label="Icon Color"
+                        id="icon-color"
                         value={iconColor}
                         onChange={onIconColorChange}
                         colorType="icon"
@@ -528,6 +704,17 @@ export function CustomizationControlsPane({
                         paletteColors={selectedStylePreset?.colorPalette}
                       />
                     ) : null}
+                    {onIconColorStyleChange &&
+                    !selectedIconId?.startsWith("emoji-") &&
+                    !isCustomImage ? (
+                      <IconColorControls
+                        value={localIconColorStyle}
+                        onChange={setLocalIconColorStyle}
+                        iconId={selectedIconId}
+                        iconColor={iconColor}
+                        paletteColors={selectedStylePreset?.colorPalette}
+                      />
+                    ) : null}
                     {borderEnabled && onBorderColorChange ? (
                       <ColorPicker
                         id="border-color"
@@ -28,6 +28,8 @@ import {
   Image as ImageIcon,
   Layers,
   PenTool,
+  Package,
+  ListChecks,
 } from "lucide-react";
 import { IconGrid } from "@/src/components/IconGrid";
 import { useKeyboardShortcuts } from "@/src/hooks/use-keyboard-shortcuts";
@@ -38,7 +40,13 @@ import { getFavorites } from "@/src/utils/local-storage";
 import { EmojiInput } from "@/src/components/EmojiInput";
 import { CustomSvgInput } from "@/src/components/CustomSvgInput";
 import { CustomImageInput } from "@/src/components/CustomImageInput";
+import { UserIconPackInput } from "@/src/components/UserIconPackInput";
 import { getRemixIconCategories } from "@/src/utils/icon-catalog";
+import {
+  getUserIconPacks,
+  removeUserIconPack,
+} from "@/src/utils/user-icon-packs";
+import type { UserIconPack } from "@/src/types/icon";
 import type { AppLocation } from "@/src/types/app-location";
 import { useRestriction } from "@/src/contexts/RestrictionContext";
 
@@ -49,6 +57,9 @@ export interface IconSearchPaneProps {
   onPackChange?: (pack: IconPack) => void;
   selectedIconId?: string;
   onIconSelect?: (iconId: string) => void;
+  /** Icons selected for multi-icon (batch) export */
+  selectedIconIds?: string[];
+  onSelectedIconIdsChange?: (iconIds: string[]) => void;
   /** Selected app locations - kept for backwards compatibility */
   selectedLocations?: AppLocation[];
   /** When true, shows minimal UI (just pack selector) for canvas mode */
@@ -64,6 +75,8 @@ export function IconSearchPane({
   onPackChange,
   selectedIconId,
   onIconSelect,
+  selectedIconIds = [],
+  onSelectedIconIdsChange,
   isCanvasMode = false,
   onColorAnalysisComplete,
 }: IconSearchPaneProps) {
@@ -74,7 +87,7 @@ export function IconSearchPane({
     isIconPackAllowed,
     isLoading: isRestrictionLoading,
   } = useRestriction();
-  const [sortBy, setSortBy] = React.useState<SortOption>("name");
+  const [sortBy, setSortBy] = React.useState<SortOption>("relevance");
   const [_favorites, setFavorites] = React.useState<string[]>([]);
   const [selectedCategory, setSelectedCategory] = React.useState<string | null>(
     null
@@ -82,6 +95,11 @@ export function IconSearchPane({
   const [remixiconCategories, setRemixiconCategories] = React.useState<
     string[]
   >([]);
+  const [isMultiSelect, setIsMultiSelect] = React.useState(false);
+  const [userPacks, setUserPacks] = React.useState<UserIconPack[]>([]);
+  const [selectedUserPackId, setSelectedUserPackId] = React.useState<
+    string | null
+  >(null);
 
   React.useEffect(() => {
     setIsMac(navigator.platform.toUpperCase().indexOf("MAC") >= 0);
@@ -100,11 +118,21 @@ export function IconSearchPane({
     }
   }, [selectedPack]);
 
+  // Load imported packs when the user pack source is selected
+  React.useEffect(() => {
+    if (selectedPack === ICON_PACKS.USER_PACK) {
+      setUserPacks(getUserIconPacks());
+    } else {
+      setSelectedUserPackId(null);
+    }
+  }, [selectedPack]);
+
   // Use the icon search hook
   const { icons, isLoading, error } = useIconSearch({
     searchQuery,
     selectedPack,
     selectedCategory,
+    selectedUserPackId,
     sortBy,
   });
 
@@ -118,6 +146,22 @@ export function IconSearchPane({
     []
   );
 
+  const handleUserPackImported = (pack: UserIconPack) => {
+    setUserPacks(getUserIconPacks());
+    setSelectedUserPackId(pack.id);
+    // Trigger refresh of icon search to show the new pack
+    window.dispatchEvent(new Event("icon-favorites-changed"));
+  };
+
+  const handleUserPackRemove = (packId: string) => {
+    removeUserIconPack(packId);
+    setUserPacks(getUserIconPacks());
+    if (selectedUserPackId === packId) {
+      setSelectedUserPackId(null);
+    }
+    window.dispatchEvent(new Event("icon-favorites-changed"));
+  };
+
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     onSearchChange?.(e.target.value);
   };
@@ -141,6 +185,14 @@ export function IconSearchPane({
     onIconSelect?.(iconId);
   };
 
+  const handleIconToggle = (iconId: string) => {
+    onSelectedIconIdsChange?.(
+      selectedIconIds.includes(iconId)
+        ? selectedIconIds.filter((id) => id !== iconId)
+        : [...selectedIconIds, iconId]
+    );
+  };
+
   const handleRandomIcon = () => {
     if (icons.length === 0) return;
     const randomIndex = Math.floor(Math.random() * icons.length);
@@ -198,6 +250,14 @@ export function IconSearchPane({
                   </span>
                 </SelectItem>
               )}
+              {isIconPackAllowed(ICON_PACKS.LUCIDE) && (
+                <SelectItem value={ICON_PACKS.LUCIDE}>
+                  <span className="flex items-center gap-2">
+                    <Library className="size-4" />
+                    Lucide
+                  </span>
+                </SelectItem>
+              )}
               {isIconPackAllowed(ICON_PACKS.EMOJI) && (
                 <SelectItem value={ICON_PACKS.EMOJI}>
                   <span className="flex items-center gap-2">
@@ -222,6 +282,14 @@ export function IconSearchPane({
                   </span>
                 </SelectItem>
               )}
+              {isIconPackAllowed(ICON_PACKS.USER_PACK) && (
+                <SelectItem value={ICON_PACKS.USER_PACK}>
+                  <span className="flex items-center gap-2">
+                    <Package className="size-4" />
+                    My Icon Packs
+                  </span>
+                </SelectItem>
+              )}
               {isIconPackAllowed(ICON_PACKS.CANVAS) && (
                 <SelectItem value={ICON_PACKS.CANVAS}>
                   <span className="flex items-center gap-2">
@@ -307,6 +375,31 @@ export function IconSearchPane({
               </TooltipContent>
             </Tooltip>
           </TooltipProvider>
+          {onSelectedIconIdsChange && (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    type="button"
+                    variant={isMultiSelect ? "default" : "outline"}
+                    size="icon-lg"
+                    onClick={() => setIsMultiSelect((prev) => !prev)}
+                    aria-label="Select multiple icons"
+                    aria-pressed={isMultiSelect}
+                    className="cursor-pointer"
+                  >
+                    <ListChecks className="size-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>
+                    Select multiple icons for batch export (or{" "}
+                    {isMac ? "⌘" : "Ctrl"}+click)
+                  </p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )}
         </div>
 
         {/* Sort Control */}
@@ -325,6 +418,7 @@ export function IconSearchPane({
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
+              <SelectItem value="relevance">Best Match</SelectItem>
               <SelectItem value="name">Name</SelectItem>
               <SelectItem value="recent">Recently Used</SelectItem>
               <SelectItem value="favorites">Favorites First</SelectItem>
@@ -373,6 +467,14 @@ export function IconSearchPane({
                   </span>
                 </SelectItem>
               )}
+              {isIconPackAllowed(ICON_PACKS.LUCIDE) && (
+                <SelectItem value={ICON_PACKS.LUCIDE}>
+                  <span className="flex items-center gap-2">
+                    <Library className="size-4" />
+                    Lucide
+                  </span>
+                </SelectItem>
+              )}
               {isIconPackAllowed(ICON_PACKS.EMOJI) && (
                 <SelectItem value={ICON_PACKS.EMOJI}>
                   <span className="flex items-center gap-2">
@@ -397,6 +499,14 @@ export function IconSearchPane({
                   </span>
                 </SelectItem>
               )}
+              {isIconPackAllowed(ICON_PACKS.USER_PACK) && (
+                <SelectItem value={ICON_PACKS.USER_PACK}>
+                  <span className="flex items-center gap-2">
+                    <Package className="size-4" />
+                    My Icon Packs
+                  </span>
+                </SelectItem>
+              )}
               {isIconPackAllowed(ICON_PACKS.CANVAS) && (
                 <SelectItem value={ICON_PACKS.CANVAS}>
                   <span className="flex items-center gap-2">
@@ -440,6 +550,52 @@ export function IconSearchPane({
             </div>
           )}
 
+        {/* Pack Selector (only for imported user packs) */}
+        {selectedPack === ICON_PACKS.USER_PACK && userPacks.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="user-pack-select">Pack</Label>
+            <Select
+              value={selectedUserPackId || "all"}
+              onValueChange={(value) =>
+                setSelectedUserPackId(value === "all" ? null : value)
+              }
+            >
+              <SelectTrigger id="user-pack-select" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Packs</SelectItem>
+                {userPacks.map((pack) => (
+                  <SelectItem key={pack.id} value={pack.id}>
+                    {pack.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {/* Multi-selection summary */}
+        {selectedIconIds.length > 0 && (
+          <div className="flex items-center justify-between rounded-md border bg-muted/30 px-3 py-1.5 text-sm">
+            <span>
+              {selectedIconIds.length} icon
+              {selectedIconIds.length !== 1 ? "s" : ""} selected for batch
+              export
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => onSelectedIconIdsChange?.([])}
+            >
+              <X className="mr-1 size-3" />
+              Clear
+            </Button>
+          </div>
+        )}
+
         {/* Content based on selected pack */}
         <div className="flex-1 min-h-0 overflow-hidden">
           {selectedPack === ICON_PACKS.CANVAS ? (
@@ -477,6 +633,35 @@ export function IconSearchPane({
                 handleIconSelect(customIconId);
               }}
             />
+          ) : selectedPack === ICON_PACKS.USER_PACK ? (
+            <div className="flex flex-col gap-4 h-full min-h-0">
+              <UserIconPackInput
+                packs={userPacks}
+                onPackImported={handleUserPackImported}
+                onPackRemove={handleUserPackRemove}
+              />
+              {error ? (
+                <div className="flex items-center justify-center h-full text-destructive">
+                  <p>Error loading icons: {error.message}</p>
+                </div>
+              ) : (
+                <div className="flex-1 min-h-0 overflow-hidden">
+                  <IconGrid
+                    icons={icons}
+                    selectedIconId={selectedIconId}
+                    onIconSelect={handleIconSelect}
+                    selectedIconIds={selectedIconIds}
+                    onIconToggle={
+                      onSelectedIconIdsChange ? handleIconToggle : undefined
+                    }
+                    multiSelect={isMultiSelect}
+                    onFavoriteToggle={handleFavoriteToggle}
+                    searchQuery={searchQuery}
+                    isLoading={isLoading}
+                  />
+                </div>
+              )}
+            </div>
           ) : selectedPack === ICON_PACKS.EMOJI ? (
             <div className="flex flex-col gap-4 h-full min-h-0">
               <EmojiInput
@@ -504,6 +689,11 @@ export function IconSearchPane({
                     icons={icons}
                     selectedIconId={selectedIconId}
                     onIconSelect={handleIconSelect}
+                    selectedIconIds={selectedIconIds}
+                    onIconToggle={
+                      onSelectedIconIdsChange ? handleIconToggle : undefined
+                    }
+                    multiSelect={isMultiSelect}
                     onFavoriteToggle={handleFavoriteToggle}
                     onRemove={
                       selectedPack === ICON_PACKS.EMOJI ? () => {} : undefined
@@ -523,6 +713,11 @@ export function IconSearchPane({
               icons={icons}
               selectedIconId={selectedIconId}
               onIconSelect={handleIconSelect}
+              selectedIconIds={selectedIconIds}
+              onIconToggle={
+                onSelectedIconIdsChange ? handleIconToggle : undefined
+              }
+              multiSelect={isMultiSelect}
               onFavoriteToggle={handleFavoriteToggle}
               searchQuery={searchQuery}
               isLoading={isLoading}
@@ -32,11 +32,15 @@ import { useIconMetadata } from "@/src/hooks/use-icon-metadata";
 import { isCustomImageIcon } from "@/src/utils/locations";
 import { useRestriction } from "@/src/contexts/RestrictionContext";
 import type { ColorPaletteEntry, ExportPreset } from "@/src/types/preset";
+import { isIconContainerFormat } from "@/src/types/preset";
 import {
   getColorOverride,
   getColorAnalysis,
 } from "@/src/utils/image-color-analysis";
 
+/** Stable default for `batchIconIds` (a new array would rerun effects) */
+const EMPTY_ICON_IDS: string[] = [];
+
 export interface PreviewPaneProps {
   selectedLocations?: AppLocation[];
   selectedIconId?: string;
@@ -47,6 +51,8 @@ export interface PreviewPaneProps {
   canvasActions?: CanvasEditorActions;
   /** Key to trigger re-render when custom image color override changes */
   colorOverrideKey?: number;
+  /** Icons multi-selected for batch export */
+  batchIconIds?: string[];
 }
 
 export function PreviewPane({
@@ -56,6 +62,7 @@ export function PreviewPane({
   canvasState: externalCanvasState,
   canvasActions: externalCanvasActions,
   colorOverrideKey,
+  batchIconIds = EMPTY_ICON_IDS,
 }: PreviewPaneProps) {
   const [isExportModalOpen, setIsExportModalOpen] = React.useState(false);
   const [isAddLayerModalOpen, setIsAddLayerModalOpen] = React.useState(false);
@@ -221,10 +228,12 @@ export function PreviewPane({
             height: 512,
             colorOverride,
             originalColor,
+            backgroundShape: state.backgroundShape,
             cornerRadius: state.cornerRadius,
             borderEnabled: state.borderEnabled,
             borderColor: state.borderColor,
             borderWidth: state.borderWidth,
+            iconTransform: state.iconTransform,
           });
           if (cancelled) return;
           currentUrl = URL.createObjectURL(blob);
@@ -240,10 +249,14 @@ export function PreviewPane({
             size: state.iconSize,
             width: 512,
             height: 512,
+            backgroundShape: state.backgroundShape,
             cornerRadius: state.cornerRadius,
             borderEnabled: state.borderEnabled,
             borderColor: state.borderColor,
             borderWidth: state.borderWidth,
+            iconShadow: state.iconShadow,
+            iconColorStyle: state.iconColorStyle,
+            iconTransform: state.iconTransform,
           });
           if (cancelled) return;
           currentUrl = URL.createObjectURL(blob);
@@ -308,9 +321,15 @@ export function PreviewPane({
 
     let skipped = 0;
     for (const v of actualSelectedExportPreset.variants) {
-      if (isCanvasMode && (v.format === "svg" || v.format === "ico")) {
+      if (
+        isCanvasMode &&
+        (v.format === "svg" || isIconContainerFormat(v.format))
+      ) {
         skipped++;
-      } else if (isCustomImage && (v.format === "svg" || v.format === "ico")) {
+      } else if (
+        isCustomImage &&
+        (v.format === "svg" || isIconContainerFormat(v.format))
+      ) {
         skipped++;
       }
     }
@@ -325,9 +344,10 @@ export function PreviewPane({
   const canExport = isCanvasMode
     ? canvasState.layers.length > 0 && exportInfo.exportable > 0
     : exportInfo.exportable > 0;
+  const isBatchExport = !isCanvasMode && batchIconIds.length > 0;
   const hasSelection = isCanvasMode
     ? canvasState.layers.length > 0
-    : selectedIconId !== undefined;
+    : selectedIconId !== undefined || isBatchExport;
 
   // Sync background color from main state to canvas state
   React.useEffect(() => {
@@ -557,9 +577,11 @@ export function PreviewPane({
               : undefined
           }
           infoText={
-            canExport && hasSelection
-              ? `Will export ${exportInfo.exportable} file${exportInfo.exportable !== 1 ? "s" : ""}${exportInfo.skipped > 0 ? ` (${exportInfo.skipped} skipped)` : ""}`
-              : undefined
+            canExport && isBatchExport
+              ? `Will export ${batchIconIds.length} icon${batchIconIds.length !== 1 ? "s" : ""} × ${exportInfo.total} file${exportInfo.total !== 1 ? "s" : ""} (one folder per icon)`
+              : canExport && hasSelection
+                ? `Will export ${exportInfo.exportable} file${exportInfo.exportable !== 1 ? "s" : ""}${exportInfo.skipped > 0 ? ` (${exportInfo.skipped} skipped)` : ""}`
+                : undefined
           }
           warningText={
             isCustomImage && exportInfo.skipped > 0
@@ -579,6 +601,7 @@ export function PreviewPane({
           onOpenChange={setIsExportModalOpen}
           state={state}
           selectedLocations={selectedLocations}
+          batchIconIds={batchIconIds}
         />
       )}
       <ExportPresetEditor
@@ -21,6 +21,10 @@ import {
   ingestRemixIconIcons,
   LICENSE as remixiconLicense,
 } from "../src/adapters/remixicon";
+import {
+  ingestLucideIcons,
+  LICENSE as lucideLicense,
+} from "../src/adapters/lucide";
 import type { IconCatalog, IconPack } from "../src/types/icon";
 
 const PROJECT_ROOT = path.resolve(__dirname, "..");
@@ -44,10 +48,19 @@ function generateCatalog(): IconCatalog {
 
   console.log("📦 Ingesting RemixIcon icons...");
   const remixiconIcons = ingestRemixIconIcons(NODE_MODULES_PATH);
-  console.log(`   ✓ Found ${remixiconIcons.length} RemixIcon icons\n`);
+  console.log(`   ✓ Found ${remixiconIcons.length} RemixIcon icons`);
+
+  console.log("📦 Ingesting Lucide icons...");
+  const lucideIcons = ingestLucideIcons(NODE_MODULES_PATH);
+  console.log(`   ✓ Found ${lucideIcons.length} Lucide icons\n`);
 
   // Combine all icons
-  const allIcons = [...gardenIcons, ...featherIcons, ...remixiconIcons];
+  const allIcons = [
+    ...gardenIcons,
+    ...featherIcons,
+    ...remixiconIcons,
+    ...lucideIcons,
+  ];
   const totalIcons = allIcons.length;
 
   // Build icon index
@@ -56,9 +69,11 @@ function generateCatalog(): IconCatalog {
     "zendesk-garden": [],
     feather: [],
     remixicon: [],
+    lucide: [],
     emoji: [],
     "custom-svg": [],
     "custom-image": [],
+    "user-pack": [],
   };
 
   for (const icon of allIcons) {
@@ -77,6 +92,7 @@ function generateCatalog(): IconCatalog {
       "zendesk-garden": gardenLicense,
       feather: featherLicense,
       remixicon: remixiconLicense,
+      lucide: lucideLicense,
       emoji: {
         name: "User-provided emojis",
         type: "User Content",
@@ -92,6 +108,11 @@ function generateCatalog(): IconCatalog {
         type: "User Content",
         url: "",
       },
+      "user-pack": {
+        name: "User-imported icon packs",
+        type: "User Content",
+        url: "",
+      },
     },
     icons,
     byPack,
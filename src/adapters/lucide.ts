@@ -0,0 +1,155 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vm from "vm";
+import type { IconMetadata, IconPackLicense } from "../types/icon";
+
+const PACK_NAME = "lucide" as const;
+
+/**
+ * License information for Lucide icons
+ */
+export const LICENSE: IconPackLicense = {
+  name: "ISC",
+  type: "ISC",
+  url: "https://github.com/lucide-icons/lucide/blob/main/LICENSE",
+};
+
+/**
+ * Root attributes shared by every Lucide icon (mirrors lucide-react defaults)
+ */
+const SVG_ATTRIBUTES =
+  'xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"';
+
+type IconNode = [string, Record<string, string | number>][];
+
+/**
+ * Extract keywords from icon name
+ * Converts "arrow-big-left" -> ["arrow", "big", "left"]
+ */
+function extractKeywords(name: string): string[] {
+  return name.split("-").map((part) => part.toLowerCase());
+}
+
+/**
+ * Convert a lucide-react attribute name to its SVG form ("strokeWidth" -> "stroke-width")
+ */
+function toSvgAttribute(name: string): string {
+  return name.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+}
+
+function escapeAttribute(value: string | number): string {
+  return String(value).replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Parse the `__iconNode` literal from a lucide-react ESM icon module
+ */
+function parseIconNode(source: string): IconNode | null {
+  const match = source.match(/const __iconNode = (\[[\s\S]*?\]);\n/);
+  if (!match) {
+    return null;
+  }
+  // The node is a plain array literal; evaluate it without module scope
+  return vm.runInNewContext(`(${match[1]})`) as IconNode;
+}
+
+/**
+ * Build a standalone SVG from an icon node
+ */
+function buildSVG(iconNode: IconNode): string {
+  const children = iconNode
+    .map(([tag, attributes]) => {
+      const attrs = Object.entries(attributes)
+        .filter(([name]) => name !== "key")
+        .map(
+          ([name, value]) =>
+            `${toSvgAttribute(name)}="${escapeAttribute(value)}"`
+        )
+        .join(" ");
+      return `<${tag} ${attrs}></${tag}>`;
+    })
+    .join("");
+
+  return `<svg ${SVG_ATTRIBUTES}>${children}</svg>`;
+}
+
+/**
+ * Generate icon ID
+ */
+function generateId(name: string): string {
+  return `${PACK_NAME}-${name}`;
+}
+
+/**
+ * Read and process Lucide icons from the lucide-react package
+ */
+export function ingestLucideIcons(nodeModulesPath: string): IconMetadata[] {
+  const icons: IconMetadata[] = [];
+  const lucidePath = path.join(
+    nodeModulesPath,
+    "lucide-react",
+    "dist",
+    "esm",
+    "icons"
+  );
+
+  if (!fs.existsSync(lucidePath)) {
+    console.warn(`Lucide icons not found at ${lucidePath}`);
+    return icons;
+  }
+
+  const files = fs.readdirSync(lucidePath);
+  const moduleFiles = files.filter((file) => file.endsWith(".js")).sort();
+  const aliasesByName = new Map<string, string[]>();
+  const sources = new Map<string, string>();
+
+  // Deprecated names are re-exports of the current icon; keep them as keywords
+  for (const file of moduleFiles) {
+    const name = file.replace(/\.js$/, "");
+    const source = fs.readFileSync(path.join(lucidePath, file), "utf-8");
+    const alias = source.match(/export \{ default \} from '\.\/([\w-]+)\.js'/);
+
+    if (alias) {
+      const aliases = aliasesByName.get(alias[1]) ?? [];
+      aliases.push(name);
+      aliasesByName.set(alias[1], aliases);
+    } else {
+      sources.set(name, source);
+    }
+  }
+
+  for (const [name, source] of sources) {
+    try {
+      const iconNode = parseIconNode(source);
+      if (!iconNode) {
+        continue;
+      }
+
+      const keywords = new Set(extractKeywords(name));
+      for (const alias of aliasesByName.get(name) ?? []) {
+        extractKeywords(alias).forEach((keyword) => keywords.add(keyword));
+      }
+
+      // Lucide icons are drawn on a 24x24 grid
+      keywords.add("24px");
+
+      const icon: IconMetadata = {
+        id: generateId(name),
+        name: name
+          .split("-")
+          .map((p) => p.charAt(0).toUpperCase() + p.slice(1))
+          .join(" "),
+        pack: PACK_NAME,
+        svg: buildSVG(iconNode),
+        keywords: Array.from(keywords),
+        size: 24,
+      };
+
+      icons.push(icon);
+    } catch (error) {
+      console.error(`Error processing ${name}:`, error);
+    }
+  }
+
+  return icons;
+}
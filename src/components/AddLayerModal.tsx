@@ -78,7 +78,7 @@ export function AddLayerModal({
     searchQuery,
     selectedPack,
     selectedCategory: null,
-    sortBy: "name",
+    sortBy: "relevance",
   });
 
   // Filter out non-SVG icons
@@ -1,5 +1,6 @@
 /**
- * Main component for background customization (solid color and gradients)
+ * Main component for background customization (solid color and gradients).
+ * Also used for the icon fill, which accepts the same values.
  */
 
 import * as React from "react";
@@ -19,6 +20,8 @@ import {
 import { LinearGradientEditor } from "./LinearGradientEditor";
 import { RadialGradientEditor } from "./RadialGradientEditor";
 import { ColorPicker } from "./ColorPicker";
+import type { ColorPaletteEntry } from "@/src/types/preset";
+import type { ColorType } from "@/src/utils/color-history";
 import type { BackgroundValue, Gradient } from "@/src/utils/gradients";
 import {
   isGradient,
@@ -32,12 +35,26 @@ import {
 export interface BackgroundControlsProps {
   value: BackgroundValue;
   onChange: (value: BackgroundValue) => void;
+  /** Section label (defaults to "Background") */
+  label?: string;
+  /** Id of the solid color picker */
+  id?: string;
+  /** Color history used by the solid color picker */
+  colorType?: ColorType;
+  /** Palette colors offered by the solid color picker */
+  paletteColors?: ColorPaletteEntry[];
+  isCustomSvg?: boolean;
   className?: string;
 }
 
 export function BackgroundControls({
   value,
   onChange,
+  label = "Background",
+  id = "background-color",
+  colorType = "background",
+  paletteColors,
+  isCustomSvg,
   className,
 }: BackgroundControlsProps) {
   // Determine current mode
@@ -79,17 +96,19 @@ export function BackgroundControls({
     <div className={className}>
       <div className="space-y-4">
         <div className="flex items-center justify-between">
-          <Label>Background</Label>
+          <Label>{label}</Label>
           <BackgroundModeToggle mode={mode} onModeChange={handleModeChange} />
         </div>
 
         {mode === "solid" ? (
           <ColorPicker
-            id="background-color"
+            id={id}
             label="Color"
             value={value as string}
             onChange={onChange}
-            colorType="background"
+            colorType={colorType}
+            isCustomSvg={isCustomSvg}
+            paletteColors={paletteColors}
           />
         ) : (
           <>
@@ -0,0 +1,54 @@
+/**
+ * Select for the background outline (rounded square, circle, squircle, ...)
+ */
+
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  BACKGROUND_SHAPES,
+  BACKGROUND_SHAPE_LABELS,
+  type BackgroundShape,
+} from "@/src/utils/background-shape";
+
+export interface BackgroundShapeSelectProps {
+  id: string;
+  value: BackgroundShape;
+  onChange: (value: BackgroundShape) => void;
+  className?: string;
+}
+
+export function BackgroundShapeSelect({
+  id,
+  value,
+  onChange,
+  className,
+}: BackgroundShapeSelectProps) {
+  return (
+    <div className={className}>
+      <div className="space-y-2">
+        <Label htmlFor={id}>Shape</Label>
+        <Select
+          value={value}
+          onValueChange={(shape) => onChange(shape as BackgroundShape)}
+        >
+          <SelectTrigger id={id}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BACKGROUND_SHAPES.map((shape) => (
+              <SelectItem key={shape} value={shape}>
+                {BACKGROUND_SHAPE_LABELS[shape]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -31,6 +31,7 @@ import {
   Settings,
   Palette,
   Sparkles,
+  Package,
 } from "lucide-react";
 import { BackgroundControls } from "./BackgroundControls";
 import { StylePresetSelector } from "./StylePresetSelector";
@@ -228,6 +229,14 @@ export function CanvasControlsPane({
                     </span>
                   </SelectItem>
                 )}
+                {isIconPackAllowed(ICON_PACKS.LUCIDE) && (
+                  <SelectItem value={ICON_PACKS.LUCIDE}>
+                    <span className="flex items-center gap-2">
+                      <Library className="size-4" />
+                      Lucide
+                    </span>
+                  </SelectItem>
+                )}
                 {isIconPackAllowed(ICON_PACKS.EMOJI) && (
                   <SelectItem value={ICON_PACKS.EMOJI}>
                     <span className="flex items-center gap-2">
@@ -252,6 +261,14 @@ export function CanvasControlsPane({
                     </span>
                   </SelectItem>
                 )}
+                {isIconPackAllowed(ICON_PACKS.USER_PACK) && (
+                  <SelectItem value={ICON_PACKS.USER_PACK}>
+                    <span className="flex items-center gap-2">
+                      <Package className="size-4" />
+                      My Icon Packs
+                    </span>
+                  </SelectItem>
+                )}
                 {isIconPackAllowed(ICON_PACKS.CANVAS) && (
                   <SelectItem value={ICON_PACKS.CANVAS}>
                     <span className="flex items-center gap-2">
@@ -14,22 +14,49 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Download, AlertCircle, Loader2 } from "lucide-react";
+import { Download, AlertCircle, Loader2, Copy, Check } from "lucide-react";
 import type { IconGeneratorState } from "../hooks/use-icon-generator";
 import type { AppLocation } from "../types/app-location";
 import type { CanvasEditorState } from "../types/canvas";
 import type { ExportVariantConfig } from "../types/preset";
 import {
+  generateBatchExportZip,
   generateExportDownloadPayload,
   downloadFile,
   validateExport,
+  type BatchExportProgress,
 } from "../utils/export-controller";
 import { getRequiredExportVariants } from "../types/export";
 import { isCustomImageIcon } from "../utils/locations";
 import { ICON_PACKS } from "../constants/app";
 import { usePresets } from "../hooks/use-presets";
+import { useIconMetadata } from "../hooks/use-icon-metadata";
 import { useRestriction } from "../contexts/RestrictionContext";
+import { getIcnsSizes, getIcoSizes } from "../utils/renderer";
+import { createHeadSnippet } from "../utils/web-manifest";
+import {
+  resolveVariantFilenames,
+  type FilenameTemplateContext,
+} from "../utils/filename-template";
+import {
+  hasRuleErrors,
+  validatePresetRules,
+  type PlatformRuleIssue,
+} from "../utils/platform-rules";
+
+/** Stable default so the validation effect does not rerun on every render */
+const EMPTY_ICON_IDS: string[] = [];
+
+/**
+ * Rendered export and the platform issues of its files
+ */
+interface ExportDownload {
+  blob: Blob;
+  filename: string;
+  issues: PlatformRuleIssue[];
+}
 
 export interface ExportModalProps {
   open: boolean;
@@ -38,24 +65,35 @@ export interface ExportModalProps {
   selectedLocations: AppLocation[];
   /** Canvas state for canvas mode exports */
   canvasState?: CanvasEditorState;
+  /** Icons to export together (one folder per icon) instead of the selected icon */
+  batchIconIds?: string[];
 }
 
-const ICO_EMBEDDED_SIZES = [16, 32, 48] as const;
-
 export function ExportModal({
   open,
   onOpenChange,
   state,
   selectedLocations,
   canvasState,
+  batchIconIds = EMPTY_ICON_IDS,
 }: ExportModalProps) {
   const [isExporting, setIsExporting] = React.useState(false);
+  const [batchLabels, setBatchLabels] = React.useState<Record<string, string>>(
+    {}
+  );
+  const [batchProgress, setBatchProgress] =
+    React.useState<BatchExportProgress | null>(null);
   const [exportError, setExportError] = React.useState<string | null>(null);
+  const [snippetCopied, setSnippetCopied] = React.useState(false);
+  const [renderIssues, setRenderIssues] = React.useState<
+    PlatformRuleIssue[] | null
+  >(null);
   const [validation, setValidation] = React.useState<ReturnType<
     typeof validateExport
   > | null>(null);
 
-  const { exportPresets, selectedExportPresetId } = usePresets();
+  const { exportPresets, selectedExportPresetId, selectedStylePreset } =
+    usePresets();
   const { allowedExportPresets } = useRestriction();
 
   // Get the effective presets list and find the selected preset
@@ -65,11 +103,20 @@ export function ExportModal({
   }, [effectiveExportPresets, selectedExportPresetId]);
 
   const isCanvasMode = state.selectedPack === ICON_PACKS.CANVAS;
+  const isBatchExport = !isCanvasMode && batchIconIds.length > 0;
 
   React.useEffect(() => {
     if (open) {
       // For canvas mode, validate differently
-      if (isCanvasMode && canvasState) {
+      if (isBatchExport) {
+        // Style checks apply equally to every icon in the batch
+        setValidation(
+          validateExport(
+            { ...state, selectedIconId: batchIconIds[0] },
+            selectedLocations
+          )
+        );
+      } else if (isCanvasMode && canvasState) {
         if (canvasState.layers.length === 0) {
           setValidation({
             valid: false,
@@ -84,20 +131,37 @@ export function ExportModal({
         setValidation(validationResult);
       }
       setExportError(null);
+      setBatchProgress(null);
+      setRenderIssues(null);
     }
-  }, [open, state, selectedLocations, isCanvasMode, canvasState]);
+  }, [
+    open,
+    state,
+    selectedLocations,
+    isCanvasMode,
+    canvasState,
+    isBatchExport,
+    batchIconIds,
+  ]);
 
   const isCustomImage = isCustomImageIcon(state.selectedIconId);
+  const iconMetadata = useIconMetadata(
+    isCanvasMode || isBatchExport ? undefined : state.selectedIconId
+  );
 
   // Get variants from selected preset
-  const variants = React.useMemo((): ExportVariantConfig[] => {
+  const presetVariants = React.useMemo((): ExportVariantConfig[] => {
     if (selectedExportPreset) {
       let presetVariants = selectedExportPreset.variants;
-      // For custom images or canvas mode, filter out non-raster variants
+      // For custom images or canvas mode, filter out non-raster variants and
+      // adaptive icon layers (both exporters skip them)
       if (isCustomImage || isCanvasMode) {
         presetVariants = presetVariants.filter(
           (v) =>
-            v.format === "png" || v.format === "jpeg" || v.format === "webp"
+            (v.format === "png" ||
+              v.format === "jpeg" ||
+              v.format === "webp") &&
+            !v.adaptiveLayer
         );
       }
       return presetVariants;
@@ -116,19 +180,136 @@ export function ExportModal({
     return allVariants.map((v) => ({ ...v, description: v.description }));
   }, [selectedExportPreset, selectedLocations, isCustomImage, isCanvasMode]);
 
+  const filenameContext = React.useMemo(
+    (): FilenameTemplateContext => ({
+      iconId: isCanvasMode
+        ? "canvas"
+        : isBatchExport
+          ? batchIconIds[0]
+          : state.selectedIconId,
+      iconName: iconMetadata?.name,
+      preset: selectedExportPreset?.name,
+      style: selectedStylePreset?.name,
+    }),
+    [
+      isCanvasMode,
+      isBatchExport,
+      batchIconIds,
+      state.selectedIconId,
+      iconMetadata?.name,
+      selectedExportPreset?.name,
+      selectedStylePreset?.name,
+    ]
+  );
+
+  // Show the paths that will be written (batch exports resolve per icon)
+  const variants = React.useMemo((): ExportVariantConfig[] => {
+    if (isBatchExport) {
+      return presetVariants;
+    }
+    try {
+      return resolveVariantFilenames(presetVariants, filenameContext);
+    } catch {
+      // Invalid templates are reported when exporting
+      return presetVariants;
+    }
+  }, [presetVariants, isBatchExport, filenameContext]);
+
+  // Check the whole preset (not only the variants this icon type can render)
+  const presetIssues = React.useMemo((): PlatformRuleIssue[] => {
+    if (!selectedExportPreset) {
+      return [];
+    }
+    try {
+      return validatePresetRules({
+        ...selectedExportPreset,
+        variants: resolveVariantFilenames(
+          selectedExportPreset.variants,
+          filenameContext
+        ),
+      });
+    } catch {
+      return [];
+    }
+  }, [selectedExportPreset, filenameContext]);
+
+  const errors = [
+    ...(validation?.errors ?? []),
+    ...presetIssues
+      .filter((issue) => issue.severity === "error")
+      .map((issue) => issue.message),
+  ];
+  const skippedLayerCount =
+    isCustomImage || isCanvasMode
+      ? (selectedExportPreset?.variants.filter((v) => v.adaptiveLayer).length ??
+        0)
+      : 0;
+  const warnings = [
+    ...(validation?.warnings ?? []),
+    ...(skippedLayerCount > 0
+      ? [
+          `Android adaptive icon layers (${skippedLayerCount}) are not exported for ${isCanvasMode ? "canvas designs" : "custom images"}`,
+        ]
+      : []),
+    ...presetIssues
+      .filter((issue) => issue.severity === "warning")
+      .map((issue) => issue.message),
+  ];
+  const renderFailed = !!renderIssues && hasRuleErrors(renderIssues);
+  const canExport =
+    !!validation?.valid && !hasRuleErrors(presetIssues) && !renderFailed;
+
+  /**
+   * Block the download when the rendered files break platform rules (the API
+   * rejects the same files). Warnings do not block: the files are downloaded
+   * and the modal stays open to list them.
+   */
+  const finishExport = (download: ExportDownload) => {
+    if (hasRuleErrors(download.issues)) {
+      setRenderIssues(download.issues);
+      return;
+    }
+    downloadFile(download.blob, download.filename);
+    if (download.issues.length > 0) {
+      setRenderIssues(download.issues);
+      return;
+    }
+    onOpenChange(false);
+  };
+
   const handleExport = async () => {
     setIsExporting(true);
     setExportError(null);
+    setRenderIssues(null);
 
     try {
+      if (isBatchExport) {
+        const result = await generateBatchExportZip(
+          state,
+          batchIconIds,
+          selectedLocations,
+          {
+            preset: selectedExportPreset,
+            styleName: selectedStylePreset?.name,
+            labels: batchLabels,
+            onProgress: setBatchProgress,
+          }
+        );
+        finishExport({
+          blob: result.zipBlob,
+          filename: result.filename,
+          issues: result.issues,
+        });
+        return;
+      }
+
       const result = await generateExportDownloadPayload(
         state,
         selectedLocations,
         canvasState,
-        { preset: selectedExportPreset }
+        { preset: selectedExportPreset, styleName: selectedStylePreset?.name }
       );
-      downloadFile(result.blob, result.filename);
-      onOpenChange(false);
+      finishExport(result);
     } catch (error) {
       console.error("Export error:", error);
       setExportError(
@@ -136,6 +317,7 @@ export function ExportModal({
       );
     } finally {
       setIsExporting(false);
+      setBatchProgress(null);
     }
   };
 
@@ -147,13 +329,57 @@ export function ExportModal({
       webp: variants.filter((v) => v.format === "webp").length,
       svg: variants.filter((v) => v.format === "svg").length,
       ico: variants.filter((v) => v.format === "ico").length,
+      icns: variants.filter((v) => v.format === "icns").length,
     };
   }, [variants]);
 
+  // Sizes embedded across all ICO variants
+  const icoSizes = React.useMemo(
+    () =>
+      Array.from(
+        new Set(
+          variants
+            .filter((v) => v.format === "ico")
+            .flatMap((v) => getIcoSizes(v))
+        )
+      ).sort((a, b) => a - b),
+    [variants]
+  );
+
+  // <head> tags for presets that ship a web app manifest
+  const headSnippet = React.useMemo(() => {
+    if (selectedExportPreset?.packaging !== "web-app-manifest") {
+      return null;
+    }
+    return createHeadSnippet({
+      variants,
+      backgroundColor: state.backgroundColor,
+    });
+  }, [selectedExportPreset, variants, state.backgroundColor]);
+
+  const handleCopySnippet = async () => {
+    if (!headSnippet) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(headSnippet);
+      setSnippetCopied(true);
+      setTimeout(() => setSnippetCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy head snippet:", error);
+    }
+  };
+
   const getVariantSizeLabel = React.useCallback(
     (variant: ExportVariantConfig): string => {
       if (variant.format === "ico") {
-        return ICO_EMBEDDED_SIZES.map((size) => `${size}×${size}`).join(", ");
+        return getIcoSizes(variant)
+          .map((size) => `${size}×${size}`)
+          .join(", ");
+      }
+      if (variant.format === "icns") {
+        const sizes = getIcnsSizes(variant);
+        return `${sizes[0]}–${sizes[sizes.length - 1]} px`;
       }
       return `${variant.width}×${variant.height}`;
     },
@@ -166,11 +392,13 @@ export function ExportModal({
         <DialogHeader className="flex-shrink-0">
           <DialogTitle>Export Icon Assets</DialogTitle>
           <DialogDescription>
-            {selectedExportPreset
-              ? `Exporting with "${selectedExportPreset.name}" preset`
-              : variants.length === 1
-                ? "Download your icon file"
-                : "Download your icon files"}
+            {isBatchExport
+              ? `Exporting ${batchIconIds.length} icon${batchIconIds.length !== 1 ? "s" : ""} into one ZIP${selectedExportPreset ? ` with "${selectedExportPreset.name}" preset` : ""}`
+              : selectedExportPreset
+                ? `Exporting with "${selectedExportPreset.name}" preset`
+                : variants.length === 1
+                  ? "Download your icon file"
+                  : "Download your icon files"}
           </DialogDescription>
         </DialogHeader>
 
@@ -180,12 +408,19 @@ export function ExportModal({
             <h4 className="text-sm font-medium">Export Summary</h4>
             <div className="rounded-md bg-muted p-3 text-sm">
               <div className="space-y-1">
+                {isBatchExport && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Icons:</span>
+                    <span className="font-medium">{batchIconIds.length}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">
                     Files to export:
                   </span>
                   <span className="font-medium">
                     {variants.length} file{variants.length !== 1 ? "s" : ""}
+                    {isBatchExport && " per icon"}
                   </span>
                 </div>
                 {formatCounts.png > 0 && (
@@ -218,23 +453,58 @@ export function ExportModal({
                     <span className="font-medium">{formatCounts.ico}</span>
                   </div>
                 )}
-                {formatCounts.ico > 0 && (
+                {icoSizes.length > 0 && (
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">ICO sizes:</span>
                     <span className="font-medium">
-                      {ICO_EMBEDDED_SIZES.map((size) => `${size}×${size}`).join(
-                        ", "
-                      )}
+                      {icoSizes.map((size) => `${size}×${size}`).join(", ")}
                     </span>
                   </div>
                 )}
+                {formatCounts.icns > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">ICNS files:</span>
+                    <span className="font-medium">{formatCounts.icns}</span>
+                  </div>
+                )}
               </div>
             </div>
           </div>
 
+          {/* Batch folders */}
+          {isBatchExport && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Folders</h4>
+              <p className="text-xs text-muted-foreground">
+                Each icon is exported into its own folder. Leave a label empty
+                to use the icon ID.
+              </p>
+              <div className="max-h-[200px] space-y-2 overflow-y-auto rounded-md border p-3">
+                {batchIconIds.map((iconId) => (
+                  <Input
+                    key={iconId}
+                    aria-label={`Folder name for ${iconId}`}
+                    placeholder={iconId}
+                    value={batchLabels[iconId] ?? ""}
+                    disabled={isExporting}
+                    onChange={(e) =>
+                      setBatchLabels((prev) => ({
+                        ...prev,
+                        [iconId]: e.target.value,
+                      }))
+                    }
+                    className="h-8 font-mono text-sm"
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* File List */}
           <div className="space-y-2">
-            <h4 className="text-sm font-medium">Files</h4>
+            <h4 className="text-sm font-medium">
+              {isBatchExport ? "Files per icon" : "Files"}
+            </h4>
             <div className="max-h-[200px] overflow-y-auto rounded-md border p-3">
               <ul className="space-y-1 text-sm font-mono">
                 {variants.map((variant) => (
@@ -253,14 +523,44 @@ export function ExportModal({
             </div>
           </div>
 
+          {/* HTML head snippet */}
+          {headSnippet && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium">HTML head snippet</h4>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7"
+                  onClick={handleCopySnippet}
+                >
+                  {snippetCopied ? (
+                    <Check className="mr-1 h-3 w-3 text-green-500" />
+                  ) : (
+                    <Copy className="mr-1 h-3 w-3" />
+                  )}
+                  {snippetCopied ? "Copied!" : "Copy"}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Paste into your page&apos;s &lt;head&gt; and serve the exported
+                files from the site root. The ZIP also includes this snippet,
+                site.webmanifest and browserconfig.xml.
+              </p>
+              <pre className="max-h-[160px] overflow-auto rounded-md border bg-muted p-3 text-xs">
+                <code>{headSnippet}</code>
+              </pre>
+            </div>
+          )}
+
           {/* Validation Errors */}
-          {validation && validation.errors.length > 0 && (
+          {errors.length > 0 && (
             <Alert variant="destructive">
               <AlertCircle className="h-4 w-4" />
               <AlertTitle>Export Errors</AlertTitle>
               <AlertDescription>
                 <ul className="list-disc list-inside space-y-1">
-                  {validation.errors.map((error, index) => (
+                  {errors.map((error, index) => (
                     <li key={index}>{error}</li>
                   ))}
                 </ul>
@@ -269,13 +569,13 @@ export function ExportModal({
           )}
 
           {/* Validation Warnings */}
-          {validation && validation.warnings.length > 0 && (
+          {warnings.length > 0 && (
             <Alert>
               <AlertCircle className="h-4 w-4" />
               <AlertTitle>Warnings</AlertTitle>
               <AlertDescription>
                 <ul className="list-disc list-inside space-y-1">
-                  {validation.warnings.map((warning, index) => (
+                  {warnings.map((warning, index) => (
                     <li key={index}>{warning}</li>
                   ))}
                 </ul>
@@ -283,6 +583,55 @@ export function ExportModal({
             </Alert>
           )}
 
+          {/* Platform checks of the rendered files */}
+          {renderIssues && (
+            <Alert variant={renderFailed ? "destructive" : "default"}>
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>
+                {renderFailed ? "Platform Checks Failed" : "Platform Checks"}
+              </AlertTitle>
+              <AlertDescription>
+                <p>
+                  {renderFailed
+                    ? "The files were not downloaded. Fix the errors below and export again."
+                    : "The files were downloaded with these warnings."}
+                </p>
+                <ul className="list-disc list-inside space-y-1">
+                  {renderIssues.map((issue, index) => (
+                    <li key={index}>
+                      {issue.severity === "error" ? "Error" : "Warning"}:{" "}
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Batch Progress */}
+          {batchProgress && (
+            <div className="space-y-1" role="status">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>
+                  {batchProgress.currentIconId
+                    ? `Exporting ${batchProgress.currentIconId}`
+                    : "Creating ZIP"}
+                </span>
+                <span>
+                  {batchProgress.completed} / {batchProgress.total}
+                </span>
+              </div>
+              <div className="h-2 overflow-hidden rounded-full bg-muted">
+                <div
+                  className="h-full bg-primary transition-all"
+                  style={{
+                    width: `${(batchProgress.completed / batchProgress.total) * 100}%`,
+                  }}
+                />
+              </div>
+            </div>
+          )}
+
           {/* Export Error */}
           {exportError && (
             <Alert variant="destructive">
@@ -299,12 +648,9 @@ export function ExportModal({
             onClick={() => onOpenChange(false)}
             disabled={isExporting}
           >
-            Cancel
+            {renderIssues && !renderFailed ? "Close" : "Cancel"}
           </Button>
-          <Button
-            onClick={handleExport}
-            disabled={isExporting || !validation?.valid}
-          >
+          <Button onClick={handleExport} disabled={isExporting || !canExport}>
             {isExporting ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
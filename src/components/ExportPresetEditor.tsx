@@ -23,16 +23,37 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Separator } from "@/components/ui/separator";
+import { DEFAULT_APPEARANCE } from "@/src/constants/app";
+import {
+  FILENAME_TEMPLATE_TOKENS,
+  getFilenameTemplateError,
+  resolveVariantFilenames,
+} from "@/src/utils/filename-template";
+import {
+  validatePresetRules,
+  type PlatformRuleIssue,
+} from "@/src/utils/platform-rules";
+import { isSolidColor } from "@/src/utils/gradients";
 import type {
+  AdaptiveIconLayer,
   ExportPreset,
   ExportVariantConfig,
   ExportFormat,
+  ExportPackaging,
+  ExportVariantStyle,
+  IconPurpose,
 } from "@/src/types/preset";
 import {
+  ADAPTIVE_ICON_LAYERS,
+  DEFAULT_ICO_SIZES,
   EXPORT_FORMATS,
+  ICO_SIZE_OPTIONS,
+  ICON_PURPOSES,
   formatSupportsQuality,
   formatSupportsMaxSize,
+  formatSupportsTransparency,
   getFormatExtension,
 } from "@/src/types/preset";
 
@@ -46,6 +67,32 @@ export interface ExportPresetEditorProps {
   mode?: "create" | "edit";
 }
 
+const PACKAGING_OPTIONS: { value: ExportPackaging | "none"; label: string }[] =
+  [
+    { value: "none", label: "Loose files" },
+    {
+      value: "xcode-asset-catalog",
+      label: "Xcode asset catalog (Contents.json per .appiconset)",
+    },
+    {
+      value: "android-adaptive-icon",
+      label: "Android adaptive icon (ic_launcher.xml per res folder)",
+    },
+    {
+      value: "web-app-manifest",
+      label:
+        "Web app manifest (site.webmanifest, browserconfig.xml, head tags)",
+    },
+    {
+      value: "teams-app",
+      label: "Microsoft Teams (manifest icons entry)",
+    },
+    {
+      value: "web-extension",
+      label: "Browser extension (manifest icons and action entry)",
+    },
+  ];
+
 const DEFAULT_VARIANT: ExportVariantConfig = {
   filename: "icon.png",
   width: 512,
@@ -67,6 +114,9 @@ export function ExportPresetEditor({
   const [variants, setVariants] = React.useState<ExportVariantConfig[]>(
     preset?.variants || [{ ...DEFAULT_VARIANT }]
   );
+  const [packaging, setPackaging] = React.useState<ExportPackaging | undefined>(
+    preset?.packaging
+  );
 
   // Reset form when preset changes
   React.useEffect(() => {
@@ -74,10 +124,12 @@ export function ExportPresetEditor({
       setName(preset.name);
       setDescription(preset.description);
       setVariants(preset.variants);
+      setPackaging(preset.packaging);
     } else {
       setName("");
       setDescription("");
       setVariants([{ ...DEFAULT_VARIANT }]);
+      setPackaging(undefined);
     }
   }, [preset, open]);
 
@@ -115,6 +167,22 @@ export function ExportPresetEditor({
           } else if (!updated.quality) {
             updated.quality = 92;
           }
+
+          // Adaptive icon layers are PNG only
+          if (updates.format !== "png") {
+            delete updated.adaptiveLayer;
+          }
+
+          if (updates.format !== "ico") {
+            delete updated.icoSizes;
+            delete updated.icoBmp;
+          }
+
+          // Manifest icons and glyph-only icons are PNG or WebP
+          if (updates.format !== "png" && updates.format !== "webp") {
+            delete updated.purpose;
+            delete updated.glyphColor;
+          }
         }
 
         return updated;
@@ -130,12 +198,31 @@ export function ExportPresetEditor({
       name: name.trim(),
       description: description.trim(),
       variants,
+      packaging,
     });
 
     onOpenChange(false);
   };
 
-  const isValid = name.trim() && variants.length > 0;
+  const isValid =
+    name.trim() &&
+    variants.length > 0 &&
+    variants.every(
+      (variant) => getFilenameTemplateError(variant.filename) === null
+    );
+
+  // Platform checks are advisory here; errors block the export itself
+  const ruleIssues = React.useMemo((): PlatformRuleIssue[] => {
+    try {
+      return validatePresetRules({
+        packaging,
+        variants: resolveVariantFilenames(variants),
+      });
+    } catch {
+      // Invalid filename templates are shown on the variant
+      return [];
+    }
+  }, [packaging, variants]);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -172,6 +259,27 @@ export function ExportPresetEditor({
                   placeholder="Description of when to use this preset"
                 />
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="preset-packaging">Packaging</Label>
+                <Select
+                  value={packaging ?? "none"}
+                  onValueChange={(value: ExportPackaging | "none") =>
+                    setPackaging(value === "none" ? undefined : value)
+                  }
+                >
+                  <SelectTrigger id="preset-packaging">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PACKAGING_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
             <Separator />
@@ -203,6 +311,26 @@ export function ExportPresetEditor({
                 ))}
               </div>
             </div>
+
+            {ruleIssues.length > 0 && (
+              <div className="space-y-1" role="status">
+                <Label>Platform Checks</Label>
+                <ul className="space-y-1 text-xs">
+                  {ruleIssues.map((issue, index) => (
+                    <li
+                      key={index}
+                      className={
+                        issue.severity === "error"
+                          ? "text-destructive"
+                          : "text-muted-foreground"
+                      }
+                    >
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         </div>
 
@@ -232,6 +360,22 @@ function VariantEditor({
   onRemove,
   canRemove,
 }: VariantEditorProps) {
+  const flattenId = React.useId();
+  const icoBmpId = React.useId();
+  const glyphOnlyId = React.useId();
+  const icoSizes = variant.icoSizes ?? DEFAULT_ICO_SIZES;
+  const filenameError = getFilenameTemplateError(variant.filename);
+
+  const toggleIcoSize = (size: number, checked: boolean) => {
+    const sizes = checked
+      ? [...icoSizes, size].sort((a, b) => a - b)
+      : icoSizes.filter((s) => s !== size);
+    // Keep at least one embedded size
+    if (sizes.length > 0) {
+      onChange({ icoSizes: sizes });
+    }
+  };
+
   return (
     <div className="p-4 rounded-lg border bg-muted/30 space-y-4">
       <div className="flex items-start gap-2">
@@ -246,7 +390,19 @@ function VariantEditor({
               onChange={(e) => onChange({ filename: e.target.value })}
               placeholder="icon.png"
               className="h-8"
+              aria-invalid={filenameError !== null}
             />
+            {filenameError ? (
+              <p className="text-xs text-destructive">{filenameError}</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Use / for folders and{" "}
+                {FILENAME_TEMPLATE_TOKENS.map((token) => `{${token}}`).join(
+                  " "
+                )}{" "}
+                placeholders.
+              </p>
+            )}
           </div>
 
           {/* Format */}
@@ -302,6 +458,74 @@ function VariantEditor({
             </div>
           </div>
 
+          {/* Scale (for {scale} and {density} placeholders) */}
+          <div className="col-span-2 space-y-1">
+            <Label className="text-xs text-muted-foreground">Scale</Label>
+            <Input
+              type="number"
+              value={variant.scale ?? ""}
+              onChange={(e) =>
+                onChange({
+                  scale: e.target.value
+                    ? parseFloat(e.target.value)
+                    : undefined,
+                })
+              }
+              placeholder="1"
+              className="h-8 w-20"
+              min={0.5}
+              max={16}
+              step={0.5}
+            />
+          </div>
+
+          {/* Embedded ICO sizes */}
+          {variant.format === "ico" && (
+            <div className="col-span-2 space-y-2">
+              <Label className="text-xs text-muted-foreground">
+                Embedded Sizes (px)
+              </Label>
+              <div className="flex flex-wrap gap-3">
+                {ICO_SIZE_OPTIONS.map((size) => (
+                  <label
+                    key={size}
+                    className="flex items-center gap-1.5 text-xs cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={icoSizes.includes(size)}
+                      onCheckedChange={(checked) =>
+                        toggleIcoSize(size, checked === true)
+                      }
+                    />
+                    {size}
+                  </label>
+                ))}
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={icoBmpId}
+                  checked={variant.icoBmp === true}
+                  onCheckedChange={(checked) =>
+                    onChange({ icoBmp: checked === true ? true : undefined })
+                  }
+                />
+                <Label
+                  htmlFor={icoBmpId}
+                  className="text-xs font-normal text-muted-foreground cursor-pointer"
+                >
+                  Store sizes below 256 px as BMP (legacy Windows)
+                </Label>
+              </div>
+            </div>
+          )}
+
+          {variant.format === "icns" && (
+            <p className="col-span-2 text-xs text-muted-foreground">
+              Packs PNG renders from 16 px up to this size (max 1024 px) into a
+              single macOS icon file.
+            </p>
+          )}
+
           {/* Quality (only for JPEG/WebP) */}
           {formatSupportsQuality(variant.format) && (
             <div className="col-span-2 space-y-1">
@@ -348,6 +572,133 @@ function VariantEditor({
               </p>
             </div>
           )}
+
+          {/* Android adaptive icon layer (PNG only) */}
+          {variant.format === "png" && (
+            <div className="col-span-2 space-y-1">
+              <Label className="text-xs text-muted-foreground">
+                Android Layer
+              </Label>
+              <Select
+                value={variant.adaptiveLayer ?? "none"}
+                onValueChange={(value: AdaptiveIconLayer | "none") =>
+                  onChange({
+                    adaptiveLayer: value === "none" ? undefined : value,
+                  })
+                }
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Full icon</SelectItem>
+                  {ADAPTIVE_ICON_LAYERS.map((layer) => (
+                    <SelectItem key={layer} value={layer}>
+                      {layer.charAt(0).toUpperCase() + layer.slice(1)} layer
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Web app manifest purpose (PNG/WebP only) */}
+          {(variant.format === "png" || variant.format === "webp") && (
+            <div className="col-span-2 space-y-1">
+              <Label className="text-xs text-muted-foreground">
+                Manifest Purpose
+              </Label>
+              <Select
+                value={variant.purpose ?? "none"}
+                onValueChange={(value: IconPurpose | "none") =>
+                  onChange({ purpose: value === "none" ? undefined : value })
+                }
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not in manifest</SelectItem>
+                  {ICON_PURPOSES.map((purpose) => (
+                    <SelectItem key={purpose} value={purpose}>
+                      {purpose}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Listed in site.webmanifest when the preset uses web app manifest
+                packaging. Maskable icons are rendered full bleed with the icon
+                inside the 80% safe zone.
+              </p>
+            </div>
+          )}
+
+          {/* Flatten transparency (only for raster formats with alpha) */}
+          {formatSupportsTransparency(variant.format) &&
+            variant.format !== "svg" && (
+              <div className="col-span-2 flex items-center space-x-2">
+                <Checkbox
+                  id={flattenId}
+                  checked={variant.flattenTransparency === true}
+                  onCheckedChange={(checked) =>
+                    onChange({
+                      flattenTransparency: checked === true ? true : undefined,
+                    })
+                  }
+                />
+                <Label
+                  htmlFor={flattenId}
+                  className="text-xs font-normal text-muted-foreground cursor-pointer"
+                >
+                  Flatten transparency (square, opaque background)
+                </Label>
+              </div>
+            )}
+
+          {/* Glyph only (PNG/WebP only) */}
+          {(variant.format === "png" || variant.format === "webp") && (
+            <div className="col-span-2 flex items-center space-x-2">
+              <Checkbox
+                id={glyphOnlyId}
+                checked={variant.glyphColor !== undefined}
+                onCheckedChange={(checked) =>
+                  onChange({
+                    glyphColor: checked === true ? "#ffffff" : undefined,
+                  })
+                }
+              />
+              <Label
+                htmlFor={glyphOnlyId}
+                className="text-xs font-normal text-muted-foreground cursor-pointer"
+              >
+                Glyph only on transparent background
+              </Label>
+              {variant.glyphColor !== undefined && (
+                <Input
+                  type="color"
+                  aria-label="Glyph color"
+                  value={variant.glyphColor}
+                  onChange={(e) => onChange({ glyphColor: e.target.value })}
+                  className="h-8 w-12 p-1"
+                />
+              )}
+            </div>
+          )}
+
+          {/* Per-variant style overrides */}
+          <div className="col-span-2 space-y-2">
+            <Label className="text-xs text-muted-foreground">
+              Style Overrides
+            </Label>
+            <VariantStyleEditor
+              style={variant.style}
+              onChange={(style) => onChange({ style })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Unchecked settings use the current editor style.
+            </p>
+          </div>
         </div>
 
         {/* Remove button */}
@@ -365,3 +716,253 @@ function VariantEditor({
     </div>
   );
 }
+
+/**
+ * Values used when an override is first enabled
+ */
+const STYLE_OVERRIDE_DEFAULTS = {
+  backgroundColor: "#ffffff",
+  iconColor: "#000000",
+  iconSize: 123,
+  cornerRadius: DEFAULT_APPEARANCE.CORNER_RADIUS,
+  borderColor: DEFAULT_APPEARANCE.BORDER_COLOR,
+  borderWidth: DEFAULT_APPEARANCE.BORDER_WIDTH,
+};
+
+type BorderOverride = "inherit" | "none" | "border";
+
+interface VariantStyleEditorProps {
+  style?: ExportVariantStyle;
+  onChange: (style: ExportVariantStyle | undefined) => void;
+}
+
+function VariantStyleEditor({ style = {}, onChange }: VariantStyleEditorProps) {
+  const backgroundId = React.useId();
+  const iconColorId = React.useId();
+  const iconSizeId = React.useId();
+  const cornerRadiusId = React.useId();
+
+  const update = (updates: Partial<ExportVariantStyle>) => {
+    const next: ExportVariantStyle = { ...style, ...updates };
+    for (const key of Object.keys(next) as (keyof ExportVariantStyle)[]) {
+      if (next[key] === undefined) {
+        delete next[key];
+      }
+    }
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const border: BorderOverride =
+    style.borderEnabled === undefined
+      ? "inherit"
+      : style.borderEnabled
+        ? "border"
+        : "none";
+
+  return (
+    <div className="space-y-2">
+      {/* Background */}
+      <div className="flex items-center gap-2 h-8">
+        <Checkbox
+          id={backgroundId}
+          checked={style.backgroundColor !== undefined}
+          onCheckedChange={(checked) =>
+            update({
+              backgroundColor:
+                checked === true
+                  ? STYLE_OVERRIDE_DEFAULTS.backgroundColor
+                  : undefined,
+            })
+          }
+        />
+        <Label
+          htmlFor={backgroundId}
+          className="w-24 text-xs font-normal text-muted-foreground cursor-pointer"
+        >
+          Background
+        </Label>
+        {style.backgroundColor !== undefined &&
+          (isSolidColor(style.backgroundColor) &&
+          style.backgroundColor !== "transparent" ? (
+            <Input
+              type="color"
+              aria-label="Background color override"
+              value={style.backgroundColor}
+              onChange={(e) => update({ backgroundColor: e.target.value })}
+              className="h-8 w-12 p-1"
+            />
+          ) : (
+            <span className="text-xs text-muted-foreground">
+              {style.backgroundColor === "transparent"
+                ? "Transparent"
+                : "Gradient"}
+            </span>
+          ))}
+      </div>
+
+      {/* Icon color */}
+      <div className="flex items-center gap-2 h-8">
+        <Checkbox
+          id={iconColorId}
+          checked={style.iconColor !== undefined}
+          onCheckedChange={(checked) =>
+            update({
+              iconColor:
+                checked === true
+                  ? STYLE_OVERRIDE_DEFAULTS.iconColor
+                  : undefined,
+            })
+          }
+        />
+        <Label
+          htmlFor={iconColorId}
+          className="w-24 text-xs font-normal text-muted-foreground cursor-pointer"
+        >
+          Icon color
+        </Label>
+        {style.iconColor !== undefined &&
+          (isSolidColor(style.iconColor) ? (
+            <Input
+              type="color"
+              aria-label="Icon color override"
+              value={style.iconColor}
+              onChange={(e) => update({ iconColor: e.target.value })}
+              className="h-8 w-12 p-1"
+            />
+          ) : (
+            <span className="text-xs text-muted-foreground">Gradient</span>
+          ))}
+      </div>
+
+      {/* Icon size (padding) */}
+      <div className="flex items-center gap-2 h-8">
+        <Checkbox
+          id={iconSizeId}
+          checked={style.iconSize !== undefined}
+          onCheckedChange={(checked) =>
+            update({
+              iconSize:
+                checked === true ? STYLE_OVERRIDE_DEFAULTS.iconSize : undefined,
+            })
+          }
+        />
+        <Label
+          htmlFor={iconSizeId}
+          className="w-24 text-xs font-normal text-muted-foreground cursor-pointer"
+        >
+          Icon size
+        </Label>
+        {style.iconSize !== undefined && (
+          <>
+            <Slider
+              value={[style.iconSize]}
+              onValueChange={([value]) => update({ iconSize: value })}
+              min={48}
+              max={200}
+              step={1}
+              className="flex-1"
+            />
+            <span className="w-10 text-right text-xs text-muted-foreground">
+              {style.iconSize}
+            </span>
+          </>
+        )}
+      </div>
+
+      {/* Corner radius */}
+      <div className="flex items-center gap-2 h-8">
+        <Checkbox
+          id={cornerRadiusId}
+          checked={style.cornerRadius !== undefined}
+          onCheckedChange={(checked) =>
+            update({
+              cornerRadius:
+                checked === true
+                  ? STYLE_OVERRIDE_DEFAULTS.cornerRadius
+                  : undefined,
+            })
+          }
+        />
+        <Label
+          htmlFor={cornerRadiusId}
+          className="w-24 text-xs font-normal text-muted-foreground cursor-pointer"
+        >
+          Corner radius
+        </Label>
+        {style.cornerRadius !== undefined && (
+          <>
+            <Slider
+              value={[style.cornerRadius]}
+              onValueChange={([value]) => update({ cornerRadius: value })}
+              min={0}
+              max={100}
+              step={1}
+              className="flex-1"
+            />
+            <span className="w-10 text-right text-xs text-muted-foreground">
+              {style.cornerRadius}%
+            </span>
+          </>
+        )}
+      </div>
+
+      {/* Border */}
+      <div className="flex items-center gap-2">
+        <Label className="w-[7.5rem] text-xs font-normal text-muted-foreground">
+          Border
+        </Label>
+        <Select
+          value={border}
+          onValueChange={(value: BorderOverride) =>
+            update(
+              value === "border"
+                ? {
+                    borderEnabled: true,
+                    borderColor:
+                      style.borderColor ?? STYLE_OVERRIDE_DEFAULTS.borderColor,
+                    borderWidth:
+                      style.borderWidth ?? STYLE_OVERRIDE_DEFAULTS.borderWidth,
+                  }
+                : {
+                    borderEnabled: value === "none" ? false : undefined,
+                    borderColor: undefined,
+                    borderWidth: undefined,
+                  }
+            )
+          }
+        >
+          <SelectTrigger className="h-8 w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="inherit">Editor style</SelectItem>
+            <SelectItem value="none">No border</SelectItem>
+            <SelectItem value="border">Border</SelectItem>
+          </SelectContent>
+        </Select>
+        {border === "border" && (
+          <>
+            <Input
+              type="color"
+              aria-label="Border color override"
+              value={style.borderColor ?? STYLE_OVERRIDE_DEFAULTS.borderColor}
+              onChange={(e) => update({ borderColor: e.target.value })}
+              className="h-8 w-12 p-1"
+            />
+            <Input
+              type="number"
+              aria-label="Border width override"
+              value={style.borderWidth ?? STYLE_OVERRIDE_DEFAULTS.borderWidth}
+              onChange={(e) =>
+                update({ borderWidth: parseInt(e.target.value) || 0 })
+              }
+              className="h-8 w-20"
+              min={0}
+              max={64}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
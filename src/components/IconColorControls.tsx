@@ -0,0 +1,166 @@
+/**
+ * Controls for multi-color icons (single color, duotone or per-color mapping)
+ */
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ColorPicker } from "./ColorPicker";
+import { EffectSlider } from "./EffectSlider";
+import type { ColorPaletteEntry } from "@/src/types/preset";
+import { isGradient, type BackgroundValue } from "@/src/utils/gradients";
+import { getIconById } from "@/src/utils/icon-catalog";
+import {
+  getSvgSourceColors,
+  type IconColorMode,
+  type IconColorStyle,
+} from "@/src/utils/icon-colors";
+
+export interface IconColorControlsProps {
+  value: IconColorStyle;
+  onChange: (value: IconColorStyle) => void;
+  /** Selected icon, used to list its source colors in mapped mode */
+  iconId?: string;
+  /** Current icon color (shown for unmapped `currentColor` layers) */
+  iconColor: BackgroundValue;
+  /** Palette colors offered by the color pickers */
+  paletteColors?: ColorPaletteEntry[];
+  className?: string;
+}
+
+export function IconColorControls({
+  value,
+  onChange,
+  iconId,
+  iconColor,
+  paletteColors,
+  className,
+}: IconColorControlsProps) {
+  const [sourceColors, setSourceColors] = React.useState<string[]>([]);
+  const iconSwatch = isGradient(iconColor)
+    ? (iconColor.stops[0]?.color ?? "#ffffff")
+    : iconColor;
+
+  React.useEffect(() => {
+    if (value.mode !== "mapped" || !iconId) {
+      setSourceColors([]);
+      return;
+    }
+
+    let cancelled = false;
+    getIconById(iconId)
+      .then((icon) => {
+        if (!cancelled) {
+          setSourceColors(icon ? getSvgSourceColors(icon.svg) : []);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setSourceColors([]);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [iconId, value.mode]);
+
+  const update = (changes: Partial<IconColorStyle>) => {
+    onChange({ ...value, ...changes });
+  };
+
+  const updateMappedColor = (source: string, color: string) => {
+    update({ colorMap: { ...value.colorMap, [source]: color } });
+  };
+
+  return (
+    <div className={className}>
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label className="text-xs">Color Mode</Label>
+          <Select
+            value={value.mode}
+            onValueChange={(mode) => update({ mode: mode as IconColorMode })}
+          >
+            <SelectTrigger aria-label="Icon color mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="single">Single Color</SelectItem>
+              <SelectItem value="duotone">Duotone</SelectItem>
+              <SelectItem value="mapped">Color Map</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {value.mode === "duotone" ? (
+          <>
+            <ColorPicker
+              id="icon-secondary-color"
+              label="Secondary Color"
+              value={value.secondaryColor}
+              onChange={(secondaryColor) => update({ secondaryColor })}
+              colorType="icon"
+              paletteColors={paletteColors}
+            />
+            <EffectSlider
+              id="icon-secondary-opacity"
+              label="Secondary Opacity"
+              value={value.secondaryOpacity}
+              onChange={(secondaryOpacity) => update({ secondaryOpacity })}
+              min={0}
+              max={100}
+              step={1}
+              unit="%"
+            />
+          </>
+        ) : null}
+
+        {value.mode === "mapped" ? (
+          sourceColors.length > 0 ? (
+            <>
+              {sourceColors.map((source, index) => (
+                <ColorPicker
+                  key={source}
+                  id={`icon-mapped-color-${index}`}
+                  label={
+                    source === "currentColor"
+                      ? "Icon color layer"
+                      : `Replace ${source}`
+                  }
+                  value={
+                    value.colorMap[source] ??
+                    (source === "currentColor" ? iconSwatch : source)
+                  }
+                  onChange={(color) => updateMappedColor(source, color)}
+                  colorType="icon"
+                  paletteColors={paletteColors}
+                />
+              ))}
+              {Object.keys(value.colorMap).length > 0 ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => update({ colorMap: {} })}
+                >
+                  Reset Colors
+                </Button>
+              ) : null}
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              This icon has no fill or stroke colors to map.
+            </p>
+          )
+        ) : null}
+      </div>
+    </div>
+  );
+}
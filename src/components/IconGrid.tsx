@@ -12,6 +12,14 @@ export interface IconGridProps {
   icons: IconMetadata[];
   selectedIconId?: string;
   onIconSelect?: (iconId: string) => void;
+  /** Icons in the multi-selection (batch export) */
+  selectedIconIds?: string[];
+  /**
+   * Toggle an icon in the multi-selection. Called on Ctrl/⌘-click, or on any
+   * click while `multiSelect` is enabled.
+   */
+  onIconToggle?: (iconId: string) => void;
+  multiSelect?: boolean;
   onFavoriteToggle?: (iconId: string, isFavorite: boolean) => void;
   onRemove?: (iconId: string) => void;
   searchQuery?: string;
@@ -24,6 +32,9 @@ export function IconGrid({
   icons,
   selectedIconId,
   onIconSelect,
+  selectedIconIds,
+  onIconToggle,
+  multiSelect = false,
   onFavoriteToggle,
   onRemove,
   searchQuery,
@@ -42,6 +53,17 @@ export function IconGrid({
 
   const hasMore = icons.length > MAX_VISIBLE_ICONS && !showAll;
 
+  const handleIconClick = (
+    iconId: string,
+    event: React.MouseEvent<HTMLButtonElement>
+  ) => {
+    if (onIconToggle && (multiSelect || event.metaKey || event.ctrlKey)) {
+      onIconToggle(iconId);
+      return;
+    }
+    onIconSelect?.(iconId);
+  };
+
   if (isLoading) {
     return (
       <EmptyState
@@ -72,7 +94,9 @@ export function IconGrid({
                   ` (showing ${MAX_VISIBLE_ICONS} of ${icons.length})`}
               </p>
               <p className="text-xs text-muted-foreground">
-                Click an icon to select it
+                {multiSelect
+                  ? "Click icons to add them to the selection"
+                  : "Click an icon to select it"}
               </p>
             </div>
           )}
@@ -89,7 +113,8 @@ export function IconGrid({
                 key={icon.id}
                 icon={icon}
                 isSelected={selectedIconId === icon.id}
-                onClick={() => onIconSelect?.(icon.id)}
+                isMultiSelected={selectedIconIds?.includes(icon.id)}
+                onClick={(event) => handleIconClick(icon.id, event)}
                 onFavoriteToggle={onFavoriteToggle}
                 onRemove={onRemove}
                 style={{
@@ -13,7 +13,9 @@ import { prepareSvgForDisplay } from "@/src/utils/icon-display";
 export interface IconGridItemProps {
   icon: IconMetadata;
   isSelected?: boolean;
-  onClick?: () => void;
+  /** Whether the icon is part of the multi-selection (batch export) */
+  isMultiSelected?: boolean;
+  onClick?: (event: React.MouseEvent<HTMLButtonElement>) => void;
   onFavoriteToggle?: (iconId: string, isFavorite: boolean) => void;
   onRemove?: (iconId: string) => void;
   className?: string;
@@ -23,6 +25,7 @@ export interface IconGridItemProps {
 export function IconGridItem({
   icon,
   isSelected = false,
+  isMultiSelected,
   onClick,
   onFavoriteToggle,
   onRemove,
@@ -120,9 +123,11 @@ export function IconGridItem({
         "bg-muted/50 hover:bg-muted hover:border-primary/50",
         "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2",
         isSelected && "border-primary bg-primary/10 shadow-sm",
+        isMultiSelected && "border-primary border-dashed bg-primary/10",
         className
       )}
       aria-label={`Select icon: ${icon.name}`}
+      aria-pressed={isMultiSelected}
     >
       {/* SVG Icon */}
       {svgContent ? (
@@ -143,6 +148,13 @@ export function IconGridItem({
         </div>
       )}
 
+      {/* Multi-selection indicator */}
+      {isMultiSelected && !isSelected && (
+        <div className="absolute right-1 top-1 rounded-sm bg-primary p-0.5">
+          <Check className="size-2.5 text-primary-foreground" />
+        </div>
+      )}
+
       {/* Favorite button */}
       <div
         role="button"
@@ -177,7 +189,7 @@ export function IconGridItem({
           className={cn(
             "absolute right-1 top-1 rounded-sm p-0.5 opacity-0 transition-opacity group-hover:opacity-100 cursor-pointer",
             "hover:bg-destructive/20 focus-visible:opacity-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
-            isSelected && "top-6" // Move down if selection indicator is shown
+            (isSelected || isMultiSelected) && "top-6" // Move down if selection indicator is shown
           )}
           aria-label="Remove emoji"
           onMouseDown={(e) => e.stopPropagation()}
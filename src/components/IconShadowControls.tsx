@@ -0,0 +1,142 @@
+/**
+ * Controls for the icon glyph shadow (drop shadow or long shadow)
+ */
+
+import * as React from "react";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ColorPicker } from "./ColorPicker";
+import { EffectSlider } from "./EffectSlider";
+import type { ColorPaletteEntry } from "@/src/types/preset";
+import type { IconShadow, IconShadowType } from "@/src/utils/icon-shadow";
+
+export interface IconShadowControlsProps {
+  value: IconShadow;
+  onChange: (value: IconShadow) => void;
+  /** Palette colors offered by the color picker */
+  paletteColors?: ColorPaletteEntry[];
+  className?: string;
+}
+
+export function IconShadowControls({
+  value,
+  onChange,
+  paletteColors,
+  className,
+}: IconShadowControlsProps) {
+  const update = (changes: Partial<IconShadow>) => {
+    onChange({ ...value, ...changes });
+  };
+
+  return (
+    <div className={className}>
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label className="text-xs">Shadow</Label>
+          <Select
+            value={value.type}
+            onValueChange={(type) => update({ type: type as IconShadowType })}
+          >
+            <SelectTrigger aria-label="Shadow type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              <SelectItem value="drop">Drop Shadow</SelectItem>
+              <SelectItem value="long">Long Shadow</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {value.type !== "none" ? (
+          <>
+            <ColorPicker
+              id="icon-shadow-color"
+              label="Shadow Color"
+              value={value.color}
+              onChange={(color) => update({ color })}
+              colorType="icon"
+              paletteColors={paletteColors}
+            />
+            <EffectSlider
+              id="icon-shadow-opacity"
+              label="Opacity"
+              value={value.opacity}
+              onChange={(opacity) => update({ opacity })}
+              min={0}
+              max={100}
+              step={1}
+              unit="%"
+            />
+          </>
+        ) : null}
+
+        {value.type === "drop" ? (
+          <>
+            <EffectSlider
+              id="icon-shadow-offset-x"
+              label="Offset X"
+              value={value.offsetX}
+              onChange={(offsetX) => update({ offsetX })}
+              min={-64}
+              max={64}
+              step={1}
+              unit="px"
+            />
+            <EffectSlider
+              id="icon-shadow-offset-y"
+              label="Offset Y"
+              value={value.offsetY}
+              onChange={(offsetY) => update({ offsetY })}
+              min={-64}
+              max={64}
+              step={1}
+              unit="px"
+            />
+            <EffectSlider
+              id="icon-shadow-blur"
+              label="Blur"
+              value={value.blur}
+              onChange={(blur) => update({ blur })}
+              min={0}
+              max={64}
+              step={1}
+              unit="px"
+            />
+          </>
+        ) : null}
+
+        {value.type === "long" ? (
+          <>
+            <EffectSlider
+              id="icon-shadow-angle"
+              label="Angle"
+              value={value.angle}
+              onChange={(angle) => update({ angle })}
+              min={0}
+              max={360}
+              step={1}
+              unit="°"
+            />
+            <EffectSlider
+              id="icon-shadow-length"
+              label="Length"
+              value={value.length}
+              onChange={(length) => update({ length })}
+              min={0}
+              max={320}
+              step={4}
+              unit="px"
+            />
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
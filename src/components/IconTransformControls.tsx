@@ -0,0 +1,97 @@
+/**
+ * Controls for the icon glyph placement (offset, rotation and mirroring)
+ */
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { EffectSlider } from "./EffectSlider";
+import {
+  DEFAULT_ICON_TRANSFORM,
+  isIconTransformActive,
+  type IconTransform,
+} from "@/src/utils/icon-transform";
+
+export interface IconTransformControlsProps {
+  value: IconTransform;
+  onChange: (value: IconTransform) => void;
+  className?: string;
+}
+
+export function IconTransformControls({
+  value,
+  onChange,
+  className,
+}: IconTransformControlsProps) {
+  const update = (changes: Partial<IconTransform>) => {
+    onChange({ ...value, ...changes });
+  };
+
+  return (
+    <div className={className}>
+      <div className="space-y-4">
+        <EffectSlider
+          id="icon-offset-x"
+          label="Horizontal Offset"
+          value={value.offsetX}
+          onChange={(offsetX) => update({ offsetX })}
+          min={-80}
+          max={80}
+          step={1}
+          unit="px"
+        />
+        <EffectSlider
+          id="icon-offset-y"
+          label="Vertical Offset"
+          value={value.offsetY}
+          onChange={(offsetY) => update({ offsetY })}
+          min={-80}
+          max={80}
+          step={1}
+          unit="px"
+        />
+        <EffectSlider
+          id="icon-rotation"
+          label="Rotation"
+          value={value.rotation}
+          onChange={(rotation) => update({ rotation })}
+          min={-180}
+          max={180}
+          step={1}
+          unit="°"
+        />
+
+        <div className="flex items-center justify-between gap-3">
+          <label htmlFor="icon-flip-x" className="text-sm font-medium">
+            Mirror Horizontally
+          </label>
+          <Switch
+            id="icon-flip-x"
+            checked={value.flipX}
+            onCheckedChange={(flipX) => update({ flipX })}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-3">
+          <label htmlFor="icon-flip-y" className="text-sm font-medium">
+            Mirror Vertically
+          </label>
+          <Switch
+            id="icon-flip-y"
+            checked={value.flipY}
+            onCheckedChange={(flipY) => update({ flipY })}
+          />
+        </div>
+
+        {isIconTransformActive(value) ? (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(DEFAULT_ICON_TRANSFORM)}
+          >
+            Reset Position
+          </Button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
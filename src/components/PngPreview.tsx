@@ -1,13 +1,21 @@
 /**
  * PNG preview component showing logo.png and logo-small.png
+ * Optionally previews them as maskable icons under a platform crop mask
  */
 
 import * as React from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { PreviewPlaceholder } from "./PreviewPlaceholder";
 import { PNG_SPECS } from "@/src/constants/app";
+import { MASKABLE_SAFE_ZONE_RATIO } from "@/src/types/preset";
 import type { IconGeneratorState } from "../hooks/use-icon-generator";
-import { renderPng, renderPngFromImage } from "../utils/renderer";
+import {
+  renderPng,
+  renderPngFromImage,
+  renderRaster,
+  renderRasterFromImage,
+} from "../utils/renderer";
 import { getIconById } from "../utils/icon-catalog";
 import { isCustomImageIcon } from "../utils/locations";
 import {
@@ -22,6 +30,53 @@ export interface PngPreviewProps {
   colorOverrideKey?: number;
 }
 
+/**
+ * Shapes launchers commonly crop maskable icons to
+ */
+export type MaskableCropMask = "circle" | "squircle" | "teardrop";
+
+/** Crop mask outlines on a 100×100 viewBox */
+const CROP_MASK_PATHS: Record<MaskableCropMask, string> = {
+  circle: "M50 0A50 50 0 1 1 50 100A50 50 0 1 1 50 0Z",
+  squircle: "M50 0C92 0 100 8 100 50S92 100 50 100S0 92 0 50S8 0 50 0Z",
+  teardrop:
+    "M50 0A50 50 0 0 1 100 50V100H50A50 50 0 0 1 0 50A50 50 0 0 1 50 0Z",
+};
+
+const CROP_MASK_LABELS: Record<MaskableCropMask, string> = {
+  circle: "Circle",
+  squircle: "Squircle",
+  teardrop: "Teardrop",
+};
+
+/**
+ * Dims the area a crop mask removes and outlines the maskable safe zone
+ */
+function CropMaskOverlay({ mask }: { mask: MaskableCropMask }) {
+  return (
+    <svg
+      viewBox="0 0 100 100"
+      className="pointer-events-none absolute inset-0 h-full w-full"
+      aria-hidden="true"
+    >
+      <path
+        d={`M0 0H100V100H0Z${CROP_MASK_PATHS[mask]}`}
+        fillRule="evenodd"
+        className="fill-background/80"
+      />
+      <circle
+        cx="50"
+        cy="50"
+        r={MASKABLE_SAFE_ZONE_RATIO * 50}
+        fill="none"
+        className="stroke-primary"
+        strokeWidth="0.75"
+        strokeDasharray="2 2"
+      />
+    </svg>
+  );
+}
+
 export function PngPreview({
   iconId,
   state,
@@ -29,6 +84,7 @@ export function PngPreview({
 }: PngPreviewProps) {
   const [logoUrl, setLogoUrl] = React.useState<string | null>(null);
   const [logoSmallUrl, setLogoSmallUrl] = React.useState<string | null>(null);
+  const [cropMask, setCropMask] = React.useState<MaskableCropMask | null>(null);
 
   React.useEffect(() => {
     if (!iconId || !state) {
@@ -45,6 +101,8 @@ export function PngPreview({
 
         // Check if this is a custom image
         const isCustomImage = isCustomImageIcon(iconId);
+        // Crop masks preview the maskable rendering (full bleed, safe zone)
+        const maskable = cropMask !== null;
 
         if (isCustomImage) {
           // Get image data from sessionStorage
@@ -61,7 +119,9 @@ export function PngPreview({
           const originalColor = colorAnalysis?.dominantColor;
 
           // Generate logo.png from custom image
-          const logoBlob = await renderPngFromImage({
+          const logoBlob = await (
+            maskable ? renderRasterFromImage : renderPngFromImage
+          )({
             imageDataUrl,
             backgroundColor: state.backgroundColor,
             size: state.iconSize,
@@ -69,10 +129,13 @@ export function PngPreview({
             height: PNG_SPECS.LOGO.height,
             colorOverride,
             originalColor,
+            backgroundShape: state.backgroundShape,
             cornerRadius: state.cornerRadius,
             borderEnabled: state.borderEnabled,
             borderColor: state.borderColor,
             borderWidth: state.borderWidth,
+            iconTransform: state.iconTransform,
+            maskable,
           });
 
           if (cancelled) return;
@@ -80,7 +143,9 @@ export function PngPreview({
           setLogoUrl(logoUrl);
 
           // Generate logo-small.png from custom image
-          const logoSmallBlob = await renderPngFromImage({
+          const logoSmallBlob = await (
+            maskable ? renderRasterFromImage : renderPngFromImage
+          )({
             imageDataUrl,
             backgroundColor: state.backgroundColor,
             size: state.iconSize,
@@ -88,10 +153,13 @@ export function PngPreview({
             height: PNG_SPECS.LOGO_SMALL.height,
             colorOverride,
             originalColor,
+            backgroundShape: state.backgroundShape,
             cornerRadius: state.cornerRadius,
             borderEnabled: state.borderEnabled,
             borderColor: state.borderColor,
             borderWidth: state.borderWidth,
+            iconTransform: state.iconTransform,
+            maskable,
           });
 
           if (cancelled) return;
@@ -103,17 +171,22 @@ export function PngPreview({
           if (!icon || cancelled) return;
 
           // Generate logo.png
-          const logoBlob = await renderPng({
+          const logoBlob = await (maskable ? renderRaster : renderPng)({
             icon,
             backgroundColor: state.backgroundColor,
             iconColor: state.iconColor,
             size: state.iconSize,
             width: PNG_SPECS.LOGO.width,
             height: PNG_SPECS.LOGO.height,
+            backgroundShape: state.backgroundShape,
             cornerRadius: state.cornerRadius,
             borderEnabled: state.borderEnabled,
             borderColor: state.borderColor,
             borderWidth: state.borderWidth,
+            iconShadow: state.iconShadow,
+            iconColorStyle: state.iconColorStyle,
+            iconTransform: state.iconTransform,
+            maskable,
           });
 
           if (cancelled) return;
@@ -121,17 +194,22 @@ export function PngPreview({
           setLogoUrl(logoUrl);
 
           // Generate logo-small.png
-          const logoSmallBlob = await renderPng({
+          const logoSmallBlob = await (maskable ? renderRaster : renderPng)({
             icon,
             backgroundColor: state.backgroundColor,
             iconColor: state.iconColor,
             size: state.iconSize,
             width: PNG_SPECS.LOGO_SMALL.width,
             height: PNG_SPECS.LOGO_SMALL.height,
+            backgroundShape: state.backgroundShape,
             cornerRadius: state.cornerRadius,
             borderEnabled: state.borderEnabled,
             borderColor: state.borderColor,
             borderWidth: state.borderWidth,
+            iconShadow: state.iconShadow,
+            iconColorStyle: state.iconColorStyle,
+            iconTransform: state.iconTransform,
+            maskable,
           });
 
           if (cancelled) return;
@@ -153,7 +231,7 @@ export function PngPreview({
       if (logoSmallUrl) URL.revokeObjectURL(logoSmallUrl);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps -- logoUrl and logoSmallUrl are intentionally excluded to prevent infinite loops (they are outputs, not inputs)
-  }, [iconId, state, colorOverrideKey]);
+  }, [iconId, state, colorOverrideKey, cropMask]);
 
   if (!iconId || !state) {
     return (
@@ -177,6 +255,37 @@ export function PngPreview({
   return (
     <ScrollArea className="h-full">
       <div className="space-y-6 pr-4">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">Maskable crop</span>
+          <ToggleGroup
+            type="single"
+            value={cropMask ?? "none"}
+            onValueChange={(value) => {
+              if (value) {
+                setCropMask(
+                  value === "none" ? null : (value as MaskableCropMask)
+                );
+              }
+            }}
+            variant="outline"
+            size="sm"
+          >
+            <ToggleGroupItem value="none" aria-label="No crop mask">
+              Off
+            </ToggleGroupItem>
+            {(Object.keys(CROP_MASK_PATHS) as MaskableCropMask[]).map(
+              (mask) => (
+                <ToggleGroupItem
+                  key={mask}
+                  value={mask}
+                  aria-label={`${CROP_MASK_LABELS[mask]} crop mask`}
+                >
+                  {CROP_MASK_LABELS[mask]}
+                </ToggleGroupItem>
+              )
+            )}
+          </ToggleGroup>
+        </div>
         <div className="space-y-2">
           <div className="flex items-center justify-between">
             <h3 className="text-sm font-medium font-mono">
@@ -188,12 +297,15 @@ export function PngPreview({
           </div>
           <div className="flex aspect-square w-full max-w-[320px] items-center justify-center rounded-lg border-2 border-dashed bg-muted/20 p-2">
             {logoUrl ? (
-              // eslint-disable-next-line @next/next/no-img-element
-              <img
-                src={logoUrl}
-                alt={PNG_SPECS.LOGO.filename}
-                className="max-w-full max-h-full"
-              />
+              <div className="relative max-h-full max-w-full">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={logoUrl}
+                  alt={PNG_SPECS.LOGO.filename}
+                  className="block max-w-full max-h-full"
+                />
+                {cropMask && <CropMaskOverlay mask={cropMask} />}
+              </div>
             ) : null}
           </div>
         </div>
@@ -208,12 +320,15 @@ export function PngPreview({
           </div>
           <div className="flex aspect-square w-full max-w-[128px] items-center justify-center rounded-lg border-2 border-dashed bg-muted/20 p-2">
             {logoSmallUrl ? (
-              // eslint-disable-next-line @next/next/no-img-element
-              <img
-                src={logoSmallUrl}
-                alt={PNG_SPECS.LOGO_SMALL.filename}
-                className="max-w-full max-h-full"
-              />
+              <div className="relative max-h-full max-w-full">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={logoSmallUrl}
+                  alt={PNG_SPECS.LOGO_SMALL.filename}
+                  className="block max-w-full max-h-full"
+                />
+                {cropMask && <CropMaskOverlay mask={cropMask} />}
+              </div>
             ) : null}
           </div>
         </div>
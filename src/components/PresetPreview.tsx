@@ -11,11 +11,13 @@ import { AlertTriangle } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import type { IconGeneratorState } from "../hooks/use-icon-generator";
 import type { ExportPreset, ExportVariantConfig } from "@/src/types/preset";
+import { applyVariantStyle, isIconContainerFormat } from "@/src/types/preset";
 import { SVG_SPECS } from "@/src/constants/app";
 import {
+  renderAdaptiveIconLayer,
   renderPng,
-  renderPngFromImage,
   renderRaster,
+  renderRasterFromImage,
   renderSvg,
 } from "../utils/renderer";
 import { getIconById } from "../utils/icon-catalog";
@@ -68,13 +70,11 @@ export function PresetPreview({
 
   // Calculate skipped variants
   const skippedCount = React.useMemo(() => {
-    return preset.variants.filter((v) => {
-      if (isCanvasMode && (v.format === "svg" || v.format === "ico"))
-        return true;
-      if (isCustomImage && (v.format === "svg" || v.format === "ico"))
-        return true;
-      return false;
-    }).length;
+    if (!isCanvasMode && !isCustomImage) return 0;
+    return preset.variants.filter(
+      (v) =>
+        v.format === "svg" || isIconContainerFormat(v.format) || v.adaptiveLayer
+    ).length;
   }, [preset.variants, isCanvasMode, isCustomImage]);
 
   React.useEffect(() => {
@@ -110,21 +110,25 @@ export function PresetPreview({
 
         for (const variant of preset.variants) {
           if (cancelled) break;
+          const style = applyVariantStyle(state, variant.style);
 
           // Check if variant should be skipped
           const isSvgOrIco =
-            variant.format === "svg" || variant.format === "ico";
+            variant.format === "svg" || isIconContainerFormat(variant.format);
           const shouldSkip =
-            (isCanvasMode && isSvgOrIco) || (isCustomImg && isSvgOrIco);
+            (isCanvasMode || isCustomImg) &&
+            (isSvgOrIco || !!variant.adaptiveLayer);
 
           if (shouldSkip) {
             newPreviews.push({
               variant,
               url: null,
               isSkipped: true,
-              skipReason: isCanvasMode
-                ? "Canvas mode only supports raster formats"
-                : "Custom images cannot be exported as SVG/ICO",
+              skipReason: variant.adaptiveLayer
+                ? "Adaptive icon layers are only exported for catalog icons"
+                : isCanvasMode
+                  ? "Canvas mode only supports raster formats"
+                  : "Custom images cannot be exported as SVG/ICO/ICNS",
             });
             continue;
           }
@@ -139,7 +143,7 @@ export function PresetPreview({
               const maxSize = 300;
               const maxPadding = 6;
               const minPadding = -6;
-              const svgSize = state.svgIconSize ?? state.iconSize;
+              const svgSize = style.svgIconSize ?? style.iconSize;
               const padding =
                 maxPadding -
                 ((svgSize - minSize) / (maxSize - minSize)) *
@@ -153,32 +157,40 @@ export function PresetPreview({
 
               const svgString = renderSvg({
                 icon,
-                backgroundColor: state.backgroundColor,
-                iconColor: state.iconColor,
+                backgroundColor: style.backgroundColor,
+                iconColor: style.iconColor,
                 size: artboardSize,
                 padding,
                 outputSize: displaySize,
                 zendeskLocationMode: isZendeskLocationSvg,
-                cornerRadius: state.cornerRadius,
-                borderEnabled: state.borderEnabled,
-                borderColor: state.borderColor,
-                borderWidth: state.borderWidth,
+                backgroundShape: style.backgroundShape,
+                cornerRadius: style.cornerRadius,
+                borderEnabled: style.borderEnabled,
+                borderColor: style.borderColor,
+                borderWidth: style.borderWidth,
+                iconShadow: style.iconShadow,
+                iconColorStyle: style.iconColorStyle,
+                iconTransform: style.iconTransform,
               });
               const blob = new Blob([svgString], { type: "image/svg+xml" });
               url = URL.createObjectURL(blob);
-            } else if (variant.format === "ico" && icon) {
-              // ICO files are multi-size containers; use a PNG thumbnail for preview.
+            } else if (isIconContainerFormat(variant.format) && icon) {
+              // ICO/ICNS files are multi-size containers; use a PNG thumbnail for preview.
               const blob = await renderPng({
                 icon,
-                backgroundColor: state.backgroundColor,
-                iconColor: state.iconColor,
-                size: state.iconSize,
+                backgroundColor: style.backgroundColor,
+                iconColor: style.iconColor,
+                size: style.iconSize,
                 width: variant.width,
                 height: variant.height,
-                cornerRadius: state.cornerRadius,
-                borderEnabled: state.borderEnabled,
-                borderColor: state.borderColor,
-                borderWidth: state.borderWidth,
+                backgroundShape: style.backgroundShape,
+                cornerRadius: style.cornerRadius,
+                borderEnabled: style.borderEnabled,
+                borderColor: style.borderColor,
+                borderWidth: style.borderWidth,
+                iconShadow: style.iconShadow,
+                iconColorStyle: style.iconColorStyle,
+                iconTransform: style.iconTransform,
               });
               url = URL.createObjectURL(blob);
             } else if (isCustomImg && imageDataUrl && iconId) {
@@ -188,56 +200,72 @@ export function PresetPreview({
               const originalColor = colorAnalysis?.dominantColor;
 
               // Custom image raster rendering
-              const blob = await renderPngFromImage({
+              const blob = await renderRasterFromImage({
                 imageDataUrl,
-                backgroundColor: state.backgroundColor,
-                size: state.iconSize,
+                backgroundColor: style.backgroundColor,
+                size: style.iconSize,
                 width: variant.width,
                 height: variant.height,
+                format:
+                  variant.format === "jpeg" || variant.format === "webp"
+                    ? variant.format
+                    : "png",
+                quality: variant.quality ? variant.quality / 100 : undefined,
+                flattenTransparency: variant.flattenTransparency,
+                maskable: variant.purpose === "maskable",
+                glyphColor: variant.glyphColor,
                 colorOverride,
                 originalColor,
-                cornerRadius: state.cornerRadius,
-                borderEnabled: state.borderEnabled,
-                borderColor: state.borderColor,
-                borderWidth: state.borderWidth,
+                backgroundShape: style.backgroundShape,
+                cornerRadius: style.cornerRadius,
+                borderEnabled: style.borderEnabled,
+                borderColor: style.borderColor,
+                borderWidth: style.borderWidth,
+                iconTransform: style.iconTransform,
               });
               url = URL.createObjectURL(blob);
-            } else if (icon) {
-              // Standard icon raster rendering
-              if (variant.format === "png") {
-                const blob = await renderPng({
-                  icon,
-                  backgroundColor: state.backgroundColor,
-                  iconColor: state.iconColor,
-                  size: state.iconSize,
-                  width: variant.width,
-                  height: variant.height,
-                  cornerRadius: state.cornerRadius,
-                  borderEnabled: state.borderEnabled,
-                  borderColor: state.borderColor,
-                  borderWidth: state.borderWidth,
-                });
-                url = URL.createObjectURL(blob);
-              } else if (
+            } else if (icon && variant.adaptiveLayer) {
+              const blob = await renderAdaptiveIconLayer({
+                icon,
+                backgroundColor: style.backgroundColor,
+                iconColor: style.iconColor,
+                size: style.iconSize,
+                outputSize: Math.min(variant.width, variant.height),
+                layer: variant.adaptiveLayer,
+                iconColorStyle: style.iconColorStyle,
+                iconTransform: style.iconTransform,
+              });
+              url = URL.createObjectURL(blob);
+            } else if (
+              icon &&
+              (variant.format === "png" ||
                 variant.format === "jpeg" ||
-                variant.format === "webp"
-              ) {
-                const blob = await renderRaster({
-                  icon,
-                  backgroundColor: state.backgroundColor,
-                  iconColor: state.iconColor,
-                  size: state.iconSize,
-                  width: variant.width,
-                  height: variant.height,
-                  format: variant.format,
-                  quality: variant.quality,
-                  cornerRadius: state.cornerRadius,
-                  borderEnabled: state.borderEnabled,
-                  borderColor: state.borderColor,
-                  borderWidth: state.borderWidth,
-                });
-                url = URL.createObjectURL(blob);
-              }
+                variant.format === "webp")
+            ) {
+              // Standard icon raster rendering, with the same variant options
+              // as the exported file
+              const blob = await renderRaster({
+                icon,
+                backgroundColor: style.backgroundColor,
+                iconColor: style.iconColor,
+                size: style.iconSize,
+                width: variant.width,
+                height: variant.height,
+                format: variant.format,
+                quality: variant.quality ? variant.quality / 100 : undefined,
+                flattenTransparency: variant.flattenTransparency,
+                maskable: variant.purpose === "maskable",
+                glyphColor: variant.glyphColor,
+                backgroundShape: style.backgroundShape,
+                cornerRadius: style.cornerRadius,
+                borderEnabled: style.borderEnabled,
+                borderColor: style.borderColor,
+                borderWidth: style.borderWidth,
+                iconShadow: style.iconShadow,
+                iconColorStyle: style.iconColorStyle,
+                iconTransform: style.iconTransform,
+              });
+              url = URL.createObjectURL(blob);
             }
 
             newPreviews.push({
@@ -306,12 +334,15 @@ export function PresetPreview({
     );
   }
 
-  const getBackgroundStyle = (): React.CSSProperties => {
+  const getBackgroundStyle = (
+    variant: ExportVariantConfig
+  ): React.CSSProperties => {
     if (!state) return {};
-    if (isGradient(state.backgroundColor)) {
-      return { background: gradientToCss(state.backgroundColor) };
+    const background = variant.style?.backgroundColor ?? state.backgroundColor;
+    if (isGradient(background)) {
+      return { background: gradientToCss(background) };
     }
-    return { backgroundColor: state.backgroundColor };
+    return { backgroundColor: background };
   };
 
   return (
@@ -428,7 +459,7 @@ export function PresetPreview({
                         style={{
                           width: previewWidth,
                           height: previewHeight,
-                          ...getBackgroundStyle(),
+                          ...getBackgroundStyle(variant),
                         }}
                       />
                     )}
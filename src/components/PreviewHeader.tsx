@@ -74,7 +74,7 @@ export function PreviewHeader({ iconMetadata }: PreviewHeaderProps) {
       <div className="flex-1 min-w-0">
         <p className="text-base font-semibold truncate">{iconMetadata.name}</p>
         <p className="text-sm text-muted-foreground">
-          {formatPackName(iconMetadata.pack)}
+          {iconMetadata.userPack?.name ?? formatPackName(iconMetadata.pack)}
         </p>
       </div>
     </div>
@@ -27,7 +27,7 @@ export interface RestrictedStyleSelectorProps {
   /** Current background value */
   currentBackground: BackgroundValue;
   /** Current icon color */
-  currentIconColor: string;
+  currentIconColor: BackgroundValue;
   /** Callback when a style is selected */
   onStyleSelect: (style: RestrictedStyle) => void;
   /** Optional class name */
@@ -70,11 +70,11 @@ function backgroundsEqual(a: BackgroundValue, b: BackgroundValue): boolean {
 function isStyleActive(
   style: RestrictedStyle,
   currentBackground: BackgroundValue,
-  currentIconColor: string
+  currentIconColor: BackgroundValue
 ): boolean {
   return (
     backgroundsEqual(style.backgroundColor, currentBackground) &&
-    style.iconColor.toLowerCase() === currentIconColor.toLowerCase()
+    backgroundsEqual(style.iconColor, currentIconColor)
   );
 }
 
@@ -18,14 +18,26 @@ import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
 import { BackgroundControls } from "./BackgroundControls";
+import { BackgroundShapeSelect } from "./BackgroundShapeSelect";
 import { ColorPicker } from "./ColorPicker";
 import { DebouncedColorInput } from "./DebouncedColorInput";
 import { EffectSlider } from "./EffectSlider";
+import { IconShadowControls } from "./IconShadowControls";
 import type { StylePreset, ColorPaletteEntry } from "@/src/types/preset";
 import type { BackgroundValue } from "@/src/utils/gradients";
 import { KALE_COLORS } from "@/src/utils/gradients";
 import { generateColorPaletteEntryId } from "@/src/utils/preset-storage";
 import { DEFAULT_APPEARANCE } from "@/src/constants/app";
+import {
+  DEFAULT_BACKGROUND_SHAPE,
+  getBackgroundShapePathData,
+  type BackgroundShape,
+} from "@/src/utils/background-shape";
+import {
+  DEFAULT_ICON_SHADOW,
+  isIconShadowVisible,
+  type IconShadow,
+} from "@/src/utils/icon-shadow";
 
 /** Maximum number of colors in a palette */
 const MAX_PALETTE_COLORS = 8;
@@ -67,6 +79,9 @@ export function StylePresetEditor({
   const [iconColor, setIconColor] = React.useState(
     preset?.iconColor || DEFAULT_ICON_COLOR
   );
+  const [backgroundShape, setBackgroundShape] = React.useState<BackgroundShape>(
+    preset?.backgroundShape ?? DEFAULT_BACKGROUND_SHAPE
+  );
   const [cornerRadius, setCornerRadius] = React.useState(
     preset?.cornerRadius ?? DEFAULT_APPEARANCE.CORNER_RADIUS
   );
@@ -79,6 +94,9 @@ export function StylePresetEditor({
   const [borderWidth, setBorderWidth] = React.useState(
     preset?.borderWidth ?? DEFAULT_APPEARANCE.BORDER_WIDTH
   );
+  const [iconShadow, setIconShadow] = React.useState<IconShadow>(
+    preset?.iconShadow ?? DEFAULT_ICON_SHADOW
+  );
   const [colorPalette, setColorPalette] = React.useState<ColorPaletteEntry[]>(
     preset?.colorPalette || []
   );
@@ -89,21 +107,25 @@ export function StylePresetEditor({
       setName(preset.name);
       setBackgroundColor(preset.backgroundColor);
       setIconColor(preset.iconColor);
+      setBackgroundShape(preset.backgroundShape ?? DEFAULT_BACKGROUND_SHAPE);
       setCornerRadius(preset.cornerRadius ?? DEFAULT_APPEARANCE.CORNER_RADIUS);
       setBorderEnabled(
         preset.borderEnabled ?? DEFAULT_APPEARANCE.BORDER_ENABLED
       );
       setBorderColor(preset.borderColor ?? DEFAULT_APPEARANCE.BORDER_COLOR);
       setBorderWidth(preset.borderWidth ?? DEFAULT_APPEARANCE.BORDER_WIDTH);
+      setIconShadow(preset.iconShadow ?? DEFAULT_ICON_SHADOW);
       setColorPalette(preset.colorPalette || []);
     } else {
       setName("");
       setBackgroundColor(DEFAULT_BACKGROUND);
       setIconColor(DEFAULT_ICON_COLOR);
+      setBackgroundShape(DEFAULT_BACKGROUND_SHAPE);
       setCornerRadius(DEFAULT_APPEARANCE.CORNER_RADIUS);
       setBorderEnabled(DEFAULT_APPEARANCE.BORDER_ENABLED);
       setBorderColor(DEFAULT_APPEARANCE.BORDER_COLOR);
       setBorderWidth(DEFAULT_APPEARANCE.BORDER_WIDTH);
+      setIconShadow(DEFAULT_ICON_SHADOW);
       setColorPalette([]);
     }
   }, [preset, open]);
@@ -115,10 +137,15 @@ export function StylePresetEditor({
       name: name.trim(),
       backgroundColor,
       iconColor,
+      backgroundShape:
+        backgroundShape !== DEFAULT_BACKGROUND_SHAPE
+          ? backgroundShape
+          : undefined,
       cornerRadius,
       borderEnabled,
       borderColor,
       borderWidth,
+      iconShadow: iconShadow.type !== "none" ? iconShadow : undefined,
       colorPalette: colorPalette.length > 0 ? colorPalette : undefined,
     });
 
@@ -194,10 +221,12 @@ export function StylePresetEditor({
               <StylePreview
                 backgroundColor={backgroundColor}
                 iconColor={iconColor}
+                backgroundShape={backgroundShape}
                 cornerRadius={cornerRadius}
                 borderEnabled={borderEnabled}
                 borderColor={borderColor}
                 borderWidth={borderWidth}
+                iconShadow={iconShadow}
               />
             </div>
 
@@ -224,16 +253,23 @@ export function StylePresetEditor({
 
             <div className="space-y-4">
               <Label>Appearance</Label>
-              <EffectSlider
-                id="style-corner-radius"
-                label="Corner Radius"
-                value={cornerRadius}
-                onChange={setCornerRadius}
-                min={0}
-                max={100}
-                step={1}
-                unit="%"
+              <BackgroundShapeSelect
+                id="style-background-shape"
+                value={backgroundShape}
+                onChange={setBackgroundShape}
               />
+              {backgroundShape === "rounded" ? (
+                <EffectSlider
+                  id="style-corner-radius"
+                  label="Corner Radius"
+                  value={cornerRadius}
+                  onChange={setCornerRadius}
+                  min={0}
+                  max={100}
+                  step={1}
+                  unit="%"
+                />
+              ) : null}
               <div className="flex items-center justify-between">
                 <Label htmlFor="style-border-enabled">Border</Label>
                 <Switch
@@ -267,6 +303,11 @@ export function StylePresetEditor({
 
             <Separator />
 
+            {/* Icon Shadow */}
+            <IconShadowControls value={iconShadow} onChange={setIconShadow} />
+
+            <Separator />
+
             {/* Color Palette */}
             <div className="space-y-3">
               <div className="flex items-center justify-between">
@@ -342,19 +383,51 @@ export function StylePresetEditor({
 interface StylePreviewProps {
   backgroundColor: BackgroundValue;
   iconColor: string;
+  backgroundShape: BackgroundShape;
   cornerRadius: number;
   borderEnabled: boolean;
   borderColor: string;
   borderWidth: number;
+  iconShadow: IconShadow;
+}
+
+/** Size of the square preview tile for non-rectangular shapes (h-20) */
+const PREVIEW_TILE_SIZE = 80;
+
+/** Preview scale relative to the 320 unit artboard */
+const PREVIEW_SHADOW_SCALE = 96 / 320;
+
+/**
+ * Approximate the icon shadow with a CSS drop-shadow filter
+ */
+function getShadowFilter(shadow: IconShadow): string | undefined {
+  if (!isIconShadowVisible(shadow)) {
+    return undefined;
+  }
+  const alpha = Math.round((Math.min(100, shadow.opacity) / 100) * 255)
+    .toString(16)
+    .padStart(2, "0");
+  const color = `${shadow.color}${alpha}`;
+  if (shadow.type === "drop") {
+    const x = shadow.offsetX * PREVIEW_SHADOW_SCALE;
+    const y = shadow.offsetY * PREVIEW_SHADOW_SCALE;
+    const blur = (shadow.blur * PREVIEW_SHADOW_SCALE) / 2;
+    return `drop-shadow(${x}px ${y}px ${blur}px ${color})`;
+  }
+  const radians = (shadow.angle * Math.PI) / 180;
+  const length = shadow.length * PREVIEW_SHADOW_SCALE;
+  return `drop-shadow(${Math.cos(radians) * length}px ${Math.sin(radians) * length}px 0 ${color})`;
 }
 
 function StylePreview({
   backgroundColor,
   iconColor,
+  backgroundShape,
   cornerRadius,
   borderEnabled,
   borderColor,
   borderWidth,
+  iconShadow,
 }: StylePreviewProps) {
   const getBackgroundStyle = (): React.CSSProperties => {
     if (typeof backgroundColor === "string") {
@@ -379,9 +452,64 @@ function StylePreview({
     }
   };
 
+  const glyph = (
+    <svg
+      viewBox="0 0 24 24"
+      className="h-12 w-12"
+      fill={iconColor}
+      stroke="none"
+      style={{ filter: getShadowFilter(iconShadow) }}
+    >
+      <path d="M12 2L2 7l10 5 10-5-10-5zM2 17l10 5 10-5M2 12l10 5 10-5" />
+    </svg>
+  );
+
+  if (backgroundShape !== "rounded") {
+    // Other outlines are clipped paths on a square tile (border drawn on top)
+    const inset = borderEnabled ? Math.max(1, borderWidth / 4) : 0;
+    return (
+      <div className="h-24 rounded-lg border flex items-center justify-center">
+        <div
+          className="relative h-20 w-20 flex items-center justify-center"
+          style={{
+            ...getBackgroundStyle(),
+            clipPath: `path("${getBackgroundShapePathData(backgroundShape, {
+              x: 0,
+              y: 0,
+              width: PREVIEW_TILE_SIZE,
+              height: PREVIEW_TILE_SIZE,
+              radius: 0,
+            })}")`,
+          }}
+        >
+          {glyph}
+          {borderEnabled ? (
+            <svg
+              viewBox={`0 0 ${PREVIEW_TILE_SIZE} ${PREVIEW_TILE_SIZE}`}
+              className="absolute inset-0 h-full w-full"
+            >
+              <path
+                d={getBackgroundShapePathData(backgroundShape, {
+                  x: inset / 2,
+                  y: inset / 2,
+                  width: PREVIEW_TILE_SIZE - inset,
+                  height: PREVIEW_TILE_SIZE - inset,
+                  radius: 0,
+                })}
+                fill="none"
+                stroke={borderColor}
+                strokeWidth={inset}
+              />
+            </svg>
+          ) : null}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div
-      className="h-24 rounded-lg border flex items-center justify-center"
+      className="h-24 overflow-hidden rounded-lg border flex items-center justify-center"
       style={{
         ...getBackgroundStyle(),
         borderRadius: `${Math.max(0, Math.min(100, cornerRadius))}%`,
@@ -389,14 +517,7 @@ function StylePreview({
         borderWidth: borderEnabled ? Math.max(1, borderWidth / 4) : undefined,
       }}
     >
-      <svg
-        viewBox="0 0 24 24"
-        className="h-12 w-12"
-        fill={iconColor}
-        stroke="none"
-      >
-        <path d="M12 2L2 7l10 5 10-5-10-5zM2 17l10 5 10-5M2 12l10 5 10-5" />
-      </svg>
+      {glyph}
     </div>
   );
 }
@@ -78,10 +78,14 @@ export function SvgPreview({ svgFiles, iconId, state }: SvgPreviewProps) {
             padding,
             outputSize: previewSize, // Use 64px output for preview
             zendeskLocationMode: isZendeskLocationSvg,
+            backgroundShape: state.backgroundShape,
             cornerRadius: state.cornerRadius,
             borderEnabled: state.borderEnabled,
             borderColor: state.borderColor,
             borderWidth: state.borderWidth,
+            iconShadow: state.iconShadow,
+            iconColorStyle: state.iconColorStyle,
+            iconTransform: state.iconTransform,
           });
 
           const blob = new Blob([svgString], { type: "image/svg+xml" });
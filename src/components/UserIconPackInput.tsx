@@ -0,0 +1,211 @@
+"use client";
+
+/**
+ * Import panel for user icon packs (ZIP archive or folder of SVGs)
+ */
+
+import * as React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertCircle,
+  CheckCircle2,
+  FileArchive,
+  FolderOpen,
+  Trash2,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { UserIconPack } from "../types/icon";
+import {
+  createUserIconPack,
+  readIconPackFolder,
+  readIconPackZip,
+  saveUserIconPack,
+  type UserIconPackFile,
+} from "../utils/user-icon-packs";
+
+export interface UserIconPackInputProps {
+  packs: UserIconPack[];
+  onPackImported?: (pack: UserIconPack) => void;
+  onPackRemove?: (packId: string) => void;
+  className?: string;
+}
+
+export function UserIconPackInput({
+  packs,
+  onPackImported,
+  onPackRemove,
+  className,
+}: UserIconPackInputProps) {
+  const zipInputRef = React.useRef<HTMLInputElement>(null);
+  const folderInputRef = React.useRef<HTMLInputElement>(null);
+  const [packName, setPackName] = React.useState("");
+  const [allowColorOverride, setAllowColorOverride] = React.useState(true);
+  const [isImporting, setIsImporting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [success, setSuccess] = React.useState<string | null>(null);
+
+  // webkitdirectory is not part of React's input attribute types
+  React.useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, []);
+
+  const importFiles = async (readFiles: () => Promise<UserIconPackFile[]>) => {
+    setError(null);
+    setSuccess(null);
+    setIsImporting(true);
+
+    try {
+      const files = await readFiles();
+      const { pack, skipped } = createUserIconPack(files, {
+        name: packName || undefined,
+        allowColorOverride,
+      });
+      saveUserIconPack(pack);
+
+      setPackName("");
+      setSuccess(
+        `Imported ${pack.icons.length} icons into "${pack.name}"` +
+          (skipped.length > 0 ? ` (${skipped.length} files skipped)` : "")
+      );
+      onPackImported?.(pack);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import pack");
+    } finally {
+      setIsImporting(false);
+      if (zipInputRef.current) zipInputRef.current.value = "";
+      if (folderInputRef.current) folderInputRef.current.value = "";
+    }
+  };
+
+  const handleZipSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!file.name.toLowerCase().endsWith(".zip")) {
+      setError("Please select a ZIP file");
+      return;
+    }
+
+    void importFiles(() => readIconPackZip(file));
+  };
+
+  const handleFolderSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length === 0) return;
+
+    void importFiles(() => readIconPackFolder(files));
+  };
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="space-y-2">
+        <Label htmlFor="user-pack-name">Pack Name</Label>
+        <Input
+          id="user-pack-name"
+          placeholder="From meta.json or folder name"
+          value={packName}
+          onChange={(e) => setPackName(e.target.value)}
+        />
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="user-pack-color-override"
+          checked={allowColorOverride}
+          onCheckedChange={(checked) => setAllowColorOverride(checked === true)}
+        />
+        <Label
+          htmlFor="user-pack-color-override"
+          className="text-sm font-normal cursor-pointer"
+        >
+          Allow color customization
+        </Label>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          ref={zipInputRef}
+          type="file"
+          accept=".zip,application/zip"
+          onChange={handleZipSelect}
+          className="hidden"
+        />
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          onChange={handleFolderSelect}
+          className="hidden"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          disabled={isImporting}
+          onClick={() => zipInputRef.current?.click()}
+        >
+          <FileArchive className="mr-2 size-4" />
+          Import ZIP
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          disabled={isImporting}
+          onClick={() => folderInputRef.current?.click()}
+        >
+          <FolderOpen className="mr-2 size-4" />
+          Import Folder
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="size-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {success && (
+        <Alert>
+          <CheckCircle2 className="size-4" />
+          <AlertDescription>{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {packs.length > 0 && (
+        <ul className="space-y-1">
+          {packs.map((pack) => (
+            <li
+              key={pack.id}
+              className="flex items-center justify-between rounded-md border px-3 py-1.5 text-sm"
+            >
+              <span className="truncate">
+                {pack.name}
+                <span className="ml-2 text-xs text-muted-foreground">
+                  {pack.icons.length} icons
+                </span>
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2"
+                aria-label={`Remove ${pack.name}`}
+                onClick={() => onPackRemove?.(pack.id)}
+              >
+                <Trash2 className="size-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { ExportModal } from "../ExportModal";
+import type { IconGeneratorState } from "../../hooks/use-icon-generator";
+import type { CanvasEditorState } from "../../types/canvas";
+import { DEFAULT_BACKGROUND_SHAPE } from "../../utils/background-shape";
+import { DEFAULT_ICON_COLOR_STYLE } from "../../utils/icon-colors";
+import { DEFAULT_ICON_SHADOW } from "../../utils/icon-shadow";
+import { DEFAULT_ICON_TRANSFORM } from "../../utils/icon-transform";
+import {
+  downloadFile,
+  generateExportDownloadPayload,
+  type ExportDownloadPayload,
+} from "../../utils/export-controller";
+import type { PlatformRuleIssue } from "../../utils/platform-rules";
+import { usePresets } from "../../hooks/use-presets";
+
+vi.mock("../../hooks/use-presets", () => {
+  const preset = {
+    id: "zendesk-png",
+    name: "Zendesk PNG",
+    description: "PNG files for Zendesk apps",
+    variants: [
+      { filename: "logo.png", width: 320, height: 320, format: "png" },
+      { filename: "logo-small.png", width: 128, height: 128, format: "png" },
+    ],
+    isBuiltIn: true,
+  };
+  const presets = {
+    exportPresets: [preset],
+    selectedExportPresetId: "zendesk-png",
+    selectedStylePreset: undefined,
+  };
+  return { usePresets: vi.fn().mockReturnValue(presets) };
+});
+
+vi.mock("../../utils/export-controller", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../utils/export-controller")>()),
+  generateExportDownloadPayload: vi.fn(),
+  downloadFile: vi.fn(),
+}));
+
+vi.mock("../../hooks/use-icon-metadata", () => ({
+  useIconMetadata: vi.fn().mockReturnValue(null),
+}));
+
+vi.mock("../../contexts/RestrictionContext", () => ({
+  useRestriction: vi.fn().mockReturnValue({ allowedExportPresets: null }),
+}));
+
+describe("ExportModal", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const state: IconGeneratorState = {
+    selectedLocations: [],
+    selectedIconId: undefined,
+    backgroundColor: "#063940",
+    iconColor: "#ffffff",
+    searchQuery: "",
+    selectedPack: "canvas",
+    iconSize: 123,
+    svgIconSize: 123,
+    backgroundShape: DEFAULT_BACKGROUND_SHAPE,
+    cornerRadius: 0,
+    borderEnabled: false,
+    borderColor: "#ffffff",
+    borderWidth: 6,
+    iconShadow: DEFAULT_ICON_SHADOW,
+    iconColorStyle: DEFAULT_ICON_COLOR_STYLE,
+    iconTransform: DEFAULT_ICON_TRANSFORM,
+  };
+
+  const canvasState: CanvasEditorState = {
+    backgroundColor: "#063940",
+    canvasSize: 1024,
+    layers: [],
+  };
+
+  it("opens in canvas mode without a batch", () => {
+    render(
+      <ExportModal
+        open
+        onOpenChange={vi.fn()}
+        state={state}
+        selectedLocations={[]}
+        canvasState={canvasState}
+      />
+    );
+
+    expect(screen.getByText("Export Icon Assets")).toBeInTheDocument();
+    expect(
+      screen.getByText(/No layers in canvas. Add at least one layer to export./)
+    ).toBeInTheDocument();
+    expect(screen.queryByText("Icons:")).not.toBeInTheDocument();
+  });
+
+  it("skips adaptive icon layers in canvas mode and says so", () => {
+    const presets = usePresets();
+    const [preset] = presets.exportPresets;
+    vi.mocked(usePresets).mockReturnValue({
+      ...presets,
+      exportPresets: [
+        {
+          ...preset,
+          variants: [
+            ...preset.variants,
+            {
+              filename: "ic_launcher_foreground.png",
+              width: 432,
+              height: 432,
+              format: "png",
+              adaptiveLayer: "foreground",
+            },
+          ],
+        },
+      ],
+    });
+
+    try {
+      render(
+        <ExportModal
+          open
+          onOpenChange={vi.fn()}
+          state={state}
+          selectedLocations={[]}
+          canvasState={canvasState}
+        />
+      );
+
+      expect(screen.getByText("logo.png")).toBeInTheDocument();
+      expect(
+        screen.queryByText("ic_launcher_foreground.png")
+      ).not.toBeInTheDocument();
+      expect(
+        screen.getByText(
+          "Android adaptive icon layers (1) are not exported for canvas designs"
+        )
+      ).toBeInTheDocument();
+    } finally {
+      vi.mocked(usePresets).mockReturnValue(presets);
+    }
+  });
+
+  describe("platform checks of the rendered files", () => {
+    const layerState = {
+      ...canvasState,
+      layers: [{ id: "text", type: "text" }],
+    } as unknown as CanvasEditorState;
+
+    const exportWithIssues = async (issues: PlatformRuleIssue[]) => {
+      vi.mocked(generateExportDownloadPayload).mockResolvedValue({
+        blob: new Blob(["zip"]),
+        filename: "icons.zip",
+        isZip: true,
+        metadata: {} as ExportDownloadPayload["metadata"],
+        filenames: ["logo.png"],
+        issues,
+      });
+      const onOpenChange = vi.fn();
+      render(
+        <ExportModal
+          open
+          onOpenChange={onOpenChange}
+          state={state}
+          selectedLocations={[]}
+          canvasState={layerState}
+        />
+      );
+      fireEvent.click(screen.getByRole("button", { name: /Download/ }));
+      return onOpenChange;
+    };
+
+    it("blocks the download when a rendered file fails a rule", async () => {
+      await exportWithIssues([
+        {
+          severity: "error",
+          rule: "size",
+          filename: "logo.png",
+          message: "logo.png must be 320x320",
+        },
+      ]);
+
+      expect(
+        await screen.findByText("Platform Checks Failed")
+      ).toBeInTheDocument();
+      expect(screen.getByText(/logo.png must be 320x320/)).toBeInTheDocument();
+      expect(downloadFile).not.toHaveBeenCalled();
+      expect(screen.queryByText("Download Anyway")).not.toBeInTheDocument();
+      expect(screen.getByRole("button", { name: /Download/ })).toBeDisabled();
+    });
+
+    it("downloads right away and lists warnings", async () => {
+      const onOpenChange = await exportWithIssues([
+        {
+          severity: "warning",
+          rule: "transparency",
+          filename: "favicon.png",
+          message: "favicon.png has transparent corners",
+        },
+      ]);
+
+      expect(
+        await screen.findByText(/favicon.png has transparent corners/)
+      ).toBeInTheDocument();
+      expect(downloadFile).toHaveBeenCalledWith(expect.any(Blob), "icons.zip");
+      expect(
+        screen.queryByRole("button", { name: "Cancel" })
+      ).not.toBeInTheDocument();
+      expect(onOpenChange).not.toHaveBeenCalled();
+    });
+  });
+});
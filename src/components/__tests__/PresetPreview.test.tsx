@@ -2,6 +2,10 @@ import { render, screen, waitFor } from "@testing-library/react";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { PresetPreview } from "../PresetPreview";
 import type { IconGeneratorState } from "../../hooks/use-icon-generator";
+import { DEFAULT_BACKGROUND_SHAPE } from "../../utils/background-shape";
+import { DEFAULT_ICON_COLOR_STYLE } from "../../utils/icon-colors";
+import { DEFAULT_ICON_SHADOW } from "../../utils/icon-shadow";
+import { DEFAULT_ICON_TRANSFORM } from "../../utils/icon-transform";
 import type { ExportPreset } from "../../types/preset";
 import { SVG_SPECS } from "../../constants/app";
 
@@ -16,9 +20,10 @@ vi.mock("../../utils/icon-catalog", () => ({
 }));
 
 vi.mock("../../utils/renderer", () => ({
+  renderAdaptiveIconLayer: vi.fn(),
   renderPng: vi.fn(),
-  renderPngFromImage: vi.fn(),
   renderRaster: vi.fn(),
+  renderRasterFromImage: vi.fn(),
   renderSvg: vi.fn(),
 }));
 
@@ -76,17 +81,22 @@ describe("PresetPreview", () => {
     selectedPack: "all",
     iconSize: 123,
     svgIconSize: 123,
+    backgroundShape: DEFAULT_BACKGROUND_SHAPE,
     cornerRadius: 0,
     borderEnabled: false,
     borderColor: "#ffffff",
     borderWidth: 6,
+    iconShadow: DEFAULT_ICON_SHADOW,
+    iconColorStyle: DEFAULT_ICON_COLOR_STYLE,
+    iconTransform: DEFAULT_ICON_TRANSFORM,
   };
 
   beforeEach(async () => {
     vi.clearAllMocks();
 
     const { getIconById } = await import("../../utils/icon-catalog");
-    const { renderPng, renderSvg } = await import("../../utils/renderer");
+    const { renderAdaptiveIconLayer, renderPng, renderRaster, renderSvg } =
+      await import("../../utils/renderer");
 
     vi.mocked(getIconById).mockResolvedValue({
       id: "test-icon",
@@ -100,6 +110,12 @@ describe("PresetPreview", () => {
     vi.mocked(renderPng).mockResolvedValue(
       new Blob(["png-preview"], { type: "image/png" })
     );
+    vi.mocked(renderRaster).mockResolvedValue(
+      new Blob(["png-preview"], { type: "image/png" })
+    );
+    vi.mocked(renderAdaptiveIconLayer).mockResolvedValue(
+      new Blob(["png-preview"], { type: "image/png" })
+    );
     vi.mocked(renderSvg).mockReturnValue(
       '<svg viewBox="0 0 30 30"><path fill="currentColor" d="M0 0"/></svg>'
     );
@@ -135,6 +151,78 @@ describe("PresetPreview", () => {
     );
   });
 
+  it("renders raster variants with their export options", async () => {
+    const { renderAdaptiveIconLayer, renderRaster } =
+      await import("../../utils/renderer");
+    const preset: ExportPreset = {
+      ...mockPreset,
+      variants: [
+        {
+          filename: "AppIcon.png",
+          width: 1024,
+          height: 1024,
+          format: "png",
+          flattenTransparency: true,
+        },
+        {
+          filename: "icon-maskable.webp",
+          width: 512,
+          height: 512,
+          format: "webp",
+          quality: 80,
+          purpose: "maskable",
+        },
+        {
+          filename: "outline.png",
+          width: 32,
+          height: 32,
+          format: "png",
+          glyphColor: "#ffffff",
+        },
+        {
+          filename: "ic_launcher_foreground.png",
+          width: 432,
+          height: 432,
+          format: "png",
+          adaptiveLayer: "foreground",
+        },
+      ],
+    };
+
+    render(
+      <PresetPreview preset={preset} iconId="test-icon" state={mockState} />
+    );
+
+    await waitFor(() => {
+      expect(
+        screen.getByAltText("ic_launcher_foreground.png")
+      ).toBeInTheDocument();
+    });
+
+    expect(renderRaster).toHaveBeenCalledWith(
+      expect.objectContaining({
+        width: 1024,
+        format: "png",
+        flattenTransparency: true,
+      })
+    );
+    expect(renderRaster).toHaveBeenCalledWith(
+      expect.objectContaining({
+        width: 512,
+        format: "webp",
+        quality: 0.8,
+        maskable: true,
+      })
+    );
+    expect(renderRaster).toHaveBeenCalledWith(
+      expect.objectContaining({ width: 32, glyphColor: "#ffffff" })
+    );
+    expect(renderRaster).toHaveBeenCalledTimes(3);
+    expect(renderAdaptiveIconLayer).toHaveBeenCalledWith(
+      expect.objectContaining({ outputSize: 432, layer: "foreground" })
+    );
+  });
+
   it("uses zendesk SVG export settings for zendesk location variants", async () => {
     const { renderSvg } = await import("../../utils/renderer");
 
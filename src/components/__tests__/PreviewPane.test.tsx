@@ -2,6 +2,10 @@ import { describe, it, expect, vi } from "vitest";
 import { render, screen } from "@testing-library/react";
 import { PreviewPane } from "../../../components/PreviewPane";
 import type { IconGeneratorState } from "../../hooks/use-icon-generator";
+import { DEFAULT_BACKGROUND_SHAPE } from "../../utils/background-shape";
+import { DEFAULT_ICON_COLOR_STYLE } from "../../utils/icon-colors";
+import { DEFAULT_ICON_SHADOW } from "../../utils/icon-shadow";
+import { DEFAULT_ICON_TRANSFORM } from "../../utils/icon-transform";
 
 // Mock the child components
 vi.mock("../PresetPreview", () => ({
@@ -123,10 +127,14 @@ describe("PreviewPane", () => {
     selectedPack: "all",
     iconSize: 123,
     svgIconSize: 123,
+    backgroundShape: DEFAULT_BACKGROUND_SHAPE,
     cornerRadius: 0,
     borderEnabled: false,
     borderColor: "#ffffff",
     borderWidth: 6,
+    iconShadow: DEFAULT_ICON_SHADOW,
+    iconColorStyle: DEFAULT_ICON_COLOR_STYLE,
+    iconTransform: DEFAULT_ICON_TRANSFORM,
     ...overrides,
   });
 
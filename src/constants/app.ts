@@ -13,9 +13,11 @@ export const ICON_PACKS = {
   GARDEN: "garden",
   FEATHER: "feather",
   REMIXICON: "remixicon",
+  LUCIDE: "lucide",
   EMOJI: "emoji",
   CUSTOM_SVG: "custom-svg",
   CUSTOM_IMAGE: "custom-image",
+  USER_PACK: "user-pack",
   CANVAS: "canvas",
 } as const;
 
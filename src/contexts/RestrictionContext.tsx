@@ -25,9 +25,11 @@ const defaultValue: RestrictionContextValue = {
     "garden",
     "feather",
     "remixicon",
+    "lucide",
     "emoji",
     "custom-svg",
     "custom-image",
+    "user-pack",
     "canvas",
   ],
   defaultIconPack: null,
@@ -243,6 +243,80 @@ describe("useIconSearch", () => {
       expect(names).toEqual(sortedNames);
     });
 
+    it("keeps ranked search order when sorting by relevance", async () => {
+      const { searchIcons } = await import("../../utils/icon-catalog");
+      vi.mocked(searchIcons).mockResolvedValueOnce([
+        mockIcons["zendesk-arrow-right"],
+        mockIcons["zendesk-arrow-left"],
+      ]);
+
+      const { result } = renderHook(() =>
+        useIconSearch({
+          searchQuery: "arrow right",
+          selectedPack: "all",
+          sortBy: "relevance",
+        })
+      );
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.icons.map((icon) => icon.id)).toEqual([
+        "zendesk-arrow-right",
+        "zendesk-arrow-left",
+      ]);
+    });
+
+    it("ranks custom SVGs together with catalog matches", async () => {
+      sessionStorage.setItem("custom-svg-1", "<svg></svg>");
+      const { searchIcons } = await import("../../utils/icon-catalog");
+      vi.mocked(searchIcons).mockImplementationOnce(
+        async (_query, extraIcons = []) => [
+          ...extraIcons,
+          mockIcons["feather-check"],
+        ]
+      );
+
+      const { result } = renderHook(() =>
+        useIconSearch({
+          searchQuery: "custom",
+          selectedPack: "all",
+          sortBy: "relevance",
+        })
+      );
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(vi.mocked(searchIcons)).toHaveBeenCalledWith("custom", [
+        expect.objectContaining({ id: "custom-svg-1" }),
+      ]);
+      expect(result.current.icons.map((icon) => icon.id)).toEqual([
+        "custom-svg-1",
+        "feather-check",
+      ]);
+    });
+
+    it("sorts by name when relevance is selected without a query", async () => {
+      const { result } = renderHook(() =>
+        useIconSearch({
+          searchQuery: "",
+          selectedPack: "all",
+          sortBy: "relevance",
+        })
+      );
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const names = result.current.icons.map((icon) => icon.name);
+      const sortedNames = [...names].sort((a, b) => a.localeCompare(b));
+      expect(names).toEqual(sortedNames);
+    });
+
     it("sorts by pack", async () => {
       const { result } = renderHook(() =>
         useIconSearch({
@@ -15,19 +15,42 @@ import {
   loadGeneratorState,
   saveGeneratorState,
 } from "@/src/utils/local-storage";
+import {
+  DEFAULT_BACKGROUND_SHAPE,
+  isBackgroundShape,
+  type BackgroundShape,
+} from "@/src/utils/background-shape";
 import type { BackgroundValue } from "@/src/utils/gradients";
+import {
+  DEFAULT_ICON_COLOR_STYLE,
+  isIconColorStyle,
+  type IconColorStyle,
+} from "@/src/utils/icon-colors";
+import {
+  DEFAULT_ICON_SHADOW,
+  isIconShadow,
+  type IconShadow,
+} from "@/src/utils/icon-shadow";
+import {
+  DEFAULT_ICON_TRANSFORM,
+  isIconTransform,
+  type IconTransform,
+} from "@/src/utils/icon-transform";
 
 export interface IconGeneratorState {
   selectedLocations: AppLocation[];
   selectedIconId?: string;
   backgroundColor: BackgroundValue;
-  iconColor: string;
+  /** Icon color (hex) or gradient fill for the glyph */
+  iconColor: BackgroundValue;
   searchQuery: string;
   selectedPack: IconPack;
   /** Icon size for PNG exports */
   iconSize: number;
   /** Icon size for SVG exports (top_bar, ticket_editor, nav_bar) */
   svgIconSize: number;
+  /** Background outline */
+  backgroundShape: BackgroundShape;
   /** Corner radius percentage (0 = square, 100 = fully round) */
   cornerRadius: number;
   /** Whether border is enabled */
@@ -36,21 +59,31 @@ export interface IconGeneratorState {
   borderColor: string;
   /** Border width in normalized artboard units */
   borderWidth: number;
+  /** Drop or long shadow behind the glyph */
+  iconShadow: IconShadow;
+  /** Single, duotone or mapped glyph colors */
+  iconColorStyle: IconColorStyle;
+  /** Offset, rotation and mirroring of the centered glyph */
+  iconTransform: IconTransform;
 }
 
 export interface IconGeneratorActions {
   setSelectedLocations: (locations: AppLocation[]) => void;
   setSelectedIconId: (id: string | undefined) => void;
   setBackgroundColor: (color: BackgroundValue) => void;
-  setIconColor: (color: string) => void;
+  setIconColor: (color: BackgroundValue) => void;
   setSearchQuery: (query: string) => void;
   setSelectedPack: (pack: IconPack) => void;
   setIconSize: (size: number) => void;
   setSvgIconSize: (size: number) => void;
+  setBackgroundShape: (shape: BackgroundShape) => void;
   setCornerRadius: (radius: number) => void;
   setBorderEnabled: (enabled: boolean) => void;
   setBorderColor: (color: string) => void;
   setBorderWidth: (width: number) => void;
+  setIconShadow: (shadow: IconShadow) => void;
+  setIconColorStyle: (style: IconColorStyle) => void;
+  setIconTransform: (transform: IconTransform) => void;
 }
 
 const DEFAULT_STATE: IconGeneratorState = {
@@ -62,10 +95,14 @@ const DEFAULT_STATE: IconGeneratorState = {
   selectedPack: ICON_PACKS.ALL,
   iconSize: 123,
   svgIconSize: 123,
+  backgroundShape: DEFAULT_BACKGROUND_SHAPE,
   cornerRadius: DEFAULT_APPEARANCE.CORNER_RADIUS,
   borderEnabled: DEFAULT_APPEARANCE.BORDER_ENABLED,
   borderColor: DEFAULT_APPEARANCE.BORDER_COLOR,
   borderWidth: DEFAULT_APPEARANCE.BORDER_WIDTH,
+  iconShadow: DEFAULT_ICON_SHADOW,
+  iconColorStyle: DEFAULT_ICON_COLOR_STYLE,
+  iconTransform: DEFAULT_ICON_TRANSFORM,
 };
 
 export function useIconGenerator() {
@@ -98,7 +135,10 @@ export function useIconGenerator() {
           iconColor:
             typeof persistedState.iconColor === "string"
               ? persistedState.iconColor
-              : DEFAULT_STATE.iconColor,
+              : typeof persistedState.iconColor === "object" &&
+                  persistedState.iconColor !== null
+                ? (persistedState.iconColor as BackgroundValue)
+                : DEFAULT_STATE.iconColor,
           searchQuery: DEFAULT_STATE.searchQuery, // Don't persist search query
           selectedPack: Object.values(ICON_PACKS).includes(
             persistedState.selectedPack as IconPack
@@ -115,6 +155,9 @@ export function useIconGenerator() {
             persistedState.svgIconSize > 0
               ? persistedState.svgIconSize
               : DEFAULT_STATE.svgIconSize,
+          backgroundShape: isBackgroundShape(persistedState.backgroundShape)
+            ? persistedState.backgroundShape
+            : DEFAULT_STATE.backgroundShape,
           cornerRadius:
             typeof persistedState.cornerRadius === "number" &&
             persistedState.cornerRadius >= 0
@@ -133,6 +176,15 @@ export function useIconGenerator() {
             persistedState.borderWidth >= 0
               ? persistedState.borderWidth
               : DEFAULT_STATE.borderWidth,
+          iconShadow: isIconShadow(persistedState.iconShadow)
+            ? persistedState.iconShadow
+            : DEFAULT_STATE.iconShadow,
+          iconColorStyle: isIconColorStyle(persistedState.iconColorStyle)
+            ? persistedState.iconColorStyle
+            : DEFAULT_STATE.iconColorStyle,
+          iconTransform: isIconTransform(persistedState.iconTransform)
+            ? persistedState.iconTransform
+            : DEFAULT_STATE.iconTransform,
         };
         hasPersistedIcon = !!restoredState.selectedIconId;
         setState(restoredState);
@@ -178,10 +230,14 @@ export function useIconGenerator() {
       selectedPack: state.selectedPack,
       iconSize: state.iconSize,
       svgIconSize: state.svgIconSize,
+      backgroundShape: state.backgroundShape,
       cornerRadius: state.cornerRadius,
       borderEnabled: state.borderEnabled,
       borderColor: state.borderColor,
       borderWidth: state.borderWidth,
+      iconShadow: state.iconShadow,
+      iconColorStyle: state.iconColorStyle,
+      iconTransform: state.iconTransform,
     });
   }, [
     hasInitialized,
@@ -193,10 +249,14 @@ export function useIconGenerator() {
     state.selectedPack,
     state.iconSize,
     state.svgIconSize,
+    state.backgroundShape,
     state.cornerRadius,
     state.borderEnabled,
     state.borderColor,
     state.borderWidth,
+    state.iconShadow,
+    state.iconColorStyle,
+    state.iconTransform,
   ]);
 
   const actions: IconGeneratorActions = React.useMemo(
@@ -216,6 +276,8 @@ export function useIconGenerator() {
       setIconSize: (size) => setState((prev) => ({ ...prev, iconSize: size })),
       setSvgIconSize: (size) =>
         setState((prev) => ({ ...prev, svgIconSize: size })),
+      setBackgroundShape: (shape) =>
+        setState((prev) => ({ ...prev, backgroundShape: shape })),
       setCornerRadius: (radius) =>
         setState((prev) => ({ ...prev, cornerRadius: radius })),
       setBorderEnabled: (enabled) =>
@@ -224,6 +286,12 @@ export function useIconGenerator() {
         setState((prev) => ({ ...prev, borderColor: color })),
       setBorderWidth: (width) =>
         setState((prev) => ({ ...prev, borderWidth: width })),
+      setIconShadow: (shadow) =>
+        setState((prev) => ({ ...prev, iconShadow: shadow })),
+      setIconColorStyle: (style) =>
+        setState((prev) => ({ ...prev, iconColorStyle: style })),
+      setIconTransform: (transform) =>
+        setState((prev) => ({ ...prev, iconTransform: transform })),
     }),
     []
   );
@@ -16,9 +16,11 @@ export const ICON_PACK_OPTIONS: { value: IconPack; label: string }[] = [
   { value: ICON_PACKS.GARDEN, label: "Garden" },
   { value: ICON_PACKS.FEATHER, label: "Feather" },
   { value: ICON_PACKS.REMIXICON, label: "RemixIcon" },
+  { value: ICON_PACKS.LUCIDE, label: "Lucide" },
   { value: ICON_PACKS.EMOJI, label: "Emoji" },
   { value: ICON_PACKS.CUSTOM_SVG, label: "Custom SVG" },
   { value: ICON_PACKS.CUSTOM_IMAGE, label: "Custom Image" },
+  { value: ICON_PACKS.USER_PACK, label: "My Icon Packs" },
   { value: ICON_PACKS.CANVAS, label: "Canvas Editor" },
 ];
 
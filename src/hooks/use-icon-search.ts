@@ -12,15 +12,18 @@ import {
 } from "@/src/utils/icon-catalog";
 import { getFavorites, getRecentIcons } from "@/src/utils/local-storage";
 import { getUserEmojis } from "@/src/utils/emoji-catalog";
+import { getUserPackIcons } from "@/src/utils/user-icon-packs";
 import { ICON_PACKS, type IconPack } from "@/src/constants/app";
 import { useDebouncedValue } from "./use-debounced-value";
 
-export type SortOption = "name" | "recent" | "favorites" | "pack";
+export type SortOption = "relevance" | "name" | "recent" | "favorites" | "pack";
 
 export interface UseIconSearchOptions {
   searchQuery: string;
   selectedPack: IconPack;
   selectedCategory?: string | null;
+  /** Limit the "user-pack" selection to a single imported pack */
+  selectedUserPackId?: string | null;
   sortBy?: SortOption;
 }
 
@@ -42,6 +45,10 @@ function sortIcons(icons: IconMetadata[], sortBy: SortOption): IconMetadata[] {
   const recent = typeof window !== "undefined" ? getRecentIcons() : [];
 
   switch (sortBy) {
+    case "relevance":
+      // Search results are already ranked best match first
+      return sorted;
+
     case "name":
       return sorted.sort((a, b) => a.name.localeCompare(b.name));
 
@@ -84,6 +91,7 @@ export function useIconSearch({
   searchQuery,
   selectedPack,
   selectedCategory,
+  selectedUserPackId,
   sortBy = "name",
 }: UseIconSearchOptions): UseIconSearchResult {
   const [icons, setIcons] = React.useState<IconMetadata[]>([]);
@@ -97,6 +105,9 @@ export function useIconSearch({
   const sortByRef = React.useRef<SortOption>(sortBy);
   const selectedPackRef = React.useRef<IconPack>(selectedPack);
   const debouncedQuery = useDebouncedValue(searchQuery);
+  // Without a query there is nothing to rank, so relevance falls back to name
+  const effectiveSortBy: SortOption =
+    sortBy === "relevance" && !debouncedQuery.trim() ? "name" : sortBy;
 
   // Keep refs in sync with state/props
   React.useEffect(() => {
@@ -104,8 +115,8 @@ export function useIconSearch({
   }, [cachedResults]);
 
   React.useEffect(() => {
-    sortByRef.current = sortBy;
-  }, [sortBy]);
+    sortByRef.current = effectiveSortBy;
+  }, [effectiveSortBy]);
 
   React.useEffect(() => {
     selectedPackRef.current = selectedPack;
@@ -126,10 +137,14 @@ export function useIconSearch({
       const currentCachedResults = cachedResultsRef.current;
       const currentSortBy = sortByRef.current;
 
-      // For emoji pack or when emojis might have been added, always do a full refresh
-      // to ensure new emojis appear in the list
-      if (currentPack === ICON_PACKS.EMOJI || currentPack === ICON_PACKS.ALL) {
-        // Clear cache and trigger full refresh to include new emojis
+      // For emoji/user packs or when emojis or packs might have been added,
+      // always do a full refresh to ensure new icons appear in the list
+      if (
+        currentPack === ICON_PACKS.EMOJI ||
+        currentPack === ICON_PACKS.USER_PACK ||
+        currentPack === ICON_PACKS.ALL
+      ) {
+        // Clear cache and trigger full refresh to include new icons
         cacheRef.current.clear();
         setRefreshKey((prev) => prev + 1);
       } else if (currentCachedResults.length > 0) {
@@ -158,12 +173,12 @@ export function useIconSearch({
   React.useEffect(() => {
     let cancelled = false;
     const normalizedQuery = debouncedQuery.trim();
-    const cacheKey = `${normalizedQuery.toLowerCase()}::${selectedPack}::${selectedCategory || "all"}`;
+    const cacheKey = `${normalizedQuery.toLowerCase()}::${selectedPack}::${selectedCategory || "all"}::${selectedUserPackId || "all"}`;
     const cached = cacheRef.current.get(cacheKey);
 
     if (cached) {
       setCachedResults(cached);
-      setIcons(sortIcons(cached, sortBy));
+      setIcons(sortIcons(cached, effectiveSortBy));
       setIsLoading(false);
       return;
     }
@@ -176,17 +191,7 @@ export function useIconSearch({
         // Load catalog if needed
         await loadIconCatalog();
 
-        // Perform search
-        let results: IconMetadata[];
-        if (normalizedQuery) {
-          results = await searchIcons(normalizedQuery);
-        } else {
-          // If no search query, get all icons
-          const catalog = await loadIconCatalog();
-          results = Object.values(catalog.icons);
-        }
-
-        // Get user emojis and merge with catalog results
+        // Get user emojis
         const userEmojis = getUserEmojis();
 
         // Get custom SVGs from sessionStorage
@@ -220,61 +225,42 @@ export function useIconSearch({
           }
         }
 
-        // Filter by pack if not "all"
-        if (selectedPack !== ICON_PACKS.ALL) {
-          results = await filterIconsByPack(results, selectedPack);
-
-          // If emoji pack is selected, include user emojis
-          if (selectedPack === ICON_PACKS.EMOJI) {
-            // Filter emojis by search query if present
-            let filteredEmojis = userEmojis;
-            if (normalizedQuery) {
-              const queryLower = normalizedQuery.toLowerCase();
-              filteredEmojis = userEmojis.filter((emoji) => {
-                const searchText =
-                  `${emoji.name} ${emoji.id} ${emoji.keywords.join(" ")}`.toLowerCase();
-                return searchText.includes(queryLower);
-              });
-            }
-            results = [...results, ...filteredEmojis];
-          } else if (selectedPack === ICON_PACKS.CUSTOM_SVG) {
-            // If custom SVG pack is selected, include custom SVGs
-            let filteredCustomSvgs = customSvgs;
-            if (normalizedQuery) {
-              const queryLower = normalizedQuery.toLowerCase();
-              filteredCustomSvgs = customSvgs.filter((svg) => {
-                const searchText =
-                  `${svg.name} ${svg.id} ${svg.keywords.join(" ")}`.toLowerCase();
-                return searchText.includes(queryLower);
-              });
-            }
-            results = [...results, ...filteredCustomSvgs];
-          }
-        } else {
-          // If "all" pack is selected, include all user emojis and custom SVGs
-          // Filter emojis by search query if present
-          let filteredEmojis = userEmojis;
-          if (normalizedQuery) {
-            const queryLower = normalizedQuery.toLowerCase();
-            filteredEmojis = userEmojis.filter((emoji) => {
-              const searchText =
-                `${emoji.name} ${emoji.id} ${emoji.keywords.join(" ")}`.toLowerCase();
-              return searchText.includes(queryLower);
-            });
-          }
-
-          // Filter custom SVGs by search query if present
-          let filteredCustomSvgs = customSvgs;
-          if (normalizedQuery) {
-            const queryLower = normalizedQuery.toLowerCase();
-            filteredCustomSvgs = customSvgs.filter((svg) => {
-              const searchText =
-                `${svg.name} ${svg.id} ${svg.keywords.join(" ")}`.toLowerCase();
-              return searchText.includes(queryLower);
-            });
-          }
+        // User emojis and custom SVGs shown for the selected pack
+        const localIcons =
+          selectedPack === ICON_PACKS.ALL
+            ? [...userEmojis, ...customSvgs]
+            : selectedPack === ICON_PACKS.EMOJI
+              ? userEmojis
+              : selectedPack === ICON_PACKS.CUSTOM_SVG
+                ? customSvgs
+                : [];
 
-          results = [...results, ...filteredEmojis, ...filteredCustomSvgs];
+        let results: IconMetadata[];
+        if (normalizedQuery) {
+          // Local icons are ranked together with the catalog (and imported
+          // user packs), so a better match is not listed after weaker ones
+          const ranked = await searchIcons(normalizedQuery, localIcons);
+          const local = new Set(localIcons);
+          const catalogMatches = ranked.filter((icon) => !local.has(icon));
+          const kept = new Set(
+            selectedPack !== ICON_PACKS.ALL
+              ? await filterIconsByPack(catalogMatches, selectedPack)
+              : catalogMatches
+          );
+          results = ranked.filter((icon) => local.has(icon) || kept.has(icon));
+        } else {
+          // If no search query, get all icons
+          const catalog = await loadIconCatalog();
+          const allIcons = [
+            ...Object.values(catalog.icons),
+            ...getUserPackIcons(),
+          ];
+          results = [
+            ...(selectedPack !== ICON_PACKS.ALL
+              ? await filterIconsByPack(allIcons, selectedPack)
+              : allIcons),
+            ...localIcons,
+          ];
         }
 
         // Filter by category if RemixIcon is selected and a category is chosen
@@ -282,6 +268,13 @@ export function useIconSearch({
           results = filterIconsByCategory(results, selectedCategory);
         }
 
+        // Narrow user packs down to the chosen pack
+        if (selectedPack === ICON_PACKS.USER_PACK && selectedUserPackId) {
+          results = results.filter(
+            (icon) => icon.userPack?.id === selectedUserPackId
+          );
+        }
+
         // Cache the filtered results (before sorting)
         if (!cancelled && currentRequestId === requestIdRef.current) {
           cacheRef.current.set(cacheKey, results);
@@ -289,7 +282,7 @@ export function useIconSearch({
         }
 
         // Sort results (reads favorites/recent fresh from localStorage)
-        const sorted = sortIcons(results, sortBy);
+        const sorted = sortIcons(results, effectiveSortBy);
 
         if (!cancelled && currentRequestId === requestIdRef.current) {
           setIcons(sorted);
@@ -312,15 +305,22 @@ export function useIconSearch({
     return () => {
       cancelled = true;
     };
-  }, [debouncedQuery, selectedPack, selectedCategory, sortBy, refreshKey]);
+  }, [
+    debouncedQuery,
+    selectedPack,
+    selectedCategory,
+    selectedUserPackId,
+    effectiveSortBy,
+    refreshKey,
+  ]);
 
   // Re-sort when sortBy changes but results are already cached
   React.useEffect(() => {
     if (cachedResults.length > 0 && !isLoading) {
-      const sorted = sortIcons(cachedResults, sortBy);
+      const sorted = sortIcons(cachedResults, effectiveSortBy);
       setIcons(sorted);
     }
-  }, [sortBy, cachedResults, isLoading]);
+  }, [effectiveSortBy, cachedResults, isLoading]);
 
   return { icons, isLoading, error };
 }
@@ -254,6 +254,7 @@ describe("preset types", () => {
       expect(getFormatMimeType("webp")).toBe("image/webp");
       expect(getFormatMimeType("svg")).toBe("image/svg+xml");
       expect(getFormatMimeType("ico")).toBe("image/x-icon");
+      expect(getFormatMimeType("icns")).toBe("image/icns");
     });
   });
 
@@ -264,6 +265,7 @@ describe("preset types", () => {
       expect(getFormatExtension("webp")).toBe("webp");
       expect(getFormatExtension("svg")).toBe("svg");
       expect(getFormatExtension("ico")).toBe("ico");
+      expect(getFormatExtension("icns")).toBe("icns");
     });
   });
 
@@ -274,6 +276,7 @@ describe("preset types", () => {
       expect(EXPORT_FORMATS).toContain("webp");
       expect(EXPORT_FORMATS).toContain("svg");
       expect(EXPORT_FORMATS).toContain("ico");
+      expect(EXPORT_FORMATS).toContain("icns");
     });
   });
 });
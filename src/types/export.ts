@@ -4,6 +4,11 @@
 
 import type { AppLocation } from "./app-location";
 import type { BackgroundValue } from "../utils/gradients";
+import type { BackgroundShape } from "../utils/background-shape";
+import type { IconColorStyle } from "../utils/icon-colors";
+import type { IconShadow } from "../utils/icon-shadow";
+import type { IconTransform } from "../utils/icon-transform";
+import type { PlatformRuleIssue } from "../utils/platform-rules";
 
 /**
  * Export variant specification
@@ -124,13 +129,19 @@ export interface ExportMetadata {
   iconName: string;
   customization: {
     backgroundColor: BackgroundValue;
-    iconColor: string;
+    iconColor: BackgroundValue;
     iconSize: number;
+    backgroundShape?: BackgroundShape;
     cornerRadius?: number;
     borderEnabled?: boolean;
     borderColor?: string;
     borderWidth?: number;
+    iconShadow?: IconShadow;
+    iconColorStyle?: IconColorStyle;
+    iconTransform?: IconTransform;
   };
   locations: AppLocation[];
   variants: string[];
+  /** Platform rule issues found in the rendered files */
+  issues?: PlatformRuleIssue[];
 }
@@ -5,9 +5,11 @@ export type IconPack =
   | "zendesk-garden"
   | "feather"
   | "remixicon"
+  | "lucide"
   | "emoji"
   | "custom-svg"
-  | "custom-image";
+  | "custom-image"
+  | "user-pack";
 
 /**
  * Icon pack license information
@@ -46,6 +48,25 @@ export interface IconMetadata {
   isCustomImage?: boolean;
   /** Base64 data URL for custom images */
   imageDataUrl?: string;
+  /** Imported pack this icon belongs to (only for user icon packs) */
+  userPack?: {
+    id: string;
+    name: string;
+  };
+}
+
+/**
+ * Icon pack imported by the user from a ZIP or folder of SVGs
+ */
+export interface UserIconPack {
+  /** Unique identifier for the pack */
+  id: string;
+  /** Display name shown in the pack selector */
+  name: string;
+  /** ISO timestamp of the import */
+  importedAt: string;
+  /** Icons in the pack (pack is always "user-pack") */
+  icons: IconMetadata[];
 }
 
 /**
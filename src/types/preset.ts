@@ -3,17 +3,26 @@
  */
 
 import type { BackgroundValue } from "@/src/utils/gradients";
+import {
+  isBackgroundShape,
+  type BackgroundShape,
+} from "@/src/utils/background-shape";
+import { isIconShadow, type IconShadow } from "@/src/utils/icon-shadow";
 
 /**
  * Supported export formats
  */
-export type ExportFormat = "png" | "jpeg" | "webp" | "svg" | "ico";
+export type ExportFormat = "png" | "jpeg" | "webp" | "svg" | "ico" | "icns";
 
 /**
  * Single export variant configuration
  */
 export interface ExportVariantConfig {
-  /** Filename pattern - can use {size} placeholder */
+  /**
+   * Filename template - may contain folders (`a/b/icon.png`) and the
+   * placeholders listed in `FILENAME_TEMPLATE_TOKENS`, e.g. {width}, {scale},
+   * {density}, {iconName} or {preset}
+   */
   filename: string;
   /** Width in pixels */
   width: number;
@@ -21,14 +30,87 @@ export interface ExportVariantConfig {
   height: number;
   /** Output format */
   format: ExportFormat;
+  /** Pixel density relative to the base size, used by {scale} and {density} */
+  scale?: number;
   /** Quality for JPEG/WebP (0-100), optional for PNG/SVG */
   quality?: number;
   /** Description of this variant's purpose */
   description?: string;
   /** Maximum file size in KB (optional) - triggers compression if exceeded */
   maxSize?: number;
+  /** Flatten onto an opaque, square background (e.g. iOS app icons) */
+  flattenTransparency?: boolean;
+  /** Render a single Android adaptive icon layer instead of the full icon */
+  adaptiveLayer?: AdaptiveIconLayer;
+  /** Sizes embedded in an ICO file (defaults to DEFAULT_ICO_SIZES) */
+  icoSizes?: number[];
+  /** Store ICO entries below 256 px as BMP instead of PNG (legacy Windows) */
+  icoBmp?: boolean;
+  /**
+   * Web app manifest purpose; variants with a purpose are listed in
+   * site.webmanifest. Maskable variants get a full-bleed background with the
+   * icon inside the 80% safe zone.
+   */
+  purpose?: IconPurpose;
+  /**
+   * Render only the glyph, filled with this hex color, on a transparent
+   * background (e.g. "#ffffff" for Microsoft Teams outline icons)
+   */
+  glyphColor?: string;
+  /** Style settings that replace the editor's style for this file only */
+  style?: ExportVariantStyle;
 }
 
+/**
+ * Per-variant style overrides (unset fields keep the editor's style)
+ */
+export interface ExportVariantStyle {
+  /** Background color or gradient */
+  backgroundColor?: BackgroundValue;
+  /** Icon/foreground color or gradient */
+  iconColor?: BackgroundValue;
+  /** Icon size on the UI slider scale (controls padding, also used for SVG) */
+  iconSize?: number;
+  /** Corner radius percentage (0 = square, 100 = fully round) */
+  cornerRadius?: number;
+  /** Whether border is enabled */
+  borderEnabled?: boolean;
+  /** Border color */
+  borderColor?: string;
+  /** Border width in normalized artboard units */
+  borderWidth?: number;
+}
+
+/**
+ * Web app manifest icon purposes
+ * - "any": shown as-is
+ * - "maskable": may be cropped by the platform to its icon shape
+ */
+export type IconPurpose = "any" | "maskable";
+
+/**
+ * Android adaptive icon layers
+ */
+export type AdaptiveIconLayer = "foreground" | "background" | "monochrome";
+
+/**
+ * How exported files are packaged in the ZIP
+ * - "xcode-asset-catalog": adds a Contents.json to every `.appiconset` folder
+ * - "android-adaptive-icon": adds `mipmap-anydpi-v26/ic_launcher*.xml` for
+ *   exported `mipmap-*` layers
+ * - "web-app-manifest": adds site.webmanifest, browserconfig.xml and an HTML
+ *   head snippet referencing the exported favicons
+ * - "teams-app": adds the `icons` object of a Microsoft Teams manifest.json
+ * - "web-extension": adds the `icons` and `action.default_icon` objects of a
+ *   browser extension manifest.json
+ */
+export type ExportPackaging =
+  | "xcode-asset-catalog"
+  | "android-adaptive-icon"
+  | "web-app-manifest"
+  | "teams-app"
+  | "web-extension";
+
 /**
  * Export preset - a collection of export variants for a specific platform
  */
@@ -41,6 +123,8 @@ export interface ExportPreset {
   description: string;
   /** Array of export variants */
   variants: ExportVariantConfig[];
+  /** Extra packaging applied to the exported files (loose files by default) */
+  packaging?: ExportPackaging;
   /** Whether this is a built-in preset (cannot be deleted) */
   isBuiltIn: boolean;
   /** Creation timestamp (ISO string) */
@@ -73,6 +157,8 @@ export interface StylePreset {
   backgroundColor: BackgroundValue;
   /** Icon/foreground color */
   iconColor: string;
+  /** Background outline (rounded square when unset) */
+  backgroundShape?: BackgroundShape;
   /** Corner radius percentage (0 = square, 100 = fully round) */
   cornerRadius: number;
   /** Whether border is enabled */
@@ -81,6 +167,8 @@ export interface StylePreset {
   borderColor: string;
   /** Border width in normalized artboard units */
   borderWidth: number;
+  /** Shadow behind the glyph (no shadow when unset) */
+  iconShadow?: IconShadow;
   /** Whether this is a built-in preset (cannot be deleted) */
   isBuiltIn: boolean;
   /** Optional color palette for easy brand color access */
@@ -172,6 +260,12 @@ export function isStylePreset(value: unknown): value is StylePreset {
   const preset = value as StylePreset;
 
   // Validate appearance fields if present (older preset payloads may omit them)
+  if (
+    preset.backgroundShape !== undefined &&
+    !isBackgroundShape(preset.backgroundShape)
+  ) {
+    return false;
+  }
   if (
     preset.cornerRadius !== undefined &&
     (typeof preset.cornerRadius !== "number" || preset.cornerRadius < 0)
@@ -196,6 +290,9 @@ export function isStylePreset(value: unknown): value is StylePreset {
   ) {
     return false;
   }
+  if (preset.iconShadow !== undefined && !isIconShadow(preset.iconShadow)) {
+    return false;
+  }
 
   if (preset.colorPalette !== undefined) {
     if (!Array.isArray(preset.colorPalette)) {
@@ -252,8 +349,73 @@ export const EXPORT_FORMATS: ExportFormat[] = [
   "webp",
   "svg",
   "ico",
+  "icns",
+];
+
+/**
+ * Valid export packaging modes
+ */
+export const EXPORT_PACKAGINGS: ExportPackaging[] = [
+  "xcode-asset-catalog",
+  "android-adaptive-icon",
+  "web-app-manifest",
+  "teams-app",
+  "web-extension",
 ];
 
+/**
+ * Valid web app manifest icon purposes
+ */
+export const ICON_PURPOSES: IconPurpose[] = ["any", "maskable"];
+
+/**
+ * Diameter of the maskable icon safe zone as a fraction of the icon size.
+ * Platforms may crop anything outside this central circle.
+ */
+export const MASKABLE_SAFE_ZONE_RATIO = 0.8;
+
+/**
+ * Valid adaptive icon layers
+ */
+export const ADAPTIVE_ICON_LAYERS: AdaptiveIconLayer[] = [
+  "foreground",
+  "background",
+  "monochrome",
+];
+
+/**
+ * Sizes that can be embedded in an ICO file
+ */
+export const ICO_SIZE_OPTIONS = [16, 24, 32, 48, 64, 128, 256] as const;
+
+/**
+ * Sizes embedded in ICO variants without `icoSizes` (common favicon sizes)
+ */
+export const DEFAULT_ICO_SIZES: number[] = [16, 32, 48];
+
+/**
+ * Apply a variant's style overrides on top of the export style.
+ * An icon size override applies to both raster and SVG exports.
+ */
+export function applyVariantStyle<
+  T extends { iconSize: number; svgIconSize?: number },
+>(style: T, overrides?: ExportVariantStyle): T {
+  if (!overrides) {
+    return style;
+  }
+
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  );
+  return {
+    ...style,
+    ...defined,
+    ...(overrides.iconSize !== undefined && {
+      svgIconSize: overrides.iconSize,
+    }),
+  };
+}
+
 /**
  * Check if a format supports quality setting
  */
@@ -276,6 +438,14 @@ export function formatSupportsTransparency(format: ExportFormat): boolean {
   return format === "png" || format === "webp" || format === "svg";
 }
 
+/**
+ * Check if a format is a multi-size icon container (ICO, ICNS)
+ * Containers are rendered from several PNG sizes and need a vector icon
+ */
+export function isIconContainerFormat(format: ExportFormat): boolean {
+  return format === "ico" || format === "icns";
+}
+
 /**
  * Get MIME type for export format
  */
@@ -291,6 +461,8 @@ export function getFormatMimeType(format: ExportFormat): string {
       return "image/svg+xml";
     case "ico":
       return "image/x-icon";
+    case "icns":
+      return "image/icns";
   }
 }
 
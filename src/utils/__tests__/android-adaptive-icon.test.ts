@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  createAdaptiveIconXml,
+  generateAdaptiveIconFiles,
+  getAdaptiveIconVariants,
+} from "../android-adaptive-icon";
+
+describe("android-adaptive-icon", () => {
+  it("creates every layer at every mipmap density", () => {
+    const variants = getAdaptiveIconVariants();
+
+    expect(variants).toHaveLength(15);
+    expect(
+      variants.find(
+        (v) => v.filename === "res/mipmap-xxxhdpi/ic_launcher_foreground.png"
+      )
+    ).toMatchObject({ width: 432, height: 432, adaptiveLayer: "foreground" });
+    expect(
+      variants.find(
+        (v) => v.filename === "res/mipmap-hdpi/ic_launcher_monochrome.png"
+      )
+    ).toMatchObject({ width: 162, adaptiveLayer: "monochrome" });
+  });
+
+  it("references the exported layers in the adaptive icon XML", () => {
+    expect(createAdaptiveIconXml(["foreground", "background"])).toBe(
+      [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        '<adaptive-icon xmlns:android="http://schemas.android.com/apk/res/android">',
+        '    <background android:drawable="@mipmap/ic_launcher_background" />',
+        '    <foreground android:drawable="@mipmap/ic_launcher_foreground" />',
+        "</adaptive-icon>",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("writes launcher XML next to complete layer sets only", () => {
+    const files = generateAdaptiveIconFiles([
+      "res/mipmap-mdpi/ic_launcher_foreground.png",
+      "res/mipmap-mdpi/ic_launcher_background.png",
+      "res/mipmap-mdpi/ic_launcher_monochrome.png",
+      "beta/res/mipmap-mdpi/ic_launcher_foreground.png",
+      "export-metadata.json",
+    ]);
+
+    expect(Array.from(files.keys())).toEqual([
+      "res/mipmap-anydpi-v26/ic_launcher.xml",
+      "res/mipmap-anydpi-v26/ic_launcher_round.xml",
+    ]);
+    expect(files.get("res/mipmap-anydpi-v26/ic_launcher.xml")).toContain(
+      '<monochrome android:drawable="@mipmap/ic_launcher_monochrome" />'
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  BACKGROUND_SHAPES,
+  getBackgroundShapePathData,
+  isBackgroundShape,
+  renderBackgroundShapeElement,
+  traceBackgroundShape,
+  type ShapePathContext,
+} from "../background-shape";
+
+const box = { x: 0, y: 0, width: 100, height: 100, radius: 20 };
+
+describe("background-shape", () => {
+  it("keeps the rounded square as a rect element", () => {
+    expect(renderBackgroundShapeElement("rounded", box, ' fill="#fff"')).toBe(
+      '<rect width="100" height="100" rx="20" ry="20" fill="#fff"/>'
+    );
+    expect(
+      renderBackgroundShapeElement("rounded", { ...box, x: 2, y: 2, radius: 0 })
+    ).toBe('<rect x="2" y="2" width="100" height="100"/>');
+  });
+
+  it("renders other shapes as closed paths inside the box", () => {
+    for (const shape of BACKGROUND_SHAPES.filter((s) => s !== "rounded")) {
+      const element = renderBackgroundShapeElement(shape, box, ' fill="red"');
+      expect(element).toMatch(/^<path d="M[^"]+ Z" fill="red"\/>$/);
+
+      const values = getBackgroundShapePathData(shape, box)
+        .match(/-?\d+(\.\d+)?/g)!
+        .map(Number);
+      expect(Math.min(...values)).toBeGreaterThanOrEqual(0);
+      expect(Math.max(...values)).toBeLessThanOrEqual(100);
+    }
+    expect(getBackgroundShapePathData("hexagon", box)).toBe(
+      "M50 0 L93.301 25 L93.301 75 L50 100 L6.699 75 L6.699 25 Z"
+    );
+  });
+
+  it("traces the same outline on a canvas", () => {
+    const ctx = {
+      beginPath: vi.fn(),
+      moveTo: vi.fn(),
+      lineTo: vi.fn(),
+      quadraticCurveTo: vi.fn(),
+      bezierCurveTo: vi.fn(),
+      closePath: vi.fn(),
+    } satisfies ShapePathContext;
+
+    traceBackgroundShape(ctx, "circle", box);
+    expect(ctx.moveTo).toHaveBeenCalledWith(50, 0);
+    expect(ctx.bezierCurveTo).toHaveBeenCalledTimes(4);
+    expect(ctx.closePath).toHaveBeenCalledOnce();
+
+    traceBackgroundShape(ctx, "rounded", box);
+    expect(ctx.quadraticCurveTo).toHaveBeenCalledTimes(4);
+  });
+
+  it("validates persisted shapes", () => {
+    expect(isBackgroundShape("squircle")).toBe(true);
+    expect(isBackgroundShape("star")).toBe(false);
+    expect(isBackgroundShape(undefined)).toBe(false);
+  });
+});
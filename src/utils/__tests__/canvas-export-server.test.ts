@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import sharp from "sharp";
+import type { CanvasEditorState } from "@/src/types/canvas";
+import { getIconByIdServer } from "../icon-catalog-server";
+import {
+  getCanvasIconIds,
+  renderCanvasSvgServer,
+} from "../canvas-export-server";
+
+vi.mock("../icon-catalog-server", () => ({
+  getIconByIdServer: vi.fn(),
+}));
+
+const baseLayer = {
+  visible: true,
+  locked: false,
+  left: 512,
+  top: 512,
+  scaleX: 1,
+  scaleY: 1,
+  angle: 0,
+  opacity: 1,
+};
+
+describe("canvas-export-server", () => {
+  beforeEach(() => {
+    vi.mocked(getIconByIdServer).mockReset();
+    vi.mocked(getIconByIdServer).mockResolvedValue({
+      id: "feather-star",
+      name: "Star",
+      pack: "feather",
+      svg: '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor"><path d="M2 2h20v20H2z"/></svg>',
+      keywords: ["star"],
+    });
+  });
+
+  it("composes icon, text and image layers with transforms", async () => {
+    const state: CanvasEditorState = {
+      backgroundColor: "#063940",
+      canvasSize: 1024,
+      layers: [
+        {
+          ...baseLayer,
+          id: "icon",
+          name: "Icon",
+          type: "icon",
+          iconId: "feather-star",
+          color: "#ff0000",
+          angle: 45,
+          opacity: 0.5,
+        },
+        {
+          ...baseLayer,
+          id: "badge",
+          name: "Badge",
+          type: "image",
+          imageDataUrl: "data:image/svg+xml;base64,",
+          svgContent:
+            '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="20"><circle cx="5" cy="10" r="5"/></svg>',
+          left: 800,
+          top: 200,
+          scaleX: 0.25,
+          scaleY: 0.25,
+        },
+        {
+          ...baseLayer,
+          id: "text",
+          name: "Text",
+          type: "text",
+          text: "A & B",
+          fontFamily: "Arial",
+          fontSize: 72,
+          color: "#ffffff",
+          bold: true,
+          italic: false,
+        },
+      ],
+    };
+
+    const svg = await renderCanvasSvgServer(state, { outputSize: 256 });
+
+    expect(svg).toContain('width="256" height="256" viewBox="0 0 1024 1024"');
+    expect(svg).toContain('<rect width="1024" height="1024" fill="#063940"/>');
+    // 512px default size / 24px viewBox
+    expect(svg).toContain(
+      'transform="translate(512 512) rotate(45) scale(21.333333333333332 21.333333333333332)" opacity="0.5"'
+    );
+    expect(svg).toContain('stroke="#ff0000"');
+    expect(svg).toContain('width="24" height="24" viewBox="0 0 24 24"');
+    // 512px default size / 20px tallest side, scaled by 0.25
+    expect(svg).toContain("translate(800 200) rotate(0) scale(6.4 6.4)");
+    expect(svg).toContain("translate(-5 -10)");
+    expect(svg).toContain(
+      '<image width="10" height="20" href="data:image/svg+xml;base64,'
+    );
+    expect(svg).not.toContain("<circle");
+    expect(svg).toContain('font-weight="bold"');
+    expect(svg).toContain("A &amp; B");
+  });
+
+  it("skips hidden layers and maps linear gradients like the canvas export", async () => {
+    const state: CanvasEditorState = {
+      backgroundColor: {
+        type: "linear",
+        angle: 90,
+        stops: [
+          { color: "#000000", offset: 0 },
+          { color: "#ffffff", offset: 100 },
+        ],
+      },
+      canvasSize: 1024,
+      layers: [
+        {
+          ...baseLayer,
+          id: "icon",
+          name: "Icon",
+          type: "icon",
+          iconId: "feather-star",
+          color: "#ffffff",
+          visible: false,
+        },
+      ],
+    };
+
+    const svg = await renderCanvasSvgServer(state);
+
+    expect(svg).toContain('x1="0" y1="512" x2="1024" y2="512"');
+    expect(svg).toContain('fill="url(#canvas-background)"');
+    expect(svg).not.toContain("rotate(");
+    expect(getIconByIdServer).not.toHaveBeenCalled();
+    expect(getCanvasIconIds(state)).toEqual([]);
+  });
+
+  it("sizes raster image layers from their pixel dimensions", async () => {
+    const png = await sharp({
+      create: {
+        width: 64,
+        height: 32,
+        channels: 4,
+        background: "#ff0000",
+      },
+    })
+      .png()
+      .toBuffer();
+
+    const svg = await renderCanvasSvgServer({
+      backgroundColor: "transparent",
+      canvasSize: 1024,
+      layers: [
+        {
+          ...baseLayer,
+          id: "photo",
+          name: "Photo",
+          type: "image",
+          imageDataUrl: `data:image/png;base64,${png.toString("base64")}`,
+        },
+      ],
+    });
+
+    expect(svg).not.toContain("<rect");
+    expect(svg).toContain("scale(8 8)");
+    expect(svg).toContain('<image width="64" height="32"');
+
+    const rendered = await sharp(Buffer.from(svg)).png().toBuffer();
+    const metadata = await sharp(rendered).metadata();
+    expect(metadata.width).toBe(1024);
+  });
+});
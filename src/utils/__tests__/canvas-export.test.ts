@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CanvasEditorState } from "../../types/canvas";
+import { renderCanvasToRaster } from "../canvas-export";
+import { getBlobPixels, hasTransparentPixels } from "../renderer";
+
+const SIZE = 2;
+
+/** Pixels behind each fake encoded image */
+const blobPixels = new WeakMap<Blob, Uint8ClampedArray>();
+
+function createBlob(pixels: Uint8ClampedArray, type: string): Blob {
+  const blob = new Blob([], { type });
+  blobPixels.set(blob, pixels);
+  return blob;
+}
+
+vi.mock("fabric", () => ({
+  // A composition that only covers the left column, the rest is transparent
+  StaticCanvas: class {
+    backgroundColor = "";
+    add() {}
+    renderAll() {}
+    dispose() {}
+    async toBlob({ format }: { format: string }) {
+      return createBlob(
+        new Uint8ClampedArray([
+          255, 0, 0, 255, 0, 0, 0, 0, 255, 0, 0, 255, 0, 0, 0, 0,
+        ]),
+        `image/${format}`
+      );
+    }
+  },
+}));
+
+/**
+ * Minimal 2D context that fills and composites (source-over) RGBA pixels
+ */
+function createPixelContext() {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  return {
+    data,
+    fillStyle: "",
+    globalCompositeOperation: "source-over",
+    fillRect() {
+      const [r, g, b] = [1, 3, 5].map((i) =>
+        parseInt(this.fillStyle.slice(i, i + 2), 16)
+      );
+      for (let i = 0; i < data.length; i += 4) {
+        data.set([r, g, b, 255], i);
+      }
+    },
+    drawImage({ pixels }: { pixels: Uint8ClampedArray }) {
+      for (let i = 0; i < data.length; i += 4) {
+        const alpha = pixels[i + 3] / 255;
+        for (let c = 0; c < 3; c++) {
+          data[i + c] = pixels[i + c] * alpha + data[i + c] * (1 - alpha);
+        }
+        data[i + 3] = 255 * (alpha + (data[i + 3] / 255) * (1 - alpha));
+      }
+    },
+    getImageData() {
+      return { data: data.slice() };
+    },
+  };
+}
+
+describe("renderCanvasToRaster", () => {
+  const canvasState: CanvasEditorState = {
+    backgroundColor: "transparent",
+    canvasSize: 1024,
+    layers: [],
+  };
+
+  beforeEach(() => {
+    const contexts = new WeakMap<
+      HTMLCanvasElement,
+      ReturnType<typeof createPixelContext>
+    >();
+    const getContext = function (this: HTMLCanvasElement) {
+      if (!contexts.has(this)) {
+        contexts.set(this, createPixelContext());
+      }
+      return contexts.get(this);
+    };
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockImplementation(
+      getContext as never
+    );
+    vi.spyOn(HTMLCanvasElement.prototype, "toBlob").mockImplementation(
+      function (this: HTMLCanvasElement, callback, type) {
+        callback(createBlob(contexts.get(this)!.data.slice(), type!));
+      }
+    );
+    vi.stubGlobal("createImageBitmap", async (blob: Blob) => ({
+      pixels: blobPixels.get(blob),
+      close: vi.fn(),
+    }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps transparent areas by default", async () => {
+    const blob = await renderCanvasToRaster(canvasState, {
+      outputSize: SIZE,
+    });
+
+    expect(hasTransparentPixels(await getBlobPixels(blob, SIZE))).toBe(true);
+  });
+
+  it("flattens transparency onto an opaque white backdrop", async () => {
+    const blob = await renderCanvasToRaster(canvasState, {
+      outputSize: SIZE,
+      format: "webp",
+      flattenTransparency: true,
+    });
+    const pixels = await getBlobPixels(blob, SIZE);
+
+    expect(blob.type).toBe("image/webp");
+    expect(hasTransparentPixels(pixels)).toBe(false);
+    expect(Array.from(pixels.slice(0, 8))).toEqual([
+      255, 0, 0, 255, 255, 255, 255, 255,
+    ]);
+  });
+});
@@ -1,12 +1,19 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import JSZip from "jszip";
 import {
+  generateBatchExportZip,
   generateClipboardPng,
+  generateExportZip,
   generateSourceSvgDownload,
   generateStyledSvgDownload,
   getSecondaryExportCapabilities,
   validateExport,
 } from "../export-controller";
 import type { IconGeneratorState } from "../../hooks/use-icon-generator";
+import { DEFAULT_BACKGROUND_SHAPE } from "../background-shape";
+import { DEFAULT_ICON_COLOR_STYLE } from "../icon-colors";
+import { DEFAULT_ICON_SHADOW } from "../icon-shadow";
+import { DEFAULT_ICON_TRANSFORM } from "../icon-transform";
 import type { AppLocation } from "../../types/app-location";
 import type { ExportPreset } from "../../types/preset";
 
@@ -20,12 +27,28 @@ vi.mock("../renderer", () => ({
   renderPngFromImage: vi.fn(),
   renderRasterFromImage: vi.fn(),
   generateExportAssets: vi.fn(),
+  getBlobPixels: vi.fn(),
+  assertGlyphColorPixels: vi.fn(),
+  inspectExportAsset: vi.fn(async (filename: string, blob: Blob) => ({
+    filename,
+    size: blob.size,
+  })),
 }));
 
 vi.mock("../canvas-export", () => ({
   generateCanvasExportAssets: vi.fn(),
 }));
 
+// jsdom's Blob has no arrayBuffer(), so read it through FileReader
+function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
 describe("export-controller", () => {
   const singlePngPreset: ExportPreset = {
     id: "single-png",
@@ -110,10 +133,14 @@ describe("export-controller", () => {
     selectedPack: "all",
     iconSize: 123,
     svgIconSize: 123,
+    backgroundShape: DEFAULT_BACKGROUND_SHAPE,
     cornerRadius: 0,
     borderEnabled: false,
     borderColor: "#ffffff",
     borderWidth: 6,
+    iconShadow: DEFAULT_ICON_SHADOW,
+    iconColorStyle: DEFAULT_ICON_COLOR_STYLE,
+    iconTransform: DEFAULT_ICON_TRANSFORM,
     ...overrides,
   });
 
@@ -335,6 +362,324 @@ describe("export-controller", () => {
     });
   });
 
+  describe("generateExportZip", () => {
+    it("resolves filename templates into folders", async () => {
+      const { generateExportAssets } = await import("../renderer");
+      vi.mocked(generateExportAssets).mockImplementation(
+        async (_icon, _state, variants) =>
+          new Map(
+            variants.map((variant) => [
+              variant.filename,
+              new Blob(["png"], { type: "image/png" }),
+            ])
+          )
+      );
+
+      const result = await generateExportZip(createMockState(), [], undefined, {
+        preset: {
+          ...singlePngPreset,
+          name: "My App",
+          variants: [
+            {
+              filename: "android/mipmap-{density}/{iconName}.{format}",
+              width: 144,
+              height: 144,
+              format: "png",
+              scale: 3,
+            },
+            {
+              filename: "{preset}/{style}/icon-{width}x{height}@{scale}x.png",
+              width: 64,
+              height: 32,
+              format: "png",
+              scale: 2,
+            },
+          ],
+        },
+        styleName: "Dark Mode",
+      });
+
+      expect(result.filenames).toEqual([
+        "android/mipmap-xxhdpi/test-icon.png",
+        "my-app/dark-mode/icon-64x32@2x.png",
+      ]);
+      const zip = await JSZip.loadAsync(await readBlob(result.zipBlob));
+      expect(zip.files["android/"].dir).toBe(true);
+      expect(zip.files["android/mipmap-xxhdpi/"].dir).toBe(true);
+      expect(zip.files["my-app/dark-mode/"].dir).toBe(true);
+    });
+
+    it("rejects filenames that leave the export folder", async () => {
+      await expect(
+        generateExportZip(createMockState(), [], undefined, {
+          preset: {
+            ...singlePngPreset,
+            variants: [
+              { ...singlePngPreset.variants[0], filename: "../x.png" },
+            ],
+          },
+        })
+      ).rejects.toThrow('Invalid filename "../x.png"');
+    });
+
+    it("reports platform rule issues of the rendered files", async () => {
+      const { generateExportAssets, inspectExportAsset } =
+        await import("../renderer");
+      vi.mocked(generateExportAssets).mockResolvedValue(
+        new Map([["icon.png", new Blob(["png"], { type: "image/png" })]])
+      );
+      vi.mocked(inspectExportAsset).mockResolvedValueOnce({
+        filename: "icon.png",
+        size: 3,
+        width: 256,
+        height: 256,
+        hasTransparency: false,
+      });
+
+      const result = await generateExportZip(createMockState(), [], undefined, {
+        preset: { ...singlePngPreset, id: "raycast-extension" },
+      });
+
+      expect(result.issues).toEqual([
+        expect.objectContaining({
+          severity: "error",
+          rule: "size",
+          filename: "icon.png",
+        }),
+      ]);
+      expect(result.metadata.issues).toEqual(result.issues);
+    });
+  });
+
+  describe("generateExportZip for custom images", () => {
+    it("checks glyph-only variants for off-color pixels", async () => {
+      const { renderRasterFromImage, getBlobPixels, assertGlyphColorPixels } =
+        await import("../renderer");
+      const pixels = new Uint8ClampedArray([255, 0, 0, 255]);
+      vi.mocked(renderRasterFromImage).mockResolvedValue(
+        new Blob(["png"], { type: "image/png" })
+      );
+      vi.mocked(getBlobPixels).mockResolvedValue(pixels);
+      vi.mocked(assertGlyphColorPixels).mockImplementation(() => {
+        throw new Error("outline.png must only contain #ffffff pixels");
+      });
+      sessionStorage.setItem("custom-image-1", "data:image/png;base64,abc");
+
+      await expect(
+        generateExportZip(
+          createMockState({ selectedIconId: "custom-image-1" }),
+          [],
+          undefined,
+          {
+            preset: {
+              ...singlePngPreset,
+              variants: [
+                {
+                  filename: "outline.png",
+                  width: 32,
+                  height: 32,
+                  format: "png",
+                  glyphColor: "#ffffff",
+                },
+              ],
+            },
+          }
+        )
+      ).rejects.toThrow("outline.png must only contain #ffffff pixels");
+      expect(getBlobPixels).toHaveBeenCalledWith(expect.any(Blob), 32, 32);
+      expect(assertGlyphColorPixels).toHaveBeenCalledWith(
+        "outline.png",
+        pixels,
+        "#ffffff"
+      );
+    });
+  });
+
+  describe("generateExportZip in canvas mode", () => {
+    const canvasState = { layers: [{ id: "1" }] } as never;
+
+    it("renders maskable variants into the safe zone", async () => {
+      const { generateCanvasExportAssets } = await import("../canvas-export");
+
+      await generateExportZip(
+        createMockState({ selectedPack: "canvas", selectedIconId: "canvas" }),
+        [],
+        canvasState,
+        {
+          preset: {
+            ...singlePngPreset,
+            variants: [
+              { filename: "icon.png", width: 512, height: 512, format: "png" },
+              {
+                filename: "icon-maskable.png",
+                width: 512,
+                height: 512,
+                format: "png",
+                purpose: "maskable",
+              },
+            ],
+          },
+        }
+      );
+
+      expect(generateCanvasExportAssets).toHaveBeenCalledWith(canvasState, [
+        expect.objectContaining({ filename: "icon.png", maskable: false }),
+        expect.objectContaining({
+          filename: "icon-maskable.png",
+          maskable: true,
+        }),
+      ]);
+    });
+
+    it("renders glyph-only variants instead of dropping them", async () => {
+      const { generateCanvasExportAssets } = await import("../canvas-export");
+
+      await generateExportZip(
+        createMockState({ selectedPack: "canvas", selectedIconId: "canvas" }),
+        [],
+        canvasState,
+        {
+          preset: {
+            ...singlePngPreset,
+            variants: [
+              {
+                filename: "outline.png",
+                width: 32,
+                height: 32,
+                format: "png",
+                glyphColor: "#ffffff",
+              },
+            ],
+          },
+        }
+      );
+
+      expect(generateCanvasExportAssets).toHaveBeenCalledWith(canvasState, [
+        expect.objectContaining({
+          filename: "outline.png",
+          glyphColor: "#ffffff",
+        }),
+      ]);
+    });
+
+    it("passes flattenTransparency to the canvas renderer", async () => {
+      const { generateCanvasExportAssets } = await import("../canvas-export");
+
+      await generateExportZip(
+        createMockState({ selectedPack: "canvas", selectedIconId: "canvas" }),
+        [],
+        canvasState,
+        {
+          preset: {
+            ...singlePngPreset,
+            variants: [
+              {
+                filename: "AppIcon.png",
+                width: 1024,
+                height: 1024,
+                format: "png",
+                flattenTransparency: true,
+              },
+            ],
+          },
+        }
+      );
+
+      expect(generateCanvasExportAssets).toHaveBeenCalledWith(canvasState, [
+        expect.objectContaining({
+          filename: "AppIcon.png",
+          flattenTransparency: true,
+        }),
+      ]);
+    });
+  });
+
+  describe("generateBatchExportZip", () => {
+    beforeEach(async () => {
+      const { generateExportAssets, getIconById } = {
+        ...(await import("../renderer")),
+        ...(await import("../icon-catalog")),
+      };
+      vi.mocked(getIconById).mockImplementation(async (id) => ({
+        id,
+        name: id,
+        pack: "feather",
+        svg: "<svg></svg>",
+        keywords: [],
+      }));
+      vi.mocked(generateExportAssets).mockResolvedValue(
+        new Map([["icon.png", new Blob(["png"], { type: "image/png" })]])
+      );
+    });
+
+    it("exports each icon into its own folder and reports progress", async () => {
+      const onProgress = vi.fn();
+      const result = await generateBatchExportZip(
+        createMockState(),
+        ["feather-star", "feather-moon", "feather-sun"],
+        [],
+        {
+          preset: singlePngPreset,
+          labels: { "feather-moon": "Night / Mode", "feather-sun": "star" },
+          onProgress,
+        }
+      );
+
+      expect(result.filename).toBe("single-png-icons-batch.zip");
+      expect(result.icons.map((icon) => icon.folder)).toEqual([
+        "feather-star",
+        "Night - Mode",
+        "star",
+      ]);
+      const zip = await JSZip.loadAsync(await readBlob(result.zipBlob));
+      expect(
+        Object.keys(zip.files).filter((name) => !zip.files[name].dir)
+      ).toEqual([
+        "feather-star/icon.png",
+        "feather-star/export-metadata.json",
+        "Night - Mode/icon.png",
+        "Night - Mode/export-metadata.json",
+        "star/icon.png",
+        "star/export-metadata.json",
+      ]);
+      expect(onProgress).toHaveBeenCalledTimes(4);
+      expect(onProgress).toHaveBeenNthCalledWith(2, {
+        completed: 1,
+        total: 3,
+        currentIconId: "feather-moon",
+      });
+      expect(onProgress).toHaveBeenLastCalledWith({
+        completed: 3,
+        total: 3,
+        currentIconId: null,
+      });
+    });
+
+    it("de-duplicates folder names and names the failing icon", async () => {
+      const result = await generateBatchExportZip(
+        createMockState(),
+        ["feather-a", "feather-b"],
+        [],
+        { preset: singlePngPreset, labels: { "feather-b": "feather-a" } }
+      );
+      expect(result.icons.map((icon) => icon.folder)).toEqual([
+        "feather-a",
+        "feather-a-2",
+      ]);
+
+      const { getIconById } = await import("../icon-catalog");
+      vi.mocked(getIconById).mockResolvedValueOnce(null);
+      await expect(
+        generateBatchExportZip(createMockState(), ["missing"], [], {
+          preset: singlePngPreset,
+        })
+      ).rejects.toThrow("Failed to export missing: Icon not found: missing");
+      await expect(
+        generateBatchExportZip(createMockState(), [], [])
+      ).rejects.toThrow("No icons selected");
+    });
+  });
+
   describe("validateExport", () => {
     it("returns valid when icon is selected", () => {
       const state = createMockState({ selectedIconId: "test-icon" });
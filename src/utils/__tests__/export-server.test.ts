@@ -0,0 +1,371 @@
+import { describe, expect, it } from "vitest";
+import JSZip from "jszip";
+import sharp from "sharp";
+import type { IconMetadata } from "@/src/types/icon";
+import { getBuiltinExportPreset } from "../builtin-presets";
+import {
+  generateExportZipServer,
+  getBundleZipFilename,
+  toServerVariantSpec,
+} from "../export-server";
+
+const icon: IconMetadata = {
+  id: "feather-star",
+  name: "Star",
+  pack: "feather",
+  svg: '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M2 2h20v20H2z"/></svg>',
+  keywords: ["star"],
+};
+
+const style = {
+  backgroundColor: "#063940",
+  iconColor: "#ffffff",
+  iconSize: 123,
+  cornerRadius: 20,
+  borderEnabled: false,
+  borderColor: "#ffffff",
+  borderWidth: 6,
+};
+
+describe("export-server", () => {
+  it("packages preset variants and metadata into a ZIP", async () => {
+    const preset = getBuiltinExportPreset("favicon-bundle")!;
+    const result = await generateExportZipServer(
+      icon,
+      style,
+      preset.variants.map(toServerVariantSpec)
+    );
+
+    expect(result.filenames).toEqual(preset.variants.map((v) => v.filename));
+
+    const zip = await JSZip.loadAsync(result.zip);
+    const metadata = JSON.parse(
+      await zip.file("export-metadata.json")!.async("string")
+    );
+    expect(metadata.iconId).toBe("feather-star");
+    expect(metadata.customization.cornerRadius).toBe(20);
+    expect(metadata.variants).toEqual(result.filenames);
+
+    const appleTouch = await zip
+      .file("apple-touch-icon.png")!
+      .async("nodebuffer");
+    const pngMeta = await sharp(appleTouch).metadata();
+    expect(pngMeta.format).toBe("png");
+    expect(pngMeta.width).toBe(180);
+
+    const ico = await zip.file("favicon.ico")!.async("uint8array");
+    const view = new DataView(ico.buffer, ico.byteOffset, ico.byteLength);
+    expect(view.getUint16(2, true)).toBe(1);
+    expect(view.getUint16(4, true)).toBe(3);
+  });
+
+  it("renders Zendesk location SVGs without a background", async () => {
+    const result = await generateExportZipServer(icon, style, [
+      {
+        filename: "icon_top_bar.svg",
+        width: 18,
+        height: 18,
+        format: "svg",
+      },
+      { filename: "logo.svg", width: 18, height: 18, format: "svg" },
+    ]);
+
+    const zip = await JSZip.loadAsync(result.zip);
+    const topBar = await zip.file("icon_top_bar.svg")!.async("string");
+    const logo = await zip.file("logo.svg")!.async("string");
+
+    expect(topBar).toContain("currentColor");
+    expect(topBar).not.toContain('fill="#063940"');
+    expect(logo).toContain('fill="#063940"');
+    expect(logo).toContain('width="18"');
+  });
+
+  it("writes an Xcode app icon set with opaque iOS icons", async () => {
+    const preset = getBuiltinExportPreset("xcode-app-icon")!;
+    const variants = preset.variants
+      .filter((v) => v.width === 1024 || v.width === 180)
+      .map(toServerVariantSpec);
+    const result = await generateExportZipServer(icon, style, variants, {
+      packaging: preset.packaging,
+    });
+
+    expect(result.filenames).toContain("AppIcon.appiconset/Contents.json");
+
+    const zip = await JSZip.loadAsync(result.zip);
+    const contents = JSON.parse(
+      await zip.file("AppIcon.appiconset/Contents.json")!.async("string")
+    );
+    expect(contents.info).toEqual({ author: "xcode", version: 1 });
+    expect(contents.images).toContainEqual({
+      filename: "icon-1024.png",
+      idiom: "ios-marketing",
+      scale: "1x",
+      size: "1024x1024",
+    });
+    expect(contents.images).toContainEqual({
+      filename: "icon-mac-1024.png",
+      idiom: "mac",
+      scale: "2x",
+      size: "512x512",
+    });
+
+    const marketing = await sharp(
+      await zip.file("AppIcon.appiconset/icon-1024.png")!.async("nodebuffer")
+    ).metadata();
+    const mac = await sharp(
+      await zip
+        .file("AppIcon.appiconset/icon-mac-1024.png")!
+        .async("nodebuffer")
+    ).metadata();
+    expect(marketing.hasAlpha).toBe(false);
+    expect(mac.hasAlpha).toBe(true);
+  });
+
+  it("renders Android adaptive icon layers with launcher XML", async () => {
+    const preset = getBuiltinExportPreset("android-adaptive-icon")!;
+    const variants = preset.variants
+      .filter((v) => v.filename.includes("/mipmap-mdpi/"))
+      .map(toServerVariantSpec);
+    const result = await generateExportZipServer(icon, style, variants, {
+      packaging: preset.packaging,
+    });
+
+    expect(result.filenames).toContain("res/mipmap-anydpi-v26/ic_launcher.xml");
+    expect(result.filenames).toContain(
+      "res/mipmap-anydpi-v26/ic_launcher_round.xml"
+    );
+
+    const zip = await JSZip.loadAsync(result.zip);
+    const readLayer = async (layer: string) => {
+      const png = await zip
+        .file(`res/mipmap-mdpi/ic_launcher_${layer}.png`)!
+        .async("nodebuffer");
+      return sharp(png).raw().toBuffer({ resolveWithObject: true });
+    };
+
+    // Background is a full-bleed square of the background color
+    const background = await readLayer("background");
+    expect(background.info.width).toBe(108);
+    expect(Array.from(background.data.subarray(0, 3))).toEqual([6, 57, 64]);
+
+    // Glyph stays inside the 66dp safe zone on a transparent layer
+    const foreground = await readLayer("foreground");
+    const opaqueColumns = Array.from({ length: 108 }, (_, x) => x).filter(
+      (x) => foreground.data[(54 * 108 + x) * 4 + 3] > 0
+    );
+    expect(opaqueColumns.length).toBeGreaterThan(0);
+    expect(Math.min(...opaqueColumns)).toBeGreaterThanOrEqual(21);
+    expect(Math.max(...opaqueColumns)).toBeLessThanOrEqual(87);
+
+    // Monochrome layer is the glyph in white
+    const monochrome = await readLayer("monochrome");
+    const opaque = Array.from({ length: 108 * 108 }, (_, i) => i).find(
+      (i) => monochrome.data[i * 4 + 3] === 255
+    )!;
+    expect(
+      Array.from(monochrome.data.subarray(opaque * 4, opaque * 4 + 3))
+    ).toEqual([255, 255, 255]);
+  });
+
+  it("renders maskable icons full bleed and lists them in the manifest", async () => {
+    const preset = getBuiltinExportPreset("pwa-icons")!;
+    const variants = preset.variants
+      .filter((v) => v.purpose === "maskable")
+      .map((v) => ({ ...toServerVariantSpec(v), width: 100, height: 100 }));
+    const result = await generateExportZipServer(icon, style, variants, {
+      packaging: preset.packaging,
+    });
+
+    const zip = await JSZip.loadAsync(result.zip);
+    const manifest = JSON.parse(
+      await zip.file("site.webmanifest")!.async("string")
+    );
+    expect(manifest.icons).toEqual([
+      {
+        src: "icon-512x512-maskable.png",
+        sizes: "100x100",
+        type: "image/png",
+        purpose: "maskable",
+      },
+    ]);
+    expect(manifest.theme_color).toBe("#063940");
+
+    const png = await zip
+      .file("icon-512x512-maskable.png")!
+      .async("nodebuffer");
+    const { data, info } = await sharp(png)
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    // Corner radius is ignored so the background reaches every corner
+    expect(info.channels).toBe(3);
+    expect(Array.from(data.subarray(0, 3))).toEqual([6, 57, 64]);
+
+    // Glyph stays inside the central 80% safe zone
+    const glyphColumns = Array.from({ length: 100 }, (_, x) => x).filter(
+      (x) => data[(50 * 100 + x) * 3] > 128
+    );
+    expect(glyphColumns.length).toBeGreaterThan(0);
+    expect(Math.min(...glyphColumns)).toBeGreaterThanOrEqual(10);
+    expect(Math.max(...glyphColumns)).toBeLessThanOrEqual(90);
+  });
+
+  it("renders the Teams outline icon as white on transparency", async () => {
+    const preset = getBuiltinExportPreset("microsoft-teams")!;
+    const result = await generateExportZipServer(
+      icon,
+      style,
+      preset.variants.map(toServerVariantSpec),
+      { packaging: preset.packaging }
+    );
+
+    const zip = await JSZip.loadAsync(result.zip);
+    expect(
+      JSON.parse(await zip.file("manifest-icons.json")!.async("string"))
+    ).toEqual({ icons: { color: "color.png", outline: "outline.png" } });
+
+    const outline = await zip.file("outline.png")!.async("nodebuffer");
+    const { data, info } = await sharp(outline)
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    expect(info.width).toBe(32);
+    expect(info.channels).toBe(4);
+
+    const visible = Array.from({ length: 32 * 32 }, (_, i) => i).filter(
+      (i) => data[i * 4 + 3] > 0
+    );
+    expect(visible.length).toBeGreaterThan(0);
+    // Corners are transparent (no background)
+    expect(data[3]).toBe(0);
+    for (const i of visible) {
+      expect(Array.from(data.subarray(i * 4, i * 4 + 3))).toEqual([
+        255, 255, 255,
+      ]);
+    }
+  });
+
+  it("applies per-variant style overrides", async () => {
+    const result = await generateExportZipServer(icon, style, [
+      { filename: "default.png", width: 64, height: 64, format: "png" },
+      {
+        filename: "override.png",
+        width: 64,
+        height: 64,
+        format: "png",
+        style: { backgroundColor: "#ff0000", cornerRadius: 0 },
+      },
+    ]);
+
+    const zip = await JSZip.loadAsync(result.zip);
+    const corner = async (filename: string) => {
+      const png = await zip.file(filename)!.async("nodebuffer");
+      const { data } = await sharp(png)
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      return Array.from(data.subarray(0, 4));
+    };
+
+    // The shared style keeps its rounded (transparent) corners
+    expect((await corner("default.png"))[3]).toBe(0);
+    expect(await corner("override.png")).toEqual([255, 0, 0, 255]);
+    // Metadata still describes the shared style
+    expect(result.metadata.customization.backgroundColor).toBe("#063940");
+  });
+
+  it("embeds the configured ICO sizes as PNG or legacy BMP", async () => {
+    const result = await generateExportZipServer(icon, style, [
+      {
+        filename: "app.ico",
+        width: 256,
+        height: 256,
+        format: "ico",
+        icoSizes: [256, 24, 16],
+        icoBmp: true,
+      },
+    ]);
+
+    const zip = await JSZip.loadAsync(result.zip);
+    const ico = await zip.file("app.ico")!.async("nodebuffer");
+    expect(ico.readUInt16LE(4)).toBe(3);
+
+    const entries = [0, 1, 2].map((index) => {
+      const entry = 6 + index * 16;
+      const offset = ico.readUInt32LE(entry + 12);
+      return {
+        width: ico[entry],
+        size: ico.readUInt32LE(entry + 8),
+        data: ico.subarray(offset, offset + ico.readUInt32LE(entry + 8)),
+      };
+    });
+
+    expect(entries.map((entry) => entry.width)).toEqual([16, 24, 0]);
+    // 16 and 24 px are BMP DIBs: 40-byte header, double height, 32 bpp
+    expect(entries[1].data.readUInt32LE(0)).toBe(40);
+    expect(entries[1].data.readInt32LE(4)).toBe(24);
+    expect(entries[1].data.readInt32LE(8)).toBe(48);
+    expect(entries[1].data.readUInt16LE(14)).toBe(32);
+    expect(entries[1].size).toBe(40 + 24 * 24 * 4 + 4 * 24);
+    // 256 px is always PNG
+    expect(entries[2].data.readUInt32BE(0)).toBe(0x89504e47);
+  });
+
+  it("packs ICNS files with 1x and @2x element types", async () => {
+    const icns = getBuiltinExportPreset("macos-app-icon")!.variants.find(
+      (v) => v.format === "icns"
+    )!;
+    const result = await generateExportZipServer(icon, style, [
+      toServerVariantSpec({ ...icns, width: 64, height: 64 }),
+    ]);
+
+    const zip = await JSZip.loadAsync(result.zip);
+    const data = await zip.file("AppIcon.icns")!.async("nodebuffer");
+    expect(data.toString("ascii", 0, 4)).toBe("icns");
+    expect(data.readUInt32BE(4)).toBe(data.length);
+
+    const types: string[] = [];
+    for (let offset = 8; offset < data.length; ) {
+      types.push(data.toString("ascii", offset, offset + 4));
+      const png = data.subarray(
+        offset + 8,
+        offset + data.readUInt32BE(offset + 4)
+      );
+      expect(png.readUInt32BE(0)).toBe(0x89504e47);
+      offset += data.readUInt32BE(offset + 4);
+    }
+    expect(types).toEqual(["icp4", "icp5", "ic11", "icp6", "ic12"]);
+  });
+
+  it("checks rendered files against platform rules", async () => {
+    const zendesk = getBuiltinExportPreset("zendesk-app")!;
+    const clean = await generateExportZipServer(
+      icon,
+      style,
+      zendesk.variants.map(toServerVariantSpec),
+      { presetId: zendesk.id }
+    );
+    expect(clean.issues).toEqual([]);
+
+    const result = await generateExportZipServer(
+      icon,
+      { ...style, backgroundColor: "transparent" },
+      [{ filename: "icon-180.png", width: 180, height: 180, format: "png" }],
+      { packaging: "xcode-asset-catalog" }
+    );
+    expect(result.issues).toEqual([
+      expect.objectContaining({
+        severity: "error",
+        rule: "transparency",
+        filename: "icon-180.png",
+      }),
+    ]);
+    expect(result.metadata.issues).toEqual(result.issues);
+  });
+
+  it("names ZIP files after the preset", () => {
+    expect(getBundleZipFilename(getBuiltinExportPreset("macos-app-icon"))).toBe(
+      "macos-app-icon-icons.zip"
+    );
+    expect(getBundleZipFilename()).toBe("app-icons.zip");
+  });
+});
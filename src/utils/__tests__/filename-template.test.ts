@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  getAndroidDensity,
+  getFilenameTemplateError,
+  resolveFilenameTemplate,
+  resolveVariantFilenames,
+} from "../filename-template";
+
+describe("filename-template", () => {
+  it("replaces every placeholder", () => {
+    expect(
+      resolveFilenameTemplate(
+        {
+          filename:
+            "{preset}/{style}/{iconId}-{iconName}-{size}-{width}x{height}@{scale}x-{density}.{format}",
+          width: 96,
+          height: 48,
+          format: "jpeg",
+          scale: 2,
+        },
+        {
+          iconId: "feather-star",
+          iconName: "Star Outline",
+          preset: "Zendesk App",
+          style: "Ocean Gradient",
+        }
+      )
+    ).toBe(
+      "zendesk-app/ocean-gradient/feather-star-star-outline-96-96x48@2x-xhdpi.jpg"
+    );
+  });
+
+  it("falls back to defaults when the export context is missing", () => {
+    const [variant] = resolveVariantFilenames([
+      {
+        filename: "{preset}/{style}/{iconName}@{scale}x.png",
+        width: 16,
+        height: 16,
+        format: "png",
+        description: "kept",
+      },
+    ]);
+
+    expect(variant).toEqual({
+      filename: "export/custom/icon@1x.png",
+      width: 16,
+      height: 16,
+      format: "png",
+      description: "kept",
+    });
+  });
+
+  it("maps scales to Android densities", () => {
+    expect(getAndroidDensity(1)).toBe("mdpi");
+    expect(getAndroidDensity(1.5)).toBe("hdpi");
+    expect(getAndroidDensity(4)).toBe("xxxhdpi");
+    expect(getAndroidDensity(5)).toBe("5x");
+  });
+
+  it("reports unknown placeholders and unsafe paths", () => {
+    expect(getFilenameTemplateError("res/mipmap-{density}/a.png")).toBeNull();
+    expect(getFilenameTemplateError("icon-{dpi}.png")).toBe(
+      "Unknown placeholder {dpi}"
+    );
+    expect(getFilenameTemplateError("/icon.png")).not.toBeNull();
+    expect(getFilenameTemplateError("a/../icon.png")).not.toBeNull();
+    expect(getFilenameTemplateError("a\\icon.png")).toBe(
+      "Use / to separate folders"
+    );
+    expect(() =>
+      resolveFilenameTemplate({
+        filename: "{nope}.png",
+        width: 1,
+        height: 1,
+        format: "png",
+      })
+    ).toThrow('Invalid filename "{nope}.png": Unknown placeholder {nope}');
+  });
+});
@@ -10,6 +10,7 @@ import {
   linearGradientToSvgDef,
   radialGradientToSvgDef,
   gradientToSvgDef,
+  gradientToUserSpaceSvgDef,
   getGradientPreset,
   getGradientPresetNames,
   backgroundValueToString,
@@ -272,6 +273,47 @@ describe("gradients", () => {
         expect(result).toContain("<radialGradient");
       });
     });
+
+    describe("gradientToUserSpaceSvgDef", () => {
+      it("places a linear gradient across the box", () => {
+        const gradient: LinearGradient = {
+          type: "linear",
+          angle: 90,
+          stops: [
+            { color: "#ff0000", offset: 0 },
+            { color: "#0000ff", offset: 100 },
+          ],
+        };
+        const result = gradientToUserSpaceSvgDef(gradient, "glyph", {
+          x: 2,
+          y: 2,
+          width: 20,
+          height: 20,
+        });
+
+        expect(result).toContain('gradientUnits="userSpaceOnUse"');
+        expect(result).toContain('x1="2" y1="12" x2="22" y2="12"');
+        expect(result).toContain('stop-color="#0000ff"');
+      });
+
+      it("scales a radial gradient to the box", () => {
+        const gradient: RadialGradient = {
+          type: "radial",
+          centerX: 50,
+          centerY: 25,
+          radius: 50,
+          stops: [{ color: "#000", offset: 0 }],
+        };
+        const result = gradientToUserSpaceSvgDef(gradient, "glyph", {
+          x: 0,
+          y: 0,
+          width: 24,
+          height: 24,
+        });
+
+        expect(result).toContain('cx="12" cy="6" r="12"');
+      });
+    });
   });
 
   describe("presets", () => {
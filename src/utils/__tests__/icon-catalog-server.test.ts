@@ -30,9 +30,11 @@ const sampleCatalog: IconCatalog = {
     "zendesk-garden": { name: "Garden", type: "Apache-2.0", url: "#" },
     feather: { name: "Feather", type: "MIT", url: "#" },
     remixicon: { name: "RemixIcon", type: "Apache-2.0", url: "#" },
+    lucide: { name: "Lucide", type: "ISC", url: "#" },
     emoji: { name: "Emoji", type: "CC0", url: "#" },
     "custom-svg": { name: "Custom SVG", type: "Custom", url: "#" },
     "custom-image": { name: "Custom Image", type: "Custom", url: "#" },
+    "user-pack": { name: "User Pack", type: "Custom", url: "#" },
   },
   icons: {
     "feather-star": {
@@ -63,9 +65,11 @@ const sampleCatalog: IconCatalog = {
     "zendesk-garden": [],
     feather: ["feather-star"],
     remixicon: ["remixicon-home-line", "remixicon-home-fill"],
+    lucide: [],
     emoji: [],
     "custom-svg": [],
     "custom-image": [],
+    "user-pack": [],
   },
 };
 
@@ -95,7 +99,23 @@ describe("icon-catalog-server", () => {
     });
 
     expect(results).toHaveLength(1);
-    expect(results[0].id).toBe("remixicon-home-fill");
+    expect(results[0].icon.id).toBe("remixicon-home-fill");
+  });
+
+  it("ranks matches and tolerates typos", async () => {
+    const ranked = await searchIconsServer({ query: "home" });
+    expect(ranked.map(({ icon }) => icon.id)).toEqual([
+      "remixicon-home-line",
+      "remixicon-home-fill",
+    ]);
+    expect(ranked[0].score).toBe(1);
+    expect(ranked[1].score).toBeLessThan(1);
+
+    const fuzzy = await searchIconsServer({ query: "favorte" });
+    expect(fuzzy.map(({ icon }) => icon.id)).toEqual(["feather-star"]);
+
+    const unscored = await searchIconsServer({ query: "" });
+    expect(unscored.every(({ score }) => score === null)).toBe(true);
   });
 
   it("gets icon by id and returns null when missing", async () => {
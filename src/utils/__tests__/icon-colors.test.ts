@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyIconPaint,
+  createIconPaintResolver,
+  DEFAULT_ICON_COLOR_STYLE,
+  getSvgSourceColors,
+  isIconColorStyle,
+} from "../icon-colors";
+
+const layered =
+  '<path fill="#000" d="M0 0"/><path fill="#000000" d="M1 1"/>' +
+  '<path style="fill: #FF0000" d="M2 2"/><path fill="none" stroke="red"/>';
+
+describe("icon-colors", () => {
+  it("lists distinct source colors in document order", () => {
+    expect(getSvgSourceColors(layered)).toEqual(["#000000", "red", "#ff0000"]);
+    expect(
+      getSvgSourceColors('<path fill="url(#g)"/><path fill="currentColor"/>')
+    ).toEqual(["currentColor"]);
+  });
+
+  it("keeps the default single color style on the flattening path", () => {
+    expect(
+      createIconPaintResolver(layered, "#ffffff", DEFAULT_ICON_COLOR_STYLE)
+    ).toBeUndefined();
+    expect(createIconPaintResolver(layered, "#ffffff", undefined)).toBe(
+      undefined
+    );
+  });
+
+  it("paints the most used color as primary in duotone mode", () => {
+    const resolve = createIconPaintResolver(layered, "#123456", {
+      ...DEFAULT_ICON_COLOR_STYLE,
+      mode: "duotone",
+      secondaryColor: "#ffffff",
+      secondaryOpacity: 40,
+    })!;
+
+    const output = applyIconPaint(layered, resolve);
+    expect(output).toContain('<path fill="#123456" d="M0 0"/>');
+    expect(output).toContain('<path fill="#123456" d="M1 1"/>');
+    expect(output).toContain('style="fill: rgba(255, 255, 255, 0.4)"');
+    expect(output).toContain(
+      '<path fill="none" stroke="rgba(255, 255, 255, 0.4)"/>'
+    );
+
+    expect(
+      createIconPaintResolver(
+        layered,
+        "#123456",
+        { ...DEFAULT_ICON_COLOR_STYLE, mode: "duotone" },
+        false
+      )
+    ).toBeUndefined();
+  });
+
+  it("maps source colors and falls back to the icon color for currentColor", () => {
+    const svg =
+      '<path fill="#F00"/><path fill="#00ff00"/><path stroke="currentColor"/>';
+    const resolve = createIconPaintResolver(svg, "#222222", {
+      ...DEFAULT_ICON_COLOR_STYLE,
+      mode: "mapped",
+      colorMap: { "#ff0000": "#0000ff" },
+    })!;
+
+    expect(applyIconPaint(svg, resolve)).toBe(
+      '<path fill="#0000ff"/><path fill="#00ff00"/><path stroke="#222222"/>'
+    );
+  });
+
+  it("validates persisted color styles", () => {
+    expect(isIconColorStyle(DEFAULT_ICON_COLOR_STYLE)).toBe(true);
+    expect(
+      isIconColorStyle({ ...DEFAULT_ICON_COLOR_STYLE, mode: "tritone" })
+    ).toBe(false);
+    expect(
+      isIconColorStyle({ ...DEFAULT_ICON_COLOR_STYLE, colorMap: { a: 1 } })
+    ).toBe(false);
+    expect(isIconColorStyle(null)).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import type { IconMetadata } from "@/src/types/icon";
+import {
+  buildIconSearchIndex,
+  editDistance,
+  rankIcons,
+  searchIconIndex,
+  tokenizeQuery,
+} from "../icon-search";
+
+function createIcon(
+  id: string,
+  name: string,
+  keywords: string[] = [],
+  category?: string
+): IconMetadata {
+  return {
+    id,
+    name,
+    pack: "feather",
+    svg: "<svg></svg>",
+    keywords,
+    category,
+  };
+}
+
+const icons = [
+  createIcon("feather-award", "Award", ["achievement", "badge", "star"]),
+  createIcon("feather-star", "Star", ["favorite", "bookmark"]),
+  createIcon("remixicon-star-half-line", "Star Half Line", ["rating"]),
+  createIcon("feather-settings", "Settings", ["cog", "gear", "preferences"]),
+  createIcon("remixicon-arrow-left-line", "Arrow Left Line", ["back"]),
+  createIcon("remixicon-arrow-right-line", "Arrow Right Line", ["forward"]),
+  createIcon("feather-starburst", "Starburst", []),
+];
+
+describe("icon-search", () => {
+  const index = buildIconSearchIndex(icons);
+  const ids = (query: string) =>
+    searchIconIndex(index, query).map(({ icon }) => icon.id);
+
+  it("tokenizes queries into unique lowercase words", () => {
+    expect(tokenizeQuery("  Arrow-LEFT arrow ")).toEqual(["arrow", "left"]);
+    expect(tokenizeQuery("   ")).toEqual([]);
+  });
+
+  it("computes edit distance with transpositions", () => {
+    expect(editDistance("setings", "settings")).toBe(1);
+    expect(editDistance("stra", "star")).toBe(1);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("abc", "abcdefg", 2)).toBe(3);
+  });
+
+  it("ranks exact name over prefix, name word and keyword matches", () => {
+    const results = searchIconIndex(index, "star");
+
+    expect(results.map(({ icon }) => icon.id)).toEqual([
+      "feather-star",
+      "remixicon-star-half-line",
+      "feather-starburst",
+      "feather-award",
+    ]);
+    expect(results[0].score).toBe(1);
+    expect(results[1].score).toBeGreaterThan(results[2].score);
+    expect(results[2].score).toBeGreaterThan(results[3].score);
+  });
+
+  it("matches typos with fuzzy edit distance", () => {
+    const results = searchIconIndex(index, "setings");
+
+    expect(results.map(({ icon }) => icon.id)).toEqual(["feather-settings"]);
+    expect(results[0].score).toBeLessThan(0.5);
+    expect(ids("prefrences")).toEqual(["feather-settings"]);
+  });
+
+  it("does not fuzzy match short tokens", () => {
+    expect(ids("cag")).toEqual([]);
+  });
+
+  it("requires every token to match", () => {
+    expect(ids("arrow left")).toEqual(["remixicon-arrow-left-line"]);
+    expect(ids("arrow up")).toEqual([]);
+  });
+
+  it("keeps substring matches from the previous search behavior", () => {
+    expect(ids("ach")).toEqual(["feather-award"]);
+  });
+
+  it("ranks ad-hoc icon lists", () => {
+    expect(rankIcons(icons, "gear").map((icon) => icon.id)).toEqual([
+      "feather-settings",
+    ]);
+    expect(rankIcons(icons, "")).toEqual([]);
+  });
+});
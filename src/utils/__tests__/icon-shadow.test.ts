@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_ICON_SHADOW,
+  isIconShadow,
+  isIconShadowVisible,
+  renderIconShadowMarkup,
+} from "../icon-shadow";
+
+const glyph = '<path d="M0 0h10v10H0z"/>';
+const layout = { size: 160, radius: 40 };
+
+describe("icon-shadow", () => {
+  it("leaves the glyph unchanged without a visible shadow", () => {
+    expect(renderIconShadowMarkup(glyph, undefined, layout)).toBe(glyph);
+    expect(renderIconShadowMarkup(glyph, DEFAULT_ICON_SHADOW, layout)).toBe(
+      glyph
+    );
+    expect(
+      isIconShadowVisible({ ...DEFAULT_ICON_SHADOW, type: "drop", opacity: 0 })
+    ).toBe(false);
+    expect(
+      isIconShadowVisible({ ...DEFAULT_ICON_SHADOW, type: "long", length: 0 })
+    ).toBe(false);
+  });
+
+  it("renders a drop shadow as a scaled blur filter behind the glyph", () => {
+    const output = renderIconShadowMarkup(
+      glyph,
+      {
+        ...DEFAULT_ICON_SHADOW,
+        type: "drop",
+        offsetX: 4,
+        offsetY: 8,
+        blur: 12,
+      },
+      layout
+    );
+
+    expect(output).toContain(
+      '<feGaussianBlur in="SourceAlpha" stdDeviation="3"/>'
+    );
+    expect(output).toContain('<feOffset dx="2" dy="4" result="shadow"/>');
+    expect(output).toContain('flood-color="#000000" flood-opacity="0.35"');
+    expect(output).toContain(
+      '<rect width="160" height="160" rx="40" ry="40"/>'
+    );
+    expect(output.lastIndexOf("<use")).toBeGreaterThan(
+      output.indexOf("filter=")
+    );
+  });
+
+  it("renders a long shadow as capped glyph copies along the angle", () => {
+    const output = renderIconShadowMarkup(
+      glyph,
+      { ...DEFAULT_ICON_SHADOW, type: "long", angle: 0, length: 320 },
+      layout
+    );
+
+    const copies = output.match(/<use href="#icon-glyph-[a-z0-9]+" x=/g);
+    expect(copies).toHaveLength(96);
+    expect(output).toMatch(/x="160" y="0"\/>/);
+    expect(output).not.toContain("feGaussianBlur");
+  });
+
+  it("validates persisted shadows", () => {
+    expect(isIconShadow(DEFAULT_ICON_SHADOW)).toBe(true);
+    expect(isIconShadow({ ...DEFAULT_ICON_SHADOW, type: "inner" })).toBe(false);
+    expect(isIconShadow({ ...DEFAULT_ICON_SHADOW, blur: "4" })).toBe(false);
+    expect(isIconShadow(null)).toBe(false);
+  });
+});
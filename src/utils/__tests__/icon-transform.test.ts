@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  applyIconTransformToCanvas,
+  DEFAULT_ICON_TRANSFORM,
+  getIconTransformValue,
+  isIconTransform,
+  isIconTransformActive,
+  type TransformContext,
+} from "../icon-transform";
+
+describe("icon-transform", () => {
+  it("leaves the glyph untouched by default", () => {
+    expect(isIconTransformActive(DEFAULT_ICON_TRANSFORM)).toBe(false);
+    expect(isIconTransformActive(undefined)).toBe(false);
+    expect(
+      isIconTransformActive({ ...DEFAULT_ICON_TRANSFORM, rotation: 360 })
+    ).toBe(false);
+    expect(getIconTransformValue(DEFAULT_ICON_TRANSFORM, 320)).toBe("");
+  });
+
+  it("scales offsets with the artboard and pivots around its center", () => {
+    expect(
+      getIconTransformValue({ ...DEFAULT_ICON_TRANSFORM, offsetX: 32 }, 320)
+    ).toBe("translate(192, 160) translate(-160, -160)");
+    expect(
+      getIconTransformValue(
+        {
+          offsetX: -10,
+          offsetY: 20,
+          rotation: -45,
+          flipX: false,
+          flipY: true,
+        },
+        128
+      )
+    ).toBe("translate(60, 72) rotate(-45) scale(1, -1) translate(-64, -64)");
+  });
+
+  it("applies the same placement to a canvas", () => {
+    const ctx = {
+      translate: vi.fn(),
+      rotate: vi.fn(),
+      scale: vi.fn(),
+    } satisfies TransformContext;
+
+    applyIconTransformToCanvas(ctx, DEFAULT_ICON_TRANSFORM, 64, 64);
+    expect(ctx.translate).not.toHaveBeenCalled();
+
+    applyIconTransformToCanvas(
+      ctx,
+      { offsetX: 40, offsetY: 0, rotation: 180, flipX: true, flipY: false },
+      64,
+      32
+    );
+    expect(ctx.translate).toHaveBeenNthCalledWith(1, 36, 16);
+    expect(ctx.rotate).toHaveBeenCalledWith(Math.PI);
+    expect(ctx.scale).toHaveBeenCalledWith(-1, 1);
+    expect(ctx.translate).toHaveBeenNthCalledWith(2, -32, -16);
+  });
+
+  it("validates persisted transforms", () => {
+    expect(isIconTransform(DEFAULT_ICON_TRANSFORM)).toBe(true);
+    expect(isIconTransform({ ...DEFAULT_ICON_TRANSFORM, rotation: "90" })).toBe(
+      false
+    );
+    expect(
+      isIconTransform({ ...DEFAULT_ICON_TRANSFORM, offsetX: Number.NaN })
+    ).toBe(false);
+    expect(isIconTransform(null)).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { API_ICON_PACKS, ICON_SEARCH_LIMITS } from "../api-schemas";
+import { buildOpenApiDocument } from "../openapi";
+
+interface SchemaObject {
+  $ref?: string;
+  $schema?: string;
+  required?: string[];
+  properties?: Record<string, SchemaObject>;
+  items?: SchemaObject;
+  enum?: unknown[];
+  default?: unknown;
+  maximum?: number;
+}
+
+interface Operation {
+  parameters?: { name: string; schema: SchemaObject }[];
+  requestBody?: { content: Record<string, { schema: SchemaObject }> };
+}
+
+interface Doc {
+  openapi: string;
+  servers: { url: string }[];
+  paths: Record<string, Record<string, Operation>>;
+  components: { schemas: Record<string, SchemaObject> };
+}
+
+describe("openapi", () => {
+  const doc = buildOpenApiDocument(
+    "https://icons.example.com/"
+  ) as unknown as Doc;
+
+  it("describes every API route", () => {
+    expect(doc.openapi).toBe("3.1.0");
+    expect(doc.servers).toEqual([{ url: "https://icons.example.com" }]);
+    expect(Object.keys(doc.paths).sort()).toEqual([
+      "/api/bundle",
+      "/api/canvas",
+      "/api/config/gradients",
+      "/api/config/locations",
+      "/api/generate",
+      "/api/generate/batch",
+      "/api/icons",
+      "/api/icons/categories",
+      "/api/icons/packs",
+      "/api/icons/{id}",
+    ]);
+  });
+
+  it("derives request bodies from the zod schemas", () => {
+    const generate = doc.components.schemas.GenerateRequest;
+
+    expect(generate.required).toEqual(["iconId"]);
+    expect(generate.properties?.size).toEqual({
+      default: 128,
+      type: "integer",
+      minimum: 48,
+      maximum: 300,
+    });
+    expect(generate.properties?.backgroundColor.$ref).toBe(
+      "#/components/schemas/Background"
+    );
+    expect(generate.$schema).toBeUndefined();
+    expect(
+      doc.components.schemas.GenerateBatchRequest.properties?.jobs.items
+    ).toEqual({ $ref: "#/components/schemas/BatchJob" });
+    expect(
+      doc.paths["/api/generate"].post.requestBody?.content["application/json"]
+        .schema
+    ).toEqual({ $ref: "#/components/schemas/GenerateRequest" });
+  });
+
+  it("documents /api/icons query params", () => {
+    const params = doc.paths["/api/icons"].get.parameters ?? [];
+    const pack = params.find((param) => param.name === "pack");
+    const limit = params.find((param) => param.name === "limit");
+
+    expect(pack?.schema.enum).toEqual(API_ICON_PACKS);
+    expect(limit?.schema.maximum).toBe(ICON_SEARCH_LIMITS.maxLimit);
+    expect(limit?.schema.default).toBe(ICON_SEARCH_LIMITS.defaultLimit);
+  });
+
+  it("only references schemas that exist", () => {
+    const refs =
+      JSON.stringify(doc).match(/#\/components\/schemas\/\w+/g) ?? [];
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of new Set(refs)) {
+      const id = ref.split("/").pop()!;
+      expect(doc.components.schemas[id], ref).toBeDefined();
+    }
+  });
+});
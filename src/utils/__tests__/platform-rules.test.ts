@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { BUILTIN_EXPORT_PRESETS } from "../builtin-presets";
+import { resolveVariantFilenames } from "../filename-template";
+import {
+  getPlatformRuleSets,
+  hasRuleErrors,
+  validateExportAssets,
+  validatePresetRules,
+} from "../platform-rules";
+
+describe("platform-rules", () => {
+  it("accepts every built-in export preset", () => {
+    for (const preset of BUILTIN_EXPORT_PRESETS) {
+      const issues = validatePresetRules({
+        ...preset,
+        variants: resolveVariantFilenames(preset.variants),
+      });
+      expect(hasRuleErrors(issues), preset.id).toBe(false);
+    }
+  });
+
+  it("selects rules by preset id and packaging", () => {
+    expect(
+      getPlatformRuleSets({ id: "zendesk-app", variants: [] }).map((r) => r.id)
+    ).toEqual(["zendesk"]);
+    expect(
+      getPlatformRuleSets({
+        packaging: "xcode-asset-catalog",
+        variants: [],
+      }).map((r) => r.id)
+    ).toEqual(["apple"]);
+    expect(getPlatformRuleSets({ id: "custom", variants: [] })).toEqual([]);
+  });
+
+  it("reports missing, resized and duplicate files in a preset", () => {
+    const issues = validatePresetRules({
+      id: "zendesk-app",
+      variants: [
+        { filename: "logo.png", width: 256, height: 256, format: "png" },
+        { filename: "icon.ico", width: 32, height: 16, format: "ico" },
+        { filename: "icon.ico", width: 32, height: 32, format: "ico" },
+        {
+          filename: "icon.png",
+          width: 64,
+          height: 64,
+          format: "png",
+          maxSize: 10,
+        },
+      ],
+    });
+
+    expect(issues.map((issue) => [issue.severity, issue.rule])).toEqual([
+      ["warning", "square"],
+      ["error", "duplicate-file"],
+      ["warning", "max-size"],
+      ["error", "size"],
+      ["error", "required-file"],
+    ]);
+  });
+
+  it("checks rendered sizes, transparency and Zendesk SVG paint", () => {
+    const issues = validateExportAssets(
+      {
+        packaging: "xcode-asset-catalog",
+        variants: [
+          {
+            filename: "icon-180.png",
+            width: 180,
+            height: 180,
+            format: "png",
+          },
+          {
+            filename: "icon.webp",
+            width: 64,
+            height: 64,
+            format: "webp",
+            maxSize: 1,
+          },
+        ],
+      },
+      [
+        {
+          filename: "icon-180.png",
+          size: 100,
+          width: 180,
+          height: 180,
+          hasTransparency: true,
+        },
+        { filename: "icon.webp", size: 2048, width: 64, height: 64 },
+        {
+          filename: "icon_top_bar.svg",
+          size: 100,
+          svg: '<svg viewBox="0 0 18 18"><path fill="#ff0000" d="M0 0h18v18H0z"/></svg>',
+        },
+      ]
+    );
+
+    expect(issues.map((issue) => [issue.filename, issue.rule])).toEqual([
+      ["icon-180.png", "transparency"],
+      ["icon.webp", "max-size"],
+      ["icon_top_bar.svg", "svg-hardcoded-fill"],
+    ]);
+    expect(hasRuleErrors(issues)).toBe(true);
+  });
+});
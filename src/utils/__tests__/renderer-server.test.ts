@@ -1,5 +1,10 @@
 import { describe, expect, it } from "vitest";
-import { renderSvgServer } from "../renderer-server";
+import sharp from "sharp";
+import {
+  renderRasterServer,
+  renderRasterSvgServer,
+  renderSvgServer,
+} from "../renderer-server";
 import type { IconMetadata } from "@/src/types/icon";
 
 function createIcon(svg: string): IconMetadata {
@@ -100,4 +105,286 @@ describe("renderer-server", () => {
       }
     }
   });
+
+  it("composes raster SVG with full-bleed background and centered icon", () => {
+    const icon = createIcon(
+      '<svg viewBox="0 0 24 24"><path fill="currentColor" d="M0 0"/></svg>'
+    );
+
+    const output = renderRasterSvgServer({
+      icon,
+      backgroundColor: "#000000",
+      iconColor: "#ffffff",
+      size: 128,
+      width: 400,
+      height: 200,
+      cornerRadius: 50,
+      borderEnabled: true,
+      borderColor: "#00ff00",
+      borderWidth: 32,
+    });
+
+    expect(output).toContain('width="400" height="200"');
+    expect(output).toContain('<rect width="400" height="200" rx="50" ry="50"');
+    expect(output).toContain('stroke-width="20"');
+    expect(output).toContain('transform="translate(100, 0)"');
+  });
+
+  it("keeps gradient backgrounds in raster output", () => {
+    const icon = createIcon(
+      '<svg viewBox="0 0 24 24"><path fill="currentColor" d="M0 0"/></svg>'
+    );
+
+    const output = renderRasterSvgServer({
+      icon,
+      backgroundColor: {
+        type: "linear",
+        angle: 90,
+        stops: [
+          { color: "#ff0000", offset: 0 },
+          { color: "#0000ff", offset: 100 },
+        ],
+      },
+      iconColor: "#ffffff",
+      size: 128,
+      width: 64,
+      height: 64,
+    });
+
+    expect(output).toContain("<linearGradient");
+    expect(output).toMatch(/fill="url\(#bg-gradient-[a-z0-9]+\)"/);
+  });
+
+  it("fills the glyph with a gradient icon color", async () => {
+    const icon = createIcon(
+      '<svg viewBox="0 0 24 24"><path fill="currentColor" d="M2 2h20v20H2z"/></svg>'
+    );
+    const iconColor = {
+      type: "linear" as const,
+      angle: 90,
+      stops: [
+        { color: "#ff0000", offset: 0 },
+        { color: "#0000ff", offset: 100 },
+      ],
+    };
+
+    const svg = renderSvgServer({
+      icon,
+      backgroundColor: "#000000",
+      iconColor,
+      size: 120,
+    });
+    expect(svg).toContain('gradientUnits="userSpaceOnUse"');
+    expect(svg).toMatch(/<path fill="url\(#icon-gradient-[a-z0-9]+\)"/);
+
+    const buffer = await renderRasterServer({
+      icon,
+      backgroundColor: "#000000",
+      iconColor,
+      size: 320,
+      width: 64,
+      height: 64,
+      format: "png",
+    });
+    const { data, info } = await sharp(buffer)
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const pixel = (x: number, y: number) => {
+      const index = (y * info.width + x) * info.channels;
+      return [data[index], data[index + 2]];
+    };
+
+    // Red on the left edge of the glyph, blue on the right
+    const [leftRed, leftBlue] = pixel(8, 32);
+    const [rightRed, rightBlue] = pixel(56, 32);
+    expect(leftRed).toBeGreaterThan(leftBlue);
+    expect(rightBlue).toBeGreaterThan(rightRed);
+  });
+
+  it("renders background shapes with matching borders", async () => {
+    const icon = createIcon(
+      '<svg viewBox="0 0 24 24"><path fill="currentColor" d="M0 0"/></svg>'
+    );
+
+    const svg = renderSvgServer({
+      icon,
+      backgroundColor: "#000000",
+      iconColor: "#ffffff",
+      size: 100,
+      backgroundShape: "hexagon",
+      borderEnabled: true,
+      borderColor: "#00ff00",
+      borderWidth: 32,
+    });
+    expect(svg).toContain(
+      '<path d="M50 0 L93.301 25 L93.301 75 L50 100 L6.699 75 L6.699 25 Z" fill="#000000"/>'
+    );
+    expect(svg).toMatch(/<path d="M50 5 [^"]+" fill="none" stroke="#00ff00"/);
+    expect(svg).not.toContain("<rect");
+
+    const buffer = await renderRasterServer({
+      icon,
+      backgroundColor: "#000000",
+      iconColor: "#ffffff",
+      size: 128,
+      width: 64,
+      height: 64,
+      format: "png",
+      backgroundShape: "circle",
+    });
+    const { data, info } = await sharp(buffer)
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const alpha = (x: number, y: number) =>
+      data[(y * info.width + x) * info.channels + 3];
+
+    expect(alpha(1, 1)).toBe(0);
+    expect(alpha(32, 2)).toBe(255);
+  });
+
+  it("draws the icon shadow in SVG and raster output", async () => {
+    const icon = createIcon(
+      '<svg viewBox="0 0 24 24"><path fill="currentColor" d="M6 6h12v12H6z"/></svg>'
+    );
+    const iconShadow = {
+      type: "long" as const,
+      color: "#000000",
+      opacity: 100,
+      offsetX: 0,
+      offsetY: 0,
+      blur: 0,
+      angle: 90,
+      length: 320,
+    };
+
+    const svg = renderSvgServer({
+      icon,
+      backgroundColor: "#ffffff",
+      iconColor: "#ffffff",
+      size: 160,
+      iconShadow,
+    });
+    expect(svg).toMatch(/<filter id="icon-shadow-[a-z0-9]+"/);
+    expect(svg).toMatch(/<clipPath id="icon-shadow-clip-[a-z0-9]+"/);
+
+    const buffer = await renderRasterServer({
+      icon,
+      backgroundColor: "#ffffff",
+      iconColor: "#ffffff",
+      size: 320,
+      width: 64,
+      height: 64,
+      format: "png",
+      iconShadow,
+    });
+    const { data, info } = await sharp(buffer)
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const pixel = (x: number, y: number) =>
+      data[(y * info.width + x) * info.channels];
+
+    // The glyph stays white, the shadow trails below it, the sides stay clear
+    expect(pixel(32, 32)).toBe(255);
+    expect(pixel(32, 60)).toBeLessThan(32);
+    expect(pixel(4, 60)).toBe(255);
+  });
+
+  it("keeps distinct icon layers with a mapped color style", () => {
+    const icon = createIcon(
+      '<svg viewBox="0 0 24 24" fill="currentColor"><path d="M0 0"/><path fill="#ff0000" d="M1 1"/></svg>'
+    );
+
+    const output = renderSvgServer({
+      icon,
+      backgroundColor: "#000000",
+      iconColor: "#ffffff",
+      size: 120,
+      iconColorStyle: {
+        mode: "mapped",
+        secondaryColor: "#ffffff",
+        secondaryOpacity: 40,
+        colorMap: { "#ff0000": "#00ff00" },
+      },
+    });
+
+    expect(output).toContain('fill="#ffffff"');
+    expect(output).toContain('<path fill="#00ff00" d="M1 1"/>');
+    expect(output).not.toContain("#ff0000");
+  });
+
+  it("offsets, rotates and mirrors the glyph", async () => {
+    // Glyph covers the left half of its viewBox
+    const icon = createIcon(
+      '<svg viewBox="0 0 24 24"><path fill="currentColor" d="M0 0h12v24H0z"/></svg>'
+    );
+    const iconTransform = {
+      offsetX: 32,
+      offsetY: -16,
+      rotation: 90,
+      flipX: true,
+      flipY: false,
+    };
+
+    const svg = renderSvgServer({
+      icon,
+      backgroundColor: "#000000",
+      iconColor: "#ffffff",
+      size: 160,
+      iconTransform,
+    });
+    expect(svg).toContain(
+      'transform="translate(96, 72) rotate(90) scale(-1, 1) translate(-80, -80) '
+    );
+
+    const render = (transform?: typeof iconTransform) =>
+      renderRasterServer({
+        icon,
+        backgroundColor: "#000000",
+        iconColor: "#ffffff",
+        size: 320,
+        width: 64,
+        height: 64,
+        format: "png",
+        iconTransform: transform,
+      }).then((buffer) =>
+        sharp(buffer).raw().toBuffer({ resolveWithObject: true })
+      );
+    const pixelAt =
+      ({ data, info }: Awaited<ReturnType<typeof render>>) =>
+      (x: number, y: number) =>
+        data[(y * info.width + x) * info.channels];
+
+    const plain = pixelAt(await render());
+    expect(plain(16, 32)).toBe(255);
+    expect(plain(48, 32)).toBe(0);
+
+    const mirrored = pixelAt(
+      await render({ ...iconTransform, offsetX: 0, offsetY: 0, rotation: 0 })
+    );
+    expect(mirrored(16, 32)).toBe(0);
+    expect(mirrored(48, 32)).toBe(255);
+  });
+
+  it("rasterizes to PNG, WebP, and JPEG with requested dimensions", async () => {
+    const icon = createIcon(
+      '<svg viewBox="0 0 24 24"><path fill="currentColor" d="M2 2h20v20H2z"/></svg>'
+    );
+
+    for (const format of ["png", "webp", "jpeg"] as const) {
+      const buffer = await renderRasterServer({
+        icon,
+        backgroundColor: "#063940",
+        iconColor: "#ffffff",
+        size: 128,
+        width: 48,
+        height: 32,
+        format,
+      });
+
+      const metadata = await sharp(buffer).metadata();
+      expect(metadata.format).toBe(format);
+      expect(metadata.width).toBe(48);
+      expect(metadata.height).toBe(32);
+    }
+  });
 });
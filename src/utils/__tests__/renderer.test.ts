@@ -2,6 +2,7 @@ import { describe, it, expect, vi } from "vitest";
 import { Blob as NodeBlob } from "node:buffer";
 import {
   applySvgColor,
+  countOffColorPixels,
   generateExportAssets,
   renderSvg,
   getVisualBoundingBox,
@@ -229,6 +230,23 @@ describe("renderer", () => {
     });
   });
 
+  describe("countOffColorPixels", () => {
+    it("ignores transparent pixels and counts visible pixels of another color", () => {
+      const rgba = new Uint8Array([
+        // Opaque white
+        255, 255, 255, 255,
+        // Anti-aliased white edge
+        252, 255, 250, 40,
+        // Transparent black
+        0, 0, 0, 0,
+        // Opaque gray
+        128, 128, 128, 255,
+      ]);
+
+      expect(countOffColorPixels(rgba, "#ffffff")).toBe(1);
+    });
+  });
+
   describe("renderSvg", () => {
     it("renders SVG with solid background", () => {
       const icon = createMockIcon(
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import {
+  createTeamsManifestIcons,
+  generateTeamsAppFiles,
+  getTeamsAppVariants,
+} from "../teams-app";
+
+describe("teams-app", () => {
+  it("creates a color icon and a white outline icon", () => {
+    expect(getTeamsAppVariants()).toMatchObject([
+      { filename: "color.png", width: 192, height: 192 },
+      { filename: "outline.png", width: 32, height: 32, glyphColor: "#ffffff" },
+    ]);
+  });
+
+  it("references both icons in the manifest icons object", () => {
+    expect(
+      JSON.parse(createTeamsManifestIcons(getTeamsAppVariants())!)
+    ).toEqual({ icons: { color: "color.png", outline: "outline.png" } });
+  });
+
+  it("only references exported icons", () => {
+    const files = generateTeamsAppFiles(["color.png"], getTeamsAppVariants());
+
+    expect(JSON.parse(files.get("manifest-icons.json")!)).toEqual({
+      icons: { color: "color.png" },
+    });
+    expect(generateTeamsAppFiles([], getTeamsAppVariants()).size).toBe(0);
+  });
+});
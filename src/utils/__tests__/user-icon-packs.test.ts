@@ -0,0 +1,206 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import JSZip from "jszip";
+import {
+  createUserIconPack,
+  getUserIconPacks,
+  getUserPackIconById,
+  getUserPackIcons,
+  MAX_USER_PACK_SVG_SIZE,
+  readIconPackZip,
+  removeUserIconPack,
+  saveUserIconPack,
+} from "../user-icon-packs";
+import { getIconById, searchIcons } from "../icon-catalog";
+
+const svg = (path: string) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="${path}"/></svg>`;
+
+describe("user-icon-packs", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe("createUserIconPack", () => {
+    it("derives names, keywords and categories from file paths", () => {
+      const { pack, skipped } = createUserIconPack(
+        [
+          { path: "Acme/navigation/arrowLeft_small.svg", content: svg("M1") },
+          { path: "Acme/shopping-cart.svg", content: svg("M2") },
+          { path: "Acme/.DS_Store", content: "" },
+          { path: "__MACOSX/Acme/._shopping-cart.svg", content: "junk" },
+        ],
+        { id: "acme" }
+      );
+
+      expect(skipped).toEqual([]);
+      expect(pack.name).toBe("Acme");
+      expect(pack.icons.map((icon) => icon.id)).toEqual([
+        "user-pack-acme-navigation-arrowleft-small",
+        "user-pack-acme-shopping-cart",
+      ]);
+      expect(pack.icons[0]).toMatchObject({
+        name: "Arrow Left Small",
+        pack: "user-pack",
+        category: "navigation",
+        keywords: ["arrow", "left", "small", "navigation"],
+        allowColorOverride: true,
+        userPack: { id: "acme", name: "Acme" },
+      });
+      expect(pack.icons[1].category).toBeUndefined();
+    });
+
+    it("applies meta.json overrides", () => {
+      const { pack } = createUserIconPack(
+        [
+          {
+            path: "meta.json",
+            content: JSON.stringify({
+              name: "Brand Icons",
+              allowColorOverride: false,
+              icons: {
+                "arrow-left": {
+                  name: "Back",
+                  keywords: ["Previous"],
+                  category: "Navigation",
+                },
+              },
+            }),
+          },
+          { path: "arrow-left.svg", content: svg("M1") },
+        ],
+        { id: "brand" }
+      );
+
+      expect(pack.name).toBe("Brand Icons");
+      expect(pack.icons[0]).toMatchObject({
+        name: "Back",
+        category: "Navigation",
+        keywords: ["arrow", "left", "previous"],
+        allowColorOverride: false,
+      });
+    });
+
+    it("skips invalid SVGs and rejects packs without icons", () => {
+      const { pack, skipped } = createUserIconPack(
+        [
+          { path: "ok.svg", content: svg("M1") },
+          { path: "broken.svg", content: "<svg>" },
+        ],
+        { id: "mixed", name: "Mixed" }
+      );
+
+      expect(pack.icons).toHaveLength(1);
+      expect(skipped).toEqual(["broken.svg"]);
+      expect(() =>
+        createUserIconPack([{ path: "notes.txt", content: "hello" }])
+      ).toThrow("No valid SVG files");
+      expect(() =>
+        createUserIconPack([
+          { path: "meta.json", content: '{"icons": []}' },
+          { path: "ok.svg", content: svg("M1") },
+        ])
+      ).toThrow('Invalid meta.json at "icons"');
+    });
+  });
+
+  it("reads SVGs and meta.json from a ZIP archive", async () => {
+    const zip = new JSZip();
+    zip.file("pack/star.svg", svg("M1"));
+    zip.file("pack/meta.json", '{"name":"Zipped"}');
+    zip.file("pack/readme.md", "ignored");
+    const data = await zip.generateAsync({ type: "nodebuffer" });
+
+    const files = await readIconPackZip(data);
+    const { pack } = createUserIconPack(files, { id: "zipped" });
+
+    expect(files.map((file) => file.path).sort()).toEqual([
+      "pack/meta.json",
+      "pack/star.svg",
+    ]);
+    expect(pack.name).toBe("Zipped");
+    expect(pack.icons[0].id).toBe("user-pack-zipped-star");
+  });
+
+  it("skips oversized ZIP entries", async () => {
+    const zip = new JSZip();
+    zip.file("star.svg", svg("M1"));
+    zip.file("huge.svg", svg(`M${"0".repeat(MAX_USER_PACK_SVG_SIZE)}`), {
+      compression: "DEFLATE",
+    });
+    zip.file("__MACOSX/._star.svg", "ignored");
+    const data = await zip.generateAsync({ type: "nodebuffer" });
+
+    const files = await readIconPackZip(data);
+    const { pack, skipped } = createUserIconPack(files, { id: "big" });
+
+    expect(files).toEqual([
+      { path: "huge.svg", content: "" },
+      { path: "star.svg", content: svg("M1") },
+    ]);
+    expect(pack.icons.map(({ id }) => id)).toEqual(["user-pack-big-star"]);
+    expect(skipped).toEqual(["huge.svg"]);
+  });
+
+  it("rejects an oversized meta.json in a ZIP archive", async () => {
+    const zip = new JSZip();
+    zip.file("star.svg", svg("M1"));
+    zip.file("meta.json", `{"name":"${"a".repeat(1024 * 1024)}"}`, {
+      compression: "DEFLATE",
+    });
+    const data = await zip.generateAsync({ type: "nodebuffer" });
+
+    await expect(readIconPackZip(data)).rejects.toThrow(
+      "meta.json is too large"
+    );
+  });
+
+  it("persists packs and exposes them to the catalog", async () => {
+    const { pack } = createUserIconPack(
+      [{ path: "rocket-launch.svg", content: svg("M1") }],
+      { id: "space", name: "Space" }
+    );
+    saveUserIconPack(pack);
+
+    expect(getUserIconPacks().map(({ id }) => id)).toEqual(["space"]);
+    expect(getUserPackIcons("space")).toHaveLength(1);
+    expect(getUserPackIcons("other")).toEqual([]);
+    expect(getUserPackIconById("user-pack-space-rocket-launch")?.name).toBe(
+      "Rocket Launch"
+    );
+    expect((await getIconById("user-pack-space-rocket-launch"))?.svg).toBe(
+      pack.icons[0].svg
+    );
+
+    removeUserIconPack("space");
+    expect(getUserIconPacks()).toEqual([]);
+    expect(await getIconById("user-pack-space-rocket-launch")).toBeNull();
+  });
+
+  it("ranks user pack icons in catalog search", async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () =>
+      new Response(
+        JSON.stringify({
+          meta: { version: "1", generatedAt: "", totalIcons: 0 },
+          licenses: {},
+          icons: {},
+          byPack: {},
+        })
+      );
+
+    try {
+      const { pack } = createUserIconPack(
+        [{ path: "rocket-launch.svg", content: svg("M1") }],
+        { id: "space", name: "Space" }
+      );
+      saveUserIconPack(pack);
+
+      const results = await searchIcons("rockt");
+      expect(results.map((icon) => icon.id)).toEqual([
+        "user-pack-space-rocket-launch",
+      ]);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  createWebExtensionManifestIcons,
+  generateWebExtensionFiles,
+  getWebExtensionVariants,
+} from "../web-extension";
+
+describe("web-extension", () => {
+  it("creates extension icons and themed toolbar icons", () => {
+    const variants = getWebExtensionVariants();
+
+    expect(variants.map((v) => v.filename)).toEqual([
+      "icons/icon-16.png",
+      "icons/icon-32.png",
+      "icons/icon-48.png",
+      "icons/icon-128.png",
+      "icons/action-light-16.png",
+      "icons/action-light-32.png",
+      "icons/action-dark-16.png",
+      "icons/action-dark-32.png",
+    ]);
+    expect(
+      variants.find((v) => v.filename === "icons/action-dark-32.png")
+    ).toMatchObject({ width: 32, glyphColor: "#e8eaed" });
+  });
+
+  it("builds the icons and action manifest entries", () => {
+    const filenames = getWebExtensionVariants().map((v) => v.filename);
+
+    expect(JSON.parse(createWebExtensionManifestIcons(filenames)!)).toEqual({
+      icons: {
+        "16": "icons/icon-16.png",
+        "32": "icons/icon-32.png",
+        "48": "icons/icon-48.png",
+        "128": "icons/icon-128.png",
+      },
+      action: {
+        default_icon: {
+          "16": "icons/action-light-16.png",
+          "32": "icons/action-light-32.png",
+        },
+        theme_icons: [
+          {
+            light: "icons/action-dark-16.png",
+            dark: "icons/action-light-16.png",
+            size: 16,
+          },
+          {
+            light: "icons/action-dark-32.png",
+            dark: "icons/action-light-32.png",
+            size: 32,
+          },
+        ],
+      },
+    });
+  });
+
+  it("skips the action entry without toolbar icons", () => {
+    const files = generateWebExtensionFiles(["icons/icon-128.png"]);
+
+    expect(JSON.parse(files.get("manifest-icons.json")!)).toEqual({
+      icons: { "128": "icons/icon-128.png" },
+    });
+    expect(generateWebExtensionFiles(["logo.png"]).size).toBe(0);
+  });
+});
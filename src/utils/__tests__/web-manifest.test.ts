@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { getBuiltinExportPreset } from "../builtin-presets";
+import {
+  createHeadSnippet,
+  createWebManifest,
+  generateWebManifestFiles,
+  getThemeColor,
+} from "../web-manifest";
+
+const faviconVariants = getBuiltinExportPreset("favicon-bundle")!.variants;
+
+describe("web-manifest", () => {
+  it("lists variants with a purpose and the theme color in the manifest", () => {
+    const manifest = JSON.parse(
+      createWebManifest({
+        variants: [
+          ...faviconVariants,
+          {
+            filename: "maskable-512.png",
+            width: 512,
+            height: 512,
+            format: "png",
+            purpose: "maskable",
+          },
+        ],
+        backgroundColor: "#063940",
+      })
+    );
+
+    expect(manifest.icons).toEqual([
+      {
+        src: "android-chrome-192x192.png",
+        sizes: "192x192",
+        type: "image/png",
+        purpose: "any",
+      },
+      {
+        src: "android-chrome-512x512.png",
+        sizes: "512x512",
+        type: "image/png",
+        purpose: "any",
+      },
+      {
+        src: "maskable-512.png",
+        sizes: "512x512",
+        type: "image/png",
+        purpose: "maskable",
+      },
+    ]);
+    expect(manifest.theme_color).toBe("#063940");
+    expect(manifest.background_color).toBe("#063940");
+  });
+
+  it("uses the first gradient stop and skips transparent backgrounds", () => {
+    expect(
+      getThemeColor({
+        type: "linear",
+        angle: 90,
+        stops: [
+          { color: "#ffffff", offset: 100 },
+          { color: "#16494f", offset: 0 },
+        ],
+      })
+    ).toBe("#16494f");
+    expect(getThemeColor("transparent")).toBeNull();
+  });
+
+  it("links favicons that are not in the manifest from the head snippet", () => {
+    expect(
+      createHeadSnippet({
+        variants: faviconVariants,
+        backgroundColor: "#063940",
+      })
+    ).toBe(
+      [
+        '<link rel="icon" href="/favicon.ico" sizes="16x16 32x32 48x48">',
+        '<link rel="icon" type="image/png" sizes="16x16" href="/favicon-16x16.png">',
+        '<link rel="icon" type="image/png" sizes="32x32" href="/favicon-32x32.png">',
+        '<link rel="apple-touch-icon" sizes="180x180" href="/apple-touch-icon.png">',
+        '<link rel="manifest" href="/site.webmanifest">',
+        '<meta name="msapplication-config" content="/browserconfig.xml">',
+        '<meta name="theme-color" content="#063940">',
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("only describes exported files", () => {
+    const files = generateWebManifestFiles(
+      ["favicon-16x16.png", "android-chrome-192x192.png"],
+      { variants: faviconVariants, backgroundColor: "#063940" }
+    );
+
+    expect(Array.from(files.keys())).toEqual([
+      "site.webmanifest",
+      "browserconfig.xml",
+      "head-snippet.html",
+    ]);
+    expect(JSON.parse(files.get("site.webmanifest")!).icons).toHaveLength(1);
+    expect(files.get("browserconfig.xml")).toContain(
+      '<square150x150logo src="android-chrome-192x192.png"/>'
+    );
+    expect(files.get("browserconfig.xml")).not.toContain("square310x310logo");
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  APP_ICON_SET_IMAGES,
+  createAppIconSetContents,
+  generateAssetCatalogFiles,
+  getAppIconSetVariants,
+} from "../xcode-asset-catalog";
+
+describe("xcode-asset-catalog", () => {
+  it("creates one variant per file and flattens non-macOS icons", () => {
+    const variants = getAppIconSetVariants();
+    const filenames = variants.map((v) => v.filename);
+
+    expect(new Set(filenames).size).toBe(filenames.length);
+    for (const image of APP_ICON_SET_IMAGES) {
+      expect(filenames).toContain(`AppIcon.appiconset/${image.filename}`);
+    }
+    expect(
+      variants.find((v) => v.filename.endsWith("/icon-167.png"))
+    ).toMatchObject({ width: 167, height: 167, flattenTransparency: true });
+    expect(
+      variants.find((v) => v.filename.endsWith("/icon-mac-1024.png"))
+        ?.flattenTransparency
+    ).toBeUndefined();
+  });
+
+  it("lists only exported files in Contents.json", () => {
+    const contents = JSON.parse(
+      createAppIconSetContents(["icon-55.png", "icon-mac-16.png"])
+    );
+
+    expect(contents.images).toEqual([
+      {
+        filename: "icon-55.png",
+        idiom: "watch",
+        role: "notificationCenter",
+        scale: "2x",
+        size: "27.5x27.5",
+        subtype: "42mm",
+      },
+      { filename: "icon-mac-16.png", idiom: "mac", scale: "1x", size: "16x16" },
+    ]);
+  });
+
+  it("adds Contents.json to every .appiconset folder", () => {
+    const files = generateAssetCatalogFiles([
+      "AppIcon.appiconset/icon-40.png",
+      "Beta/AppIconBeta.appiconset/icon-40.png",
+      "icon-40.png",
+      "export-metadata.json",
+    ]);
+
+    expect(Array.from(files.keys())).toEqual([
+      "AppIcon.appiconset/Contents.json",
+      "Beta/AppIconBeta.appiconset/Contents.json",
+    ]);
+    const images = JSON.parse(
+      files.get("AppIcon.appiconset/Contents.json")!
+    ).images;
+    expect(images.map((image: { idiom: string }) => image.idiom)).toEqual([
+      "iphone",
+      "ipad",
+      "ipad",
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Android adaptive icon helpers
+ *
+ * Adaptive launcher icons (Android 8+) are made of a 108dp foreground and
+ * background layer that the launcher masks and animates, plus an optional
+ * monochrome layer used for themed icons on Android 13+. The layers are
+ * referenced from `mipmap-anydpi-v26/ic_launcher.xml`.
+ */
+
+import type {
+  AdaptiveIconLayer,
+  ExportVariantConfig,
+} from "@/src/types/preset";
+
+/** Full layer size in dp */
+export const ADAPTIVE_ICON_SIZE_DP = 108;
+/** Diameter of the area that is never masked, in dp */
+export const ADAPTIVE_ICON_SAFE_ZONE_DP = 66;
+/** Fraction of the layer the glyph may occupy */
+export const ADAPTIVE_ICON_SAFE_ZONE_RATIO =
+  ADAPTIVE_ICON_SAFE_ZONE_DP / ADAPTIVE_ICON_SIZE_DP;
+
+/** Default Android resource folder inside the export ZIP */
+export const ANDROID_RES_FOLDER = "res";
+
+/**
+ * Launcher mipmap densities and their scale relative to mdpi
+ */
+export const ANDROID_MIPMAP_DENSITIES = [
+  { name: "mdpi", scale: 1 },
+  { name: "hdpi", scale: 1.5 },
+  { name: "xhdpi", scale: 2 },
+  { name: "xxhdpi", scale: 3 },
+  { name: "xxxhdpi", scale: 4 },
+] as const;
+
+const LAYER_DESCRIPTIONS: Record<AdaptiveIconLayer, string> = {
+  foreground: "Adaptive icon foreground (glyph inside the 66dp safe zone)",
+  background: "Adaptive icon background",
+  monochrome: "Themed icon layer (Android 13+)",
+};
+
+const LAYER_FILE_PATTERN =
+  /^(.*?)mipmap-[a-z]+dpi\/ic_launcher_(foreground|background|monochrome)\.png$/;
+
+/**
+ * Export variants for every layer at every mipmap density
+ */
+export function getAdaptiveIconVariants(
+  resFolder: string = ANDROID_RES_FOLDER
+): ExportVariantConfig[] {
+  return ANDROID_MIPMAP_DENSITIES.flatMap(({ name, scale }) => {
+    const pixels = ADAPTIVE_ICON_SIZE_DP * scale;
+    return (["foreground", "background", "monochrome"] as const).map(
+      (layer) => ({
+        filename: `${resFolder}/mipmap-${name}/ic_launcher_${layer}.png`,
+        width: pixels,
+        height: pixels,
+        format: "png" as const,
+        description: `${LAYER_DESCRIPTIONS[layer]} (${name})`,
+        adaptiveLayer: layer,
+      })
+    );
+  });
+}
+
+/**
+ * Build an `<adaptive-icon>` drawable referencing the exported layers
+ */
+export function createAdaptiveIconXml(
+  layers: AdaptiveIconLayer[],
+  name: string = "ic_launcher"
+): string {
+  const elements = (["background", "foreground", "monochrome"] as const)
+    .filter((layer) => layers.includes(layer))
+    .map(
+      (layer) => `    <${layer} android:drawable="@mipmap/${name}_${layer}" />`
+    );
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<adaptive-icon xmlns:android="http://schemas.android.com/apk/res/android">',
+    ...elements,
+    "</adaptive-icon>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Generate `ic_launcher.xml` and `ic_launcher_round.xml` next to every set of
+ * exported `mipmap-*` layers. Returns a map of ZIP path to file content.
+ */
+export function generateAdaptiveIconFiles(
+  filenames: string[]
+): Map<string, string> {
+  const layersByRoot = new Map<string, Set<AdaptiveIconLayer>>();
+
+  for (const path of filenames) {
+    const match = LAYER_FILE_PATTERN.exec(path);
+    if (!match) {
+      continue;
+    }
+    const layers = layersByRoot.get(match[1]) ?? new Set();
+    layers.add(match[2] as AdaptiveIconLayer);
+    layersByRoot.set(match[1], layers);
+  }
+
+  const files = new Map<string, string>();
+  for (const [root, layers] of layersByRoot) {
+    // The launcher needs both base layers to compose the icon
+    if (!layers.has("foreground") || !layers.has("background")) {
+      continue;
+    }
+    const xml = createAdaptiveIconXml(Array.from(layers));
+    files.set(`${root}mipmap-anydpi-v26/ic_launcher.xml`, xml);
+    files.set(`${root}mipmap-anydpi-v26/ic_launcher_round.xml`, xml);
+  }
+  return files;
+}
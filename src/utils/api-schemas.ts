@@ -0,0 +1,352 @@
+/**
+ * Shared zod schemas for API request validation.
+ */
+
+import { z } from "zod";
+import {
+  ADAPTIVE_ICON_LAYERS,
+  EXPORT_FORMATS,
+  EXPORT_PACKAGINGS,
+  ICO_SIZE_OPTIONS,
+  ICON_PURPOSES,
+  type AdaptiveIconLayer,
+  type ExportFormat,
+  type ExportPackaging,
+  type IconPurpose,
+} from "@/src/types/preset";
+import type { ApiIconPack } from "@/src/utils/icon-catalog-server";
+import { getFilenameTemplateError } from "@/src/utils/filename-template";
+import {
+  BACKGROUND_SHAPES,
+  DEFAULT_BACKGROUND_SHAPE,
+  type BackgroundShape,
+} from "@/src/utils/background-shape";
+import {
+  DEFAULT_ICON_COLOR_STYLE,
+  ICON_COLOR_MODES,
+  type IconColorMode,
+} from "@/src/utils/icon-colors";
+import {
+  DEFAULT_ICON_SHADOW,
+  ICON_SHADOW_TYPES,
+  type IconShadowType,
+} from "@/src/utils/icon-shadow";
+import { DEFAULT_ICON_TRANSFORM } from "@/src/utils/icon-transform";
+
+/**
+ * Accepted values for the `pack` query param of `GET /api/icons`
+ */
+export const API_ICON_PACKS: ApiIconPack[] = [
+  "all",
+  "garden",
+  "zendesk-garden",
+  "feather",
+  "remixicon",
+  "lucide",
+  "emoji",
+  "custom-svg",
+  "custom-image",
+];
+
+/**
+ * Paging bounds for `GET /api/icons` (out-of-range values are clamped)
+ */
+export const ICON_SEARCH_LIMITS = {
+  defaultLimit: 50,
+  maxLimit: 250,
+  maxOffset: 10000,
+} as const;
+
+export const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, {
+  message: "Expected color in #RRGGBB format",
+});
+
+export const gradientStopSchema = z.object({
+  color: hexColorSchema,
+  offset: z.number().min(0).max(100),
+});
+
+export const linearGradientSchema = z.object({
+  type: z.literal("linear"),
+  angle: z.number(),
+  stops: z.array(gradientStopSchema).min(2),
+});
+
+export const radialGradientSchema = z.object({
+  type: z.literal("radial"),
+  centerX: z.number().min(0).max(100),
+  centerY: z.number().min(0).max(100),
+  radius: z.number().min(0).max(100),
+  stops: z.array(gradientStopSchema).min(2),
+});
+
+export const backgroundSchema = z.union([
+  hexColorSchema,
+  linearGradientSchema,
+  radialGradientSchema,
+]);
+
+const backgroundShapeSchema = z.enum(
+  BACKGROUND_SHAPES as [BackgroundShape, ...BackgroundShape[]]
+);
+
+/**
+ * Mirrors `IconShadow`; omitted fields use the editor defaults.
+ * Distances are in normalized artboard units (320 = full artboard).
+ */
+export const iconShadowSchema = z.object({
+  type: z.enum(ICON_SHADOW_TYPES as [IconShadowType, ...IconShadowType[]]),
+  color: hexColorSchema.default(DEFAULT_ICON_SHADOW.color),
+  opacity: z.number().min(0).max(100).default(DEFAULT_ICON_SHADOW.opacity),
+  offsetX: z.number().min(-64).max(64).default(DEFAULT_ICON_SHADOW.offsetX),
+  offsetY: z.number().min(-64).max(64).default(DEFAULT_ICON_SHADOW.offsetY),
+  blur: z.number().min(0).max(64).default(DEFAULT_ICON_SHADOW.blur),
+  angle: z.number().min(0).max(360).default(DEFAULT_ICON_SHADOW.angle),
+  length: z.number().min(0).max(320).default(DEFAULT_ICON_SHADOW.length),
+});
+
+/**
+ * Mirrors `IconColorStyle`. `colorMap` keys are source colors of the SVG
+ * (`#rrggbb`, `#rgb`, a color keyword or `currentColor`).
+ */
+export const iconColorStyleSchema = z.object({
+  mode: z.enum(ICON_COLOR_MODES as [IconColorMode, ...IconColorMode[]]),
+  secondaryColor: hexColorSchema.default(
+    DEFAULT_ICON_COLOR_STYLE.secondaryColor
+  ),
+  secondaryOpacity: z
+    .number()
+    .min(0)
+    .max(100)
+    .default(DEFAULT_ICON_COLOR_STYLE.secondaryOpacity),
+  colorMap: z.record(z.string().min(1), hexColorSchema).default({}),
+});
+
+/**
+ * Mirrors `IconTransform`; omitted fields leave the glyph unchanged.
+ * Offsets are in normalized artboard units (320 = full artboard).
+ */
+export const iconTransformSchema = z.object({
+  offsetX: z
+    .number()
+    .min(-160)
+    .max(160)
+    .default(DEFAULT_ICON_TRANSFORM.offsetX),
+  offsetY: z
+    .number()
+    .min(-160)
+    .max(160)
+    .default(DEFAULT_ICON_TRANSFORM.offsetY),
+  rotation: z
+    .number()
+    .min(-360)
+    .max(360)
+    .default(DEFAULT_ICON_TRANSFORM.rotation),
+  flipX: z.boolean().default(DEFAULT_ICON_TRANSFORM.flipX),
+  flipY: z.boolean().default(DEFAULT_ICON_TRANSFORM.flipY),
+});
+
+/**
+ * Request body for `POST /api/generate`
+ */
+export const generateRequestSchema = z.object({
+  iconId: z.string().min(1),
+  backgroundColor: backgroundSchema.default("#063940"),
+  iconColor: backgroundSchema.default("#ffffff"),
+  size: z.number().int().min(48).max(300).default(128),
+  padding: z.number().min(-200).max(200).default(8),
+  outputSize: z.number().int().min(16).max(4096).optional(),
+  width: z.number().int().min(16).max(4096).optional(),
+  height: z.number().int().min(16).max(4096).optional(),
+  quality: z.number().int().min(1).max(100).default(92),
+  zendeskLocationMode: z.boolean().default(false),
+  backgroundShape: backgroundShapeSchema.default(DEFAULT_BACKGROUND_SHAPE),
+  cornerRadius: z.number().min(0).max(100).default(0),
+  borderEnabled: z.boolean().default(false),
+  borderColor: hexColorSchema.default("#ffffff"),
+  borderWidth: z.number().min(0).max(64).default(6),
+  iconShadow: iconShadowSchema.optional(),
+  iconColorStyle: iconColorStyleSchema.optional(),
+  iconTransform: iconTransformSchema.optional(),
+  filename: z.string().min(1).max(120).optional(),
+});
+
+/**
+ * Mirrors `ExportVariantStyle` from preset types
+ */
+export const exportVariantStyleSchema = z.object({
+  backgroundColor: z
+    .union([backgroundSchema, z.literal("transparent")])
+    .optional(),
+  iconColor: backgroundSchema.optional(),
+  iconSize: z.number().min(48).max(200).optional(),
+  cornerRadius: z.number().min(0).max(100).optional(),
+  borderEnabled: z.boolean().optional(),
+  borderColor: hexColorSchema.optional(),
+  borderWidth: z.number().min(0).max(64).optional(),
+});
+
+/**
+ * Mirrors `ExportVariantConfig` from preset types
+ */
+export const exportVariantSchema = z.object({
+  filename: z
+    .string()
+    .min(1)
+    .max(200)
+    .superRefine((filename, ctx) => {
+      const error = getFilenameTemplateError(filename);
+      if (error) {
+        ctx.addIssue({ code: "custom", message: error });
+      }
+    }),
+  width: z.number().int().min(1).max(4096),
+  height: z.number().int().min(1).max(4096),
+  format: z.enum(EXPORT_FORMATS as [ExportFormat, ...ExportFormat[]]),
+  scale: z.number().positive().max(16).optional(),
+  quality: z.number().int().min(1).max(100).optional(),
+  description: z.string().max(500).optional(),
+  maxSize: z.number().positive().optional(),
+  flattenTransparency: z.boolean().optional(),
+  adaptiveLayer: z
+    .enum(ADAPTIVE_ICON_LAYERS as [AdaptiveIconLayer, ...AdaptiveIconLayer[]])
+    .optional(),
+  icoSizes: z.array(z.literal(ICO_SIZE_OPTIONS)).min(1).optional(),
+  icoBmp: z.boolean().optional(),
+  purpose: z.enum(ICON_PURPOSES as [IconPurpose, ...IconPurpose[]]).optional(),
+  glyphColor: hexColorSchema.optional(),
+  style: exportVariantStyleSchema.optional(),
+});
+
+/**
+ * Request body for `POST /api/bundle`
+ */
+export const bundleRequestSchema = z
+  .object({
+    iconId: z.string().min(1),
+    backgroundColor: backgroundSchema.default("#063940"),
+    iconColor: backgroundSchema.default("#ffffff"),
+    iconSize: z.number().min(48).max(200).default(123),
+    svgIconSize: z.number().min(48).max(300).optional(),
+    backgroundShape: backgroundShapeSchema.default(DEFAULT_BACKGROUND_SHAPE),
+    cornerRadius: z.number().min(0).max(100).default(0),
+    borderEnabled: z.boolean().default(false),
+    borderColor: hexColorSchema.default("#ffffff"),
+    borderWidth: z.number().min(0).max(64).default(6),
+    iconShadow: iconShadowSchema.optional(),
+    iconColorStyle: iconColorStyleSchema.optional(),
+    iconTransform: iconTransformSchema.optional(),
+    presetId: z.string().min(1).optional(),
+    variants: z.array(exportVariantSchema).min(1).max(50).optional(),
+    packaging: z
+      .enum(EXPORT_PACKAGINGS as [ExportPackaging, ...ExportPackaging[]])
+      .optional(),
+    filename: z.string().min(1).max(120).optional(),
+  })
+  .refine((data) => (data.presetId === undefined) !== !data.variants, {
+    message: "Provide exactly one of presetId or variants",
+    path: ["presetId"],
+  });
+
+/**
+ * Style fields shared by every job in a batch (SVG output only).
+ * Defaults are stripped so overrides only replace fields they set; defaults
+ * are applied once the job is merged and parsed with `generateRequestSchema`.
+ */
+const generateShape = generateRequestSchema.shape;
+
+export const batchStyleSchema = z
+  .object({
+    backgroundColor: generateShape.backgroundColor.unwrap(),
+    iconColor: generateShape.iconColor.unwrap(),
+    size: generateShape.size.unwrap(),
+    padding: generateShape.padding.unwrap(),
+    outputSize: generateShape.outputSize,
+    zendeskLocationMode: generateShape.zendeskLocationMode.unwrap(),
+    backgroundShape: generateShape.backgroundShape.unwrap(),
+    cornerRadius: generateShape.cornerRadius.unwrap(),
+    borderEnabled: generateShape.borderEnabled.unwrap(),
+    borderColor: generateShape.borderColor.unwrap(),
+    borderWidth: generateShape.borderWidth.unwrap(),
+    iconShadow: generateShape.iconShadow.unwrap(),
+    iconColorStyle: generateShape.iconColorStyle.unwrap(),
+    iconTransform: generateShape.iconTransform.unwrap(),
+  })
+  .partial();
+
+/**
+ * Single job in a `POST /api/generate/batch` request.
+ * Validated per item so one bad job does not fail the whole batch.
+ */
+export const batchJobSchema = z.object({
+  iconId: z.string().min(1),
+  filename: z.string().min(1).max(120).optional(),
+  overrides: batchStyleSchema.optional(),
+});
+
+/**
+ * Request body for `POST /api/generate/batch`
+ */
+export const generateBatchRequestSchema = z.object({
+  defaults: batchStyleSchema.default({}),
+  jobs: z.array(z.unknown()).min(1).max(100),
+});
+
+const canvasLayerBaseShape = {
+  id: z.string().default(""),
+  name: z.string().default(""),
+  visible: z.boolean().default(true),
+  locked: z.boolean().default(false),
+  left: z.number().default(512),
+  top: z.number().default(512),
+  scaleX: z.number().positive().default(1),
+  scaleY: z.number().positive().default(1),
+  angle: z.number().default(0),
+  opacity: z.number().min(0).max(1).default(1),
+};
+
+/**
+ * Mirrors the `CanvasLayer` union from canvas types.
+ * Positions are in internal canvas units (1024×1024).
+ */
+export const canvasLayerSchema = z.discriminatedUnion("type", [
+  z.object({
+    ...canvasLayerBaseShape,
+    type: z.literal("icon"),
+    iconId: z.string().min(1),
+    color: hexColorSchema.default("#ffffff"),
+  }),
+  z.object({
+    ...canvasLayerBaseShape,
+    type: z.literal("image"),
+    imageDataUrl: z.string().regex(/^data:image\//, {
+      message: "Expected an image data URL",
+    }),
+    svgContent: z.string().optional(),
+  }),
+  z.object({
+    ...canvasLayerBaseShape,
+    type: z.literal("text"),
+    text: z.string().min(1).max(500),
+    fontFamily: z.string().min(1).max(100).default("Arial"),
+    fontSize: z.number().positive().max(1024).default(72),
+    color: hexColorSchema.default("#ffffff"),
+    bold: z.boolean().default(false),
+    italic: z.boolean().default(false),
+  }),
+]);
+
+/**
+ * Request body for `POST /api/canvas`: a serialized `CanvasEditorState`
+ * plus output options
+ */
+export const canvasRenderRequestSchema = z.object({
+  layers: z.array(canvasLayerSchema).min(1).max(50),
+  selectedLayerId: z.string().optional(),
+  backgroundColor: z
+    .union([backgroundSchema, z.literal("transparent")])
+    .default("#063940"),
+  canvasSize: z.number().int().positive().default(1024),
+  outputSize: z.number().int().min(16).max(4096).default(1024),
+  filename: z.string().min(1).max(120).optional(),
+});
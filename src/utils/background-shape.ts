@@ -0,0 +1,239 @@
+/**
+ * Background shapes
+ *
+ * Shared by the browser and server renderers. Every shape is described once
+ * as a list of path segments and emitted either as SVG markup or traced on a
+ * canvas, so SVG, PNG and API output use the same outline. Shapes fill the
+ * box they are drawn in; only the rounded rectangle uses the corner radius.
+ */
+
+export type BackgroundShape =
+  | "rounded"
+  | "circle"
+  | "squircle"
+  | "hexagon"
+  | "shield";
+
+export const BACKGROUND_SHAPES: BackgroundShape[] = [
+  "rounded",
+  "circle",
+  "squircle",
+  "hexagon",
+  "shield",
+];
+
+export const DEFAULT_BACKGROUND_SHAPE: BackgroundShape = "rounded";
+
+/**
+ * Display names for the shape selectors
+ */
+export const BACKGROUND_SHAPE_LABELS: Record<BackgroundShape, string> = {
+  rounded: "Rounded Square",
+  circle: "Circle",
+  squircle: "Squircle",
+  hexagon: "Hexagon",
+  shield: "Shield",
+};
+
+/**
+ * Type guard for persisted or imported shapes
+ */
+export function isBackgroundShape(value: unknown): value is BackgroundShape {
+  return BACKGROUND_SHAPES.includes(value as BackgroundShape);
+}
+
+/**
+ * Area a shape is drawn in
+ */
+export interface ShapeBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Corner radius of the rounded rectangle (ignored by other shapes) */
+  radius: number;
+}
+
+type ShapeSegment =
+  | ["M" | "L", number, number]
+  | ["Q", number, number, number, number]
+  | ["C", number, number, number, number, number, number];
+
+/**
+ * Canvas methods needed to trace a shape
+ */
+export type ShapePathContext = Pick<
+  CanvasRenderingContext2D,
+  | "beginPath"
+  | "moveTo"
+  | "lineTo"
+  | "quadraticCurveTo"
+  | "bezierCurveTo"
+  | "closePath"
+>;
+
+/** Control point distance for a quarter ellipse drawn with a cubic curve */
+const ELLIPSE_KAPPA = 0.5523;
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function getRoundedRectSegments(box: ShapeBox): ShapeSegment[] {
+  const { x, y, width, height } = box;
+  const r = Math.max(0, Math.min(box.radius, Math.min(width, height) / 2));
+  const right = x + width;
+  const bottom = y + height;
+  return [
+    ["M", x + r, y],
+    ["L", right - r, y],
+    ["Q", right, y, right, y + r],
+    ["L", right, bottom - r],
+    ["Q", right, bottom, right - r, bottom],
+    ["L", x + r, bottom],
+    ["Q", x, bottom, x, bottom - r],
+    ["L", x, y + r],
+    ["Q", x, y, x + r, y],
+  ];
+}
+
+function getShapeSegments(
+  shape: BackgroundShape,
+  box: ShapeBox
+): ShapeSegment[] {
+  const { x, y, width, height } = box;
+  const right = x + width;
+  const bottom = y + height;
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+
+  switch (shape) {
+    case "circle": {
+      const kx = (width / 2) * ELLIPSE_KAPPA;
+      const ky = (height / 2) * ELLIPSE_KAPPA;
+      return [
+        ["M", cx, y],
+        ["C", cx + kx, y, right, cy - ky, right, cy],
+        ["C", right, cy + ky, cx + kx, bottom, cx, bottom],
+        ["C", cx - kx, bottom, x, cy + ky, x, cy],
+        ["C", x, cy - ky, cx - kx, y, cx, y],
+      ];
+    }
+    case "squircle":
+      // Both control points on the corner give a superellipse-like
+      // continuous curve (close to the iOS app icon outline)
+      return [
+        ["M", cx, y],
+        ["C", right, y, right, y, right, cy],
+        ["C", right, bottom, right, bottom, cx, bottom],
+        ["C", x, bottom, x, bottom, x, cy],
+        ["C", x, y, x, y, cx, y],
+      ];
+    case "hexagon": {
+      // Pointy-top regular hexagon (for a square box)
+      const segments: ShapeSegment[] = [];
+      for (let corner = 0; corner < 6; corner++) {
+        const angle = ((corner * 60 - 90) * Math.PI) / 180;
+        segments.push([
+          corner === 0 ? "M" : "L",
+          cx + (width / 2) * Math.cos(angle),
+          cy + (height / 2) * Math.sin(angle),
+        ]);
+      }
+      return segments;
+    }
+    case "shield":
+      return [
+        ["M", x, y],
+        ["L", right, y],
+        ["L", right, y + height * 0.55],
+        [
+          "C",
+          right,
+          y + height * 0.8,
+          cx + width * 0.22,
+          y + height * 0.93,
+          cx,
+          bottom,
+        ],
+        [
+          "C",
+          cx - width * 0.22,
+          y + height * 0.93,
+          x,
+          y + height * 0.8,
+          x,
+          y + height * 0.55,
+        ],
+      ];
+    default:
+      return getRoundedRectSegments(box);
+  }
+}
+
+/**
+ * SVG path data for a shape
+ */
+export function getBackgroundShapePathData(
+  shape: BackgroundShape,
+  box: ShapeBox
+): string {
+  const commands = getShapeSegments(shape, box).map(
+    ([command, ...values]) => `${command}${values.map(round).join(" ")}`
+  );
+  return `${commands.join(" ")} Z`;
+}
+
+/**
+ * SVG element for a shape. The rounded rectangle stays a `<rect>`; other
+ * shapes are paths. `attributes` is appended as-is (e.g. ` fill="#fff"`).
+ */
+export function renderBackgroundShapeElement(
+  shape: BackgroundShape,
+  box: ShapeBox,
+  attributes = ""
+): string {
+  if (shape === "rounded") {
+    const position =
+      box.x !== 0 || box.y !== 0 ? ` x="${box.x}" y="${box.y}"` : "";
+    const radiusAttr =
+      box.radius > 0 ? ` rx="${box.radius}" ry="${box.radius}"` : "";
+    return `<rect${position} width="${box.width}" height="${box.height}"${radiusAttr}${attributes}/>`;
+  }
+  return `<path d="${getBackgroundShapePathData(shape, box)}"${attributes}/>`;
+}
+
+/**
+ * Start a new canvas path with the outline of a shape
+ */
+export function traceBackgroundShape(
+  ctx: ShapePathContext,
+  shape: BackgroundShape,
+  box: ShapeBox
+): void {
+  ctx.beginPath();
+  for (const segment of getShapeSegments(shape, box)) {
+    switch (segment[0]) {
+      case "M":
+        ctx.moveTo(segment[1], segment[2]);
+        break;
+      case "L":
+        ctx.lineTo(segment[1], segment[2]);
+        break;
+      case "Q":
+        ctx.quadraticCurveTo(segment[1], segment[2], segment[3], segment[4]);
+        break;
+      case "C":
+        ctx.bezierCurveTo(
+          segment[1],
+          segment[2],
+          segment[3],
+          segment[4],
+          segment[5],
+          segment[6]
+        );
+        break;
+    }
+  }
+  ctx.closePath();
+}
@@ -9,6 +9,10 @@ import {
   KALE_COLORS,
   createDefaultLinearGradient,
 } from "./gradients";
+import { getAdaptiveIconVariants } from "./android-adaptive-icon";
+import { getTeamsAppVariants } from "./teams-app";
+import { getWebExtensionVariants } from "./web-extension";
+import { getAppIconSetVariants } from "./xcode-asset-catalog";
 
 const DEFAULT_STYLE_APPEARANCE = {
   cornerRadius: DEFAULT_APPEARANCE.CORNER_RADIUS,
@@ -106,6 +110,7 @@ export const BUILTIN_EXPORT_PRESETS: ExportPreset[] = [
     name: "Favicon Bundle",
     description: "Complete favicon set for websites",
     isBuiltIn: true,
+    packaging: "web-app-manifest",
     variants: [
       {
         filename: "favicon-16x16.png",
@@ -134,6 +139,7 @@ export const BUILTIN_EXPORT_PRESETS: ExportPreset[] = [
         height: 192,
         format: "png",
         description: "Android home screen icon",
+        purpose: "any",
       },
       {
         filename: "android-chrome-512x512.png",
@@ -141,6 +147,7 @@ export const BUILTIN_EXPORT_PRESETS: ExportPreset[] = [
         height: 512,
         format: "png",
         description: "Android splash screen icon",
+        purpose: "any",
       },
       {
         filename: "favicon.ico",
@@ -156,6 +163,7 @@ export const BUILTIN_EXPORT_PRESETS: ExportPreset[] = [
     name: "PWA Icons",
     description: "Progressive Web App icon set",
     isBuiltIn: true,
+    packaging: "web-app-manifest",
     variants: [
       {
         filename: "icon-192x192.png",
@@ -163,6 +171,7 @@ export const BUILTIN_EXPORT_PRESETS: ExportPreset[] = [
         height: 192,
         format: "png",
         description: "PWA minimum required icon",
+        purpose: "any",
       },
       {
         filename: "icon-512x512.png",
@@ -170,6 +179,7 @@ export const BUILTIN_EXPORT_PRESETS: ExportPreset[] = [
         height: 512,
         format: "png",
         description: "PWA splash screen icon",
+        purpose: "any",
       },
       {
         filename: "icon-144x144.png",
@@ -177,6 +187,7 @@ export const BUILTIN_EXPORT_PRESETS: ExportPreset[] = [
         height: 144,
         format: "png",
         description: "PWA icon for Windows tiles",
+        purpose: "any",
       },
       {
         filename: "icon-384x384.png",
@@ -184,6 +195,15 @@ export const BUILTIN_EXPORT_PRESETS: ExportPreset[] = [
         height: 384,
         format: "png",
         description: "PWA icon for high-DPI displays",
+        purpose: "any",
+      },
+      {
+        filename: "icon-512x512-maskable.png",
+        width: 512,
+        height: 512,
+        format: "png",
+        description: "Maskable PWA icon (full bleed, 80% safe zone)",
+        purpose: "maskable",
       },
     ],
   },
@@ -263,8 +283,67 @@ export const BUILTIN_EXPORT_PRESETS: ExportPreset[] = [
         format: "png",
         description: "App Store & high-resolution displays",
       },
+      {
+        filename: "AppIcon.icns",
+        width: 1024,
+        height: 1024,
+        format: "icns",
+        description: "Single icon file with every size (16–1024 px)",
+      },
     ],
   },
+  {
+    id: "windows-app-icon",
+    name: "Windows App Icon",
+    description: "Multi-resolution ICO for Windows applications",
+    isBuiltIn: true,
+    variants: [
+      {
+        filename: "app.ico",
+        width: 256,
+        height: 256,
+        format: "ico",
+        description: "16, 24, 32, 48, 64, 128 and 256 px in one ICO file",
+        icoSizes: [16, 24, 32, 48, 64, 128, 256],
+      },
+    ],
+  },
+  {
+    id: "xcode-app-icon",
+    name: "Xcode App Icon",
+    description:
+      "AppIcon.appiconset with Contents.json for iOS, iPadOS, watchOS and macOS",
+    isBuiltIn: true,
+    packaging: "xcode-asset-catalog",
+    variants: getAppIconSetVariants(),
+  },
+  {
+    id: "android-adaptive-icon",
+    name: "Android Adaptive Icon",
+    description:
+      "Launcher icon layers for every mipmap density with adaptive icon XML and a themed icon layer",
+    isBuiltIn: true,
+    packaging: "android-adaptive-icon",
+    variants: getAdaptiveIconVariants(),
+  },
+  {
+    id: "microsoft-teams",
+    name: "Microsoft Teams",
+    description:
+      "Teams app package icons: 192×192 color icon and 32×32 white outline icon",
+    isBuiltIn: true,
+    packaging: "teams-app",
+    variants: getTeamsAppVariants(),
+  },
+  {
+    id: "web-extension",
+    name: "Browser Extension",
+    description:
+      "WebExtension icons (16, 32, 48, 128) plus light and dark theme toolbar icons and the manifest.json icons entry",
+    isBuiltIn: true,
+    packaging: "web-extension",
+    variants: getWebExtensionVariants(),
+  },
   {
     id: "social-media",
     name: "Social Media",
@@ -0,0 +1,325 @@
+/**
+ * Server-side canvas composition renderer.
+ *
+ * Mirrors `renderCanvasToRaster` from `canvas-export.ts` without fabric or a
+ * DOM: every visible layer is emitted as an SVG group using the same sizing
+ * logic as CanvasEditor (50% of the internal canvas for icons/images, center
+ * origin, rotation in degrees) so API routes can produce composite icons.
+ */
+
+import sharp from "sharp";
+import type {
+  CanvasEditorState,
+  IconLayer,
+  ImageLayer,
+  TextLayer,
+} from "@/src/types/canvas";
+import { isIconLayer, isImageLayer, isTextLayer } from "@/src/types/canvas";
+import type { BackgroundValue } from "@/src/utils/gradients";
+import { isLinearGradient, isRadialGradient } from "@/src/utils/gradients";
+import { getIconByIdServer } from "@/src/utils/icon-catalog-server";
+import { applySvgColor } from "@/src/utils/renderer";
+
+// Internal canvas size (must match CanvasEditor)
+const INTERNAL_SIZE = 1024;
+
+// Default icon/image size: 50% of the internal canvas
+const DEFAULT_LAYER_SIZE = INTERNAL_SIZE * 0.5;
+
+// fabric.Text default line height multiplier
+const TEXT_LINE_HEIGHT = 1.16;
+
+const BACKGROUND_GRADIENT_ID = "canvas-background";
+
+export interface ServerCanvasRenderOptions {
+  /** Output width/height in pixels (defaults to the internal canvas size) */
+  outputSize?: number;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Normalize SVG to have explicit width/height from viewBox
+ * (string-based equivalent of the DOMParser version in canvas-export)
+ */
+function normalizeSvgDimensions(svgContent: string): {
+  svg: string;
+  width: number;
+  height: number;
+} {
+  const cleaned = svgContent
+    .replace(/<\?xml[\s\S]*?\?>/gi, "")
+    .replace(/<!DOCTYPE[\s\S]*?>/gi, "")
+    .trim();
+  const svgTag = cleaned.match(/<svg\b[^>]*>/i)?.[0];
+
+  if (!svgTag) {
+    return { svg: cleaned, width: 24, height: 24 };
+  }
+
+  const viewBox = svgTag.match(/\sviewBox=["']([^"']+)["']/i)?.[1];
+  let width = 24;
+  let height = 24;
+
+  if (viewBox) {
+    const parts = viewBox
+      .trim()
+      .split(/[\s,]+/)
+      .map(Number);
+    if (parts.length >= 4) {
+      width = parts[2] || 24;
+      height = parts[3] || 24;
+    }
+  }
+
+  const attrWidth = svgTag.match(/\swidth=["']([^"']+)["']/i)?.[1];
+  const attrHeight = svgTag.match(/\sheight=["']([^"']+)["']/i)?.[1];
+
+  if (attrWidth && !attrWidth.includes("%")) {
+    width = parseFloat(attrWidth) || width;
+  }
+  if (attrHeight && !attrHeight.includes("%")) {
+    height = parseFloat(attrHeight) || height;
+  }
+
+  let normalizedTag = svgTag
+    .replace(/\s(width|height)=["'][^"']*["']/gi, "")
+    .replace(/<svg\b/i, `<svg width="${width}" height="${height}"`);
+  if (!viewBox) {
+    normalizedTag = normalizedTag.replace(
+      /<svg\b/i,
+      `<svg viewBox="0 0 ${width} ${height}"`
+    );
+  }
+  if (!/\sxmlns=/i.test(normalizedTag)) {
+    normalizedTag = normalizedTag.replace(
+      /<svg\b/i,
+      '<svg xmlns="http://www.w3.org/2000/svg"'
+    );
+  }
+
+  return {
+    svg: cleaned.replace(svgTag, normalizedTag),
+    width,
+    height,
+  };
+}
+
+/**
+ * Create an SVG gradient definition matching the fabric background gradient.
+ * Linear gradient angles use the same orientation as `createFabricGradient`.
+ */
+function createBackgroundGradientDef(
+  bg: BackgroundValue,
+  size: number
+): string {
+  if (isLinearGradient(bg)) {
+    const angleRad = ((bg.angle - 90) * Math.PI) / 180;
+    const x1 = (0.5 - Math.cos(angleRad) * 0.5) * size;
+    const y1 = (0.5 - Math.sin(angleRad) * 0.5) * size;
+    const x2 = (0.5 + Math.cos(angleRad) * 0.5) * size;
+    const y2 = (0.5 + Math.sin(angleRad) * 0.5) * size;
+    const stops = bg.stops
+      .map(
+        (stop) => `<stop offset="${stop.offset}%" stop-color="${stop.color}"/>`
+      )
+      .join("");
+
+    return `<linearGradient id="${BACKGROUND_GRADIENT_ID}" gradientUnits="userSpaceOnUse" x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}">${stops}</linearGradient>`;
+  }
+
+  if (isRadialGradient(bg)) {
+    const cx = (bg.centerX / 100) * size;
+    const cy = (bg.centerY / 100) * size;
+    const r = (bg.radius / 100) * size;
+    const stops = bg.stops
+      .map(
+        (stop) => `<stop offset="${stop.offset}%" stop-color="${stop.color}"/>`
+      )
+      .join("");
+
+    return `<radialGradient id="${BACKGROUND_GRADIENT_ID}" gradientUnits="userSpaceOnUse" cx="${cx}" cy="${cy}" r="${r}">${stops}</radialGradient>`;
+  }
+
+  return "";
+}
+
+function createBackgroundMarkup(bg: BackgroundValue): {
+  defs: string;
+  element: string;
+} {
+  if (typeof bg === "string") {
+    return bg === "transparent"
+      ? { defs: "", element: "" }
+      : {
+          defs: "",
+          element: `<rect width="${INTERNAL_SIZE}" height="${INTERNAL_SIZE}" fill="${bg}"/>`,
+        };
+  }
+
+  const defs = createBackgroundGradientDef(bg, INTERNAL_SIZE);
+  if (!defs) {
+    return {
+      defs: "",
+      element: `<rect width="${INTERNAL_SIZE}" height="${INTERNAL_SIZE}" fill="#063940"/>`,
+    };
+  }
+
+  return {
+    defs,
+    element: `<rect width="${INTERNAL_SIZE}" height="${INTERNAL_SIZE}" fill="url(#${BACKGROUND_GRADIENT_ID})"/>`,
+  };
+}
+
+/**
+ * Wrap layer content in a group with the fabric object transform
+ * (center origin at left/top, then rotation, then scale)
+ */
+function wrapLayer(
+  layer: IconLayer | ImageLayer | TextLayer,
+  content: string,
+  scaleX: number,
+  scaleY: number
+): string {
+  const opacityAttr = layer.opacity < 1 ? ` opacity="${layer.opacity}"` : "";
+  return `<g transform="translate(${layer.left} ${layer.top}) rotate(${layer.angle}) scale(${scaleX} ${scaleY})"${opacityAttr}>${content}</g>`;
+}
+
+/**
+ * Place a normalized SVG or image centered on the layer origin, sized so its
+ * longest side matches the default layer size before layer scaling.
+ */
+function placeSizedContent(
+  layer: IconLayer | ImageLayer,
+  content: string,
+  width: number,
+  height: number
+): string {
+  const baseScale = DEFAULT_LAYER_SIZE / Math.max(width, height, 1);
+  return wrapLayer(
+    layer,
+    `<g transform="translate(${-width / 2} ${-height / 2})">${content}</g>`,
+    baseScale * layer.scaleX,
+    baseScale * layer.scaleY
+  );
+}
+
+async function createIconMarkup(layer: IconLayer): Promise<string | null> {
+  const icon = await getIconByIdServer(layer.iconId);
+  if (!icon?.svg) return null;
+
+  const { svg, width, height } = normalizeSvgDimensions(
+    applySvgColor(icon.svg, layer.color)
+  );
+  return placeSizedContent(layer, svg, width, height);
+}
+
+function parseDataUrl(dataUrl: string): Buffer | null {
+  const match = dataUrl.match(/^data:[^;,]*(;base64)?,([\s\S]*)$/);
+  if (!match) return null;
+  return match[1]
+    ? Buffer.from(match[2], "base64")
+    : Buffer.from(decodeURIComponent(match[2]));
+}
+
+async function createImageMarkup(layer: ImageLayer): Promise<string | null> {
+  if (layer.svgContent) {
+    // Uploaded SVG markup is untrusted: embed it as an image so scripts and
+    // event handlers never run in the served SVG document
+    const { svg, width, height } = normalizeSvgDimensions(layer.svgContent);
+    const href = `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+    return placeSizedContent(
+      layer,
+      `<image width="${width}" height="${height}" href="${href}"/>`,
+      width,
+      height
+    );
+  }
+
+  const imageData = parseDataUrl(layer.imageDataUrl);
+  if (!imageData) return null;
+
+  const { width = 1, height = 1 } = await sharp(imageData).metadata();
+  return placeSizedContent(
+    layer,
+    `<image width="${width}" height="${height}" href="${escapeXml(layer.imageDataUrl)}"/>`,
+    width,
+    height
+  );
+}
+
+function createTextMarkup(layer: TextLayer): string {
+  const lines = layer.text.split("\n");
+  const lineHeight = layer.fontSize * TEXT_LINE_HEIGHT;
+  const firstLineY = (-(lines.length - 1) * lineHeight) / 2;
+
+  const tspans = lines
+    .map(
+      (line, index) =>
+        `<tspan x="0" y="${firstLineY + index * lineHeight}">${escapeXml(line)}</tspan>`
+    )
+    .join("");
+
+  const text = `<text text-anchor="middle" dominant-baseline="central" font-family="${escapeXml(layer.fontFamily)}" font-size="${layer.fontSize}" font-weight="${layer.bold ? "bold" : "normal"}" font-style="${layer.italic ? "italic" : "normal"}" fill="${layer.color}">${tspans}</text>`;
+
+  return wrapLayer(layer, text, layer.scaleX, layer.scaleY);
+}
+
+/**
+ * Icon ids referenced by visible icon layers
+ */
+export function getCanvasIconIds(canvasState: CanvasEditorState): string[] {
+  const ids = new Set<string>();
+  for (const layer of canvasState.layers) {
+    if (layer.visible && isIconLayer(layer)) {
+      ids.add(layer.iconId);
+    }
+  }
+  return [...ids];
+}
+
+/**
+ * Render canvas state to a standalone SVG document
+ */
+export async function renderCanvasSvgServer(
+  canvasState: CanvasEditorState,
+  options: ServerCanvasRenderOptions = {}
+): Promise<string> {
+  const { outputSize = INTERNAL_SIZE } = options;
+  const background = createBackgroundMarkup(canvasState.backgroundColor);
+  const elements: string[] = [];
+
+  if (background.element) {
+    elements.push(background.element);
+  }
+
+  for (const layer of canvasState.layers) {
+    if (!layer.visible) continue;
+
+    let markup: string | null = null;
+    if (isIconLayer(layer)) {
+      markup = await createIconMarkup(layer);
+    } else if (isImageLayer(layer)) {
+      markup = await createImageMarkup(layer);
+    } else if (isTextLayer(layer)) {
+      markup = createTextMarkup(layer);
+    }
+
+    if (markup) {
+      elements.push(markup);
+    }
+  }
+
+  const defs = background.defs ? `  <defs>${background.defs}</defs>\n` : "";
+
+  return `<svg width="${outputSize}" height="${outputSize}" viewBox="0 0 ${INTERNAL_SIZE} ${INTERNAL_SIZE}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
+${defs}  ${elements.join("\n  ")}
+</svg>`;
+}
@@ -13,9 +13,15 @@ import type {
 } from "@/src/types/canvas";
 import { isIconLayer, isImageLayer, isTextLayer } from "@/src/types/canvas";
 import { getIconById } from "./icon-catalog";
+import { MASKABLE_SAFE_ZONE_RATIO } from "@/src/types/preset";
 import type { BackgroundValue } from "./gradients";
 import { isLinearGradient, isRadialGradient } from "./gradients";
 import { compressToMaxSize } from "./image-compression";
+import {
+  assertGlyphColorPixels,
+  fillGlyphColor,
+  getBlobPixels,
+} from "./renderer";
 
 // Internal canvas size (must match CanvasEditor)
 const INTERNAL_SIZE = 1024;
@@ -333,6 +339,18 @@ export interface CanvasRenderOptions {
   quality?: number;
   /** Maximum file size in bytes (optional) - triggers compression if exceeded */
   maxFileSize?: number;
+  /**
+   * Render as a maskable icon: opaque background and the composition scaled
+   * into the central safe zone
+   */
+  maskable?: boolean;
+  /**
+   * Render only the composition in this color on a transparent background
+   * (e.g. a white outline icon). Output is always PNG.
+   */
+  glyphColor?: string;
+  /** Composite onto an opaque white backdrop so the output has no alpha */
+  flattenTransparency?: boolean;
 }
 
 /**
@@ -342,7 +360,18 @@ export async function renderCanvasToRaster(
   canvasState: CanvasEditorState,
   options: CanvasRenderOptions
 ): Promise<Blob> {
-  const { outputSize, format = "png", quality = 92, maxFileSize } = options;
+  const {
+    outputSize,
+    format = "png",
+    quality = 92,
+    maxFileSize,
+    maskable = false,
+    glyphColor,
+    flattenTransparency = false,
+  } = options;
+  // Flattened renders are composited after fabric has drawn the composition,
+  // so they are rendered losslessly first
+  const flatten = flattenTransparency && !glyphColor;
 
   // Create canvas element for StaticCanvas
   const canvasEl = document.createElement("canvas");
@@ -356,7 +385,9 @@ export async function renderCanvasToRaster(
 
   // Set background
   const bg = createFabricGradient(canvasState.backgroundColor, outputSize);
-  canvas.backgroundColor = bg;
+  if (!glyphColor) {
+    canvas.backgroundColor = maskable && bg === "transparent" ? "#ffffff" : bg;
+  }
 
   // Add all visible layers
   for (const layer of canvasState.layers) {
@@ -364,6 +395,9 @@ export async function renderCanvasToRaster(
 
     const obj = await createFabricObject(layer, outputSize);
     if (obj) {
+      if (maskable) {
+        fitToSafeZone(obj, outputSize);
+      }
       canvas.add(obj);
     }
   }
@@ -372,7 +406,7 @@ export async function renderCanvasToRaster(
 
   // Export to blob with the specified format
   const blob = await canvas.toBlob({
-    format: format as "png" | "jpeg" | "webp",
+    format: glyphColor || flatten ? "png" : (format as "png" | "jpeg" | "webp"),
     multiplier: 1,
     quality: format === "png" ? undefined : quality / 100,
   });
@@ -381,6 +415,11 @@ export async function renderCanvasToRaster(
     throw new Error(`Failed to generate ${format.toUpperCase()} from canvas`);
   }
 
+  if (flatten) {
+    canvas.dispose();
+    return flattenOntoBackdrop(blob, outputSize, format, quality, maxFileSize);
+  }
+
   // Apply max size compression if needed (only for lossy formats)
   if (
     maxFileSize &&
@@ -399,7 +438,113 @@ export async function renderCanvasToRaster(
   }
 
   canvas.dispose();
-  return blob;
+  return glyphColor ? recolorGlyph(blob, outputSize, glyphColor) : blob;
+}
+
+/**
+ * Recolor every visible pixel of a rendered composition, keeping its alpha
+ */
+async function recolorGlyph(
+  blob: Blob,
+  outputSize: number,
+  color: string
+): Promise<Blob> {
+  const { canvasEl, ctx } = await drawBlobToCanvas(blob, outputSize);
+  fillGlyphColor(ctx, outputSize, outputSize, color);
+  return encodeCanvas(canvasEl, "png");
+}
+
+/**
+ * Composite a rendered composition onto opaque white and encode it in the
+ * requested format
+ */
+async function flattenOntoBackdrop(
+  blob: Blob,
+  outputSize: number,
+  format: CanvasExportFormat,
+  quality: number,
+  maxFileSize?: number
+): Promise<Blob> {
+  const { canvasEl } = await drawBlobToCanvas(blob, outputSize, "#ffffff");
+  if (maxFileSize && (format === "jpeg" || format === "webp")) {
+    const result = await compressToMaxSize({
+      targetMaxBytes: maxFileSize,
+      format,
+      initialQuality: quality / 100,
+      canvas: canvasEl,
+    });
+    return result.blob;
+  }
+  return encodeCanvas(
+    canvasEl,
+    format,
+    format === "png" ? undefined : quality / 100
+  );
+}
+
+/**
+ * Draw a rendered composition onto a fresh canvas, optionally over a solid
+ * backdrop
+ */
+async function drawBlobToCanvas(
+  blob: Blob,
+  outputSize: number,
+  backdrop?: string
+): Promise<{ canvasEl: HTMLCanvasElement; ctx: CanvasRenderingContext2D }> {
+  const bitmap = await createImageBitmap(blob);
+  const canvasEl = document.createElement("canvas");
+  canvasEl.width = outputSize;
+  canvasEl.height = outputSize;
+  const ctx = canvasEl.getContext("2d");
+  if (!ctx) {
+    throw new Error("Failed to get canvas context");
+  }
+  if (backdrop) {
+    ctx.fillStyle = backdrop;
+    ctx.fillRect(0, 0, outputSize, outputSize);
+  }
+  ctx.drawImage(bitmap, 0, 0, outputSize, outputSize);
+  bitmap.close();
+  return { canvasEl, ctx };
+}
+
+/**
+ * Encode a canvas in the given raster format
+ */
+function encodeCanvas(
+  canvasEl: HTMLCanvasElement,
+  format: CanvasExportFormat,
+  quality?: number
+): Promise<Blob> {
+  return new Promise<Blob>((resolve, reject) => {
+    canvasEl.toBlob(
+      (result) => {
+        if (result) {
+          resolve(result);
+        } else {
+          reject(
+            new Error(`Failed to generate ${format.toUpperCase()} from canvas`)
+          );
+        }
+      },
+      `image/${format}`,
+      quality
+    );
+  });
+}
+
+/**
+ * Scale an object toward the canvas center so the composition fits the
+ * maskable safe zone
+ */
+function fitToSafeZone(obj: fabric.FabricObject, outputSize: number): void {
+  const center = outputSize / 2;
+  obj.set({
+    left: center + (obj.left - center) * MASKABLE_SAFE_ZONE_RATIO,
+    top: center + (obj.top - center) * MASKABLE_SAFE_ZONE_RATIO,
+    scaleX: obj.scaleX * MASKABLE_SAFE_ZONE_RATIO,
+    scaleY: obj.scaleY * MASKABLE_SAFE_ZONE_RATIO,
+  });
 }
 
 /**
@@ -424,6 +569,14 @@ export interface CanvasExportVariant {
   quality?: number;
   /** Maximum file size in KB (optional) - triggers compression if exceeded */
   maxSize?: number;
+  /** Background override for this variant (the composition is unchanged) */
+  backgroundColor?: BackgroundValue;
+  /** Render as a maskable web app icon */
+  maskable?: boolean;
+  /** Render only the composition in this color on transparency */
+  glyphColor?: string;
+  /** Render on an opaque white backdrop without an alpha channel */
+  flattenTransparency?: boolean;
 }
 
 /**
@@ -436,12 +589,25 @@ export async function generateCanvasExportAssets(
   const assets = new Map<string, Blob>();
 
   for (const variant of variants) {
-    const blob = await renderCanvasToRaster(canvasState, {
+    const state = variant.backgroundColor
+      ? { ...canvasState, backgroundColor: variant.backgroundColor }
+      : canvasState;
+    const blob = await renderCanvasToRaster(state, {
       outputSize: variant.width,
       format: variant.format || "png",
       quality: variant.quality,
       maxFileSize: variant.maxSize ? variant.maxSize * 1024 : undefined,
+      maskable: variant.maskable,
+      glyphColor: variant.glyphColor,
+      flattenTransparency: variant.flattenTransparency,
     });
+    if (variant.glyphColor) {
+      assertGlyphColorPixels(
+        variant.filename,
+        await getBlobPixels(blob, variant.width, variant.width),
+        variant.glyphColor
+      );
+    }
     assets.set(variant.filename, blob);
   }
 
@@ -7,23 +7,46 @@ import type { IconGeneratorState } from "../hooks/use-icon-generator";
 import type { AppLocation } from "../types/app-location";
 import type { CanvasEditorState } from "../types/canvas";
 import type { ExportMetadata } from "../types/export";
-import type { ExportPreset, ExportVariantConfig } from "../types/preset";
+import {
+  applyVariantStyle,
+  type ExportPreset,
+  type ExportVariantConfig,
+} from "../types/preset";
 import { getRequiredExportVariants } from "../types/export";
 import {
+  assertGlyphColorPixels,
   generateExportAssets,
+  getBlobPixels,
+  inspectExportAsset,
   renderPng,
   renderPngFromImage,
   renderRasterFromImage,
   renderSvg,
   type ExportVariantSpec,
 } from "./renderer";
-import { generateCanvasExportAssets } from "./canvas-export";
+import {
+  generateCanvasExportAssets,
+  type CanvasExportVariant,
+} from "./canvas-export";
 import { getIconById } from "./icon-catalog";
 import { isSolidColor, isGradient } from "./gradients";
 import { isCustomImageIcon, hasSvgRequirements } from "./locations";
 import { ICON_PACKS } from "../constants/app";
 import { getSelectedExportPreset } from "./preset-storage";
 import { getColorOverride, getColorAnalysis } from "./image-color-analysis";
+import {
+  generatePackagingFiles,
+  type PackagingContext,
+} from "./export-packaging";
+import {
+  resolveVariantFilenames,
+  type FilenameTemplateContext,
+} from "./filename-template";
+import {
+  validateExportAssets,
+  type PlatformRuleIssue,
+  type RenderedAssetInfo,
+} from "./platform-rules";
 
 /**
  * Export result
@@ -35,6 +58,8 @@ export interface ExportResult {
   metadata: ExportMetadata;
   /** List of exported filenames */
   filenames: string[];
+  /** Platform rule issues found in the rendered files */
+  issues: PlatformRuleIssue[];
 }
 
 /**
@@ -51,6 +76,8 @@ export interface ExportDownloadPayload {
   metadata: ExportMetadata;
   /** List of exported filenames */
   filenames: string[];
+  /** Platform rule issues found in the rendered files */
+  issues: PlatformRuleIssue[];
 }
 
 /**
@@ -61,6 +88,42 @@ export interface ExportOptions {
   preset?: ExportPreset;
   /** Use legacy Zendesk location-based variants */
   useLegacyVariants?: boolean;
+  /** Style preset name for the {style} filename placeholder */
+  styleName?: string;
+}
+
+/**
+ * Progress update for multi-icon exports
+ */
+export interface BatchExportProgress {
+  /** Number of icons already exported */
+  completed: number;
+  total: number;
+  /** Icon currently being exported (null while the ZIP is being built) */
+  currentIconId: string | null;
+}
+
+/**
+ * Multi-icon export options
+ */
+export interface BatchExportOptions extends ExportOptions {
+  /** Custom folder labels keyed by icon ID (defaults to the icon ID) */
+  labels?: Record<string, string>;
+  onProgress?: (progress: BatchExportProgress) => void;
+}
+
+/**
+ * Multi-icon export result
+ */
+export interface BatchExportResult {
+  /** ZIP blob with one folder per icon */
+  zipBlob: Blob;
+  /** Suggested download filename */
+  filename: string;
+  /** Exported files per icon folder */
+  icons: { iconId: string; folder: string; filenames: string[] }[];
+  /** Platform rule issues of every icon (paths include the folder) */
+  issues: PlatformRuleIssue[];
 }
 
 export interface DirectDownloadPayload {
@@ -122,9 +185,17 @@ function toVariantSpec(config: ExportVariantConfig): ExportVariantSpec {
     width: config.width,
     height: config.height,
     format: config.format,
+    scale: config.scale,
     quality: config.quality,
     description: config.description,
     maxSize: config.maxSize,
+    flattenTransparency: config.flattenTransparency,
+    adaptiveLayer: config.adaptiveLayer,
+    icoSizes: config.icoSizes,
+    icoBmp: config.icoBmp,
+    purpose: config.purpose,
+    glyphColor: config.glyphColor,
+    style: config.style,
   };
 }
 
@@ -145,6 +216,72 @@ function getEffectiveVariants(
   return options.preset.variants.map(toVariantSpec);
 }
 
+/**
+ * Values for the export-wide filename placeholders
+ */
+function getFilenameContext(
+  iconId: string,
+  iconName: string | undefined,
+  options?: ExportOptions
+): FilenameTemplateContext {
+  return {
+    iconId,
+    iconName,
+    preset: options?.preset?.name,
+    style: options?.styleName,
+  };
+}
+
+/**
+ * Add a rendered asset, creating the folders of templated paths
+ */
+function addAssetToZip(zip: JSZip, path: string, data: Blob): void {
+  zip.file(path, data, { createFolders: true });
+}
+
+/**
+ * Check rendered files against the preset's platform rules
+ */
+async function checkRenderedAssets(
+  assets: Map<string, Blob>,
+  variants: ExportVariantConfig[],
+  options?: ExportOptions
+): Promise<PlatformRuleIssue[]> {
+  const preset = options?.useLegacyVariants ? undefined : options?.preset;
+  const infos: RenderedAssetInfo[] = [];
+  for (const [filename, blob] of assets) {
+    infos.push(await inspectExportAsset(filename, blob));
+  }
+  return validateExportAssets(
+    { id: preset?.id, packaging: preset?.packaging, variants },
+    infos
+  );
+}
+
+/**
+ * Add the preset's packaging files (e.g. Xcode Contents.json) to the ZIP
+ */
+function addPackagingFiles(
+  zip: JSZip,
+  filenames: string[],
+  context: PackagingContext,
+  options?: ExportOptions
+): void {
+  if (options?.useLegacyVariants) {
+    return;
+  }
+
+  const files = generatePackagingFiles(
+    options?.preset?.packaging,
+    filenames,
+    context
+  );
+  for (const [path, content] of files) {
+    zip.file(path, content);
+    filenames.push(path);
+  }
+}
+
 function filterExportableVariants(
   variants: ExportVariantSpec[],
   state: IconGeneratorState,
@@ -334,21 +471,14 @@ export async function generateClipboardPng(
 }
 
 /**
- * Generate export ZIP from current state
+ * Render the selected (non-canvas) icon into a ZIP or ZIP folder
  */
-export async function generateExportZip(
+async function addIconExportToZip(
+  zip: JSZip,
   state: IconGeneratorState,
   selectedLocations: AppLocation[],
-  canvasState?: CanvasEditorState,
   options?: ExportOptions
-): Promise<ExportResult> {
-  const isCanvasMode = state.selectedPack === ICON_PACKS.CANVAS;
-
-  // Canvas mode export
-  if (isCanvasMode && canvasState) {
-    return generateCanvasExportZip(state, canvasState, options);
-  }
-
+): Promise<Omit<ExportResult, "zipBlob">> {
   if (!state.selectedIconId) {
     throw new Error("No icon selected");
   }
@@ -358,15 +488,16 @@ export async function generateExportZip(
   // Determine which variants to use
   let variants = getEffectiveVariants(selectedLocations, options);
 
-  // For custom images, filter out SVG variants (they can only export raster)
+  // For custom images, filter out SVG variants and adaptive icon layers
+  // (they can only export the full raster icon)
   if (isCustomImage) {
     variants = variants.filter(
-      (v) => v.format === "png" || v.format === "jpeg" || v.format === "webp"
+      (v) =>
+        (v.format === "png" || v.format === "jpeg" || v.format === "webp") &&
+        !v.adaptiveLayer
     );
   }
 
-  // Create ZIP
-  const zip = new JSZip();
   const filenames: string[] = [];
 
   if (isCustomImage) {
@@ -380,12 +511,20 @@ export async function generateExportZip(
       throw new Error("Custom image data not found");
     }
 
+    variants = resolveVariantFilenames(
+      variants,
+      getFilenameContext(state.selectedIconId, undefined, options)
+    );
+
     // Get color override if available
     const colorOverride = getColorOverride(state.selectedIconId);
     const colorAnalysis = getColorAnalysis(state.selectedIconId);
     const originalColor = colorAnalysis?.dominantColor;
+    const assets = new Map<string, Blob>();
 
     for (const variant of variants) {
+      const style = applyVariantStyle(state, variant.style);
+
       // Determine the raster format (ico and svg are not supported for custom images)
       const rasterFormat: "png" | "jpeg" | "webp" =
         variant.format === "jpeg" || variant.format === "webp"
@@ -394,23 +533,43 @@ export async function generateExportZip(
 
       const blob = await renderRasterFromImage({
         imageDataUrl,
-        backgroundColor: state.backgroundColor,
-        size: state.iconSize,
+        backgroundColor: style.backgroundColor,
+        size: style.iconSize,
         width: variant.width,
         height: variant.height,
         format: rasterFormat,
         quality: variant.quality ? variant.quality / 100 : undefined,
         maxFileSize: variant.maxSize ? variant.maxSize * 1024 : undefined,
+        flattenTransparency: variant.flattenTransparency,
+        maskable: variant.purpose === "maskable",
+        glyphColor: variant.glyphColor,
         colorOverride,
         originalColor,
-        cornerRadius: state.cornerRadius,
-        borderEnabled: state.borderEnabled,
-        borderColor: state.borderColor,
-        borderWidth: state.borderWidth,
+        backgroundShape: style.backgroundShape,
+        cornerRadius: style.cornerRadius,
+        borderEnabled: style.borderEnabled,
+        borderColor: style.borderColor,
+        borderWidth: style.borderWidth,
+        iconTransform: style.iconTransform,
       });
-      zip.file(variant.filename, blob);
+      if (variant.glyphColor) {
+        assertGlyphColorPixels(
+          variant.filename,
+          await getBlobPixels(blob, variant.width, variant.height),
+          variant.glyphColor
+        );
+      }
+      addAssetToZip(zip, variant.filename, blob);
       filenames.push(variant.filename);
+      assets.set(variant.filename, blob);
     }
+    const issues = await checkRenderedAssets(assets, variants, options);
+    addPackagingFiles(
+      zip,
+      filenames,
+      { variants, backgroundColor: state.backgroundColor },
+      options
+    );
 
     // Create metadata for custom image
     const metadata: ExportMetadata = {
@@ -421,6 +580,7 @@ export async function generateExportZip(
         backgroundColor: state.backgroundColor,
         iconColor: state.iconColor,
         iconSize: state.iconSize,
+        backgroundShape: state.backgroundShape,
         cornerRadius: state.cornerRadius,
         borderEnabled: state.borderEnabled,
         borderColor: state.borderColor,
@@ -428,19 +588,13 @@ export async function generateExportZip(
       },
       locations: selectedLocations,
       variants: filenames,
+      ...(issues.length > 0 && { issues }),
     };
 
     // Add metadata as JSON
     zip.file("export-metadata.json", JSON.stringify(metadata, null, 2));
 
-    // Generate ZIP blob
-    const zipBlob = await zip.generateAsync({ type: "blob" });
-
-    return {
-      zipBlob,
-      metadata,
-      filenames,
-    };
+    return { metadata, filenames, issues };
   }
 
   // Standard icon export
@@ -448,15 +602,26 @@ export async function generateExportZip(
   if (!icon) {
     throw new Error(`Icon not found: ${state.selectedIconId}`);
   }
+  variants = resolveVariantFilenames(
+    variants,
+    getFilenameContext(icon.id, icon.name, options)
+  );
 
   // Generate all assets
   const assets = await generateExportAssets(icon, state, variants);
 
   // Add all assets to ZIP
   for (const [filename, blob] of assets.entries()) {
-    zip.file(filename, blob);
+    addAssetToZip(zip, filename, blob);
     filenames.push(filename);
   }
+  const issues = await checkRenderedAssets(assets, variants, options);
+  addPackagingFiles(
+    zip,
+    filenames,
+    { variants, backgroundColor: state.backgroundColor },
+    options
+  );
 
   // Create metadata
   const metadata: ExportMetadata = {
@@ -467,18 +632,50 @@ export async function generateExportZip(
       backgroundColor: state.backgroundColor,
       iconColor: state.iconColor,
       iconSize: state.iconSize,
+      backgroundShape: state.backgroundShape,
       cornerRadius: state.cornerRadius,
       borderEnabled: state.borderEnabled,
       borderColor: state.borderColor,
       borderWidth: state.borderWidth,
+      iconShadow: state.iconShadow,
+      iconColorStyle: state.iconColorStyle,
+      iconTransform: state.iconTransform,
     },
     locations: selectedLocations,
     variants: filenames,
+    ...(issues.length > 0 && { issues }),
   };
 
   // Add metadata as JSON (optional, for debugging)
   zip.file("export-metadata.json", JSON.stringify(metadata, null, 2));
 
+  return { metadata, filenames, issues };
+}
+
+/**
+ * Generate export ZIP from current state
+ */
+export async function generateExportZip(
+  state: IconGeneratorState,
+  selectedLocations: AppLocation[],
+  canvasState?: CanvasEditorState,
+  options?: ExportOptions
+): Promise<ExportResult> {
+  const isCanvasMode = state.selectedPack === ICON_PACKS.CANVAS;
+
+  // Canvas mode export
+  if (isCanvasMode && canvasState) {
+    return generateCanvasExportZip(state, canvasState, options);
+  }
+
+  const zip = new JSZip();
+  const { metadata, filenames, issues } = await addIconExportToZip(
+    zip,
+    state,
+    selectedLocations,
+    options
+  );
+
   // Generate ZIP blob
   const zipBlob = await zip.generateAsync({ type: "blob" });
 
@@ -486,6 +683,88 @@ export async function generateExportZip(
     zipBlob,
     metadata,
     filenames,
+    issues,
+  };
+}
+
+/**
+ * Folder name for an icon in a batch export (custom label or icon ID)
+ */
+function getBatchFolderName(iconId: string, label?: string): string {
+  const sanitized = (label ?? "")
+    .trim()
+    .replace(/[\\/:*?"<>|]+/g, "-")
+    .replace(/^[.\s-]+|[.\s-]+$/g, "");
+
+  return sanitized || iconId;
+}
+
+/**
+ * Generate one ZIP for several icons with the current style and preset.
+ * Each icon is exported into its own folder (custom label or icon ID).
+ */
+export async function generateBatchExportZip(
+  state: IconGeneratorState,
+  iconIds: string[],
+  selectedLocations: AppLocation[],
+  options?: BatchExportOptions
+): Promise<BatchExportResult> {
+  if (iconIds.length === 0) {
+    throw new Error("No icons selected");
+  }
+
+  const zip = new JSZip();
+  const icons: BatchExportResult["icons"] = [];
+  const issues: PlatformRuleIssue[] = [];
+  const usedFolders = new Set<string>();
+
+  for (const [index, iconId] of iconIds.entries()) {
+    options?.onProgress?.({
+      completed: index,
+      total: iconIds.length,
+      currentIconId: iconId,
+    });
+
+    const baseFolder = getBatchFolderName(iconId, options?.labels?.[iconId]);
+    let folder = baseFolder;
+    for (let suffix = 2; usedFolders.has(folder.toLowerCase()); suffix++) {
+      folder = `${baseFolder}-${suffix}`;
+    }
+    usedFolders.add(folder.toLowerCase());
+
+    try {
+      const result = await addIconExportToZip(
+        zip.folder(folder)!,
+        { ...state, selectedIconId: iconId },
+        selectedLocations,
+        options
+      );
+      icons.push({ iconId, folder, filenames: result.filenames });
+      issues.push(
+        ...result.issues.map((issue) => ({
+          ...issue,
+          filename: issue.filename && `${folder}/${issue.filename}`,
+          message: `${folder}: ${issue.message}`,
+        }))
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to export ${iconId}: ${message}`);
+    }
+  }
+
+  options?.onProgress?.({
+    completed: iconIds.length,
+    total: iconIds.length,
+    currentIconId: null,
+  });
+  const zipBlob = await zip.generateAsync({ type: "blob" });
+
+  return {
+    zipBlob,
+    filename: getZipDownloadFilename(options).replace(/\.zip$/, "-batch.zip"),
+    icons,
+    issues,
   };
 }
 
@@ -533,6 +812,7 @@ export async function generateExportDownloadPayload(
       isZip: false,
       metadata: result.metadata,
       filenames: result.filenames,
+      issues: result.issues,
     };
   }
 
@@ -542,6 +822,7 @@ export async function generateExportDownloadPayload(
     isZip: true,
     metadata: result.metadata,
     filenames: result.filenames,
+    issues: result.issues,
   };
 }
 
@@ -558,20 +839,20 @@ async function generateCanvasExportZip(
   }
 
   // Determine which variants to use
-  let variants: Array<{
-    filename: string;
-    width: number;
-    height: number;
-    format: "png" | "jpeg" | "webp";
-    quality?: number;
-    maxSize?: number;
-  }>;
+  let variants: CanvasExportVariant[];
+  const presetVariants = resolveVariantFilenames(
+    options?.preset?.variants ?? [],
+    getFilenameContext("canvas", undefined, options)
+  );
 
   if (options?.preset) {
-    // Use preset variants, but filter to raster formats only (canvas doesn't support SVG)
-    variants = options.preset.variants
+    // Use preset variants, but filter to raster formats only (canvas doesn't
+    // support SVG) and skip adaptive icon layers
+    variants = presetVariants
       .filter(
-        (v) => v.format === "png" || v.format === "jpeg" || v.format === "webp"
+        (v) =>
+          (v.format === "png" || v.format === "jpeg" || v.format === "webp") &&
+          !v.adaptiveLayer
       )
       .map((v) => ({
         filename: v.filename,
@@ -580,6 +861,10 @@ async function generateCanvasExportZip(
         format: v.format as "png" | "jpeg" | "webp",
         quality: v.quality,
         maxSize: v.maxSize,
+        backgroundColor: v.style?.backgroundColor,
+        maskable: v.purpose === "maskable",
+        glyphColor: v.glyphColor,
+        flattenTransparency: v.flattenTransparency,
       }));
   } else {
     // Default canvas export (Zendesk sizes)
@@ -608,9 +893,19 @@ async function generateCanvasExportZip(
 
   // Add all assets to ZIP
   for (const [filename, blob] of assets.entries()) {
-    zip.file(filename, blob);
+    addAssetToZip(zip, filename, blob);
     filenames.push(filename);
   }
+  const issues = await checkRenderedAssets(assets, presetVariants, options);
+  addPackagingFiles(
+    zip,
+    filenames,
+    {
+      variants: presetVariants,
+      backgroundColor: state.backgroundColor,
+    },
+    options
+  );
 
   // Create metadata
   const metadata: ExportMetadata = {
@@ -624,6 +919,7 @@ async function generateCanvasExportZip(
     },
     locations: [],
     variants: filenames,
+    ...(issues.length > 0 && { issues }),
   };
 
   // Add metadata as JSON
@@ -636,6 +932,7 @@ async function generateCanvasExportZip(
     zipBlob,
     metadata,
     filenames,
+    issues,
   };
 }
 
@@ -715,8 +1012,11 @@ export function validateExport(
       : isGradient(state.backgroundColor)
         ? state.backgroundColor.stops[0]?.color || "#000000"
         : "#000000";
+    const fgColor = isGradient(state.iconColor)
+      ? state.iconColor.stops[0]?.color || "#ffffff"
+      : state.iconColor;
     const bgLuminance = getLuminance(bgColor);
-    const iconLuminance = getLuminance(state.iconColor);
+    const iconLuminance = getLuminance(fgColor);
     const contrast = Math.abs(bgLuminance - iconLuminance);
     if (contrast < 0.3) {
       warnings.push(
@@ -0,0 +1,50 @@
+/**
+ * Extra files written next to the rendered assets for a packaging mode
+ * (shared by the browser and server export pipelines)
+ */
+
+import type { ExportPackaging } from "@/src/types/preset";
+import { generateAdaptiveIconFiles } from "./android-adaptive-icon";
+import type { BackgroundValue } from "./gradients";
+import { generateTeamsAppFiles } from "./teams-app";
+import { generateWebExtensionFiles } from "./web-extension";
+import {
+  generateWebManifestFiles,
+  type WebManifestVariant,
+} from "./web-manifest";
+import { generateAssetCatalogFiles } from "./xcode-asset-catalog";
+
+/**
+ * Export settings some packaging modes need besides the filenames
+ */
+export interface PackagingContext {
+  /** Variants that were requested for the export */
+  variants: WebManifestVariant[];
+  /** Background color of the exported icon */
+  backgroundColor: BackgroundValue;
+}
+
+/**
+ * Generate the packaging files for the exported filenames.
+ * Returns a map of ZIP path to file content.
+ */
+export function generatePackagingFiles(
+  packaging: ExportPackaging | undefined,
+  filenames: string[],
+  context: PackagingContext
+): Map<string, string> {
+  switch (packaging) {
+    case "xcode-asset-catalog":
+      return generateAssetCatalogFiles(filenames);
+    case "android-adaptive-icon":
+      return generateAdaptiveIconFiles(filenames);
+    case "web-app-manifest":
+      return generateWebManifestFiles(filenames, context);
+    case "teams-app":
+      return generateTeamsAppFiles(filenames, context.variants);
+    case "web-extension":
+      return generateWebExtensionFiles(filenames);
+    default:
+      return new Map();
+  }
+}
@@ -0,0 +1,455 @@
+/**
+ * Server-side export bundle generation.
+ *
+ * Mirrors `generateExportAssets` and `generateExportZip` from the browser
+ * export pipeline so API routes can produce the same ZIP without a DOM.
+ */
+
+import JSZip from "jszip";
+import sharp from "sharp";
+import { SVG_SPECS } from "@/src/constants/app";
+import type { ExportMetadata } from "@/src/types/export";
+import type { IconMetadata } from "@/src/types/icon";
+import {
+  applyVariantStyle,
+  MASKABLE_SAFE_ZONE_RATIO,
+  type ExportPackaging,
+  type ExportPreset,
+  type ExportVariantConfig,
+} from "@/src/types/preset";
+import type { BackgroundShape } from "@/src/utils/background-shape";
+import type { BackgroundValue } from "@/src/utils/gradients";
+import type { IconColorStyle } from "@/src/utils/icon-colors";
+import type { IconShadow } from "@/src/utils/icon-shadow";
+import type { IconTransform } from "@/src/utils/icon-transform";
+import {
+  assertGlyphColorPixels,
+  createIcnsFromPngBuffers,
+  createIcoFromEntries,
+  encodeIcoBmp,
+  getIcnsSizes,
+  getIcoSizes,
+  isIcoBmpEntry,
+  type ExportVariantSpec,
+  type IcoImageEntry,
+} from "@/src/utils/renderer";
+import {
+  renderAdaptiveIconLayerServer,
+  renderGlyphServer,
+  renderRasterServer,
+  renderSvgServer,
+} from "@/src/utils/renderer-server";
+import { ADAPTIVE_ICON_SAFE_ZONE_RATIO } from "@/src/utils/android-adaptive-icon";
+import { generatePackagingFiles } from "@/src/utils/export-packaging";
+import { resolveVariantFilenames } from "@/src/utils/filename-template";
+import {
+  validateExportAssets,
+  type PlatformRuleIssue,
+  type RenderedAssetInfo,
+} from "@/src/utils/platform-rules";
+import { isZendeskLocationSvgFile } from "@/src/utils/zendesk-svg";
+
+/**
+ * Style settings applied to every variant in a bundle
+ */
+export interface ServerExportStyle {
+  backgroundColor: BackgroundValue;
+  /** Icon color (hex) or gradient */
+  iconColor: BackgroundValue;
+  /** Icon size for raster exports (48-200, same scale as the UI slider) */
+  iconSize: number;
+  /** Icon size for SVG exports (48-300), defaults to iconSize */
+  svgIconSize?: number;
+  /** Background outline (defaults to a rounded square) */
+  backgroundShape?: BackgroundShape;
+  cornerRadius?: number;
+  borderEnabled?: boolean;
+  borderColor?: string;
+  borderWidth?: number;
+  /** Shadow behind the glyph */
+  iconShadow?: IconShadow;
+  /** Duotone or mapped glyph colors */
+  iconColorStyle?: IconColorStyle;
+  /** Offset, rotation and mirroring of the glyph */
+  iconTransform?: IconTransform;
+}
+
+export interface ServerExportOptions {
+  /** Extra packaging applied to the exported files (see `ExportPreset`) */
+  packaging?: ExportPackaging;
+  /** Export preset name for the {preset} filename placeholder */
+  presetName?: string;
+  /** Built-in export preset id, selects the platform rules to check */
+  presetId?: string;
+}
+
+export interface ServerExportResult {
+  /** ZIP archive bytes */
+  zip: Uint8Array;
+  /** Export metadata (also written to export-metadata.json) */
+  metadata: ExportMetadata;
+  /** List of exported filenames */
+  filenames: string[];
+  /** Platform rule issues found in the rendered files */
+  issues: PlatformRuleIssue[];
+}
+
+/**
+ * Map the UI icon size slider (48-200) to artboard padding.
+ * Uses the same 30%-100% fill mapping as the browser raster renderer,
+ * applied to `areaRatio` of the artboard (e.g. an adaptive icon safe zone).
+ */
+function getRasterPadding(
+  iconSize: number,
+  artboardSize: number,
+  areaRatio: number = 1
+): number {
+  const minSize = 48;
+  const maxSize = 200;
+  const sizePercent = Math.max(
+    0.3,
+    Math.min(1.0, ((iconSize - minSize) / (maxSize - minSize)) * 0.7 + 0.3)
+  );
+  return (artboardSize * (1 - sizePercent * areaRatio)) / 2;
+}
+
+/**
+ * Map the SVG icon size slider (48-300) to padding on the 30px SVG artboard.
+ * Negative padding makes the icon larger than the artboard (overflow).
+ */
+function getSvgPadding(svgIconSize: number): number {
+  const minSize = 48;
+  const maxSize = 300;
+  const maxPadding = 6;
+  const minPadding = -6;
+  return (
+    maxPadding -
+    ((svgIconSize - minSize) / (maxSize - minSize)) * (maxPadding - minPadding)
+  );
+}
+
+function renderRasterVariant(
+  icon: IconMetadata,
+  style: ServerExportStyle,
+  width: number,
+  height: number,
+  format: "png" | "jpeg" | "webp",
+  quality?: number,
+  maxSize?: number,
+  flattenTransparency?: boolean
+): Promise<Buffer> {
+  const artboardSize = Math.min(width, height);
+
+  return renderRasterServer({
+    icon,
+    backgroundColor: style.backgroundColor,
+    iconColor: style.iconColor,
+    size: artboardSize,
+    padding: getRasterPadding(style.iconSize, artboardSize),
+    width,
+    height,
+    format,
+    quality: quality ? quality / 100 : undefined,
+    maxFileSize: maxSize ? maxSize * 1024 : undefined,
+    flattenTransparency,
+    backgroundShape: style.backgroundShape,
+    cornerRadius: style.cornerRadius,
+    borderEnabled: style.borderEnabled,
+    borderColor: style.borderColor,
+    borderWidth: style.borderWidth,
+    iconShadow: style.iconShadow,
+    iconColorStyle: style.iconColorStyle,
+    iconTransform: style.iconTransform,
+  });
+}
+
+/**
+ * Convert ExportVariantConfig to ExportVariantSpec
+ */
+export function toServerVariantSpec(
+  config: ExportVariantConfig
+): ExportVariantSpec {
+  return {
+    filename: config.filename,
+    width: config.width,
+    height: config.height,
+    format: config.format,
+    scale: config.scale,
+    quality: config.quality,
+    description: config.description,
+    maxSize: config.maxSize,
+    flattenTransparency: config.flattenTransparency,
+    adaptiveLayer: config.adaptiveLayer,
+    icoSizes: config.icoSizes,
+    icoBmp: config.icoBmp,
+    purpose: config.purpose,
+    glyphColor: config.glyphColor,
+    style: config.style,
+  };
+}
+
+/**
+ * Generate all export assets for an icon
+ */
+export async function generateExportAssetsServer(
+  icon: IconMetadata,
+  style: ServerExportStyle,
+  variants: ExportVariantSpec[]
+): Promise<Map<string, Buffer>> {
+  const assets = new Map<string, Buffer>();
+
+  for (const variant of variants) {
+    const variantStyle = applyVariantStyle(style, variant.style);
+
+    if (variant.format === "svg") {
+      const artboardSize = SVG_SPECS.PADDED_SIZE;
+      const requestedSize = Math.max(variant.width, variant.height);
+
+      const svgString = renderSvgServer({
+        icon,
+        backgroundColor: variantStyle.backgroundColor,
+        iconColor: variantStyle.iconColor,
+        size: artboardSize,
+        padding: getSvgPadding(
+          variantStyle.svgIconSize ?? variantStyle.iconSize
+        ),
+        outputSize: Math.min(requestedSize, artboardSize),
+        zendeskLocationMode: isZendeskLocationSvgFile(variant.filename),
+        backgroundShape: variantStyle.backgroundShape,
+        cornerRadius: variantStyle.cornerRadius,
+        borderEnabled: variantStyle.borderEnabled,
+        borderColor: variantStyle.borderColor,
+        borderWidth: variantStyle.borderWidth,
+        iconShadow: variantStyle.iconShadow,
+        iconColorStyle: variantStyle.iconColorStyle,
+        iconTransform: variantStyle.iconTransform,
+      });
+      assets.set(variant.filename, Buffer.from(svgString));
+    } else if (variant.format === "ico") {
+      const entries: IcoImageEntry[] = [];
+      for (const size of getIcoSizes(variant)) {
+        const png = await renderRasterVariant(
+          icon,
+          variantStyle,
+          size,
+          size,
+          "png"
+        );
+        if (isIcoBmpEntry(variant, size)) {
+          const rgba = await sharp(png).ensureAlpha().raw().toBuffer();
+          entries.push({ size, format: "bmp", data: encodeIcoBmp(rgba, size) });
+        } else {
+          entries.push({
+            size,
+            format: "png",
+            data: new Uint8Array(png).buffer,
+          });
+        }
+      }
+      assets.set(variant.filename, Buffer.from(createIcoFromEntries(entries)));
+    } else if (variant.format === "icns") {
+      const pngBuffers: ArrayBuffer[] = [];
+      for (const size of getIcnsSizes(variant)) {
+        const png = await renderRasterVariant(
+          icon,
+          variantStyle,
+          size,
+          size,
+          "png"
+        );
+        pngBuffers.push(new Uint8Array(png).buffer);
+      }
+      assets.set(
+        variant.filename,
+        Buffer.from(createIcnsFromPngBuffers(pngBuffers))
+      );
+    } else if (variant.adaptiveLayer) {
+      const outputSize = Math.min(variant.width, variant.height);
+      const buffer = await renderAdaptiveIconLayerServer({
+        icon,
+        backgroundColor: variantStyle.backgroundColor,
+        iconColor: variantStyle.iconColor,
+        outputSize,
+        // Scale the glyph to the 66dp safe zone
+        padding: getRasterPadding(
+          variantStyle.iconSize,
+          outputSize,
+          ADAPTIVE_ICON_SAFE_ZONE_RATIO
+        ),
+        layer: variant.adaptiveLayer,
+        iconColorStyle: variantStyle.iconColorStyle,
+        iconTransform: variantStyle.iconTransform,
+      });
+      assets.set(variant.filename, buffer);
+    } else if (variant.glyphColor) {
+      const artboardSize = Math.min(variant.width, variant.height);
+      const buffer = await renderGlyphServer({
+        icon,
+        color: variant.glyphColor,
+        width: variant.width,
+        height: variant.height,
+        padding: getRasterPadding(variantStyle.iconSize, artboardSize),
+        format: variant.format,
+        iconColorStyle: variantStyle.iconColorStyle,
+        iconTransform: variantStyle.iconTransform,
+      });
+      const { data } = await sharp(buffer)
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      assertGlyphColorPixels(variant.filename, data, variant.glyphColor);
+      assets.set(variant.filename, buffer);
+    } else if (variant.purpose === "maskable") {
+      // Full-bleed, opaque square with the glyph inside the 80% safe zone
+      const artboardSize = Math.min(variant.width, variant.height);
+      const buffer = await renderRasterServer({
+        icon,
+        backgroundColor: variantStyle.backgroundColor,
+        iconColor: variantStyle.iconColor,
+        size: artboardSize,
+        padding: getRasterPadding(
+          variantStyle.iconSize,
+          artboardSize,
+          MASKABLE_SAFE_ZONE_RATIO
+        ),
+        width: variant.width,
+        height: variant.height,
+        format: variant.format,
+        quality: variant.quality ? variant.quality / 100 : undefined,
+        maxFileSize: variant.maxSize ? variant.maxSize * 1024 : undefined,
+        flattenTransparency: true,
+        iconShadow: variantStyle.iconShadow,
+        iconColorStyle: variantStyle.iconColorStyle,
+        iconTransform: variantStyle.iconTransform,
+      });
+      assets.set(variant.filename, buffer);
+    } else {
+      const buffer = await renderRasterVariant(
+        icon,
+        variantStyle,
+        variant.width,
+        variant.height,
+        variant.format,
+        variant.quality,
+        variant.maxSize,
+        variant.flattenTransparency
+      );
+      assets.set(variant.filename, buffer);
+    }
+  }
+
+  return assets;
+}
+
+/**
+ * Describe a rendered file for the platform rule checks
+ * (server counterpart of `inspectExportAsset`)
+ */
+async function inspectExportAssetServer(
+  filename: string,
+  data: Buffer
+): Promise<RenderedAssetInfo> {
+  const info: RenderedAssetInfo = { filename, size: data.length };
+  const extension = filename.slice(filename.lastIndexOf(".") + 1);
+
+  if (extension === "svg") {
+    return { ...info, svg: data.toString("utf8") };
+  }
+  if (!["png", "webp", "jpg", "jpeg"].includes(extension)) {
+    // ICO/ICNS containers are only checked by file size
+    return info;
+  }
+
+  const image = sharp(data);
+  const { width, height } = await image.metadata();
+  const { isOpaque } = await image.stats();
+  return { ...info, width, height, hasTransparency: !isOpaque };
+}
+
+/**
+ * Generate the export ZIP (assets plus export-metadata.json) for an icon
+ */
+export async function generateExportZipServer(
+  icon: IconMetadata,
+  style: ServerExportStyle,
+  variants: ExportVariantSpec[],
+  options: ServerExportOptions = {}
+): Promise<ServerExportResult> {
+  const zip = new JSZip();
+  const filenames: string[] = [];
+  const resolvedVariants = resolveVariantFilenames(variants, {
+    iconId: icon.id,
+    iconName: icon.name,
+    preset: options.presetName,
+  });
+
+  const assets = await generateExportAssetsServer(
+    icon,
+    style,
+    resolvedVariants
+  );
+  const infos: RenderedAssetInfo[] = [];
+  for (const [filename, data] of assets.entries()) {
+    zip.file(filename, data);
+    filenames.push(filename);
+    infos.push(await inspectExportAssetServer(filename, data));
+  }
+  const issues = validateExportAssets(
+    {
+      id: options.presetId,
+      packaging: options.packaging,
+      variants: resolvedVariants,
+    },
+    infos
+  );
+
+  const packagingFiles = generatePackagingFiles(options.packaging, filenames, {
+    variants: resolvedVariants,
+    backgroundColor: style.backgroundColor,
+  });
+  for (const [path, content] of packagingFiles) {
+    zip.file(path, content);
+    filenames.push(path);
+  }
+
+  const metadata: ExportMetadata = {
+    exportedAt: new Date().toISOString(),
+    iconId: icon.id,
+    iconName: icon.name,
+    customization: {
+      backgroundColor: style.backgroundColor,
+      iconColor: style.iconColor,
+      iconSize: style.iconSize,
+      backgroundShape: style.backgroundShape,
+      cornerRadius: style.cornerRadius,
+      borderEnabled: style.borderEnabled,
+      borderColor: style.borderColor,
+      borderWidth: style.borderWidth,
+      iconShadow: style.iconShadow,
+      iconColorStyle: style.iconColorStyle,
+      iconTransform: style.iconTransform,
+    },
+    locations: [],
+    variants: filenames,
+    ...(issues.length > 0 && { issues }),
+  };
+
+  zip.file("export-metadata.json", JSON.stringify(metadata, null, 2));
+
+  return {
+    zip: await zip.generateAsync({ type: "uint8array" }),
+    metadata,
+    filenames,
+    issues,
+  };
+}
+
+/**
+ * ZIP download filename for a preset (matches the in-app export naming)
+ */
+export function getBundleZipFilename(preset?: ExportPreset): string {
+  if (preset) {
+    return `${preset.name.toLowerCase().replace(/\s+/g, "-")}-icons.zip`;
+  }
+  return "app-icons.zip";
+}
@@ -0,0 +1,152 @@
+/**
+ * Export filename templates
+ *
+ * Variant filenames may contain `{token}` placeholders and `/` separated
+ * folders, e.g. `android/mipmap-{density}/ic_launcher.png`. Templates are
+ * resolved for each exported icon before rendering, so packaging files
+ * (Contents.json, site.webmanifest, ...) reference the final paths.
+ */
+
+import {
+  getFormatExtension,
+  type ExportVariantConfig,
+} from "@/src/types/preset";
+import { ANDROID_MIPMAP_DENSITIES } from "./android-adaptive-icon";
+
+/**
+ * Placeholders available in variant filenames
+ */
+export const FILENAME_TEMPLATE_TOKENS = [
+  "size",
+  "width",
+  "height",
+  "scale",
+  "density",
+  "iconId",
+  "iconName",
+  "preset",
+  "format",
+  "style",
+] as const;
+
+export type FilenameTemplateToken = (typeof FILENAME_TEMPLATE_TOKENS)[number];
+
+/**
+ * Export-wide values for the `{iconId}`, `{iconName}`, `{preset}` and
+ * `{style}` placeholders
+ */
+export interface FilenameTemplateContext {
+  iconId?: string;
+  iconName?: string;
+  /** Export preset name */
+  preset?: string;
+  /** Style preset name */
+  style?: string;
+}
+
+/**
+ * Variant fields used to resolve a filename template
+ */
+export type FilenameTemplateVariant = Pick<
+  ExportVariantConfig,
+  "filename" | "width" | "height" | "format" | "scale"
+>;
+
+const TOKEN_PATTERN = /\{([^{}]*)\}/g;
+
+/**
+ * Lowercase a name and replace anything but letters and digits with dashes
+ * so it can be used inside a path segment
+ */
+export function slugifyFilenamePart(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Android density qualifier for a scale relative to mdpi (e.g. 3 -> "xxhdpi").
+ * Unknown scales fall back to "<scale>x".
+ */
+export function getAndroidDensity(scale: number): string {
+  return (
+    ANDROID_MIPMAP_DENSITIES.find((density) => density.scale === scale)?.name ??
+    `${scale}x`
+  );
+}
+
+function isTemplateToken(token: string): token is FilenameTemplateToken {
+  return (FILENAME_TEMPLATE_TOKENS as readonly string[]).includes(token);
+}
+
+/**
+ * Describe what is wrong with a filename template, or return null when it is
+ * a relative path using known placeholders
+ */
+export function getFilenameTemplateError(template: string): string | null {
+  for (const [, token] of template.matchAll(TOKEN_PATTERN)) {
+    if (!isTemplateToken(token)) {
+      return `Unknown placeholder {${token}}`;
+    }
+  }
+  if (template.includes("\\")) {
+    return "Use / to separate folders";
+  }
+  const segments = template.split("/");
+  if (
+    segments.some(
+      (segment) => segment === "" || segment === "." || segment === ".."
+    )
+  ) {
+    return "Filenames must be relative paths without empty, . or .. folders";
+  }
+  return null;
+}
+
+/**
+ * Resolve the placeholders of a variant filename.
+ * Throws when the template is invalid.
+ */
+export function resolveFilenameTemplate(
+  variant: FilenameTemplateVariant,
+  context: FilenameTemplateContext = {}
+): string {
+  const error = getFilenameTemplateError(variant.filename);
+  if (error) {
+    throw new Error(`Invalid filename "${variant.filename}": ${error}`);
+  }
+
+  const scale = variant.scale ?? 1;
+  const iconId = context.iconId ?? "icon";
+  const values: Record<FilenameTemplateToken, string> = {
+    size: `${variant.width}`,
+    width: `${variant.width}`,
+    height: `${variant.height}`,
+    scale: `${scale}`,
+    density: getAndroidDensity(scale),
+    iconId: slugifyFilenamePart(iconId) || "icon",
+    iconName: slugifyFilenamePart(context.iconName ?? iconId) || "icon",
+    preset: slugifyFilenamePart(context.preset ?? "") || "export",
+    format: getFormatExtension(variant.format),
+    style: slugifyFilenamePart(context.style ?? "") || "custom",
+  };
+
+  return variant.filename.replace(
+    TOKEN_PATTERN,
+    (_, token: FilenameTemplateToken) => values[token]
+  );
+}
+
+/**
+ * Resolve the filename of every variant (other fields are kept)
+ */
+export function resolveVariantFilenames<T extends FilenameTemplateVariant>(
+  variants: T[],
+  context: FilenameTemplateContext = {}
+): T[] {
+  return variants.map((variant) => ({
+    ...variant,
+    filename: resolveFilenameTemplate(variant, context),
+  }));
+}
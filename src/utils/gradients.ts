@@ -1,5 +1,5 @@
 /**
- * Gradient utilities and preset definitions for backgrounds
+ * Gradient utilities and preset definitions for backgrounds and icon fills
  */
 
 export interface LinearGradient {
@@ -155,6 +155,47 @@ export function gradientToSvgDef(
   return radialGradientToSvgDef(gradient, id, size);
 }
 
+/**
+ * Convert gradient to an SVG gradient definition spanning a fixed box in the
+ * user space of the element that references it. Unlike bounding-box
+ * gradients, every shape painted with it shares one gradient (e.g. all paths
+ * of an icon glyph).
+ */
+export function gradientToUserSpaceSvgDef(
+  gradient: Gradient,
+  id: string,
+  box: { x: number; y: number; width: number; height: number }
+): string {
+  const stops = gradient.stops
+    .map(
+      (stop) => `<stop offset="${stop.offset}%" stop-color="${stop.color}" />`
+    )
+    .join("\n    ");
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+
+  if (gradient.type === "linear") {
+    const angleRad = (gradient.angle * Math.PI) / 180;
+    const x1 = round(box.x + (0.5 - Math.sin(angleRad) * 0.5) * box.width);
+    const y1 = round(box.y + (0.5 - Math.cos(angleRad) * 0.5) * box.height);
+    const x2 = round(box.x + (0.5 + Math.sin(angleRad) * 0.5) * box.width);
+    const y2 = round(box.y + (0.5 + Math.cos(angleRad) * 0.5) * box.height);
+    return `<defs>
+  <linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}">
+    ${stops}
+  </linearGradient>
+</defs>`;
+  }
+
+  const cx = round(box.x + (gradient.centerX / 100) * box.width);
+  const cy = round(box.y + (gradient.centerY / 100) * box.height);
+  const r = round((gradient.radius / 100) * Math.max(box.width, box.height));
+  return `<defs>
+  <radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${cx}" cy="${cy}" r="${r}">
+    ${stops}
+  </radialGradient>
+</defs>`;
+}
+
 /**
  * Create linear gradient for Canvas
  */
@@ -8,6 +8,11 @@
 import { readFile } from "node:fs/promises";
 import path from "node:path";
 import type { IconCatalog, IconMetadata, IconPack } from "@/src/types/icon";
+import {
+  buildIconSearchIndex,
+  searchIconIndex,
+  type IconSearchEntry,
+} from "@/src/utils/icon-search";
 
 export type ApiIconPack = IconPack | "all" | "garden";
 
@@ -19,14 +24,20 @@ export interface SearchIconsOptions {
   offset?: number;
 }
 
+export interface ServerIconSearchResult {
+  icon: IconMetadata;
+  /** Relevance between 0 and 1, or null when no query was given */
+  score: number | null;
+}
+
 let catalogCache: IconCatalog | null = null;
-let searchIndexCache: Array<{ icon: IconMetadata; searchText: string }> | null =
-  null;
+let searchIndexCache: IconSearchEntry[] | null = null;
 
 const UI_PACK_MAP: Record<string, IconPack> = {
   garden: "zendesk-garden",
   feather: "feather",
   remixicon: "remixicon",
+  lucide: "lucide",
   emoji: "emoji",
   "custom-svg": "custom-svg",
   "custom-image": "custom-image",
@@ -49,17 +60,7 @@ function buildSearchIndex(catalog: IconCatalog) {
     return searchIndexCache;
   }
 
-  searchIndexCache = Object.values(catalog.icons).map((icon) => {
-    const searchText = `${icon.name} ${icon.id} ${icon.keywords.join(" ")} ${
-      icon.category ?? ""
-    }`.toLowerCase();
-
-    return {
-      icon,
-      searchText,
-    };
-  });
-
+  searchIndexCache = buildIconSearchIndex(Object.values(catalog.icons));
   return searchIndexCache;
 }
 
@@ -83,9 +84,12 @@ export async function getIconByIdServer(
   return catalog.icons[id] ?? null;
 }
 
+/**
+ * Search icons ordered by relevance (catalog order when the query is empty)
+ */
 export async function searchIconsServer(
   options: SearchIconsOptions
-): Promise<IconMetadata[]> {
+): Promise<ServerIconSearchResult[]> {
   const catalog = await loadIconCatalogServer();
   const {
     query = "",
@@ -95,24 +99,22 @@ export async function searchIconsServer(
     offset = 0,
   } = options;
 
-  const trimmedQuery = query.trim().toLowerCase();
+  const trimmedQuery = query.trim();
   const normalizedPack = normalizePack(pack);
   const normalizedCategory = category?.trim() || null;
 
-  const searched =
+  const searched: ServerIconSearchResult[] =
     trimmedQuery.length === 0
-      ? Object.values(catalog.icons)
-      : buildSearchIndex(catalog)
-          .filter(({ searchText }) => searchText.includes(trimmedQuery))
-          .map(({ icon }) => icon);
+      ? Object.values(catalog.icons).map((icon) => ({ icon, score: null }))
+      : searchIconIndex(buildSearchIndex(catalog), trimmedQuery);
 
   const byPack =
     normalizedPack === "all"
       ? searched
-      : searched.filter((icon) => icon.pack === normalizedPack);
+      : searched.filter(({ icon }) => icon.pack === normalizedPack);
 
   const byCategory = normalizedCategory
-    ? byPack.filter((icon) => icon.category === normalizedCategory)
+    ? byPack.filter(({ icon }) => icon.category === normalizedCategory)
     : byPack;
 
   const safeOffset = Math.max(0, offset);
@@ -6,28 +6,26 @@
  */
 
 import type { IconCatalog, IconMetadata, IconPack } from "../types/icon";
+import {
+  buildIconSearchIndex,
+  searchIconIndex,
+  type IconSearchEntry,
+} from "./icon-search";
+import {
+  getUserPackIconById,
+  getUserPackIcons,
+  USER_PACK_ICON_PREFIX,
+} from "./user-icon-packs";
 
 let catalogCache: IconCatalog | null = null;
-let searchIndexCache: Array<{ icon: IconMetadata; searchText: string }> | null =
-  null;
+let searchIndexCache: IconSearchEntry[] | null = null;
 
 function buildSearchIndex(catalog: IconCatalog) {
   if (searchIndexCache) {
     return searchIndexCache;
   }
 
-  searchIndexCache = Object.values(catalog.icons).map((icon) => {
-    const keywordsText = icon.keywords.join(" ");
-    const categoryText = icon.category ? ` ${icon.category}` : "";
-    const searchText =
-      `${icon.name} ${icon.id} ${keywordsText}${categoryText}`.toLowerCase();
-
-    return {
-      icon,
-      searchText,
-    };
-  });
-
+  searchIndexCache = buildIconSearchIndex(Object.values(catalog.icons));
   return searchIndexCache;
 }
 
@@ -73,6 +71,7 @@ export async function getIconsByPack(pack: IconPack): Promise<IconMetadata[]> {
     garden: "zendesk-garden",
     feather: "feather",
     remixicon: "remixicon",
+    lucide: "lucide",
   };
 
   const catalogPackName = packMap[pack] || pack;
@@ -119,25 +118,36 @@ export async function getIconById(id: string): Promise<IconMetadata | null> {
     return null;
   }
 
+  // Imported icon packs are stored in localStorage, not the catalog
+  if (id.startsWith(USER_PACK_ICON_PREFIX)) {
+    return getUserPackIconById(id);
+  }
+
   const catalog = await loadIconCatalog();
   return catalog.icons[id] || null;
 }
 
 /**
- * Search icons by keyword
+ * Search catalog and imported user pack icons by keyword, ordered by relevance.
+ * `extraIcons` (e.g. user emojis or custom SVGs) are ranked in the same list.
  */
-export async function searchIcons(query: string): Promise<IconMetadata[]> {
+export async function searchIcons(
+  query: string,
+  extraIcons: IconMetadata[] = []
+): Promise<IconMetadata[]> {
   const catalog = await loadIconCatalog();
-  const searchTerm = query.toLowerCase().trim();
+  const userPackIcons = getUserPackIcons();
 
-  if (!searchTerm) {
-    return Object.values(catalog.icons);
+  if (!query.trim()) {
+    return [...Object.values(catalog.icons), ...userPackIcons, ...extraIcons];
   }
 
-  const index = buildSearchIndex(catalog);
-  return index
-    .filter(({ searchText }) => searchText.includes(searchTerm))
-    .map(({ icon }) => icon);
+  // User packs and extra icons change at runtime, so they are indexed per search
+  const index = [
+    ...buildSearchIndex(catalog),
+    ...buildIconSearchIndex([...userPackIcons, ...extraIcons]),
+  ];
+  return searchIconIndex(index, query).map(({ icon }) => icon);
 }
 
 /**
@@ -152,8 +162,10 @@ export async function filterIconsByPack(
     garden: "zendesk-garden",
     feather: "feather",
     remixicon: "remixicon",
+    lucide: "lucide",
     emoji: "emoji",
     "custom-svg": "custom-svg",
+    "user-pack": "user-pack",
     all: "all", // This won't match any icon.pack, but that's fine
   };
 
@@ -0,0 +1,194 @@
+/**
+ * Multi-color icon styling
+ *
+ * By default every fill and stroke of an icon is flattened to the icon color.
+ * Duotone mode keeps two layers: the most used source color becomes the icon
+ * color and every other color becomes a secondary color with its own opacity.
+ * Mapped mode replaces each distinct source color with a chosen color.
+ * Shared by the browser and server renderers.
+ */
+
+export type IconColorMode = "single" | "duotone" | "mapped";
+
+export const ICON_COLOR_MODES: IconColorMode[] = [
+  "single",
+  "duotone",
+  "mapped",
+];
+
+export interface IconColorStyle {
+  mode: IconColorMode;
+  /** Duotone secondary color (hex) */
+  secondaryColor: string;
+  /** Duotone secondary opacity percentage (0-100) */
+  secondaryOpacity: number;
+  /**
+   * Mapped mode: normalized source color (`#rrggbb`, `currentColor` or a
+   * lowercase color keyword) to replacement hex color. Unmapped colors keep
+   * their source color; `currentColor` falls back to the icon color.
+   */
+  colorMap: Record<string, string>;
+}
+
+export const DEFAULT_ICON_COLOR_STYLE: IconColorStyle = {
+  mode: "single",
+  secondaryColor: "#ffffff",
+  secondaryOpacity: 40,
+  colorMap: {},
+};
+
+/**
+ * Returns the color to paint for a normalized source color
+ */
+export type IconPaintResolver = (sourceColor: string) => string;
+
+const PAINT_ATTRIBUTE_PATTERN = /\b(fill|stroke)=(["'])([^"']*)\2/gi;
+const PAINT_STYLE_PATTERN = /\b(fill|stroke):\s*([^;"'}]+)/gi;
+const CURRENT_COLOR_PATTERN = /\bcurrentColor\b/gi;
+
+/**
+ * Type guard for persisted color styles
+ */
+export function isIconColorStyle(value: unknown): value is IconColorStyle {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const style = value as IconColorStyle;
+  return (
+    ICON_COLOR_MODES.includes(style.mode) &&
+    typeof style.secondaryColor === "string" &&
+    typeof style.secondaryOpacity === "number" &&
+    typeof style.colorMap === "object" &&
+    style.colorMap !== null &&
+    Object.values(style.colorMap).every((color) => typeof color === "string")
+  );
+}
+
+/**
+ * Normalize a fill/stroke value for comparison.
+ * Returns null for values that are not recolored (none, gradients, ...).
+ */
+export function normalizeSvgColor(value: string): string | null {
+  const normalized = value.trim().toLowerCase();
+  if (
+    !normalized ||
+    normalized === "none" ||
+    normalized === "transparent" ||
+    normalized === "inherit" ||
+    normalized.startsWith("url(")
+  ) {
+    return null;
+  }
+  if (normalized === "currentcolor") {
+    return "currentColor";
+  }
+  const shortHex = normalized.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/);
+  if (shortHex) {
+    return `#${shortHex[1]}${shortHex[1]}${shortHex[2]}${shortHex[2]}${shortHex[3]}${shortHex[3]}`;
+  }
+  return normalized;
+}
+
+function countSourceColors(svgContent: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const add = (value: string) => {
+    const color = normalizeSvgColor(value);
+    if (color) {
+      counts.set(color, (counts.get(color) ?? 0) + 1);
+    }
+  };
+  for (const [, , , value] of svgContent.matchAll(PAINT_ATTRIBUTE_PATTERN)) {
+    add(value);
+  }
+  for (const [, , value] of svgContent.matchAll(PAINT_STYLE_PATTERN)) {
+    add(value);
+  }
+  return counts;
+}
+
+/**
+ * Distinct fill and stroke colors of an SVG, in document order
+ */
+export function getSvgSourceColors(svgContent: string): string[] {
+  return Array.from(countSourceColors(svgContent).keys());
+}
+
+/**
+ * Hex color with an opacity, as `rgba()` when partly transparent
+ */
+function withOpacity(hex: string, opacity: number): string {
+  const alpha = Math.max(0, Math.min(100, opacity)) / 100;
+  const match = hex.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match || alpha >= 1) {
+    return hex;
+  }
+  const [r, g, b] = match.slice(1).map((channel) => parseInt(channel, 16));
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+/**
+ * Create the paint resolver for a color style, or return undefined when the
+ * icon is flattened to the icon color (single mode) or keeps its colors.
+ * Duotone recolors only icons that allow color override; mapped colors are
+ * chosen explicitly, so they also apply to icons that keep their colors.
+ */
+export function createIconPaintResolver(
+  svgContent: string,
+  iconColor: string,
+  style: IconColorStyle | undefined,
+  allowColorOverride = true
+): IconPaintResolver | undefined {
+  if (!style || style.mode === "single") {
+    return undefined;
+  }
+
+  if (style.mode === "mapped") {
+    // Accept keys in any case or short hex form
+    const colorMap = new Map<string, string>();
+    for (const [source, color] of Object.entries(style.colorMap)) {
+      const normalized = normalizeSvgColor(source);
+      if (normalized) {
+        colorMap.set(normalized, color);
+      }
+    }
+    return (source) =>
+      colorMap.get(source) ?? (source === "currentColor" ? iconColor : source);
+  }
+
+  if (!allowColorOverride) {
+    return undefined;
+  }
+
+  // The most used color is the primary layer (ties keep document order)
+  let primary = "currentColor";
+  let primaryCount = 0;
+  for (const [color, count] of countSourceColors(svgContent)) {
+    if (count > primaryCount) {
+      primary = color;
+      primaryCount = count;
+    }
+  }
+  const secondary = withOpacity(style.secondaryColor, style.secondaryOpacity);
+  return (source) => (source === primary ? iconColor : secondary);
+}
+
+/**
+ * Replace fill and stroke colors (attributes, inline styles and remaining
+ * `currentColor` references) using a paint resolver. Values like `none` and
+ * gradient references are preserved.
+ */
+export function applyIconPaint(
+  svgContent: string,
+  resolve: IconPaintResolver
+): string {
+  return svgContent
+    .replace(PAINT_ATTRIBUTE_PATTERN, (match, property, _quote, value) => {
+      const color = normalizeSvgColor(value);
+      return color ? `${property}="${resolve(color)}"` : match;
+    })
+    .replace(PAINT_STYLE_PATTERN, (match, property, value) => {
+      const color = normalizeSvgColor(value);
+      return color ? `${property}: ${resolve(color)}` : match;
+    })
+    .replace(CURRENT_COLOR_PATTERN, () => resolve("currentColor"));
+}
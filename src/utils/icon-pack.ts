@@ -12,9 +12,11 @@ export function formatPackName(pack: IconPack | string): string {
     "zendesk-garden": "Garden",
     feather: "Feather",
     remixicon: "RemixIcon",
+    lucide: "Lucide",
     emoji: "Emoji",
     "custom-svg": "Custom SVG",
     "custom-image": "Custom Image",
+    "user-pack": "My Icon Packs",
   };
   return packMap[pack] || pack;
 }
@@ -0,0 +1,243 @@
+/**
+ * Ranked icon search shared by the client catalog and the API.
+ *
+ * Every query token must match (AND semantics). Each token is scored by its
+ * best match against an icon: exact name word > name prefix > keyword >
+ * substring > fuzzy (typo-tolerant edit distance). The icon score is the mean
+ * token score, with a full exact name match always ranking first.
+ */
+
+import type { IconMetadata } from "@/src/types/icon";
+
+export interface IconSearchEntry {
+  icon: IconMetadata;
+  /** Normalized name (lowercase, words separated by single spaces) */
+  name: string;
+  nameWords: string[];
+  /** Words from the id, keywords and category */
+  keywordWords: string[];
+  /** Combined lowercase text for substring matching */
+  searchText: string;
+}
+
+export interface ScoredIcon {
+  icon: IconMetadata;
+  /** Relevance between 0 and 1 (higher is better) */
+  score: number;
+}
+
+const EXACT_NAME_SCORE = 1;
+const NAME_WORD_SCORE = 0.9;
+const NAME_PREFIX_SCORE = 0.7;
+const KEYWORD_SCORE = 0.6;
+const KEYWORD_PREFIX_SCORE = 0.5;
+const SUBSTRING_SCORE = 0.4;
+const FUZZY_NAME_SCORE = 0.3;
+const FUZZY_KEYWORD_SCORE = 0.2;
+const FUZZY_DISTANCE_PENALTY = 0.05;
+
+function normalizeText(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function splitWords(value: string): string[] {
+  const normalized = normalizeText(value);
+  return normalized ? normalized.split(" ") : [];
+}
+
+/**
+ * Split a query into lowercase search tokens
+ */
+export function tokenizeQuery(query: string): string[] {
+  return Array.from(new Set(splitWords(query)));
+}
+
+/**
+ * Maximum edit distance tolerated for a token (short tokens must match exactly)
+ */
+function getMaxTypoDistance(token: string): number {
+  if (token.length < 4) return 0;
+  if (token.length < 8) return 1;
+  return 2;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions).
+ * Returns `maxDistance + 1` as soon as the distance is known to exceed it.
+ */
+export function editDistance(a: string, b: string, maxDistance = 2): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[b.length];
+}
+
+function bestFuzzyDistance(
+  token: string,
+  words: string[],
+  maxDistance: number
+): number {
+  let best = maxDistance + 1;
+  for (const word of words) {
+    const distance = editDistance(token, word, maxDistance);
+    if (distance < best) {
+      best = distance;
+      if (best <= 1) break;
+    }
+  }
+  return best;
+}
+
+/**
+ * Score a single query token against an entry (0 = no match)
+ */
+function scoreToken(entry: IconSearchEntry, token: string): number {
+  if (entry.nameWords.includes(token)) return NAME_WORD_SCORE;
+  if (entry.nameWords.some((word) => word.startsWith(token))) {
+    return NAME_PREFIX_SCORE;
+  }
+  if (entry.keywordWords.includes(token)) return KEYWORD_SCORE;
+  if (entry.keywordWords.some((word) => word.startsWith(token))) {
+    return KEYWORD_PREFIX_SCORE;
+  }
+  if (entry.searchText.includes(token)) return SUBSTRING_SCORE;
+
+  const maxDistance = getMaxTypoDistance(token);
+  if (maxDistance === 0) return 0;
+
+  const nameDistance = bestFuzzyDistance(token, entry.nameWords, maxDistance);
+  if (nameDistance <= maxDistance) {
+    return FUZZY_NAME_SCORE - (nameDistance - 1) * FUZZY_DISTANCE_PENALTY;
+  }
+
+  const keywordDistance = bestFuzzyDistance(
+    token,
+    entry.keywordWords,
+    maxDistance
+  );
+  if (keywordDistance <= maxDistance) {
+    return FUZZY_KEYWORD_SCORE - (keywordDistance - 1) * FUZZY_DISTANCE_PENALTY;
+  }
+
+  return 0;
+}
+
+/**
+ * Score an entry against a query (0 = not a match)
+ */
+function scoreIconEntry(
+  entry: IconSearchEntry,
+  tokens: string[],
+  normalizedQuery = tokens.join(" ")
+): number {
+  if (tokens.length === 0) return 0;
+
+  let total = 0;
+  for (const token of tokens) {
+    const tokenScore = scoreToken(entry, token);
+    if (tokenScore === 0) return 0;
+    total += tokenScore;
+  }
+
+  if (entry.name === normalizedQuery) {
+    return EXACT_NAME_SCORE;
+  }
+
+  return Math.round((total / tokens.length) * 1000) / 1000;
+}
+
+function createSearchEntry(icon: IconMetadata): IconSearchEntry {
+  const keywordSource = [icon.id, ...icon.keywords, icon.category ?? ""];
+
+  return {
+    icon,
+    name: normalizeText(icon.name),
+    nameWords: Array.from(new Set(splitWords(icon.name))),
+    keywordWords: Array.from(
+      new Set(keywordSource.flatMap((value) => splitWords(value)))
+    ),
+    searchText:
+      `${icon.name} ${icon.id} ${icon.keywords.join(" ")} ${icon.category ?? ""}`.toLowerCase(),
+  };
+}
+
+/**
+ * Build a reusable search index for a list of icons
+ */
+export function buildIconSearchIndex(icons: IconMetadata[]): IconSearchEntry[] {
+  return icons.map(createSearchEntry);
+}
+
+function compareScored(a: ScoredIcon, b: ScoredIcon): number {
+  return (
+    b.score - a.score ||
+    a.icon.name.length - b.icon.name.length ||
+    a.icon.name.localeCompare(b.icon.name) ||
+    a.icon.id.localeCompare(b.icon.id)
+  );
+}
+
+/**
+ * Search an index and return matches ordered by relevance
+ */
+export function searchIconIndex(
+  index: IconSearchEntry[],
+  query: string
+): ScoredIcon[] {
+  const tokens = tokenizeQuery(query);
+  if (tokens.length === 0) {
+    return [];
+  }
+
+  const normalizedQuery = tokens.join(" ");
+  const results: ScoredIcon[] = [];
+
+  for (const entry of index) {
+    const score = scoreIconEntry(entry, tokens, normalizedQuery);
+    if (score > 0) {
+      results.push({ icon: entry.icon, score });
+    }
+  }
+
+  return results.sort(compareScored);
+}
+
+/**
+ * Filter and rank an ad-hoc list of icons (e.g. user emojis or custom SVGs)
+ */
+export function rankIcons(
+  icons: IconMetadata[],
+  query: string
+): IconMetadata[] {
+  return searchIconIndex(buildIconSearchIndex(icons), query).map(
+    ({ icon }) => icon
+  );
+}
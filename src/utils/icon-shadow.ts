@@ -0,0 +1,202 @@
+/**
+ * Icon glyph shadows
+ *
+ * Shared by the browser and server renderers so SVG, raster and API output
+ * draw the same shadow. Both effects are plain SVG: a drop shadow is a blur
+ * filter on the glyph's alpha, a long shadow is the glyph repeated along a
+ * direction and flattened to one color. Shadows are clipped to the background
+ * shape so they end at its edge.
+ */
+
+import {
+  DEFAULT_BACKGROUND_SHAPE,
+  renderBackgroundShapeElement,
+  type BackgroundShape,
+} from "./background-shape";
+
+export type IconShadowType = "none" | "drop" | "long";
+
+export const ICON_SHADOW_TYPES: IconShadowType[] = ["none", "drop", "long"];
+
+/**
+ * Shadow drawn behind the icon glyph.
+ * Distances use normalized artboard units (320 = full artboard), like the
+ * border width. Settings of the inactive type are kept so switching between
+ * types does not lose them.
+ */
+export interface IconShadow {
+  type: IconShadowType;
+  /** Shadow color (hex) */
+  color: string;
+  /** Shadow opacity percentage (0-100) */
+  opacity: number;
+  /** Drop shadow horizontal offset */
+  offsetX: number;
+  /** Drop shadow vertical offset */
+  offsetY: number;
+  /** Drop shadow blur radius */
+  blur: number;
+  /** Long shadow direction in degrees (0 = right, 90 = down) */
+  angle: number;
+  /** Long shadow length */
+  length: number;
+}
+
+export const DEFAULT_ICON_SHADOW: IconShadow = {
+  type: "none",
+  color: "#000000",
+  opacity: 35,
+  offsetX: 0,
+  offsetY: 8,
+  blur: 12,
+  angle: 45,
+  length: 160,
+};
+
+/** Artboard size the shadow distances are expressed in */
+const SOURCE_SIZE = 320;
+
+/** Upper bound for glyph copies in a long shadow */
+const MAX_LONG_SHADOW_STEPS = 96;
+
+/**
+ * Type guard for persisted or imported shadows
+ */
+export function isIconShadow(value: unknown): value is IconShadow {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const shadow = value as IconShadow;
+  return (
+    ICON_SHADOW_TYPES.includes(shadow.type) &&
+    typeof shadow.color === "string" &&
+    [
+      shadow.opacity,
+      shadow.offsetX,
+      shadow.offsetY,
+      shadow.blur,
+      shadow.angle,
+      shadow.length,
+    ].every((field) => typeof field === "number" && Number.isFinite(field))
+  );
+}
+
+/**
+ * Whether a shadow draws anything
+ */
+export function isIconShadowVisible(
+  shadow: IconShadow | undefined
+): shadow is IconShadow {
+  if (!shadow || shadow.type === "none" || shadow.opacity <= 0) {
+    return false;
+  }
+  return shadow.type === "long" ? shadow.length > 0 : true;
+}
+
+/**
+ * Options for placing a shadow on an artboard
+ */
+export interface IconShadowLayout {
+  /** Artboard size in SVG user units */
+  size: number;
+  /** Corner radius of the artboard shape (clips the shadow) */
+  radius: number;
+  /** Background outline the shadow is clipped to */
+  shape?: BackgroundShape;
+}
+
+function createId(prefix: string): string {
+  return `${prefix}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Filter that paints the alpha of its input with the shadow color
+ */
+function createShadowFilter(
+  id: string,
+  shadow: IconShadow,
+  size: number
+): string {
+  const scale = size / SOURCE_SIZE;
+  const opacity = Math.min(100, shadow.opacity) / 100;
+  const paint = `<feFlood flood-color="${shadow.color}" flood-opacity="${opacity}"/>`;
+
+  if (shadow.type === "drop") {
+    const blur = round((Math.max(0, shadow.blur) * scale) / 2);
+    return `<filter id="${id}" filterUnits="userSpaceOnUse" x="0" y="0" width="${size}" height="${size}" color-interpolation-filters="sRGB">
+      <feGaussianBlur in="SourceAlpha" stdDeviation="${blur}"/>
+      <feOffset dx="${round(shadow.offsetX * scale)}" dy="${round(shadow.offsetY * scale)}" result="shadow"/>
+      ${paint}
+      <feComposite in2="shadow" operator="in"/>
+    </filter>`;
+  }
+
+  return `<filter id="${id}" filterUnits="userSpaceOnUse" x="0" y="0" width="${size}" height="${size}" color-interpolation-filters="sRGB">
+      ${paint}
+      <feComposite in2="SourceAlpha" operator="in"/>
+    </filter>`;
+}
+
+/**
+ * Glyph copies stepping along the long shadow direction
+ */
+function createLongShadowCopies(
+  glyphId: string,
+  shadow: IconShadow,
+  size: number
+): string {
+  const length = (shadow.length * size) / SOURCE_SIZE;
+  const steps = Math.min(MAX_LONG_SHADOW_STEPS, Math.max(1, Math.ceil(length)));
+  const radians = (shadow.angle * Math.PI) / 180;
+  const stepX = (Math.cos(radians) * length) / steps;
+  const stepY = (Math.sin(radians) * length) / steps;
+
+  const copies: string[] = [];
+  for (let step = 1; step <= steps; step++) {
+    copies.push(
+      `<use href="#${glyphId}" x="${round(stepX * step)}" y="${round(stepY * step)}"/>`
+    );
+  }
+  return copies.join("");
+}
+
+/**
+ * Draw a shadow behind glyph markup placed on an artboard.
+ * Returns the markup unchanged when the shadow is not visible.
+ */
+export function renderIconShadowMarkup(
+  glyph: string,
+  shadow: IconShadow | undefined,
+  layout: IconShadowLayout
+): string {
+  if (!isIconShadowVisible(shadow)) {
+    return glyph;
+  }
+
+  const { size } = layout;
+  const radius = Math.max(0, Math.min(layout.radius, size / 2));
+  const glyphId = createId("icon-glyph");
+  const filterId = createId("icon-shadow");
+  const clipId = createId("icon-shadow-clip");
+  const clipShape = renderBackgroundShapeElement(
+    layout.shape ?? DEFAULT_BACKGROUND_SHAPE,
+    { x: 0, y: 0, width: size, height: size, radius }
+  );
+
+  const shadowContent =
+    shadow.type === "drop"
+      ? `<use href="#${glyphId}"/>`
+      : createLongShadowCopies(glyphId, shadow, size);
+
+  return `<defs>
+    <g id="${glyphId}">${glyph}</g>
+    <clipPath id="${clipId}">${clipShape}</clipPath>
+    ${createShadowFilter(filterId, shadow, size)}
+  </defs>
+  <g clip-path="url(#${clipId})"><g filter="url(#${filterId})">${shadowContent}</g></g>
+  <use href="#${glyphId}"/>`;
+}
@@ -0,0 +1,135 @@
+/**
+ * Icon glyph placement (offset, rotation and mirroring)
+ *
+ * Applied after the glyph is centered, so it can correct optical centering
+ * (e.g. nudge a play triangle to the right). Shared by the browser and server
+ * renderers: SVG output wraps the glyph in a transform and canvas output
+ * applies the same transform to the context.
+ */
+
+/**
+ * Placement of the glyph on the artboard.
+ * Offsets use normalized artboard units (320 = full artboard), like the
+ * border width and shadow distances.
+ */
+export interface IconTransform {
+  /** Horizontal offset (positive = right) */
+  offsetX: number;
+  /** Vertical offset (positive = down) */
+  offsetY: number;
+  /** Clockwise rotation in degrees around the artboard center */
+  rotation: number;
+  /** Mirror horizontally */
+  flipX: boolean;
+  /** Mirror vertically */
+  flipY: boolean;
+}
+
+export const DEFAULT_ICON_TRANSFORM: IconTransform = {
+  offsetX: 0,
+  offsetY: 0,
+  rotation: 0,
+  flipX: false,
+  flipY: false,
+};
+
+/** Artboard size the offsets are expressed in */
+const SOURCE_SIZE = 320;
+
+/**
+ * Canvas methods needed to apply a transform
+ */
+export type TransformContext = Pick<
+  CanvasRenderingContext2D,
+  "translate" | "rotate" | "scale"
+>;
+
+/**
+ * Type guard for persisted transforms
+ */
+export function isIconTransform(value: unknown): value is IconTransform {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const transform = value as IconTransform;
+  return (
+    [transform.offsetX, transform.offsetY, transform.rotation].every(
+      (field) => typeof field === "number" && Number.isFinite(field)
+    ) &&
+    typeof transform.flipX === "boolean" &&
+    typeof transform.flipY === "boolean"
+  );
+}
+
+/**
+ * Whether a transform moves the glyph at all
+ */
+export function isIconTransformActive(
+  transform: IconTransform | undefined
+): transform is IconTransform {
+  return (
+    !!transform &&
+    (transform.offsetX !== 0 ||
+      transform.offsetY !== 0 ||
+      transform.rotation % 360 !== 0 ||
+      transform.flipX ||
+      transform.flipY)
+  );
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * SVG transform list placing a centered glyph on an artboard of `size` user
+ * units, or an empty string when the transform does nothing
+ */
+export function getIconTransformValue(
+  transform: IconTransform | undefined,
+  size: number
+): string {
+  if (!isIconTransformActive(transform)) {
+    return "";
+  }
+
+  const center = size / 2;
+  const unit = size / SOURCE_SIZE;
+  const parts = [
+    `translate(${round(center + transform.offsetX * unit)}, ${round(center + transform.offsetY * unit)})`,
+  ];
+  if (transform.rotation % 360 !== 0) {
+    parts.push(`rotate(${transform.rotation})`);
+  }
+  if (transform.flipX || transform.flipY) {
+    parts.push(
+      `scale(${transform.flipX ? -1 : 1}, ${transform.flipY ? -1 : 1})`
+    );
+  }
+  parts.push(`translate(${-center}, ${-center})`);
+  return parts.join(" ");
+}
+
+/**
+ * Apply the same placement to a canvas context of the given size.
+ * Callers should `save()` and `restore()` around the glyph drawing.
+ */
+export function applyIconTransformToCanvas(
+  ctx: TransformContext,
+  transform: IconTransform | undefined,
+  width: number,
+  height: number
+): void {
+  if (!isIconTransformActive(transform)) {
+    return;
+  }
+
+  const unit = Math.min(width, height) / SOURCE_SIZE;
+  ctx.translate(
+    width / 2 + transform.offsetX * unit,
+    height / 2 + transform.offsetY * unit
+  );
+  ctx.rotate((transform.rotation * Math.PI) / 180);
+  ctx.scale(transform.flipX ? -1 : 1, transform.flipY ? -1 : 1);
+  ctx.translate(-width / 2, -height / 2);
+}
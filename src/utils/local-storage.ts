@@ -3,7 +3,11 @@
  * Namespaced to avoid collisions with other apps
  */
 
+import type { BackgroundShape } from "./background-shape";
 import type { BackgroundValue } from "./gradients";
+import type { IconColorStyle } from "./icon-colors";
+import type { IconShadow } from "./icon-shadow";
+import type { IconTransform } from "./icon-transform";
 
 const STORAGE_PREFIX = "zdk-icon-generator";
 const FAVORITES_KEY = `${STORAGE_PREFIX}:favorites`;
@@ -157,14 +161,18 @@ export interface PersistedGeneratorState {
   selectedLocations: string[];
   selectedIconId?: string;
   backgroundColor: BackgroundValue;
-  iconColor: string;
+  iconColor: BackgroundValue;
   selectedPack: string;
   iconSize: number;
   svgIconSize?: number;
+  backgroundShape?: BackgroundShape;
   cornerRadius?: number;
   borderEnabled?: boolean;
   borderColor?: string;
   borderWidth?: number;
+  iconShadow?: IconShadow;
+  iconColorStyle?: IconColorStyle;
+  iconTransform?: IconTransform;
 }
 
 /**
@@ -0,0 +1,510 @@
+/**
+ * OpenAPI 3.1 document for the icon API.
+ *
+ * Request bodies are generated from the zod schemas in `api-schemas.ts` so the
+ * document cannot drift from the validation the routes actually perform.
+ */
+
+import { z } from "zod";
+import {
+  API_ICON_PACKS,
+  backgroundSchema,
+  batchJobSchema,
+  batchStyleSchema,
+  bundleRequestSchema,
+  canvasLayerSchema,
+  canvasRenderRequestSchema,
+  exportVariantSchema,
+  generateBatchRequestSchema,
+  iconColorStyleSchema,
+  iconTransformSchema,
+  iconShadowSchema,
+  generateRequestSchema,
+  ICON_SEARCH_LIMITS,
+} from "@/src/utils/api-schemas";
+
+type JsonSchema = Record<string, unknown>;
+
+const API_VERSION = "1.0.0";
+
+const schemaRef = (id: string): JsonSchema => ({
+  $ref: `#/components/schemas/${id}`,
+});
+
+/**
+ * Convert the request schemas into OpenAPI component schemas.
+ * Shared schemas are registered first so request bodies reference them.
+ */
+function buildRequestSchemas(): Record<string, JsonSchema> {
+  const registry = z.registry<{ id: string }>();
+  registry.add(backgroundSchema, { id: "Background" });
+  registry.add(iconShadowSchema, { id: "IconShadow" });
+  registry.add(iconColorStyleSchema, { id: "IconColorStyle" });
+  registry.add(iconTransformSchema, { id: "IconTransform" });
+  registry.add(exportVariantSchema, { id: "ExportVariant" });
+  registry.add(batchStyleSchema, { id: "BatchStyle" });
+  registry.add(batchJobSchema, { id: "BatchJob" });
+  registry.add(canvasLayerSchema, { id: "CanvasLayer" });
+  registry.add(generateRequestSchema, { id: "GenerateRequest" });
+  registry.add(generateBatchRequestSchema, { id: "GenerateBatchRequest" });
+  registry.add(bundleRequestSchema, { id: "BundleRequest" });
+  registry.add(canvasRenderRequestSchema, { id: "CanvasRenderRequest" });
+
+  const { schemas } = z.toJSONSchema(registry, {
+    io: "input",
+    uri: (id) => `#/components/schemas/${id}`,
+  });
+
+  const components: Record<string, JsonSchema> = {};
+  for (const [id, schema] of Object.entries(schemas)) {
+    const { $schema: _schema, $id: _id, ...rest } = schema as JsonSchema;
+    components[id] = rest;
+  }
+
+  // Jobs are validated one by one at runtime (so a bad job does not fail the
+  // batch), which leaves them untyped in the zod schema
+  const batchRequest = components.GenerateBatchRequest as {
+    properties: { jobs: JsonSchema };
+  };
+  batchRequest.properties.jobs = {
+    ...batchRequest.properties.jobs,
+    items: schemaRef("BatchJob"),
+  };
+
+  // Refinements are not representable in JSON Schema
+  components.BundleRequest = {
+    ...components.BundleRequest,
+    description: "Provide exactly one of presetId or variants",
+  };
+
+  return components;
+}
+
+const RESPONSE_SCHEMAS: Record<string, JsonSchema> = {
+  Error: {
+    type: "object",
+    properties: {
+      error: { type: "string" },
+      message: { type: "string" },
+      details: {},
+    },
+    required: ["error", "message"],
+  },
+  IconSummary: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      name: { type: "string" },
+      pack: { type: "string" },
+      variant: { type: "string" },
+      keywords: { type: "array", items: { type: "string" } },
+      category: { type: "string" },
+      size: { type: "number" },
+      isRasterized: { type: "boolean" },
+    },
+    required: ["id", "name", "pack", "keywords", "isRasterized"],
+  },
+  IconSearchResult: {
+    allOf: [
+      schemaRef("IconSummary"),
+      {
+        type: "object",
+        properties: {
+          score: {
+            type: ["number", "null"],
+            minimum: 0,
+            maximum: 1,
+            description:
+              "Relevance (1 = exact name match); null when no query was given",
+          },
+        },
+        required: ["score"],
+      },
+    ],
+  },
+  IconDetail: {
+    allOf: [
+      schemaRef("IconSummary"),
+      {
+        type: "object",
+        properties: { svg: { type: "string" } },
+        required: ["svg"],
+      },
+    ],
+  },
+  IconSearchResponse: {
+    type: "object",
+    properties: {
+      query: {
+        type: "object",
+        properties: {
+          q: { type: "string" },
+          pack: { type: "string" },
+          category: { type: ["string", "null"] },
+          limit: { type: "integer" },
+          offset: { type: "integer" },
+        },
+      },
+      count: { type: "integer" },
+      icons: { type: "array", items: schemaRef("IconSearchResult") },
+    },
+    required: ["query", "count", "icons"],
+  },
+  GenerateResponse: {
+    type: "object",
+    properties: {
+      icon: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          name: { type: "string" },
+          pack: { type: "string" },
+        },
+      },
+      settings: { type: "object" },
+      svg: { type: "string" },
+    },
+    required: ["icon", "settings", "svg"],
+  },
+  GenerateBatchResponse: {
+    type: "object",
+    properties: {
+      count: { type: "integer" },
+      succeeded: { type: "integer" },
+      failed: { type: "integer" },
+      results: {
+        type: "array",
+        items: {
+          oneOf: [
+            {
+              type: "object",
+              properties: {
+                index: { type: "integer" },
+                iconId: { type: "string" },
+                filename: { type: "string" },
+                svg: { type: "string" },
+              },
+              required: ["index", "iconId", "filename", "svg"],
+            },
+            {
+              allOf: [
+                schemaRef("Error"),
+                {
+                  type: "object",
+                  properties: {
+                    index: { type: "integer" },
+                    iconId: { type: "string" },
+                  },
+                  required: ["index"],
+                },
+              ],
+            },
+          ],
+        },
+      },
+    },
+    required: ["count", "succeeded", "failed", "results"],
+  },
+  CanvasRenderResponse: {
+    type: "object",
+    properties: {
+      outputSize: { type: "integer" },
+      layerCount: { type: "integer" },
+      svg: { type: "string" },
+    },
+    required: ["outputSize", "layerCount", "svg"],
+  },
+};
+
+function jsonResponse(description: string, schemaId: string): JsonSchema {
+  return {
+    description,
+    content: { "application/json": { schema: schemaRef(schemaId) } },
+  };
+}
+
+function errorResponse(description: string): JsonSchema {
+  return jsonResponse(description, "Error");
+}
+
+function jsonBody(schemaId: string): JsonSchema {
+  return {
+    required: true,
+    content: { "application/json": { schema: schemaRef(schemaId) } },
+  };
+}
+
+function formatParam(values: string[], description: string): JsonSchema {
+  return {
+    name: "format",
+    in: "query",
+    required: false,
+    description,
+    schema: { type: "string", enum: values },
+  };
+}
+
+const BINARY_SCHEMA: JsonSchema = { type: "string", format: "binary" };
+
+function listResponse(description: string, itemKey: string): JsonSchema {
+  return {
+    description,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            count: { type: "integer" },
+            [itemKey]: { type: "array", items: {} },
+          },
+          required: ["count", itemKey],
+        },
+      },
+    },
+  };
+}
+
+function buildPaths(): Record<string, JsonSchema> {
+  return {
+    "/api/icons": {
+      get: {
+        operationId: "searchIcons",
+        summary: "Search and filter icons",
+        parameters: [
+          {
+            name: "q",
+            in: "query",
+            required: false,
+            description:
+              "Search text; every word must match and results are ranked by relevance",
+            schema: { type: "string" },
+          },
+          {
+            name: "pack",
+            in: "query",
+            required: false,
+            description: "Icon pack filter (unknown values fall back to all)",
+            schema: { type: "string", enum: API_ICON_PACKS, default: "all" },
+          },
+          {
+            name: "category",
+            in: "query",
+            required: false,
+            description: "Category name (mainly for RemixIcon)",
+            schema: { type: "string" },
+          },
+          {
+            name: "limit",
+            in: "query",
+            required: false,
+            description: "Maximum number of results (clamped to the range)",
+            schema: {
+              type: "integer",
+              minimum: 1,
+              maximum: ICON_SEARCH_LIMITS.maxLimit,
+              default: ICON_SEARCH_LIMITS.defaultLimit,
+            },
+          },
+          {
+            name: "offset",
+            in: "query",
+            required: false,
+            description: "Number of results to skip (clamped to the range)",
+            schema: {
+              type: "integer",
+              minimum: 0,
+              maximum: ICON_SEARCH_LIMITS.maxOffset,
+              default: 0,
+            },
+          },
+        ],
+        responses: {
+          "200": jsonResponse("Matching icons", "IconSearchResponse"),
+          "500": errorResponse("Search failed"),
+        },
+      },
+    },
+    "/api/icons/{id}": {
+      get: {
+        operationId: "getIcon",
+        summary: "Get icon metadata and source SVG",
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": jsonResponse("Icon details", "IconDetail"),
+          "404": errorResponse("Icon not found"),
+          "500": errorResponse("Icon read failed"),
+        },
+      },
+    },
+    "/api/icons/packs": {
+      get: {
+        operationId: "listIconPacks",
+        summary: "List icon packs with counts",
+        responses: {
+          "200": listResponse("Icon packs", "packs"),
+          "500": errorResponse("Pack listing failed"),
+        },
+      },
+    },
+    "/api/icons/categories": {
+      get: {
+        operationId: "listIconCategories",
+        summary: "List RemixIcon categories",
+        responses: {
+          "200": listResponse("Categories", "categories"),
+          "500": errorResponse("Category listing failed"),
+        },
+      },
+    },
+    "/api/config/gradients": {
+      get: {
+        operationId: "listGradientPresets",
+        summary: "List gradient presets",
+        responses: {
+          "200": listResponse("Gradient presets", "presets"),
+          "500": errorResponse("Gradient listing failed"),
+        },
+      },
+    },
+    "/api/config/locations": {
+      get: {
+        operationId: "listAppLocations",
+        summary: "List Zendesk app locations",
+        responses: {
+          "200": listResponse("App locations", "locations"),
+          "500": errorResponse("Location listing failed"),
+        },
+      },
+    },
+    "/api/generate": {
+      post: {
+        operationId: "generateIcon",
+        summary: "Generate a single icon as SVG or raster image",
+        parameters: [
+          formatParam(
+            ["json", "svg", "png", "webp", "jpeg", "jpg"],
+            "Response format (overrides the Accept header)"
+          ),
+        ],
+        requestBody: jsonBody("GenerateRequest"),
+        responses: {
+          "200": {
+            description: "Generated icon",
+            content: {
+              "application/json": { schema: schemaRef("GenerateResponse") },
+              "image/svg+xml": { schema: { type: "string" } },
+              "image/png": { schema: BINARY_SCHEMA },
+              "image/webp": { schema: BINARY_SCHEMA },
+              "image/jpeg": { schema: BINARY_SCHEMA },
+            },
+          },
+          "400": errorResponse("Invalid request body"),
+          "404": errorResponse("Icon not found"),
+          "500": errorResponse("Generation failed"),
+        },
+      },
+    },
+    "/api/generate/batch": {
+      post: {
+        operationId: "generateIconBatch",
+        summary: "Generate many SVG icons with per-job error reporting",
+        parameters: [
+          formatParam(
+            ["json", "zip"],
+            "Response format (overrides the Accept header)"
+          ),
+        ],
+        requestBody: jsonBody("GenerateBatchRequest"),
+        responses: {
+          "200": {
+            description: "Batch results",
+            content: {
+              "application/json": {
+                schema: schemaRef("GenerateBatchResponse"),
+              },
+              "application/zip": { schema: BINARY_SCHEMA },
+            },
+          },
+          "400": errorResponse("Invalid request body"),
+          "500": errorResponse("Batch generation failed"),
+        },
+      },
+    },
+    "/api/bundle": {
+      post: {
+        operationId: "generateBundle",
+        summary: "Generate a preset-driven export bundle ZIP",
+        requestBody: jsonBody("BundleRequest"),
+        responses: {
+          "200": {
+            description: "Export bundle",
+            content: { "application/zip": { schema: BINARY_SCHEMA } },
+          },
+          "400": errorResponse("Invalid request body"),
+          "404": errorResponse("Icon or preset not found"),
+          "422": errorResponse(
+            "Variants or rendered files break platform rules"
+          ),
+          "500": errorResponse("Bundle generation failed"),
+        },
+      },
+    },
+    "/api/canvas": {
+      post: {
+        operationId: "renderCanvas",
+        summary: "Render a multi-layer canvas composition to SVG",
+        parameters: [
+          formatParam(
+            ["json", "svg"],
+            "Response format (overrides the Accept header)"
+          ),
+        ],
+        requestBody: jsonBody("CanvasRenderRequest"),
+        responses: {
+          "200": {
+            description: "Rendered composition",
+            content: {
+              "application/json": {
+                schema: schemaRef("CanvasRenderResponse"),
+              },
+              "image/svg+xml": { schema: { type: "string" } },
+            },
+          },
+          "400": errorResponse("Invalid request body"),
+          "404": errorResponse("Icon not found"),
+          "500": errorResponse("Canvas render failed"),
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Build the OpenAPI document with the given server base URL
+ */
+export function buildOpenApiDocument(baseUrl: string): JsonSchema {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Icon Generator API",
+      version: API_VERSION,
+      description:
+        "Search icons and generate SVG, raster and bundle exports. Human-readable reference: /api-docs.md",
+    },
+    servers: [{ url: baseUrl.replace(/\/$/, "") }],
+    paths: buildPaths(),
+    components: {
+      schemas: {
+        ...buildRequestSchemas(),
+        ...RESPONSE_SCHEMAS,
+      },
+    },
+  };
+}
@@ -0,0 +1,510 @@
+/**
+ * Platform rule checks for export presets and rendered assets
+ *
+ * Each platform lists the files it expects (size, format, squareness,
+ * transparency). Presets are checked before rendering and the rendered
+ * files are checked again before download, so custom presets and API
+ * requests get the same feedback as the built-in presets.
+ */
+
+import type {
+  ExportFormat,
+  ExportPackaging,
+  ExportPreset,
+  ExportVariantConfig,
+} from "@/src/types/preset";
+import { analyzeZendeskSvg, isZendeskLocationSvgFile } from "./zendesk-svg";
+
+export type PlatformRuleSeverity = "error" | "warning";
+
+/**
+ * Problem found by a platform rule
+ */
+export interface PlatformRuleIssue {
+  severity: PlatformRuleSeverity;
+  /** Rule identifier, e.g. "required-file" or "transparency" */
+  rule: string;
+  message: string;
+  /** Affected file (omitted for preset-wide issues) */
+  filename?: string;
+}
+
+/**
+ * Expectations for one file (or group of files) of a platform
+ */
+export interface PlatformFileRule {
+  /** Basename of the file, or a pattern matching a group of files */
+  file: string | RegExp;
+  /** Name used in messages (defaults to the filename) */
+  label?: string;
+  /** Whether the preset must contain this file */
+  required?: boolean;
+  width?: number;
+  height?: number;
+  formats?: ExportFormat[];
+  square?: boolean;
+  /** "forbidden": the file must be opaque; "required": it needs an alpha channel */
+  transparency?: "forbidden" | "required";
+  /** Severity of violations (defaults to "error") */
+  severity?: PlatformRuleSeverity;
+}
+
+/**
+ * Rules of a target platform
+ */
+export interface PlatformRuleSet {
+  id: string;
+  name: string;
+  /** Built-in presets targeting this platform */
+  presetIds?: string[];
+  /** Presets with this packaging target this platform */
+  packaging?: ExportPackaging;
+  files: PlatformFileRule[];
+}
+
+/**
+ * Rendered file details checked by `validateExportAssets`
+ */
+export interface RenderedAssetInfo {
+  filename: string;
+  /** File size in bytes */
+  size: number;
+  width?: number;
+  height?: number;
+  /** Whether any pixel is not fully opaque (raster formats) */
+  hasTransparency?: boolean;
+  /** Markup of SVG files */
+  svg?: string;
+}
+
+/**
+ * Preset fields used by the rule checks
+ */
+export type PlatformRuleTarget = Pick<ExportPreset, "variants"> &
+  Partial<Pick<ExportPreset, "id" | "packaging">>;
+
+export const PLATFORM_RULE_SETS: PlatformRuleSet[] = [
+  {
+    id: "zendesk",
+    name: "Zendesk",
+    presetIds: ["zendesk-app", "zendesk-png-only"],
+    files: [
+      {
+        file: "logo.png",
+        required: true,
+        width: 320,
+        height: 320,
+        formats: ["png"],
+      },
+      {
+        file: "logo-small.png",
+        required: true,
+        width: 128,
+        height: 128,
+        formats: ["png"],
+      },
+    ],
+  },
+  {
+    id: "raycast",
+    name: "Raycast",
+    presetIds: ["raycast-extension"],
+    files: [
+      {
+        file: "icon.png",
+        required: true,
+        width: 512,
+        height: 512,
+        formats: ["png"],
+      },
+    ],
+  },
+  {
+    id: "favicon",
+    name: "Favicon",
+    presetIds: ["favicon-bundle"],
+    files: [
+      { file: "favicon.ico", required: true, formats: ["ico"] },
+      {
+        file: "apple-touch-icon.png",
+        width: 180,
+        height: 180,
+        formats: ["png"],
+        // iOS fills transparent areas with black
+        transparency: "forbidden",
+        severity: "warning",
+      },
+    ],
+  },
+  {
+    id: "apple",
+    name: "Apple",
+    packaging: "xcode-asset-catalog",
+    files: [
+      {
+        file: /^icon-\d+\.png$/,
+        label: "iOS, iPadOS and watchOS icons",
+        square: true,
+        formats: ["png"],
+        transparency: "forbidden",
+      },
+      { file: "icon-1024.png", label: "App Store icon", required: true },
+    ],
+  },
+  {
+    id: "android",
+    name: "Android",
+    packaging: "android-adaptive-icon",
+    files: [
+      {
+        file: /^ic_launcher_(foreground|background|monochrome)\.png$/,
+        label: "Adaptive icon layers",
+        square: true,
+        formats: ["png"],
+      },
+      {
+        file: "ic_launcher_foreground.png",
+        label: "Adaptive icon foreground layer",
+        required: true,
+      },
+      {
+        file: "ic_launcher_background.png",
+        label: "Adaptive icon background layer",
+        required: true,
+        transparency: "forbidden",
+        severity: "warning",
+      },
+    ],
+  },
+  {
+    id: "microsoft-teams",
+    name: "Microsoft Teams",
+    packaging: "teams-app",
+    files: [
+      {
+        file: "color.png",
+        required: true,
+        width: 192,
+        height: 192,
+        formats: ["png"],
+      },
+      {
+        file: "outline.png",
+        required: true,
+        width: 32,
+        height: 32,
+        formats: ["png"],
+        transparency: "required",
+      },
+    ],
+  },
+  {
+    id: "web-extension",
+    name: "Browser extension",
+    packaging: "web-extension",
+    files: [
+      {
+        file: "icon-128.png",
+        label: "Store icon",
+        required: true,
+        width: 128,
+        height: 128,
+        formats: ["png"],
+      },
+    ],
+  },
+];
+
+function getBasename(filename: string): string {
+  return filename.slice(filename.lastIndexOf("/") + 1);
+}
+
+function matchesFile(rule: PlatformFileRule, filename: string): boolean {
+  const basename = getBasename(filename);
+  return typeof rule.file === "string"
+    ? basename === rule.file
+    : rule.file.test(basename);
+}
+
+function getRuleLabel(rule: PlatformFileRule): string {
+  return rule.label ?? String(rule.file);
+}
+
+/**
+ * Platforms whose rules apply to a preset
+ */
+export function getPlatformRuleSets(
+  target: PlatformRuleTarget
+): PlatformRuleSet[] {
+  return PLATFORM_RULE_SETS.filter(
+    (ruleSet) =>
+      (target.id !== undefined && ruleSet.presetIds?.includes(target.id)) ||
+      (target.packaging !== undefined && ruleSet.packaging === target.packaging)
+  );
+}
+
+/**
+ * Size, format and squareness checks shared by variants and rendered files
+ */
+function checkDimensions(
+  ruleSet: PlatformRuleSet,
+  rule: PlatformFileRule,
+  filename: string,
+  width: number,
+  height: number
+): PlatformRuleIssue[] {
+  const severity = rule.severity ?? "error";
+  const issues: PlatformRuleIssue[] = [];
+
+  if (
+    (rule.width !== undefined && width !== rule.width) ||
+    (rule.height !== undefined && height !== rule.height)
+  ) {
+    issues.push({
+      severity,
+      rule: "size",
+      filename,
+      message: `${ruleSet.name} expects ${filename} to be ${rule.width ?? width}×${rule.height ?? height} (got ${width}×${height})`,
+    });
+  } else if (rule.square && width !== height) {
+    issues.push({
+      severity,
+      rule: "square",
+      filename,
+      message: `${ruleSet.name} expects ${filename} to be square (got ${width}×${height})`,
+    });
+  }
+  return issues;
+}
+
+/**
+ * Checks that only depend on the variant options, for every preset
+ */
+function checkVariantOptions(
+  variant: ExportVariantConfig
+): PlatformRuleIssue[] {
+  const issues: PlatformRuleIssue[] = [];
+  const { filename, format } = variant;
+  const isPngOrWebp = format === "png" || format === "webp";
+
+  if (
+    (format === "ico" || format === "icns") &&
+    variant.width !== variant.height
+  ) {
+    issues.push({
+      severity: "warning",
+      rule: "square",
+      filename,
+      message: `${filename} is not square; ${format.toUpperCase()} files only hold square images`,
+    });
+  }
+  if (variant.adaptiveLayer && format !== "png") {
+    issues.push({
+      severity: "error",
+      rule: "format",
+      filename,
+      message: `${filename}: Android adaptive icon layers must be PNG`,
+    });
+  }
+  if ((variant.purpose || variant.glyphColor) && !isPngOrWebp) {
+    issues.push({
+      severity: "error",
+      rule: "format",
+      filename,
+      message: `${filename}: manifest and glyph-only icons must be PNG or WebP`,
+    });
+  }
+  if (variant.maxSize !== undefined && format !== "jpeg" && format !== "webp") {
+    issues.push({
+      severity: "warning",
+      rule: "max-size",
+      filename,
+      message: `${filename}: max size is only enforced for JPEG and WebP files`,
+    });
+  }
+  return issues;
+}
+
+/**
+ * Check a preset's variants against the rules of its platforms
+ */
+export function validatePresetRules(
+  target: PlatformRuleTarget
+): PlatformRuleIssue[] {
+  const issues: PlatformRuleIssue[] = [];
+  const seen = new Set<string>();
+
+  for (const variant of target.variants) {
+    if (seen.has(variant.filename)) {
+      issues.push({
+        severity: "error",
+        rule: "duplicate-file",
+        filename: variant.filename,
+        message: `${variant.filename} is exported more than once`,
+      });
+    }
+    seen.add(variant.filename);
+    issues.push(...checkVariantOptions(variant));
+  }
+
+  for (const ruleSet of getPlatformRuleSets(target)) {
+    for (const rule of ruleSet.files) {
+      const severity = rule.severity ?? "error";
+      const variants = target.variants.filter((variant) =>
+        matchesFile(rule, variant.filename)
+      );
+
+      if (rule.required && variants.length === 0) {
+        issues.push({
+          severity,
+          rule: "required-file",
+          message: `${ruleSet.name} requires ${getRuleLabel(rule)}`,
+        });
+      }
+
+      for (const variant of variants) {
+        if (rule.formats && !rule.formats.includes(variant.format)) {
+          issues.push({
+            severity,
+            rule: "format",
+            filename: variant.filename,
+            message: `${ruleSet.name} expects ${variant.filename} as ${rule.formats.map((f) => f.toUpperCase()).join(" or ")}`,
+          });
+        }
+        if (rule.transparency === "required" && variant.format === "jpeg") {
+          issues.push({
+            severity,
+            rule: "transparency",
+            filename: variant.filename,
+            message: `${ruleSet.name} expects ${variant.filename} with a transparent background, which JPEG does not support`,
+          });
+        }
+        issues.push(
+          ...checkDimensions(
+            ruleSet,
+            rule,
+            variant.filename,
+            variant.width,
+            variant.height
+          )
+        );
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Zendesk location SVGs are recolored by Zendesk and must stay plain vectors
+ */
+function checkZendeskLocationSvg(
+  filename: string,
+  svg: string
+): PlatformRuleIssue[] {
+  const analysis = analyzeZendeskSvg(svg);
+  const issues: PlatformRuleIssue[] = [];
+
+  if (analysis.hasHardcodedPaint) {
+    issues.push({
+      severity: "error",
+      rule: "svg-hardcoded-fill",
+      filename,
+      message: `${filename} must not hardcode fill or stroke colors (Zendesk applies its own)`,
+    });
+  }
+  if (analysis.hasRasterImage) {
+    issues.push({
+      severity: "error",
+      rule: "svg-raster-image",
+      filename,
+      message: `${filename} must not embed raster images`,
+    });
+  }
+  if (analysis.hasUnsupportedPaintServers) {
+    issues.push({
+      severity: "warning",
+      rule: "svg-paint-server",
+      filename,
+      message: `${filename} uses gradients, patterns or filters that Zendesk may not render`,
+    });
+  }
+  return issues;
+}
+
+/**
+ * Check rendered files against the variants they were rendered from and the
+ * rules of the preset's platforms
+ */
+export function validateExportAssets(
+  target: PlatformRuleTarget,
+  assets: RenderedAssetInfo[]
+): PlatformRuleIssue[] {
+  const issues: PlatformRuleIssue[] = [];
+  const ruleSets = getPlatformRuleSets(target);
+
+  for (const asset of assets) {
+    const variant = target.variants.find((v) => v.filename === asset.filename);
+
+    if (variant?.maxSize !== undefined && asset.size > variant.maxSize * 1024) {
+      issues.push({
+        severity: "warning",
+        rule: "max-size",
+        filename: asset.filename,
+        message: `${asset.filename} is ${Math.ceil(asset.size / 1024)} KB, above its ${variant.maxSize} KB limit`,
+      });
+    }
+
+    if (asset.svg !== undefined && isZendeskLocationSvgFile(asset.filename)) {
+      issues.push(...checkZendeskLocationSvg(asset.filename, asset.svg));
+    }
+
+    for (const ruleSet of ruleSets) {
+      for (const rule of ruleSet.files) {
+        if (!matchesFile(rule, asset.filename)) {
+          continue;
+        }
+        const severity = rule.severity ?? "error";
+
+        if (asset.width !== undefined && asset.height !== undefined) {
+          issues.push(
+            ...checkDimensions(
+              ruleSet,
+              rule,
+              asset.filename,
+              asset.width,
+              asset.height
+            )
+          );
+        }
+        if (rule.transparency === "forbidden" && asset.hasTransparency) {
+          issues.push({
+            severity,
+            rule: "transparency",
+            filename: asset.filename,
+            message: `${ruleSet.name} expects ${asset.filename} to be opaque; use an opaque background or flatten transparency`,
+          });
+        } else if (
+          rule.transparency === "required" &&
+          asset.hasTransparency === false
+        ) {
+          issues.push({
+            severity,
+            rule: "transparency",
+            filename: asset.filename,
+            message: `${ruleSet.name} expects ${asset.filename} to have a transparent background`,
+          });
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Whether any issue blocks the export
+ */
+export function hasRuleErrors(issues: PlatformRuleIssue[]): boolean {
+  return issues.some((issue) => issue.severity === "error");
+}
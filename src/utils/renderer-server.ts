@@ -1,47 +1,85 @@
 /**
- * Server-safe SVG renderer.
+ * Server-safe SVG and raster renderer.
  *
  * This version intentionally avoids DOM-dependent measurements (getBBox) and
  * uses viewBox-based centering, which is stable in Node.js API routes.
+ * Raster output (PNG/WebP/JPEG) is produced by rasterizing the composed SVG
+ * with sharp.
  */
 
+import sharp from "sharp";
 import type { IconMetadata } from "@/src/types/icon";
+import type { AdaptiveIconLayer } from "@/src/types/preset";
+import {
+  DEFAULT_BACKGROUND_SHAPE,
+  renderBackgroundShapeElement,
+  type BackgroundShape,
+} from "@/src/utils/background-shape";
 import type { BackgroundValue } from "@/src/utils/gradients";
-import { gradientToSvgDef, isGradient } from "@/src/utils/gradients";
+import {
+  gradientToSvgDef,
+  gradientToUserSpaceSvgDef,
+  isGradient,
+} from "@/src/utils/gradients";
+import {
+  applyIconPaint,
+  createIconPaintResolver,
+  type IconColorStyle,
+} from "@/src/utils/icon-colors";
+import {
+  renderIconShadowMarkup,
+  type IconShadow,
+} from "@/src/utils/icon-shadow";
+import {
+  getIconTransformValue,
+  type IconTransform,
+} from "@/src/utils/icon-transform";
 import { applySvgColor } from "@/src/utils/renderer";
 import { toZendeskStaticSvgSource } from "@/src/utils/zendesk-svg";
 
 export interface ServerSvgRenderOptions {
   icon: IconMetadata;
   backgroundColor: BackgroundValue;
-  iconColor: string;
+  iconColor: BackgroundValue;
   size: number;
   padding?: number;
   outputSize?: number;
   zendeskLocationMode?: boolean;
+  /** Background outline (defaults to a rounded square) */
+  backgroundShape?: BackgroundShape;
   /** Corner radius percentage (0 = square, 100 = fully round) */
   cornerRadius?: number;
   borderEnabled?: boolean;
   borderColor?: string;
   borderWidth?: number;
+  /** Shadow behind the glyph (ignored in Zendesk location mode) */
+  iconShadow?: IconShadow;
+  /** Duotone or mapped glyph colors (defaults to a single icon color) */
+  iconColorStyle?: IconColorStyle;
+  /** Offset, rotation and mirroring applied after centering the glyph */
+  iconTransform?: IconTransform;
 }
 
 interface ServerShapeOptions {
+  backgroundShape?: BackgroundShape;
   cornerRadius?: number;
   borderEnabled?: boolean;
   borderColor?: string;
   borderWidth?: number;
 }
 
-function normalizeShapeOptions(
-  options: ServerShapeOptions,
-  baseSize: number
-): {
+interface NormalizedServerShape {
+  shape: BackgroundShape;
   radius: number;
   borderEnabled: boolean;
   borderColor: string;
   borderWidth: number;
-} {
+}
+
+function normalizeShapeOptions(
+  options: ServerShapeOptions,
+  baseSize: number
+): NormalizedServerShape {
   const sourceSize = 320;
   const cornerRadius = Math.max(0, Math.min(100, options.cornerRadius ?? 0));
   const radius = (cornerRadius / 100) * (baseSize / 2);
@@ -53,6 +91,7 @@ function normalizeShapeOptions(
     : 0;
 
   return {
+    shape: options.backgroundShape ?? DEFAULT_BACKGROUND_SHAPE,
     radius,
     borderEnabled: borderEnabled && borderWidth > 0,
     borderColor: options.borderColor ?? "#ffffff",
@@ -60,6 +99,56 @@ function normalizeShapeOptions(
   };
 }
 
+function buildBackgroundMarkup(
+  backgroundColor: BackgroundValue,
+  shape: NormalizedServerShape,
+  width: number,
+  height: number
+): { gradientDef: string; elements: string[] } {
+  const elements: string[] = [];
+  let gradientDef = "";
+
+  const fillValue = isGradient(backgroundColor)
+    ? `url(#bg-gradient-${Math.random().toString(36).slice(2, 11)})`
+    : backgroundColor;
+
+  if (isGradient(backgroundColor)) {
+    const gradientId = fillValue.slice(5, -1);
+    gradientDef = gradientToSvgDef(
+      backgroundColor,
+      gradientId,
+      Math.min(width, height)
+    );
+  }
+
+  elements.push(
+    renderBackgroundShapeElement(
+      shape.shape,
+      { x: 0, y: 0, width, height, radius: shape.radius },
+      ` fill="${fillValue}"`
+    )
+  );
+
+  if (shape.borderEnabled) {
+    const inset = shape.borderWidth / 2;
+    elements.push(
+      renderBackgroundShapeElement(
+        shape.shape,
+        {
+          x: inset,
+          y: inset,
+          width: Math.max(0, width - shape.borderWidth),
+          height: Math.max(0, height - shape.borderWidth),
+          radius: Math.max(0, shape.radius - inset),
+        },
+        ` fill="none" stroke="${shape.borderColor}" stroke-width="${shape.borderWidth}"`
+      )
+    );
+  }
+
+  return { gradientDef, elements };
+}
+
 function isRasterizedSvg(content: string): boolean {
   return /<image[^>]*>/i.test(content);
 }
@@ -137,11 +226,15 @@ export function renderSvgServer(options: ServerSvgRenderOptions): string {
     padding = 0,
     outputSize,
     zendeskLocationMode = false,
+    backgroundShape,
     cornerRadius = 0,
     borderEnabled = false,
     borderColor = "#ffffff",
     borderWidth = 0,
   } = options;
+  const iconShadow = zendeskLocationMode ? undefined : options.iconShadow;
+  const placement = getIconTransformValue(options.iconTransform, size);
+  const placementAttr = placement ? ` transform="${placement}"` : "";
 
   const svgSource = zendeskLocationMode
     ? toZendeskStaticSvgSource(icon.svg)
@@ -163,9 +256,25 @@ export function renderSvgServer(options: ServerSvgRenderOptions): string {
     isRasterized ||
     icon.isRasterized ||
     icon.allowColorOverride === false;
-  const coloredContent = shouldSkipColorTransform
-    ? content
-    : applySvgColor(content, iconColor);
+  // A gradient icon color is one shared gradient across the whole glyph
+  const iconPaint = isGradient(iconColor)
+    ? `url(#icon-gradient-${Math.random().toString(36).slice(2, 11)})`
+    : iconColor;
+  const resolvePaint =
+    zendeskLocationMode || isRasterized || icon.isRasterized
+      ? undefined
+      : createIconPaintResolver(
+          svgSource,
+          iconPaint,
+          options.iconColorStyle,
+          icon.allowColorOverride !== false
+        );
+  const coloredContent = resolvePaint
+    ? applyIconPaint(content, resolvePaint)
+    : shouldSkipColorTransform
+      ? content
+      : applySvgColor(content, iconPaint);
+  const inheritedPaint = resolvePaint?.("currentColor") ?? iconPaint;
 
   const effectivePadding = Math.min(padding, size / 2);
   const iconSize = size - effectivePadding * 2;
@@ -174,41 +283,24 @@ export function renderSvgServer(options: ServerSvgRenderOptions): string {
   const vbMinY = viewBoxParts[1] || 0;
   const vbWidth = viewBoxParts[2] || 24;
   const vbHeight = viewBoxParts[3] || 24;
+  // The glyph group draws in viewBox units, so the gradient spans the viewBox
+  const iconGradientDef =
+    isGradient(iconColor) && !zendeskLocationMode
+      ? gradientToUserSpaceSvgDef(iconColor, iconPaint.slice(5, -1), {
+          x: vbMinX,
+          y: vbMinY,
+          width: vbWidth,
+          height: vbHeight,
+        })
+      : "";
   const shape = normalizeShapeOptions(
-    { cornerRadius, borderEnabled, borderColor, borderWidth },
+    { backgroundShape, cornerRadius, borderEnabled, borderColor, borderWidth },
     size
   );
 
-  const bgElements: string[] = [];
-  let gradientDef = "";
-
-  if (!zendeskLocationMode) {
-    const fillValue = isGradient(backgroundColor)
-      ? `url(#bg-gradient-${Math.random().toString(36).slice(2, 11)})`
-      : backgroundColor;
-
-    if (isGradient(backgroundColor)) {
-      const gradientId = fillValue.slice(5, -1);
-      gradientDef = gradientToSvgDef(backgroundColor, gradientId, size);
-    }
-
-    const radiusAttr =
-      shape.radius > 0 ? ` rx="${shape.radius}" ry="${shape.radius}"` : "";
-    bgElements.push(
-      `<rect width="${size}" height="${size}"${radiusAttr} fill="${fillValue}"/>`
-    );
-
-    if (shape.borderEnabled) {
-      const inset = shape.borderWidth / 2;
-      const borderSize = Math.max(0, size - shape.borderWidth);
-      const borderRadius = Math.max(0, shape.radius - inset);
-      const borderRadiusAttr =
-        borderRadius > 0 ? ` rx="${borderRadius}" ry="${borderRadius}"` : "";
-      bgElements.push(
-        `<rect x="${inset}" y="${inset}" width="${borderSize}" height="${borderSize}"${borderRadiusAttr} fill="none" stroke="${shape.borderColor}" stroke-width="${shape.borderWidth}"/>`
-      );
-    }
-  }
+  const { gradientDef, elements: bgElements } = zendeskLocationMode
+    ? { gradientDef: "", elements: [] }
+    : buildBackgroundMarkup(backgroundColor, shape, size, size);
 
   if (shouldSkipColorTransform) {
     const imageMatch = content.match(/<image[^>]*>/i);
@@ -235,8 +327,14 @@ export function renderSvgServer(options: ServerSvgRenderOptions): string {
         ? `${gradientDef ? `${gradientDef}\n` : ""}  ${bgElements.join("\n  ")}\n`
         : "";
 
+      const image = renderIconShadowMarkup(
+        `<image href="${href}" width="${scaledWidth}" height="${scaledHeight}" x="${iconX}" y="${iconY}"${placementAttr}/>`,
+        iconShadow,
+        { size, radius: shape.radius, shape: shape.shape }
+      );
+
       return `<svg width="${finalSize}" height="${finalSize}" viewBox="0 0 ${size} ${size}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
-${rasterBgElements}  <image href="${href}" width="${scaledWidth}" height="${scaledHeight}" x="${iconX}" y="${iconY}"/>
+${rasterBgElements}  ${image}
 </svg>`;
     }
   }
@@ -254,7 +352,7 @@ ${rasterBgElements}  <image href="${href}" width="${scaledWidth}" height="${scal
       groupAttrs.push('fill="none"');
     } else if (fillValue === "currentcolor" || fillValue === "current-color") {
       groupAttrs.push(
-        zendeskLocationMode ? 'fill="currentColor"' : `fill="${iconColor}"`
+        zendeskLocationMode ? 'fill="currentColor"' : `fill="${inheritedPaint}"`
       );
     }
   }
@@ -264,7 +362,9 @@ ${rasterBgElements}  <image href="${href}" width="${scaledWidth}" height="${scal
     inheritedStroke.toLowerCase().trim() === "currentcolor"
   ) {
     groupAttrs.push(
-      zendeskLocationMode ? 'stroke="currentColor"' : `stroke="${iconColor}"`
+      zendeskLocationMode
+        ? 'stroke="currentColor"'
+        : `stroke="${inheritedPaint}"`
     );
   }
 
@@ -288,6 +388,10 @@ ${rasterBgElements}  <image href="${href}" width="${scaledWidth}" height="${scal
   if (needsViewBoxOffset) {
     transformParts.push(`translate(${-vbMinX}, ${-vbMinY})`);
   }
+  // Offset, rotation and mirroring wrap the centered glyph
+  if (placement) {
+    transformParts.unshift(placement);
+  }
   const combinedTransform = transformParts.join(" ");
 
   const finalSize = outputSize ?? size;
@@ -295,9 +399,266 @@ ${rasterBgElements}  <image href="${href}" width="${scaledWidth}" height="${scal
     ? `${gradientDef ? `${gradientDef}\n` : ""}  ${bgElements.join("\n  ")}\n`
     : "";
 
-  return `<svg width="${finalSize}" height="${finalSize}" viewBox="0 0 ${size} ${size}" xmlns="http://www.w3.org/2000/svg">
-${backgroundElements}  <g transform="${combinedTransform}"${groupAttrString}>
+  const glyph = renderIconShadowMarkup(
+    `<g transform="${combinedTransform}"${groupAttrString}>
     ${coloredContent}
+  </g>`,
+    iconShadow,
+    { size, radius: shape.radius, shape: shape.shape }
+  );
+
+  return `<svg width="${finalSize}" height="${finalSize}" viewBox="0 0 ${size} ${size}" xmlns="http://www.w3.org/2000/svg">
+${backgroundElements}${iconGradientDef ? `${iconGradientDef}\n` : ""}  ${glyph}
+</svg>`;
+}
+
+export type ServerRasterFormat = "png" | "webp" | "jpeg";
+
+export interface ServerRasterRenderOptions extends ServerSvgRenderOptions {
+  /** Output width in pixels */
+  width: number;
+  /** Output height in pixels */
+  height: number;
+  /** Output format (defaults to png) */
+  format?: ServerRasterFormat;
+  /** Quality for JPEG/WebP (0-1, defaults to 0.92) */
+  quality?: number;
+  /** Maximum file size in bytes (optional) - triggers compression if exceeded */
+  maxFileSize?: number;
+  /** Render square and flatten onto white, dropping the alpha channel */
+  flattenTransparency?: boolean;
+}
+
+/**
+ * Same quality floor and step as the browser `compressToMaxSize` helper
+ */
+const MIN_RASTER_QUALITY = 0.1;
+const RASTER_QUALITY_STEP = 0.05;
+
+/**
+ * Compose the SVG document that gets rasterized for PNG/WebP/JPEG output.
+ *
+ * Mirrors the browser `renderRaster` layout: the background shape and border
+ * fill the full output rectangle (radius based on the shorter side), and the
+ * icon artboard is centered as a square of that shorter side.
+ */
+export function renderRasterSvgServer(
+  options: ServerRasterRenderOptions
+): string {
+  const {
+    backgroundColor,
+    width,
+    height,
+    zendeskLocationMode = false,
+    flattenTransparency = false,
+    borderEnabled = false,
+    borderColor = "#ffffff",
+    borderWidth = 0,
+  } = options;
+  const backgroundShape = flattenTransparency
+    ? DEFAULT_BACKGROUND_SHAPE
+    : options.backgroundShape;
+  const cornerRadius = flattenTransparency ? 0 : (options.cornerRadius ?? 0);
+
+  const canvasSize = Math.min(width, height);
+  const shape = normalizeShapeOptions(
+    { backgroundShape, cornerRadius, borderEnabled, borderColor, borderWidth },
+    canvasSize
+  );
+  const { gradientDef, elements: bgElements } =
+    zendeskLocationMode || backgroundColor === "transparent"
+      ? { gradientDef: "", elements: [] }
+      : buildBackgroundMarkup(backgroundColor, shape, width, height);
+
+  // The shape only clips the glyph shadow here; the transparent background
+  // is invisible
+  const iconSvg = renderSvgServer({
+    ...options,
+    backgroundColor: "transparent",
+    outputSize: canvasSize,
+    backgroundShape,
+    cornerRadius,
+    borderEnabled: false,
+  });
+  const iconX = (width - canvasSize) / 2;
+  const iconY = (height - canvasSize) / 2;
+
+  const backgroundElements = bgElements.length
+    ? `${gradientDef ? `${gradientDef}\n` : ""}  ${bgElements.join("\n  ")}\n`
+    : "";
+
+  return `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
+${backgroundElements}  <g transform="translate(${iconX}, ${iconY})">
+${iconSvg}
   </g>
 </svg>`;
 }
+
+/**
+ * Rasterize an icon to PNG, WebP, or JPEG in Node.js.
+ */
+export async function renderRasterServer(
+  options: ServerRasterRenderOptions
+): Promise<Buffer> {
+  const {
+    format = "png",
+    quality = 0.92,
+    maxFileSize,
+    flattenTransparency = false,
+  } = options;
+  const svgBuffer = Buffer.from(renderRasterSvgServer(options));
+
+  const encode = (encodeQuality: number): Promise<Buffer> => {
+    const image = flattenTransparency
+      ? sharp(svgBuffer).flatten({ background: "#ffffff" })
+      : sharp(svgBuffer);
+    const qualityPercent = Math.round(
+      Math.max(0, Math.min(1, encodeQuality)) * 100
+    );
+
+    switch (format) {
+      case "jpeg":
+        return image.jpeg({ quality: qualityPercent }).toBuffer();
+      case "webp":
+        return image.webp({ quality: qualityPercent }).toBuffer();
+      default:
+        return image.png().toBuffer();
+    }
+  };
+
+  let currentQuality = quality;
+  let buffer = await encode(currentQuality);
+
+  // Apply max size compression if needed (only for lossy formats)
+  if (maxFileSize && format !== "png") {
+    currentQuality = Math.min(1, Math.max(MIN_RASTER_QUALITY, currentQuality));
+    while (buffer.length > maxFileSize && currentQuality > MIN_RASTER_QUALITY) {
+      currentQuality = Math.max(
+        MIN_RASTER_QUALITY,
+        currentQuality - RASTER_QUALITY_STEP
+      );
+      buffer = await encode(currentQuality);
+    }
+  }
+
+  return buffer;
+}
+
+export interface ServerAdaptiveIconLayerOptions {
+  icon: IconMetadata;
+  backgroundColor: BackgroundValue;
+  iconColor: BackgroundValue;
+  /** Layer size in pixels (108dp at the target density) */
+  outputSize: number;
+  /** Glyph padding on the layer, in pixels */
+  padding: number;
+  layer: AdaptiveIconLayer;
+  iconColorStyle?: IconColorStyle;
+  iconTransform?: IconTransform;
+}
+
+/**
+ * Render one layer of an Android adaptive icon as PNG in Node.js.
+ * Mirrors the browser `renderAdaptiveIconLayer`.
+ */
+export async function renderAdaptiveIconLayerServer(
+  options: ServerAdaptiveIconLayerOptions
+): Promise<Buffer> {
+  const { icon, backgroundColor, iconColor, outputSize, padding, layer } =
+    options;
+
+  if (layer === "background") {
+    const { gradientDef, elements } =
+      backgroundColor === "transparent"
+        ? { gradientDef: "", elements: [] }
+        : buildBackgroundMarkup(
+            backgroundColor,
+            normalizeShapeOptions({}, outputSize),
+            outputSize,
+            outputSize
+          );
+    const svg = `<svg width="${outputSize}" height="${outputSize}" viewBox="0 0 ${outputSize} ${outputSize}" xmlns="http://www.w3.org/2000/svg">
+${gradientDef}${elements.join("\n")}
+</svg>`;
+    return sharp(Buffer.from(svg)).png().toBuffer();
+  }
+
+  const foreground = await renderRasterServer({
+    icon,
+    backgroundColor: "transparent",
+    iconColor,
+    size: outputSize,
+    padding,
+    width: outputSize,
+    height: outputSize,
+    format: "png",
+    iconColorStyle: options.iconColorStyle,
+    iconTransform: options.iconTransform,
+  });
+
+  if (layer === "foreground") {
+    return foreground;
+  }
+
+  // Themed icons only use the layer's alpha; fill the glyph with white
+  return fillAlphaWithColor(foreground, outputSize, outputSize, "#ffffff");
+}
+
+/**
+ * Replace every pixel's color with `color`, keeping the image's alpha
+ */
+async function fillAlphaWithColor(
+  image: Buffer,
+  width: number,
+  height: number,
+  color: string,
+  format: ServerRasterFormat = "png"
+): Promise<Buffer> {
+  const alpha = await sharp(image).ensureAlpha().extractChannel(3).toBuffer();
+  return sharp({
+    create: { width, height, channels: 3, background: color },
+  })
+    .joinChannel(alpha)
+    .toFormat(format)
+    .toBuffer();
+}
+
+export interface ServerGlyphRenderOptions {
+  icon: IconMetadata;
+  /** Glyph fill color (hex) */
+  color: string;
+  /** Output width in pixels */
+  width: number;
+  /** Output height in pixels */
+  height: number;
+  /** Glyph padding on the artboard, in pixels */
+  padding: number;
+  /** Output format (defaults to png) */
+  format?: ServerRasterFormat;
+  iconColorStyle?: IconColorStyle;
+  iconTransform?: IconTransform;
+}
+
+/**
+ * Render only the glyph, filled with one color, on transparency in Node.js.
+ * Mirrors the browser `renderRaster` with `glyphColor`.
+ */
+export async function renderGlyphServer(
+  options: ServerGlyphRenderOptions
+): Promise<Buffer> {
+  const { icon, color, width, height, padding, format = "png" } = options;
+
+  const glyph = await renderRasterServer({
+    icon,
+    backgroundColor: "transparent",
+    iconColor: color,
+    size: Math.min(width, height),
+    padding,
+    width,
+    height,
+    format: "png",
+    iconColorStyle: options.iconColorStyle,
+    iconTransform: options.iconTransform,
+  });
+  return fillAlphaWithColor(glyph, width, height, color, format);
+}
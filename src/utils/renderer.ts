@@ -3,15 +3,48 @@
  */
 
 import type { IconMetadata } from "../types/icon";
+import {
+  applyVariantStyle,
+  DEFAULT_ICO_SIZES,
+  MASKABLE_SAFE_ZONE_RATIO,
+  type AdaptiveIconLayer,
+  type ExportVariantStyle,
+  type IconPurpose,
+} from "../types/preset";
 import type { IconGeneratorState } from "../hooks/use-icon-generator";
 import { SVG_SPECS } from "../constants/app";
 import type { BackgroundValue } from "./gradients";
 import {
   isGradient,
   gradientToSvgDef,
+  gradientToUserSpaceSvgDef,
   createCanvasGradient,
 } from "./gradients";
 import { compressToMaxSize } from "./image-compression";
+import {
+  DEFAULT_BACKGROUND_SHAPE,
+  renderBackgroundShapeElement,
+  traceBackgroundShape,
+  type BackgroundShape,
+} from "./background-shape";
+import {
+  isIconShadowVisible,
+  renderIconShadowMarkup,
+  type IconShadow,
+} from "./icon-shadow";
+import {
+  applyIconPaint,
+  createIconPaintResolver,
+  type IconColorStyle,
+} from "./icon-colors";
+import {
+  applyIconTransformToCanvas,
+  getIconTransformValue,
+  isIconTransformActive,
+  type IconTransform,
+} from "./icon-transform";
+import type { RenderedAssetInfo } from "./platform-rules";
+import { ADAPTIVE_ICON_SAFE_ZONE_RATIO } from "./android-adaptive-icon";
 import {
   isZendeskLocationSvgFile,
   toZendeskStaticSvgSource,
@@ -84,8 +117,8 @@ export interface SvgRenderOptions {
   icon: IconMetadata;
   /** Background color (hex) or gradient */
   backgroundColor: BackgroundValue;
-  /** Icon color (hex) */
-  iconColor: string;
+  /** Icon color (hex) or gradient */
+  iconColor: BackgroundValue;
   /** Artboard size used for the SVG viewBox */
   size: number;
   /** Padding around icon (for SVG) */
@@ -99,6 +132,8 @@ export interface SvgRenderOptions {
    * This matches Zendesk requirements: https://developer.zendesk.com/documentation/apps/app-developer-guide/styling/
    */
   zendeskLocationMode?: boolean;
+  /** Background outline (defaults to a rounded square) */
+  backgroundShape?: BackgroundShape;
   /** Corner radius percentage (0 = square, 100 = fully round) */
   cornerRadius?: number;
   /** Whether border is enabled */
@@ -107,6 +142,12 @@ export interface SvgRenderOptions {
   borderColor?: string;
   /** Border width in normalized artboard units */
   borderWidth?: number;
+  /** Shadow behind the glyph (ignored in Zendesk location mode) */
+  iconShadow?: IconShadow;
+  /** Duotone or mapped glyph colors (defaults to a single icon color) */
+  iconColorStyle?: IconColorStyle;
+  /** Offset, rotation and mirroring applied after centering the glyph */
+  iconTransform?: IconTransform;
 }
 
 /**
@@ -120,6 +161,7 @@ export interface PngRenderOptions extends SvgRenderOptions {
 }
 
 interface ShapeOptions {
+  backgroundShape?: BackgroundShape;
   cornerRadius?: number;
   borderEnabled?: boolean;
   borderColor?: string;
@@ -127,6 +169,7 @@ interface ShapeOptions {
 }
 
 interface NormalizedShape {
+  shape: BackgroundShape;
   radius: number;
   borderEnabled: boolean;
   borderColor: string;
@@ -148,6 +191,7 @@ function normalizeShapeOptions(
     : 0;
 
   return {
+    shape: options.backgroundShape ?? DEFAULT_BACKGROUND_SHAPE,
     radius,
     borderEnabled: borderEnabled && borderWidth > 0,
     borderColor: options.borderColor ?? "#ffffff",
@@ -155,31 +199,38 @@ function normalizeShapeOptions(
   };
 }
 
-function createRoundedRectPath(
+/**
+ * Fill the background shape and stroke its border on a canvas.
+ * The fill style must be set by the caller.
+ */
+function drawBackgroundShape(
   ctx: CanvasRenderingContext2D,
-  x: number,
-  y: number,
+  shape: NormalizedShape,
   width: number,
-  height: number,
-  radius: number
+  height: number
 ): void {
-  const safeRadius = Math.max(0, Math.min(radius, Math.min(width, height) / 2));
-  ctx.beginPath();
-  ctx.moveTo(x + safeRadius, y);
-  ctx.lineTo(x + width - safeRadius, y);
-  ctx.quadraticCurveTo(x + width, y, x + width, y + safeRadius);
-  ctx.lineTo(x + width, y + height - safeRadius);
-  ctx.quadraticCurveTo(
-    x + width,
-    y + height,
-    x + width - safeRadius,
-    y + height
-  );
-  ctx.lineTo(x + safeRadius, y + height);
-  ctx.quadraticCurveTo(x, y + height, x, y + height - safeRadius);
-  ctx.lineTo(x, y + safeRadius);
-  ctx.quadraticCurveTo(x, y, x + safeRadius, y);
-  ctx.closePath();
+  traceBackgroundShape(ctx, shape.shape, {
+    x: 0,
+    y: 0,
+    width,
+    height,
+    radius: shape.radius,
+  });
+  ctx.fill();
+
+  if (shape.borderEnabled) {
+    const inset = shape.borderWidth / 2;
+    ctx.strokeStyle = shape.borderColor;
+    ctx.lineWidth = shape.borderWidth;
+    traceBackgroundShape(ctx, shape.shape, {
+      x: inset,
+      y: inset,
+      width: Math.max(0, width - shape.borderWidth),
+      height: Math.max(0, height - shape.borderWidth),
+      radius: Math.max(0, shape.radius - inset),
+    });
+    ctx.stroke();
+  }
 }
 
 /**
@@ -448,11 +499,16 @@ export function renderSvg(options: SvgRenderOptions): string {
     padding = 0,
     outputSize,
     zendeskLocationMode = false,
+    backgroundShape,
     cornerRadius = 0,
     borderEnabled = false,
     borderColor = "#ffffff",
     borderWidth = 0,
   } = options;
+  // Location icons are recolored by Zendesk, so they stay plain glyphs
+  const iconShadow = zendeskLocationMode ? undefined : options.iconShadow;
+  const placement = getIconTransformValue(options.iconTransform, size);
+  const placementAttr = placement ? ` transform="${placement}"` : "";
 
   const svgSource = zendeskLocationMode
     ? toZendeskStaticSvgSource(icon.svg)
@@ -478,9 +534,26 @@ export function renderSvg(options: SvgRenderOptions): string {
     isRasterized ||
     icon.isRasterized ||
     icon.allowColorOverride === false;
-  const coloredContent = shouldSkipColorTransform
-    ? content
-    : applySvgColor(content, iconColor);
+  // Duotone and mapped styles repaint each source color separately
+  // A gradient icon color is one shared gradient across the whole glyph
+  const iconPaint = isGradient(iconColor)
+    ? `url(#icon-gradient-${Math.random().toString(36).substr(2, 9)})`
+    : iconColor;
+  const resolvePaint =
+    zendeskLocationMode || isRasterized || icon.isRasterized
+      ? undefined
+      : createIconPaintResolver(
+          svgSource,
+          iconPaint,
+          options.iconColorStyle,
+          icon.allowColorOverride !== false
+        );
+  const coloredContent = resolvePaint
+    ? applyIconPaint(content, resolvePaint)
+    : shouldSkipColorTransform
+      ? content
+      : applySvgColor(content, iconPaint);
+  const inheritedPaint = resolvePaint?.("currentColor") ?? iconPaint;
 
   // Calculate icon size within padded area
   // Allow negative padding for larger icons that overflow the artboard
@@ -491,8 +564,18 @@ export function renderSvg(options: SvgRenderOptions): string {
   const vbMinY = viewBoxParts[1] || 0;
   const vbWidth = viewBoxParts[2] || 24;
   const vbHeight = viewBoxParts[3] || 24;
+  // The glyph group draws in viewBox units, so the gradient spans the viewBox
+  const iconGradientDef =
+    isGradient(iconColor) && !zendeskLocationMode
+      ? gradientToUserSpaceSvgDef(iconColor, iconPaint.slice(5, -1), {
+          x: vbMinX,
+          y: vbMinY,
+          width: vbWidth,
+          height: vbHeight,
+        })
+      : "";
   const shape = normalizeShapeOptions(
-    { cornerRadius, borderEnabled, borderColor, borderWidth },
+    { backgroundShape, cornerRadius, borderEnabled, borderColor, borderWidth },
     size
   );
 
@@ -511,20 +594,29 @@ export function renderSvg(options: SvgRenderOptions): string {
       gradientDef = gradientToSvgDef(backgroundColor, gradientId, size);
     }
 
-    const radiusAttr =
-      shape.radius > 0 ? ` rx="${shape.radius}" ry="${shape.radius}"` : "";
     bgElements.push(
-      `<rect width="${size}" height="${size}"${radiusAttr} fill="${fillValue}"/>`
+      renderBackgroundShapeElement(
+        shape.shape,
+        { x: 0, y: 0, width: size, height: size, radius: shape.radius },
+        ` fill="${fillValue}"`
+      )
     );
 
     if (shape.borderEnabled) {
       const inset = shape.borderWidth / 2;
       const borderSize = Math.max(0, size - shape.borderWidth);
-      const borderRadius = Math.max(0, shape.radius - inset);
-      const borderRadiusAttr =
-        borderRadius > 0 ? ` rx="${borderRadius}" ry="${borderRadius}"` : "";
       bgElements.push(
-        `<rect x="${inset}" y="${inset}" width="${borderSize}" height="${borderSize}"${borderRadiusAttr} fill="none" stroke="${shape.borderColor}" stroke-width="${shape.borderWidth}"/>`
+        renderBackgroundShapeElement(
+          shape.shape,
+          {
+            x: inset,
+            y: inset,
+            width: borderSize,
+            height: borderSize,
+            radius: Math.max(0, shape.radius - inset),
+          },
+          ` fill="none" stroke="${shape.borderColor}" stroke-width="${shape.borderWidth}"`
+        )
       );
     }
   }
@@ -560,8 +652,14 @@ export function renderSvg(options: SvgRenderOptions): string {
         ? `${gradientDef ? gradientDef + "\n" : ""}  ${bgElements.join("\n  ")}\n`
         : "";
 
+      const image = renderIconShadowMarkup(
+        `<image href="${href}" width="${scaledWidth}" height="${scaledHeight}" x="${iconX}" y="${iconY}"${placementAttr}/>`,
+        iconShadow,
+        { size, radius: shape.radius, shape: shape.shape }
+      );
+
       return `<svg width="${finalSize}" height="${finalSize}" viewBox="0 0 ${size} ${size}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
-${rasterBgElements}  <image href="${href}" width="${scaledWidth}" height="${scaledHeight}" x="${iconX}" y="${iconY}"/>
+${rasterBgElements}  ${image}
 </svg>`;
     }
   }
@@ -620,7 +718,7 @@ ${rasterBgElements}  <image href="${href}" width="${scaledWidth}" height="${scal
       if (zendeskLocationMode) {
         groupAttrs.push('fill="currentColor"');
       } else {
-        groupAttrs.push(`fill="${iconColor}"`);
+        groupAttrs.push(`fill="${inheritedPaint}"`);
       }
     }
   }
@@ -634,7 +732,7 @@ ${rasterBgElements}  <image href="${href}" width="${scaledWidth}" height="${scal
     if (zendeskLocationMode) {
       groupAttrs.push('stroke="currentColor"');
     } else {
-      groupAttrs.push(`stroke="${iconColor}"`);
+      groupAttrs.push(`stroke="${inheritedPaint}"`);
     }
   }
 
@@ -665,6 +763,10 @@ ${rasterBgElements}  <image href="${href}" width="${scaledWidth}" height="${scal
   if (needsViewBoxOffset) {
     transformParts.push(`translate(${-vbMinX}, ${-vbMinY})`);
   }
+  // Offset, rotation and mirroring wrap the centered glyph
+  if (placement) {
+    transformParts.unshift(placement);
+  }
   const combinedTransform = transformParts.join(" ");
 
   const finalSize = outputSize ?? size;
@@ -674,13 +776,142 @@ ${rasterBgElements}  <image href="${href}" width="${scaledWidth}" height="${scal
     ? `${gradientDef ? gradientDef + "\n" : ""}  ${bgElements.join("\n  ")}\n`
     : "";
 
-  return `<svg width="${finalSize}" height="${finalSize}" viewBox="0 0 ${size} ${size}" xmlns="http://www.w3.org/2000/svg">
-${backgroundElements}  <g transform="${combinedTransform}"${groupAttrString}>
+  const glyph = renderIconShadowMarkup(
+    `<g transform="${combinedTransform}"${groupAttrString}>
     ${adjustedContent}
-  </g>
+  </g>`,
+    iconShadow,
+    { size, radius: shape.radius, shape: shape.shape }
+  );
+
+  return `<svg width="${finalSize}" height="${finalSize}" viewBox="0 0 ${size} ${size}" xmlns="http://www.w3.org/2000/svg">
+${backgroundElements}${iconGradientDef ? `${iconGradientDef}\n` : ""}  ${glyph}
 </svg>`;
 }
 
+/**
+ * Load an SVG string into an image element
+ */
+function loadSvgImage(svgString: string): Promise<HTMLImageElement> {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    const blob = new Blob([svgString], { type: "image/svg+xml" });
+    const url = URL.createObjectURL(blob);
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = reject;
+    image.src = url;
+  });
+}
+
+/**
+ * Run canvas drawing with the icon transform applied around the canvas center
+ */
+function drawWithIconTransform(
+  ctx: CanvasRenderingContext2D,
+  transform: IconTransform | undefined,
+  width: number,
+  height: number,
+  draw: () => void
+): void {
+  if (!isIconTransformActive(transform)) {
+    draw();
+    return;
+  }
+  ctx.save();
+  applyIconTransformToCanvas(ctx, transform, width, height);
+  draw();
+  ctx.restore();
+}
+
+interface GlyphDrawOptions {
+  icon: IconMetadata;
+  iconColor: BackgroundValue;
+  /** Canvas width */
+  width: number;
+  /** Canvas height */
+  height: number;
+  /** Size of the glyph box, centered on the canvas */
+  iconSize: number;
+  /** Background shape and corner radius percentage (clip the shadow) */
+  backgroundShape?: BackgroundShape;
+  cornerRadius: number;
+  iconShadow?: IconShadow;
+  iconColorStyle?: IconColorStyle;
+  iconTransform?: IconTransform;
+}
+
+/**
+ * Render the icon as SVG and draw it centered on the canvas.
+ * Always uses a transparent background since the canvas background is filled
+ * separately. With a shadow, the glyph is rendered on the full artboard
+ * (padded to the same size) so the shadow can reach the background edges
+ * and follows the placed glyph.
+ */
+async function drawIconGlyph(
+  ctx: CanvasRenderingContext2D,
+  options: GlyphDrawOptions
+): Promise<void> {
+  const {
+    icon,
+    iconColor,
+    width,
+    height,
+    iconSize,
+    iconShadow,
+    iconColorStyle,
+    iconTransform,
+  } = options;
+  const canvasSize = Math.min(width, height);
+
+  if (isIconShadowVisible(iconShadow)) {
+    const img = await loadSvgImage(
+      renderSvg({
+        icon,
+        backgroundColor: "transparent",
+        iconColor,
+        size: canvasSize,
+        padding: (canvasSize - iconSize) / 2,
+        backgroundShape: options.backgroundShape,
+        cornerRadius: options.cornerRadius,
+        iconShadow,
+        iconColorStyle,
+        iconTransform,
+      })
+    );
+    ctx.drawImage(
+      img,
+      (width - canvasSize) / 2,
+      (height - canvasSize) / 2,
+      canvasSize,
+      canvasSize
+    );
+    return;
+  }
+
+  // Render at canvas size for quality, then scale down to the glyph box
+  const img = await loadSvgImage(
+    renderSvg({
+      icon,
+      backgroundColor: "transparent",
+      iconColor,
+      size: canvasSize,
+      iconColorStyle,
+    })
+  );
+  drawWithIconTransform(ctx, iconTransform, width, height, () => {
+    ctx.drawImage(
+      img,
+      (width - iconSize) / 2,
+      (height - iconSize) / 2,
+      iconSize,
+      iconSize
+    );
+  });
+}
+
 /**
  * Create a canvas and render PNG
  */
@@ -692,10 +923,14 @@ export async function renderPng(options: PngRenderOptions): Promise<Blob> {
     size,
     width,
     height,
+    backgroundShape,
     cornerRadius = 0,
     borderEnabled = false,
     borderColor = "#ffffff",
     borderWidth = 0,
+    iconShadow,
+    iconColorStyle,
+    iconTransform,
   } = options;
 
   // Create canvas
@@ -709,7 +944,7 @@ export async function renderPng(options: PngRenderOptions): Promise<Blob> {
 
   // Fill background (solid color or gradient) and optional border
   const shape = normalizeShapeOptions(
-    { cornerRadius, borderEnabled, borderColor, borderWidth },
+    { backgroundShape, cornerRadius, borderEnabled, borderColor, borderWidth },
     Math.min(width, height)
   );
   if (isGradient(backgroundColor)) {
@@ -718,65 +953,32 @@ export async function renderPng(options: PngRenderOptions): Promise<Blob> {
   } else {
     ctx.fillStyle = backgroundColor;
   }
-  createRoundedRectPath(ctx, 0, 0, width, height, shape.radius);
-  ctx.fill();
-
-  if (shape.borderEnabled) {
-    const inset = shape.borderWidth / 2;
-    const borderWidthPx = Math.max(0, width - shape.borderWidth);
-    const borderHeightPx = Math.max(0, height - shape.borderWidth);
-    ctx.strokeStyle = shape.borderColor;
-    ctx.lineWidth = shape.borderWidth;
-    createRoundedRectPath(
-      ctx,
-      inset,
-      inset,
-      borderWidthPx,
-      borderHeightPx,
-      Math.max(0, shape.radius - inset)
-    );
-    ctx.stroke();
-  }
-
-  // Render icon as SVG first, then draw to canvas
-  // Use the size option to control icon size, but render at canvas size for quality
-  // Always use transparent background in SVG since we're filling the canvas background separately
-  const canvasSize = Math.min(width, height);
-  const svgString = renderSvg({
-    icon,
-    backgroundColor: "transparent",
-    iconColor,
-    size: canvasSize,
-  });
-
-  // Convert SVG to image
-  const img = await new Promise<HTMLImageElement>((resolve, reject) => {
-    const image = new Image();
-    const blob = new Blob([svgString], { type: "image/svg+xml" });
-    const url = URL.createObjectURL(blob);
-    image.onload = () => {
-      URL.revokeObjectURL(url);
-      resolve(image);
-    };
-    image.onerror = reject;
-    image.src = url;
-  });
+  drawBackgroundShape(ctx, shape, width, height);
 
   // Use the size option to control the actual icon size on canvas
   // Scale it relative to canvas size (size is in pixels, typically 48-200)
   // Map it to a percentage of canvas: 48px = 30%, 200px = 100% of canvas
+  const canvasSize = Math.min(width, height);
   const minSize = 48;
   const maxSize = 200;
   const sizePercent = Math.max(
     0.3,
     Math.min(1.0, ((size - minSize) / (maxSize - minSize)) * 0.7 + 0.3)
   );
-  const iconSize = canvasSize * sizePercent;
-  const iconX = (width - iconSize) / 2;
-  const iconY = (height - iconSize) / 2;
 
   // Draw icon
-  ctx.drawImage(img, iconX, iconY, iconSize, iconSize);
+  await drawIconGlyph(ctx, {
+    icon,
+    iconColor,
+    width,
+    height,
+    iconSize: canvasSize * sizePercent,
+    backgroundShape,
+    cornerRadius,
+    iconShadow,
+    iconColorStyle,
+    iconTransform,
+  });
 
   // Convert to blob
   return new Promise<Blob>((resolve, reject) => {
@@ -804,6 +1006,39 @@ export interface RasterRenderOptions extends PngRenderOptions {
   quality?: number;
   /** Maximum file size in bytes (optional) - triggers compression if exceeded */
   maxFileSize?: number;
+  /** Render square on an opaque backdrop (white behind transparent areas) */
+  flattenTransparency?: boolean;
+  /** Maskable icon: opaque full-bleed square, icon inside the 80% safe zone */
+  maskable?: boolean;
+  /** Render only the glyph, filled with this color, on transparency */
+  glyphColor?: string;
+}
+
+/**
+ * Fill the whole canvas with white so transparent areas end up opaque
+ */
+function fillOpaqueBackdrop(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number
+): void {
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, width, height);
+}
+
+/**
+ * Recolor everything drawn on the canvas with one color, keeping its alpha
+ */
+export function fillGlyphColor(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  color: string
+): void {
+  ctx.globalCompositeOperation = "source-in";
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, width, height);
+  ctx.globalCompositeOperation = "source-over";
 }
 
 /**
@@ -814,7 +1049,6 @@ export async function renderRaster(
 ): Promise<Blob> {
   const {
     icon,
-    backgroundColor,
     iconColor,
     size,
     width,
@@ -822,11 +1056,22 @@ export async function renderRaster(
     format = "png",
     quality = 0.92,
     maxFileSize,
-    cornerRadius = 0,
-    borderEnabled = false,
+    flattenTransparency = false,
+    maskable = false,
+    glyphColor,
     borderColor = "#ffffff",
     borderWidth = 0,
   } = options;
+  // Maskable icons are cropped by the platform, so the background must bleed
+  // to every edge (no rounded corners or border)
+  const fullBleed = flattenTransparency || maskable;
+  const backgroundShape = fullBleed
+    ? DEFAULT_BACKGROUND_SHAPE
+    : options.backgroundShape;
+  const cornerRadius = fullBleed ? 0 : (options.cornerRadius ?? 0);
+  const borderEnabled =
+    !maskable && !glyphColor && (options.borderEnabled ?? false);
+  const backgroundColor = glyphColor ? "transparent" : options.backgroundColor;
 
   // Create canvas
   const canvas = document.createElement("canvas");
@@ -837,11 +1082,21 @@ export async function renderRaster(
     throw new Error("Failed to get canvas context");
   }
 
+  if (fullBleed) {
+    fillOpaqueBackdrop(ctx, width, height);
+  }
+
   // For JPEG, fill with background first since JPEG doesn't support transparency
   // For PNG/WebP with transparent background, clear to transparent
   if (format === "jpeg" || backgroundColor !== "transparent") {
     const shape = normalizeShapeOptions(
-      { cornerRadius, borderEnabled, borderColor, borderWidth },
+      {
+        backgroundShape,
+        cornerRadius,
+        borderEnabled,
+        borderColor,
+        borderWidth,
+      },
       Math.min(width, height)
     );
     if (isGradient(backgroundColor)) {
@@ -855,62 +1110,36 @@ export async function renderRaster(
     } else {
       ctx.fillStyle = backgroundColor;
     }
-    createRoundedRectPath(ctx, 0, 0, width, height, shape.radius);
-    ctx.fill();
-
-    if (shape.borderEnabled) {
-      const inset = shape.borderWidth / 2;
-      const borderWidthPx = Math.max(0, width - shape.borderWidth);
-      const borderHeightPx = Math.max(0, height - shape.borderWidth);
-      ctx.strokeStyle = shape.borderColor;
-      ctx.lineWidth = shape.borderWidth;
-      createRoundedRectPath(
-        ctx,
-        inset,
-        inset,
-        borderWidthPx,
-        borderHeightPx,
-        Math.max(0, shape.radius - inset)
-      );
-      ctx.stroke();
-    }
+    drawBackgroundShape(ctx, shape, width, height);
   }
 
-  // Render icon as SVG first, then draw to canvas
-  const canvasSize = Math.min(width, height);
-  const svgString = renderSvg({
-    icon,
-    backgroundColor: "transparent",
-    iconColor,
-    size: canvasSize,
-  });
-
-  // Convert SVG to image
-  const img = await new Promise<HTMLImageElement>((resolve, reject) => {
-    const image = new Image();
-    const blob = new Blob([svgString], { type: "image/svg+xml" });
-    const url = URL.createObjectURL(blob);
-    image.onload = () => {
-      URL.revokeObjectURL(url);
-      resolve(image);
-    };
-    image.onerror = reject;
-    image.src = url;
-  });
-
   // Use the size option to control the actual icon size on canvas
+  const canvasSize = Math.min(width, height);
   const minSize = 48;
   const maxSize = 200;
   const sizePercent = Math.max(
     0.3,
     Math.min(1.0, ((size - minSize) / (maxSize - minSize)) * 0.7 + 0.3)
   );
-  const iconSize = canvasSize * sizePercent;
-  const iconX = (width - iconSize) / 2;
-  const iconY = (height - iconSize) / 2;
 
-  // Draw icon
-  ctx.drawImage(img, iconX, iconY, iconSize, iconSize);
+  // Draw icon (glyph-only renders are recolored, so they skip the shadow)
+  await drawIconGlyph(ctx, {
+    icon,
+    iconColor,
+    width,
+    height,
+    iconSize:
+      canvasSize * sizePercent * (maskable ? MASKABLE_SAFE_ZONE_RATIO : 1),
+    backgroundShape,
+    cornerRadius,
+    iconShadow: glyphColor ? undefined : options.iconShadow,
+    iconColorStyle: options.iconColorStyle,
+    iconTransform: options.iconTransform,
+  });
+
+  if (glyphColor) {
+    fillGlyphColor(ctx, width, height, glyphColor);
+  }
 
   // Get MIME type
   const mimeType =
@@ -953,6 +1182,112 @@ export async function renderRaster(
   return blob;
 }
 
+/**
+ * Render options for a single Android adaptive icon layer
+ */
+export interface AdaptiveIconLayerRenderOptions {
+  icon: IconMetadata;
+  backgroundColor: BackgroundValue;
+  iconColor: BackgroundValue;
+  /** Icon size slider value (48-200), scaled to the 66dp safe zone */
+  size: number;
+  /** Layer size in pixels (108dp at the target density) */
+  outputSize: number;
+  layer: AdaptiveIconLayer;
+  iconColorStyle?: IconColorStyle;
+  iconTransform?: IconTransform;
+}
+
+/**
+ * Render one layer of an Android adaptive icon as PNG.
+ * The background layer is the full-bleed background, the foreground layer is
+ * the glyph on transparency, and the monochrome layer is the glyph in white.
+ */
+export async function renderAdaptiveIconLayer(
+  options: AdaptiveIconLayerRenderOptions
+): Promise<Blob> {
+  const { icon, backgroundColor, iconColor, size, outputSize, layer } = options;
+
+  // Create canvas
+  const canvas = document.createElement("canvas");
+  canvas.width = outputSize;
+  canvas.height = outputSize;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Failed to get canvas context");
+  }
+
+  if (layer === "background") {
+    // The launcher applies its own mask, so the background is always square
+    if (isGradient(backgroundColor)) {
+      ctx.fillStyle = createCanvasGradient(
+        ctx,
+        backgroundColor,
+        outputSize,
+        outputSize
+      );
+    } else {
+      ctx.fillStyle = backgroundColor;
+    }
+    ctx.fillRect(0, 0, outputSize, outputSize);
+  } else {
+    const svgString = renderSvg({
+      icon,
+      backgroundColor: "transparent",
+      iconColor,
+      size: outputSize,
+      iconColorStyle: options.iconColorStyle,
+    });
+
+    // Convert SVG to image
+    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const image = new Image();
+      const blob = new Blob([svgString], { type: "image/svg+xml" });
+      const url = URL.createObjectURL(blob);
+      image.onload = () => {
+        URL.revokeObjectURL(url);
+        resolve(image);
+      };
+      image.onerror = reject;
+      image.src = url;
+    });
+
+    // Same 30%-100% size mapping as renderRaster, applied to the safe zone
+    const minSize = 48;
+    const maxSize = 200;
+    const sizePercent = Math.max(
+      0.3,
+      Math.min(1.0, ((size - minSize) / (maxSize - minSize)) * 0.7 + 0.3)
+    );
+    const iconSize = outputSize * ADAPTIVE_ICON_SAFE_ZONE_RATIO * sizePercent;
+    const offset = (outputSize - iconSize) / 2;
+    drawWithIconTransform(
+      ctx,
+      options.iconTransform,
+      outputSize,
+      outputSize,
+      () => ctx.drawImage(img, offset, offset, iconSize, iconSize)
+    );
+
+    // Themed icons only use the layer's alpha; fill the glyph with white so
+    // multi-color icons stay legible too
+    if (layer === "monochrome") {
+      fillGlyphColor(ctx, outputSize, outputSize, "#ffffff");
+    }
+  }
+
+  // Convert to blob
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error("Failed to convert canvas to blob"));
+      }
+    }, "image/png");
+  });
+}
+
 /**
  * Render options for raster from custom image with format support
  */
@@ -963,6 +1298,12 @@ export interface ImageRasterRenderOptions extends ImageRenderOptions {
   quality?: number;
   /** Maximum file size in bytes (optional) - triggers compression if exceeded */
   maxFileSize?: number;
+  /** Render square on an opaque backdrop (white behind transparent areas) */
+  flattenTransparency?: boolean;
+  /** Maskable icon: opaque full-bleed square, icon inside the 80% safe zone */
+  maskable?: boolean;
+  /** Render only the glyph, filled with this color, on transparency */
+  glyphColor?: string;
 }
 
 /**
@@ -973,7 +1314,6 @@ export async function renderRasterFromImage(
 ): Promise<Blob> {
   const {
     imageDataUrl,
-    backgroundColor,
     size,
     width,
     height,
@@ -982,11 +1322,20 @@ export async function renderRasterFromImage(
     maxFileSize,
     colorOverride,
     originalColor,
-    cornerRadius = 0,
-    borderEnabled = false,
+    flattenTransparency = false,
+    maskable = false,
+    glyphColor,
     borderColor = "#ffffff",
     borderWidth = 0,
   } = options;
+  const fullBleed = flattenTransparency || maskable;
+  const backgroundShape = fullBleed
+    ? DEFAULT_BACKGROUND_SHAPE
+    : options.backgroundShape;
+  const cornerRadius = fullBleed ? 0 : (options.cornerRadius ?? 0);
+  const borderEnabled =
+    !maskable && !glyphColor && (options.borderEnabled ?? false);
+  const backgroundColor = glyphColor ? "transparent" : options.backgroundColor;
 
   // Create canvas
   const canvas = document.createElement("canvas");
@@ -997,9 +1346,13 @@ export async function renderRasterFromImage(
     throw new Error("Failed to get canvas context");
   }
 
+  if (fullBleed) {
+    fillOpaqueBackdrop(ctx, width, height);
+  }
+
   // Fill background (solid color or gradient)
   const shape = normalizeShapeOptions(
-    { cornerRadius, borderEnabled, borderColor, borderWidth },
+    { backgroundShape, cornerRadius, borderEnabled, borderColor, borderWidth },
     Math.min(width, height)
   );
   if (isGradient(backgroundColor)) {
@@ -1008,25 +1361,7 @@ export async function renderRasterFromImage(
   } else {
     ctx.fillStyle = backgroundColor;
   }
-  createRoundedRectPath(ctx, 0, 0, width, height, shape.radius);
-  ctx.fill();
-
-  if (shape.borderEnabled) {
-    const inset = shape.borderWidth / 2;
-    const borderWidthPx = Math.max(0, width - shape.borderWidth);
-    const borderHeightPx = Math.max(0, height - shape.borderWidth);
-    ctx.strokeStyle = shape.borderColor;
-    ctx.lineWidth = shape.borderWidth;
-    createRoundedRectPath(
-      ctx,
-      inset,
-      inset,
-      borderWidthPx,
-      borderHeightPx,
-      Math.max(0, shape.radius - inset)
-    );
-    ctx.stroke();
-  }
+  drawBackgroundShape(ctx, shape, width, height);
 
   // Load the image from data URL
   const img = await new Promise<HTMLImageElement>((resolve, reject) => {
@@ -1044,7 +1379,8 @@ export async function renderRasterFromImage(
     0.3,
     Math.min(1.0, ((size - minSize) / (maxSize - minSize)) * 0.7 + 0.3)
   );
-  const targetSize = canvasSize * sizePercent;
+  const targetSize =
+    canvasSize * sizePercent * (maskable ? MASKABLE_SAFE_ZONE_RATIO : 1);
 
   // Calculate scale to fit image within target size while preserving aspect ratio
   const imgAspect = img.width / img.height;
@@ -1062,6 +1398,10 @@ export async function renderRasterFromImage(
   // Center the image on the canvas
   const drawX = (width - drawWidth) / 2;
   const drawY = (height - drawHeight) / 2;
+  const drawPlacedImage = (source: CanvasImageSource) =>
+    drawWithIconTransform(ctx, options.iconTransform, width, height, () =>
+      ctx.drawImage(source, drawX, drawY, drawWidth, drawHeight)
+    );
 
   // If color override is enabled, process the image pixels
   if (colorOverride && originalColor) {
@@ -1081,14 +1421,18 @@ export async function renderRasterFromImage(
       applyColorOverride(imageData, originalColor, colorOverride);
       tempCtx.putImageData(imageData, 0, 0);
       // Draw the processed image onto the main canvas
-      ctx.drawImage(tempCanvas, drawX, drawY, drawWidth, drawHeight);
+      drawPlacedImage(tempCanvas);
     } else {
       // Fallback: draw without color override
-      ctx.drawImage(img, drawX, drawY, drawWidth, drawHeight);
+      drawPlacedImage(img);
     }
   } else {
     // Draw the image normally
-    ctx.drawImage(img, drawX, drawY, drawWidth, drawHeight);
+    drawPlacedImage(img);
+  }
+
+  if (glyphColor) {
+    fillGlyphColor(ctx, width, height, glyphColor);
   }
 
   // Get MIME type
@@ -1150,6 +1494,8 @@ export interface ImageRenderOptions {
   colorOverride?: string | null;
   /** The detected dominant color from the original image (required if colorOverride is used) */
   originalColor?: string;
+  /** Background outline (defaults to a rounded square) */
+  backgroundShape?: BackgroundShape;
   /** Corner radius percentage (0 = square, 100 = fully round) */
   cornerRadius?: number;
   /** Whether border is enabled */
@@ -1158,6 +1504,8 @@ export interface ImageRenderOptions {
   borderColor?: string;
   /** Border width in normalized artboard units */
   borderWidth?: number;
+  /** Offset, rotation and mirroring applied after centering the image */
+  iconTransform?: IconTransform;
 }
 
 /**
@@ -1175,6 +1523,7 @@ export async function renderPngFromImage(
     height,
     colorOverride,
     originalColor,
+    backgroundShape,
     cornerRadius = 0,
     borderEnabled = false,
     borderColor = "#ffffff",
@@ -1192,7 +1541,7 @@ export async function renderPngFromImage(
 
   // Fill background (solid color or gradient)
   const shape = normalizeShapeOptions(
-    { cornerRadius, borderEnabled, borderColor, borderWidth },
+    { backgroundShape, cornerRadius, borderEnabled, borderColor, borderWidth },
     Math.min(width, height)
   );
   if (isGradient(backgroundColor)) {
@@ -1201,25 +1550,7 @@ export async function renderPngFromImage(
   } else {
     ctx.fillStyle = backgroundColor;
   }
-  createRoundedRectPath(ctx, 0, 0, width, height, shape.radius);
-  ctx.fill();
-
-  if (shape.borderEnabled) {
-    const inset = shape.borderWidth / 2;
-    const borderWidthPx = Math.max(0, width - shape.borderWidth);
-    const borderHeightPx = Math.max(0, height - shape.borderWidth);
-    ctx.strokeStyle = shape.borderColor;
-    ctx.lineWidth = shape.borderWidth;
-    createRoundedRectPath(
-      ctx,
-      inset,
-      inset,
-      borderWidthPx,
-      borderHeightPx,
-      Math.max(0, shape.radius - inset)
-    );
-    ctx.stroke();
-  }
+  drawBackgroundShape(ctx, shape, width, height);
 
   // Load the image from data URL
   const img = await new Promise<HTMLImageElement>((resolve, reject) => {
@@ -1258,6 +1589,10 @@ export async function renderPngFromImage(
   // Center the image on the canvas
   const drawX = (width - drawWidth) / 2;
   const drawY = (height - drawHeight) / 2;
+  const drawPlacedImage = (source: CanvasImageSource) =>
+    drawWithIconTransform(ctx, options.iconTransform, width, height, () =>
+      ctx.drawImage(source, drawX, drawY, drawWidth, drawHeight)
+    );
 
   // If color override is enabled, we need to process the image pixels
   if (colorOverride && originalColor) {
@@ -1277,14 +1612,14 @@ export async function renderPngFromImage(
       applyColorOverride(imageData, originalColor, colorOverride);
       tempCtx.putImageData(imageData, 0, 0);
       // Draw the processed image onto the main canvas
-      ctx.drawImage(tempCanvas, drawX, drawY, drawWidth, drawHeight);
+      drawPlacedImage(tempCanvas);
     } else {
       // Fallback: draw without color override
-      ctx.drawImage(img, drawX, drawY, drawWidth, drawHeight);
+      drawPlacedImage(img);
     }
   } else {
     // Draw the image normally
-    ctx.drawImage(img, drawX, drawY, drawWidth, drawHeight);
+    drawPlacedImage(img);
   }
 
   // Convert to blob
@@ -1306,7 +1641,42 @@ export async function renderPngFromImage(
 /**
  * Supported export format type
  */
-export type ExportFormatType = "png" | "jpeg" | "webp" | "svg" | "ico";
+export type ExportFormatType = "png" | "jpeg" | "webp" | "svg" | "ico" | "icns";
+
+/**
+ * PNG sizes packed into ICNS files (capped at the variant size)
+ */
+export const ICNS_SIZES = [16, 32, 64, 128, 256, 512, 1024] as const;
+
+/**
+ * ICO sizes to render for a variant, smallest first
+ */
+export function getIcoSizes(variant: { icoSizes?: number[] }): number[] {
+  const sizes = variant.icoSizes?.length ? variant.icoSizes : DEFAULT_ICO_SIZES;
+  return Array.from(new Set(sizes)).sort((a, b) => a - b);
+}
+
+/**
+ * Whether an ICO entry is stored as BMP (256 px entries are always PNG)
+ */
+export function isIcoBmpEntry(
+  variant: { icoBmp?: boolean },
+  size: number
+): boolean {
+  return variant.icoBmp === true && size < 256;
+}
+
+/**
+ * ICNS sizes to render for a variant: every size up to the variant's size
+ */
+export function getIcnsSizes(variant: {
+  width: number;
+  height: number;
+}): number[] {
+  const maxSize = Math.max(variant.width, variant.height);
+  const sizes = ICNS_SIZES.filter((size) => size <= maxSize);
+  return sizes.length > 0 ? sizes : [ICNS_SIZES[0]];
+}
 
 /**
  * Export variant with extended format support
@@ -1316,10 +1686,26 @@ export interface ExportVariantSpec {
   width: number;
   height: number;
   format: ExportFormatType;
+  /** Pixel density used by the {scale} and {density} filename placeholders */
+  scale?: number;
   quality?: number;
   description?: string;
   /** Maximum file size in KB (optional) - triggers compression if exceeded */
   maxSize?: number;
+  /** Flatten onto an opaque, square background */
+  flattenTransparency?: boolean;
+  /** Render a single Android adaptive icon layer */
+  adaptiveLayer?: AdaptiveIconLayer;
+  /** Sizes embedded in an ICO file */
+  icoSizes?: number[];
+  /** Store ICO entries below 256 px as BMP */
+  icoBmp?: boolean;
+  /** Web app manifest purpose */
+  purpose?: IconPurpose;
+  /** Render only the glyph in this color on transparency */
+  glyphColor?: string;
+  /** Style overrides for this variant */
+  style?: ExportVariantStyle;
 }
 
 /**
@@ -1332,10 +1718,9 @@ export async function generateExportAssets(
 ): Promise<Map<string, Blob>> {
   const assets = new Map<string, Blob>();
 
-  // Collect PNG blobs for ICO generation (16x16, 32x32, and 48x48)
-  const icoPngBlobs: { variant: ExportVariantSpec; blob: Blob }[] = [];
-
   for (const variant of variants) {
+    const style = applyVariantStyle(state, variant.style);
+
     if (variant.format === "svg") {
       // SVG rendering
       const artboardSize = SVG_SPECS.PADDED_SIZE;
@@ -1351,7 +1736,7 @@ export async function generateExportAssets(
       const maxSize = 300;
       const maxPadding = 6;
       const minPadding = -6; // Allow overflow
-      const svgSize = state.svgIconSize ?? state.iconSize;
+      const svgSize = style.svgIconSize ?? style.iconSize;
       const padding =
         maxPadding -
         ((svgSize - minSize) / (maxSize - minSize)) * (maxPadding - minPadding);
@@ -1361,102 +1746,331 @@ export async function generateExportAssets(
 
       const svgString = renderSvg({
         icon,
-        backgroundColor: state.backgroundColor,
-        iconColor: state.iconColor,
+        backgroundColor: style.backgroundColor,
+        iconColor: style.iconColor,
         size: artboardSize,
         padding,
         outputSize: displaySize,
         zendeskLocationMode: isZendeskLocationSvg,
-        cornerRadius: state.cornerRadius,
-        borderEnabled: state.borderEnabled,
-        borderColor: state.borderColor,
-        borderWidth: state.borderWidth,
+        backgroundShape: style.backgroundShape,
+        cornerRadius: style.cornerRadius,
+        borderEnabled: style.borderEnabled,
+        borderColor: style.borderColor,
+        borderWidth: style.borderWidth,
+        iconShadow: style.iconShadow,
+        iconColorStyle: style.iconColorStyle,
+        iconTransform: style.iconTransform,
       });
       const blob = new Blob([svgString], { type: "image/svg+xml" });
       assets.set(variant.filename, blob);
     } else if (variant.format === "ico") {
-      // ICO rendering - collect PNG blobs first, generate ICO at the end
-      // For ICO, generate common browser favicon sizes
-      const sizes = [16, 32, 48];
-      for (const size of sizes) {
+      // ICO rendering - one image per embedded size
+      const entries: IcoImageEntry[] = [];
+      for (const size of getIcoSizes(variant)) {
         const blob = await renderRaster({
           icon,
-          backgroundColor: state.backgroundColor,
-          iconColor: state.iconColor,
-          size: state.iconSize,
+          backgroundColor: style.backgroundColor,
+          iconColor: style.iconColor,
+          size: style.iconSize,
           width: size,
           height: size,
           format: "png",
-          cornerRadius: state.cornerRadius,
-          borderEnabled: state.borderEnabled,
-          borderColor: state.borderColor,
-          borderWidth: state.borderWidth,
+          backgroundShape: style.backgroundShape,
+          cornerRadius: style.cornerRadius,
+          borderEnabled: style.borderEnabled,
+          borderColor: style.borderColor,
+          borderWidth: style.borderWidth,
+          iconShadow: style.iconShadow,
+          iconColorStyle: style.iconColorStyle,
+          iconTransform: style.iconTransform,
         });
-        icoPngBlobs.push({ variant, blob });
+        entries.push(
+          isIcoBmpEntry(variant, size)
+            ? {
+                size,
+                format: "bmp",
+                data: encodeIcoBmp(await getBlobPixels(blob, size), size),
+              }
+            : { size, format: "png", data: await blob.arrayBuffer() }
+        );
       }
+      assets.set(
+        variant.filename,
+        new Blob([createIcoFromEntries(entries)], { type: "image/x-icon" })
+      );
+    } else if (variant.format === "icns") {
+      // ICNS rendering - one PNG per size, packed into a single container
+      const pngBuffers: ArrayBuffer[] = [];
+      for (const size of getIcnsSizes(variant)) {
+        const blob = await renderRaster({
+          icon,
+          backgroundColor: style.backgroundColor,
+          iconColor: style.iconColor,
+          size: style.iconSize,
+          width: size,
+          height: size,
+          format: "png",
+          backgroundShape: style.backgroundShape,
+          cornerRadius: style.cornerRadius,
+          borderEnabled: style.borderEnabled,
+          borderColor: style.borderColor,
+          borderWidth: style.borderWidth,
+          iconShadow: style.iconShadow,
+          iconColorStyle: style.iconColorStyle,
+          iconTransform: style.iconTransform,
+        });
+        pngBuffers.push(await blob.arrayBuffer());
+      }
+      assets.set(
+        variant.filename,
+        new Blob([createIcnsFromPngBuffers(pngBuffers)], {
+          type: "image/icns",
+        })
+      );
+    } else if (variant.adaptiveLayer) {
+      const blob = await renderAdaptiveIconLayer({
+        icon,
+        backgroundColor: style.backgroundColor,
+        iconColor: style.iconColor,
+        size: style.iconSize,
+        outputSize: Math.min(variant.width, variant.height),
+        layer: variant.adaptiveLayer,
+        iconColorStyle: style.iconColorStyle,
+        iconTransform: style.iconTransform,
+      });
+      assets.set(variant.filename, blob);
     } else {
       // Raster rendering (PNG, JPEG, WebP)
       const blob = await renderRaster({
         icon,
-        backgroundColor: state.backgroundColor,
-        iconColor: state.iconColor,
-        size: state.iconSize,
+        backgroundColor: style.backgroundColor,
+        iconColor: style.iconColor,
+        size: style.iconSize,
         width: variant.width,
         height: variant.height,
         format: variant.format,
         quality: variant.quality ? variant.quality / 100 : undefined,
         maxFileSize: variant.maxSize ? variant.maxSize * 1024 : undefined,
-        cornerRadius: state.cornerRadius,
-        borderEnabled: state.borderEnabled,
-        borderColor: state.borderColor,
-        borderWidth: state.borderWidth,
+        flattenTransparency: variant.flattenTransparency,
+        maskable: variant.purpose === "maskable",
+        glyphColor: variant.glyphColor,
+        backgroundShape: style.backgroundShape,
+        cornerRadius: style.cornerRadius,
+        borderEnabled: style.borderEnabled,
+        borderColor: style.borderColor,
+        borderWidth: style.borderWidth,
+        iconShadow: style.iconShadow,
+        iconColorStyle: style.iconColorStyle,
+        iconTransform: style.iconTransform,
       });
+      if (variant.glyphColor) {
+        assertGlyphColorPixels(
+          variant.filename,
+          await getBlobPixels(blob, variant.width, variant.height),
+          variant.glyphColor
+        );
+      }
       assets.set(variant.filename, blob);
     }
   }
 
-  // Generate ICO files from collected PNGs
-  if (icoPngBlobs.length > 0) {
-    // Group by variant filename
-    const icoVariants = new Map<string, Blob[]>();
-    for (const { variant, blob } of icoPngBlobs) {
-      const existing = icoVariants.get(variant.filename) || [];
-      existing.push(blob);
-      icoVariants.set(variant.filename, existing);
+  return assets;
+}
+
+/**
+ * Read the RGBA pixels of a rendered PNG blob
+ */
+export async function getBlobPixels(
+  blob: Blob,
+  width: number,
+  height: number = width
+): Promise<Uint8ClampedArray> {
+  const bitmap = await createImageBitmap(blob);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Failed to get canvas context");
+  }
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return ctx.getImageData(0, 0, width, height).data;
+}
+
+/**
+ * Whether any pixel of an RGBA buffer is not fully opaque
+ */
+export function hasTransparentPixels(
+  rgba: Uint8Array | Uint8ClampedArray
+): boolean {
+  for (let i = 3; i < rgba.length; i += 4) {
+    if (rgba[i] < 255) {
+      return true;
     }
+  }
+  return false;
+}
 
-    // Generate ICO for each variant
-    for (const [filename, pngBlobs] of icoVariants.entries()) {
-      const icoBlob = await generateIcoFromPngs(pngBlobs);
-      assets.set(filename, icoBlob);
+/**
+ * Describe a rendered export file for the platform rule checks
+ */
+export async function inspectExportAsset(
+  filename: string,
+  blob: Blob
+): Promise<RenderedAssetInfo> {
+  const info: RenderedAssetInfo = { filename, size: blob.size };
+
+  if (blob.type === "image/svg+xml") {
+    return { ...info, svg: await blob.text() };
+  }
+  if (
+    blob.type !== "image/png" &&
+    blob.type !== "image/webp" &&
+    blob.type !== "image/jpeg"
+  ) {
+    // ICO/ICNS containers are only checked by file size
+    return info;
+  }
+
+  const bitmap = await createImageBitmap(blob);
+  const { width, height } = bitmap;
+  bitmap.close();
+  return {
+    ...info,
+    width,
+    height,
+    hasTransparency:
+      blob.type !== "image/jpeg" &&
+      hasTransparentPixels(await getBlobPixels(blob, width, height)),
+  };
+}
+
+/**
+ * Channel drift allowed on semi-transparent edge pixels (premultiplied alpha
+ * rounding)
+ */
+const GLYPH_COLOR_TOLERANCE = 8;
+
+/**
+ * Count visible pixels whose color differs from the glyph color
+ * (e.g. Teams outline icons must only contain white)
+ */
+export function countOffColorPixels(
+  rgba: Uint8Array | Uint8ClampedArray,
+  color: string
+): number {
+  const rgb = hexToRgb(color);
+  if (!rgb) {
+    return 0;
+  }
+
+  let count = 0;
+  for (let i = 0; i < rgba.length; i += 4) {
+    if (
+      rgba[i + 3] > 0 &&
+      (Math.abs(rgba[i] - rgb.r) > GLYPH_COLOR_TOLERANCE ||
+        Math.abs(rgba[i + 1] - rgb.g) > GLYPH_COLOR_TOLERANCE ||
+        Math.abs(rgba[i + 2] - rgb.b) > GLYPH_COLOR_TOLERANCE)
+    ) {
+      count++;
     }
   }
+  return count;
+}
 
-  return assets;
+/**
+ * Throw when a glyph-only asset contains pixels of another color
+ */
+export function assertGlyphColorPixels(
+  filename: string,
+  rgba: Uint8Array | Uint8ClampedArray,
+  color: string
+): void {
+  const offColor = countOffColorPixels(rgba, color);
+  if (offColor > 0) {
+    throw new Error(
+      `${filename} must only contain ${color} pixels on transparency (found ${offColor} other pixels)`
+    );
+  }
 }
 
 /**
- * Generate ICO file from PNG blobs
- * ICO format: Header (6 bytes) + Image entries (16 bytes each) + Image data
+ * Square image embedded in an ICO file
  */
-async function generateIcoFromPngs(pngBlobs: Blob[]): Promise<Blob> {
-  const images: { width: number; height: number; data: ArrayBuffer }[] = [];
+export interface IcoImageEntry {
+  size: number;
+  /** PNG file data, or a BMP DIB from `encodeIcoBmp` */
+  format: "png" | "bmp";
+  data: ArrayBuffer;
+}
+
+/**
+ * Encode RGBA pixels as a 32-bit ICO BMP entry
+ * BMP entry: BITMAPINFOHEADER (40 bytes) + bottom-up BGRA rows + AND mask
+ */
+export function encodeIcoBmp(
+  rgba: Uint8Array | Uint8ClampedArray,
+  size: number
+): ArrayBuffer {
+  const headerSize = 40;
+  const pixelBytes = size * size * 4;
+  // 1 bit per pixel, rows padded to 4 bytes; left empty since alpha is used
+  const maskRowBytes = Math.ceil(size / 32) * 4;
+  const buffer = new ArrayBuffer(headerSize + pixelBytes + maskRowBytes * size);
+  const view = new DataView(buffer);
 
-  for (const blob of pngBlobs) {
-    const arrayBuffer = await blob.arrayBuffer();
+  view.setUint32(0, headerSize, true); // Header size
+  view.setInt32(4, size, true); // Width
+  view.setInt32(8, size * 2, true); // Height (XOR + AND mask)
+  view.setUint16(12, 1, true); // Color planes
+  view.setUint16(14, 32, true); // Bits per pixel
+  view.setUint32(16, 0, true); // Compression: BI_RGB
+  view.setUint32(20, pixelBytes, true); // Image size
+
+  const pixels = new Uint8Array(buffer, headerSize, pixelBytes);
+  for (let y = 0; y < size; y++) {
+    // BMP rows are stored bottom-up
+    const sourceRow = (size - 1 - y) * size * 4;
+    for (let x = 0; x < size; x++) {
+      const source = sourceRow + x * 4;
+      const target = (y * size + x) * 4;
+      pixels[target] = rgba[source + 2];
+      pixels[target + 1] = rgba[source + 1];
+      pixels[target + 2] = rgba[source];
+      pixels[target + 3] = rgba[source + 3];
+    }
+  }
 
-    // Parse PNG header to get dimensions
-    const view = new DataView(arrayBuffer);
-    // PNG width is at offset 16-19, height at 20-23 (big-endian)
-    const width = view.getUint32(16, false);
-    const height = view.getUint32(20, false);
+  return buffer;
+}
 
-    images.push({
-      width: width > 255 ? 0 : width, // 0 means 256 in ICO format
-      height: height > 255 ? 0 : height,
+/**
+ * Pack PNG image data into an ICO container
+ */
+export function createIcoFromPngBuffers(
+  pngBuffers: ArrayBuffer[]
+): ArrayBuffer {
+  return createIcoFromEntries(
+    pngBuffers.map((arrayBuffer) => ({
+      // PNG width is at offset 16-19 (big-endian)
+      size: new DataView(arrayBuffer).getUint32(16, false),
+      format: "png" as const,
       data: arrayBuffer,
-    });
-  }
+    }))
+  );
+}
+
+/**
+ * Pack PNG and BMP entries into an ICO container
+ * ICO format: Header (6 bytes) + Image entries (16 bytes each) + Image data
+ */
+export function createIcoFromEntries(entries: IcoImageEntry[]): ArrayBuffer {
+  const images = entries.map((entry) => ({
+    width: entry.size > 255 ? 0 : entry.size, // 0 means 256 in ICO format
+    height: entry.size > 255 ? 0 : entry.size,
+    data: entry.data,
+  }));
 
   // Sort by size (smallest first)
   images.sort((a, b) => (a.width || 256) - (b.width || 256));
@@ -1502,5 +2116,72 @@ async function generateIcoFromPngs(pngBlobs: Blob[]): Promise<Blob> {
     currentOffset += img.data.byteLength;
   }
 
-  return new Blob([buffer], { type: "image/x-icon" });
+  return buffer;
+}
+
+/**
+ * ICNS element types for PNG data, keyed by pixel size.
+ * Sizes shared by a 1x and a @2x slot are written under both types.
+ */
+const ICNS_TYPES_BY_SIZE: Record<number, string[]> = {
+  16: ["icp4"],
+  32: ["icp5", "ic11"],
+  64: ["icp6", "ic12"],
+  128: ["ic07"],
+  256: ["ic08", "ic13"],
+  512: ["ic09", "ic14"],
+  1024: ["ic10"],
+};
+
+/**
+ * Pack PNG image data into an ICNS container
+ * ICNS format: Header ("icns" + total length) + elements (type + length + PNG),
+ * all lengths big-endian and including their 8-byte headers
+ */
+export function createIcnsFromPngBuffers(
+  pngBuffers: ArrayBuffer[]
+): ArrayBuffer {
+  const elements: { type: string; data: ArrayBuffer }[] = [];
+
+  for (const arrayBuffer of pngBuffers) {
+    // PNG width is at offset 16-19 (big-endian)
+    const width = new DataView(arrayBuffer).getUint32(16, false);
+    const types = ICNS_TYPES_BY_SIZE[width];
+    if (!types) {
+      throw new Error(`Unsupported ICNS image size: ${width}×${width}`);
+    }
+    for (const type of types) {
+      elements.push({ type, data: arrayBuffer });
+    }
+  }
+
+  const headerSize = 8;
+  const totalSize = elements.reduce(
+    (total, element) => total + headerSize + element.data.byteLength,
+    headerSize
+  );
+
+  const buffer = new ArrayBuffer(totalSize);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const writeType = (offset: number, type: string) => {
+    for (let i = 0; i < 4; i++) {
+      view.setUint8(offset + i, type.charCodeAt(i));
+    }
+  };
+
+  // ICNS Header
+  writeType(0, "icns");
+  view.setUint32(4, totalSize, false);
+
+  // Elements
+  let offset = headerSize;
+  for (const element of elements) {
+    writeType(offset, element.type);
+    view.setUint32(offset + 4, headerSize + element.data.byteLength, false);
+    bytes.set(new Uint8Array(element.data), offset + headerSize);
+    offset += headerSize + element.data.byteLength;
+  }
+
+  return buffer;
 }
@@ -0,0 +1,97 @@
+/**
+ * Microsoft Teams app package helpers
+ *
+ * A Teams app package ships a 192×192 full-color icon and a 32×32 outline
+ * icon (white on transparency), both referenced from the `icons` object of
+ * its `manifest.json`.
+ */
+
+import type { ExportVariantConfig } from "@/src/types/preset";
+
+/** Size of the full-color icon in pixels */
+export const TEAMS_COLOR_ICON_SIZE = 192;
+/** Size of the outline icon in pixels */
+export const TEAMS_OUTLINE_ICON_SIZE = 32;
+/** Color the outline icon must be drawn in */
+export const TEAMS_OUTLINE_COLOR = "#ffffff";
+
+/** File holding the `icons` object to merge into the Teams manifest.json */
+export const TEAMS_MANIFEST_ICONS_FILENAME = "manifest-icons.json";
+
+/**
+ * Variant fields used to find the color and outline icons
+ */
+export type TeamsIconVariant = Pick<
+  ExportVariantConfig,
+  "filename" | "format" | "glyphColor"
+>;
+
+/**
+ * Export variants for a Teams app package
+ */
+export function getTeamsAppVariants(): ExportVariantConfig[] {
+  return [
+    {
+      filename: "color.png",
+      width: TEAMS_COLOR_ICON_SIZE,
+      height: TEAMS_COLOR_ICON_SIZE,
+      format: "png",
+      description: "Full-color icon (192×192)",
+    },
+    {
+      filename: "outline.png",
+      width: TEAMS_OUTLINE_ICON_SIZE,
+      height: TEAMS_OUTLINE_ICON_SIZE,
+      format: "png",
+      description: "Outline icon, white on transparent (32×32)",
+      glyphColor: TEAMS_OUTLINE_COLOR,
+    },
+  ];
+}
+
+/**
+ * Build the manifest `icons` object. The first glyph-only PNG is the outline
+ * icon, the first other PNG is the color icon. Returns null when neither was
+ * exported.
+ */
+export function createTeamsManifestIcons(
+  variants: TeamsIconVariant[]
+): string | null {
+  const pngs = variants.filter((variant) => variant.format === "png");
+  const color = pngs.find((variant) => !variant.glyphColor);
+  const outline = pngs.find((variant) => variant.glyphColor);
+  if (!color && !outline) {
+    return null;
+  }
+
+  return JSON.stringify(
+    {
+      icons: {
+        ...(color && { color: color.filename }),
+        ...(outline && { outline: outline.filename }),
+      },
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Generate `manifest-icons.json` for the exported Teams icons.
+ * Returns a map of ZIP path to file content.
+ */
+export function generateTeamsAppFiles(
+  filenames: string[],
+  variants: TeamsIconVariant[]
+): Map<string, string> {
+  const exported = new Set(filenames);
+  const icons = createTeamsManifestIcons(
+    variants.filter((variant) => exported.has(variant.filename))
+  );
+
+  const files = new Map<string, string>();
+  if (icons) {
+    files.set(TEAMS_MANIFEST_ICONS_FILENAME, icons);
+  }
+  return files;
+}
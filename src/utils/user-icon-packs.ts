@@ -0,0 +1,440 @@
+/**
+ * User icon pack utilities
+ * Imports a ZIP or folder of SVGs as a named pack and persists it in localStorage
+ *
+ * An optional `meta.json` at the pack root can override the pack name and
+ * enrich individual icons (keyed by file name or relative path, without ".svg"):
+ *
+ *   {
+ *     "name": "Acme Icons",
+ *     "allowColorOverride": true,
+ *     "icons": {
+ *       "arrow-left": { "name": "Back", "keywords": ["previous"], "category": "Navigation" }
+ *     }
+ *   }
+ */
+
+import JSZip from "jszip";
+import { z } from "zod";
+import type { IconMetadata, UserIconPack } from "../types/icon";
+
+const STORAGE_PREFIX = "zdk-icon-generator";
+const USER_ICON_PACKS_KEY = `${STORAGE_PREFIX}:user-icon-packs`;
+
+/** Prefix shared by every user pack icon ID */
+export const USER_PACK_ICON_PREFIX = "user-pack-";
+/** Maximum number of icons imported from a single pack */
+export const MAX_USER_PACK_ICONS = 2000;
+/** SVG files larger than this are skipped (bytes) */
+export const MAX_USER_PACK_SVG_SIZE = 256 * 1024;
+/** meta.json files larger than this are rejected (bytes) */
+const MAX_USER_PACK_META_SIZE = 1024 * 1024;
+/** Total uncompressed size read from a single ZIP archive (bytes) */
+const MAX_USER_PACK_ZIP_SIZE = 32 * 1024 * 1024;
+
+const DEFAULT_PACK_NAME = "My Icons";
+const META_FILENAME = "meta.json";
+
+const userIconPackMetaSchema = z.object({
+  name: z.string().trim().min(1).max(80).optional(),
+  allowColorOverride: z.boolean().optional(),
+  icons: z
+    .record(
+      z.string(),
+      z.object({
+        name: z.string().trim().min(1).optional(),
+        keywords: z.array(z.string()).optional(),
+        category: z.string().trim().min(1).optional(),
+      })
+    )
+    .optional(),
+});
+
+export type UserIconPackMeta = z.infer<typeof userIconPackMetaSchema>;
+
+/**
+ * A file read from an imported ZIP or folder
+ */
+export interface UserIconPackFile {
+  /** Path relative to the import root (forward slashes) */
+  path: string;
+  content: string;
+}
+
+export interface CreateUserIconPackOptions {
+  /** Pack name (falls back to meta.json, then the shared root folder) */
+  name?: string;
+  /** Whether icon colors can be customized (defaults to meta.json, then true) */
+  allowColorOverride?: boolean;
+  /** Pack ID (generated from the name when omitted) */
+  id?: string;
+}
+
+export interface UserIconPackImportResult {
+  pack: UserIconPack;
+  /** Paths of SVG files that were skipped (invalid, too large or over the limit) */
+  skipped: string[];
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Split a file or folder name into lowercase words
+ * ("arrowLeft_small-24" → ["arrow", "left", "small", "24"])
+ */
+function splitNameWords(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function toTitleCase(words: string[]): string {
+  return words.map((word) => word[0].toUpperCase() + word.slice(1)).join(" ");
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, "/").replace(/^\/+/, "");
+}
+
+function isIgnoredPath(path: string): boolean {
+  return path
+    .split("/")
+    .some((segment) => segment === "__MACOSX" || segment.startsWith("."));
+}
+
+/**
+ * Strip a top-level folder shared by every file (e.g. a zipped directory)
+ */
+function stripSharedRoot(files: UserIconPackFile[]): {
+  files: UserIconPackFile[];
+  rootName: string | null;
+} {
+  const roots = new Set(
+    files.map(({ path }) => (path.includes("/") ? path.split("/")[0] : null))
+  );
+  const [root] = Array.from(roots);
+
+  if (roots.size !== 1 || !root) {
+    return { files, rootName: null };
+  }
+
+  return {
+    files: files.map((file) => ({
+      ...file,
+      path: file.path.slice(root.length + 1),
+    })),
+    rootName: root,
+  };
+}
+
+function parseMeta(content: string): UserIconPackMeta {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    throw new Error("meta.json is not valid JSON");
+  }
+
+  const parsed = userIconPackMetaSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const path = issue.path.join(".");
+    throw new Error(
+      `Invalid meta.json${path ? ` at "${path}"` : ""}: ${issue.message}`
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Build a user icon pack from the files of a ZIP or folder.
+ * Throws when no valid SVG is found.
+ */
+export function createUserIconPack(
+  inputFiles: UserIconPackFile[],
+  options: CreateUserIconPackOptions = {}
+): UserIconPackImportResult {
+  const { files, rootName } = stripSharedRoot(
+    inputFiles
+      .map((file) => ({ ...file, path: normalizePath(file.path) }))
+      .filter(({ path }) => path && !isIgnoredPath(path))
+  );
+
+  const metaFile = files.find(
+    ({ path }) => path.toLowerCase() === META_FILENAME
+  );
+  const meta = metaFile ? parseMeta(metaFile.content) : {};
+
+  const name =
+    options.name?.trim() || meta.name || rootName || DEFAULT_PACK_NAME;
+  const id = options.id ?? `${slugify(name) || "pack"}-${Date.now()}`;
+  const allowColorOverride =
+    options.allowColorOverride ?? meta.allowColorOverride ?? true;
+
+  const svgFiles = files
+    .filter(({ path }) => path.toLowerCase().endsWith(".svg"))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const icons: IconMetadata[] = [];
+  const usedIds = new Set<string>();
+  const skipped: string[] = [];
+
+  for (const file of svgFiles) {
+    const svg = file.content.trim();
+    if (
+      icons.length >= MAX_USER_PACK_ICONS ||
+      svg.length > MAX_USER_PACK_SVG_SIZE ||
+      !/<svg[\s\S]*<\/svg>/i.test(svg)
+    ) {
+      skipped.push(file.path);
+      continue;
+    }
+
+    const relativePath = file.path.replace(/\.svg$/i, "");
+    const segments = relativePath.split("/");
+    const basename = segments[segments.length - 1];
+    const folders = segments.slice(0, -1);
+    const iconMeta = meta.icons?.[relativePath] ?? meta.icons?.[basename];
+
+    const nameWords = splitNameWords(basename);
+    const baseId = `${USER_PACK_ICON_PREFIX}${id}-${slugify(relativePath) || "icon"}`;
+    let iconId = baseId;
+    for (let suffix = 2; usedIds.has(iconId); suffix++) {
+      iconId = `${baseId}-${suffix}`;
+    }
+    usedIds.add(iconId);
+
+    const keywords = new Set([
+      ...nameWords,
+      ...folders.flatMap(splitNameWords),
+      ...(iconMeta?.keywords ?? []).map((keyword) => keyword.toLowerCase()),
+    ]);
+
+    icons.push({
+      id: iconId,
+      name:
+        iconMeta?.name ||
+        (nameWords.length > 0 ? toTitleCase(nameWords) : basename),
+      pack: "user-pack",
+      svg,
+      keywords: Array.from(keywords),
+      category: iconMeta?.category ?? folders[folders.length - 1],
+      allowColorOverride,
+      userPack: { id, name },
+    });
+  }
+
+  if (icons.length === 0) {
+    throw new Error("No valid SVG files found in the icon pack");
+  }
+
+  return {
+    pack: {
+      id,
+      name,
+      importedAt: new Date().toISOString(),
+      icons,
+    },
+    skipped,
+  };
+}
+
+/**
+ * Read the SVG files and meta.json from a ZIP archive
+ */
+export async function readIconPackZip(
+  data: Blob | ArrayBuffer | Uint8Array
+): Promise<UserIconPackFile[]> {
+  const zip = await JSZip.loadAsync(data);
+  const entries = Object.values(zip.files)
+    .filter(
+      (entry) =>
+        !entry.dir &&
+        !isIgnoredPath(normalizePath(entry.name)) &&
+        (/\.svg$/i.test(entry.name) || /(^|\/)meta\.json$/i.test(entry.name))
+    )
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  // Entries are read one at a time and streamed with a byte budget, so a huge
+  // archive or ZIP bomb is abandoned as soon as it goes over a limit instead
+  // of being decompressed into memory. SVGs that would be skipped anyway are
+  // returned empty so they are still reported as skipped.
+  const files: UserIconPackFile[] = [];
+  const decoder = new TextDecoder();
+  let svgCount = 0;
+  let totalSize = 0;
+  for (const entry of entries) {
+    const isSvg = /\.svg$/i.test(entry.name);
+    if (isSvg && svgCount >= MAX_USER_PACK_ICONS) {
+      files.push({ path: entry.name, content: "" });
+      continue;
+    }
+
+    const limit = isSvg ? MAX_USER_PACK_SVG_SIZE : MAX_USER_PACK_META_SIZE;
+    const remaining = MAX_USER_PACK_ZIP_SIZE - totalSize;
+    const bytes = await readEntryBytes(entry, Math.min(limit, remaining));
+    if (!bytes) {
+      if (remaining < limit) {
+        throw new Error("Icon pack is too large to import");
+      }
+      if (!isSvg) {
+        throw new Error("meta.json is too large");
+      }
+      files.push({ path: entry.name, content: "" });
+      continue;
+    }
+
+    if (isSvg) {
+      svgCount++;
+    }
+    totalSize += bytes.length;
+    files.push({ path: entry.name, content: decoder.decode(bytes) });
+  }
+  return files;
+}
+
+/**
+ * `ZipObject#internalStream` is part of the JSZip API but missing from its
+ * type definitions
+ */
+type StreamableZipObject = JSZip.JSZipObject & {
+  internalStream(type: "uint8array"): JSZip.JSZipStreamHelper<Uint8Array>;
+};
+
+/**
+ * Decompress a ZIP entry, or resolve null as soon as it exceeds `maxBytes`
+ */
+function readEntryBytes(
+  entry: JSZip.JSZipObject,
+  maxBytes: number
+): Promise<Uint8Array | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const stream = (entry as StreamableZipObject).internalStream("uint8array");
+    stream
+      .on("data", (chunk) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+          stream.pause();
+          resolve(null);
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on("error", reject)
+      .on("end", () => {
+        const bytes = new Uint8Array(size);
+        let offset = 0;
+        for (const chunk of chunks) {
+          bytes.set(chunk, offset);
+          offset += chunk.length;
+        }
+        resolve(bytes);
+      })
+      .resume();
+  });
+}
+
+/**
+ * Read the SVG files and meta.json from a folder picked with `webkitdirectory`
+ */
+export async function readIconPackFolder(
+  files: File[]
+): Promise<UserIconPackFile[]> {
+  const relevant = files.filter(
+    (file) => /\.svg$/i.test(file.name) || file.name === META_FILENAME
+  );
+
+  return Promise.all(
+    relevant.map(async (file) => ({
+      path: file.webkitRelativePath || file.name,
+      content: await file.text(),
+    }))
+  );
+}
+
+/**
+ * Get all imported icon packs from localStorage
+ */
+export function getUserIconPacks(): UserIconPack[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  try {
+    const stored = localStorage.getItem(USER_ICON_PACKS_KEY);
+    if (!stored) {
+      return [];
+    }
+    const packs = JSON.parse(stored);
+    return Array.isArray(packs) ? packs : [];
+  } catch (error) {
+    console.error("Error reading user icon packs from localStorage:", error);
+    return [];
+  }
+}
+
+/**
+ * Get icons from every imported pack, or from a single pack
+ */
+export function getUserPackIcons(packId?: string | null): IconMetadata[] {
+  return getUserIconPacks()
+    .filter((pack) => !packId || pack.id === packId)
+    .flatMap((pack) => pack.icons);
+}
+
+/**
+ * Get a user pack icon by ID
+ */
+export function getUserPackIconById(id: string): IconMetadata | null {
+  return getUserPackIcons().find((icon) => icon.id === id) || null;
+}
+
+/**
+ * Persist an imported pack (replaces a pack with the same ID)
+ */
+export function saveUserIconPack(pack: UserIconPack): void {
+  if (typeof window === "undefined") {
+    throw new Error("Cannot save icon pack: window is not available");
+  }
+
+  const packs = getUserIconPacks().filter(
+    (existing) => existing.id !== pack.id
+  );
+
+  try {
+    localStorage.setItem(USER_ICON_PACKS_KEY, JSON.stringify([...packs, pack]));
+  } catch (error) {
+    console.error("Error saving user icon pack to localStorage:", error);
+    if (error instanceof DOMException && error.name === "QuotaExceededError") {
+      throw new Error(
+        "Not enough browser storage for this icon pack. Remove a pack or import fewer icons."
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Remove an imported pack
+ */
+export function removeUserIconPack(packId: string): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    const packs = getUserIconPacks().filter((pack) => pack.id !== packId);
+    localStorage.setItem(USER_ICON_PACKS_KEY, JSON.stringify(packs));
+  } catch (error) {
+    console.error("Error removing user icon pack from localStorage:", error);
+  }
+}
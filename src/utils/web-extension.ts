@@ -0,0 +1,140 @@
+/**
+ * Browser extension (WebExtension) helpers
+ *
+ * Extensions list their icons in the `icons` object of `manifest.json` and
+ * their toolbar button in `action.default_icon`. Firefox also picks a
+ * toolbar icon per browser theme from `action.theme_icons`.
+ */
+
+import type { ExportVariantConfig } from "@/src/types/preset";
+
+/** Default icon folder inside the export ZIP */
+export const WEB_EXTENSION_ICON_FOLDER = "icons";
+
+/** Extension icon sizes (toolbar fallback, favicon, management page, store) */
+export const WEB_EXTENSION_ICON_SIZES = [16, 32, 48, 128] as const;
+/** Toolbar action icon sizes (1x and 2x) */
+export const WEB_EXTENSION_ACTION_SIZES = [16, 32] as const;
+
+/**
+ * Glyph color of the toolbar icons per browser theme
+ * (dark glyph on light toolbars, light glyph on dark toolbars)
+ */
+export const WEB_EXTENSION_ACTION_COLORS = {
+  light: "#202124",
+  dark: "#e8eaed",
+} as const;
+
+export type WebExtensionTheme = keyof typeof WEB_EXTENSION_ACTION_COLORS;
+
+/** File holding the `icons` and `action` objects to merge into manifest.json */
+export const WEB_EXTENSION_MANIFEST_ICONS_FILENAME = "manifest-icons.json";
+
+const ICON_FILE_PATTERN = /(^|\/)icon-(\d+)\.png$/;
+const ACTION_FILE_PATTERN = /(^|\/)action-(light|dark)-(\d+)\.png$/;
+
+/**
+ * Export variants for the extension icons and light/dark toolbar icons
+ */
+export function getWebExtensionVariants(
+  folder: string = WEB_EXTENSION_ICON_FOLDER
+): ExportVariantConfig[] {
+  const icons: ExportVariantConfig[] = WEB_EXTENSION_ICON_SIZES.map((size) => ({
+    filename: `${folder}/icon-${size}.png`,
+    width: size,
+    height: size,
+    format: "png",
+    description: `Extension icon (${size}×${size})`,
+  }));
+
+  const actions = (["light", "dark"] as const).flatMap((theme) =>
+    WEB_EXTENSION_ACTION_SIZES.map(
+      (size): ExportVariantConfig => ({
+        filename: `${folder}/action-${theme}-${size}.png`,
+        width: size,
+        height: size,
+        format: "png",
+        description: `Toolbar icon for ${theme} browser themes (${size}×${size})`,
+        glyphColor: WEB_EXTENSION_ACTION_COLORS[theme],
+      })
+    )
+  );
+
+  return [...icons, ...actions];
+}
+
+function toSizeMap(entries: [number, string][]): Record<string, string> {
+  return Object.fromEntries(
+    entries.sort(([a], [b]) => a - b).map(([size, path]) => [`${size}`, path])
+  );
+}
+
+/**
+ * Build the `icons` and `action` manifest objects for the exported files.
+ * `action.default_icon` uses the light theme icons; Firefox switches to the
+ * dark theme icons through `theme_icons` (whose `light` key is the
+ * light-colored glyph). Returns null when no extension icon was exported.
+ */
+export function createWebExtensionManifestIcons(
+  filenames: string[]
+): string | null {
+  const icons: [number, string][] = [];
+  const actions: Record<WebExtensionTheme, Map<number, string>> = {
+    light: new Map(),
+    dark: new Map(),
+  };
+
+  for (const path of filenames) {
+    const icon = ICON_FILE_PATTERN.exec(path);
+    if (icon) {
+      icons.push([parseInt(icon[2]), path]);
+      continue;
+    }
+    const action = ACTION_FILE_PATTERN.exec(path);
+    if (action) {
+      actions[action[2] as WebExtensionTheme].set(parseInt(action[3]), path);
+    }
+  }
+
+  if (icons.length === 0 && actions.light.size === 0) {
+    return null;
+  }
+
+  const themeIcons = Array.from(actions.light.keys())
+    .filter((size) => actions.dark.has(size))
+    .sort((a, b) => a - b)
+    .map((size) => ({
+      light: actions.dark.get(size),
+      dark: actions.light.get(size),
+      size,
+    }));
+
+  return JSON.stringify(
+    {
+      ...(icons.length > 0 && { icons: toSizeMap(icons) }),
+      ...(actions.light.size > 0 && {
+        action: {
+          default_icon: toSizeMap(Array.from(actions.light.entries())),
+          ...(themeIcons.length > 0 && { theme_icons: themeIcons }),
+        },
+      }),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Generate `manifest-icons.json` for the exported extension icons.
+ * Returns a map of ZIP path to file content.
+ */
+export function generateWebExtensionFiles(
+  filenames: string[]
+): Map<string, string> {
+  const files = new Map<string, string>();
+  const manifestIcons = createWebExtensionManifestIcons(filenames);
+  if (manifestIcons) {
+    files.set(WEB_EXTENSION_MANIFEST_ICONS_FILENAME, manifestIcons);
+  }
+  return files;
+}
@@ -0,0 +1,236 @@
+/**
+ * Web app manifest helpers
+ *
+ * Builds the text files that accompany a favicon / PWA export:
+ * `site.webmanifest` (icons with a purpose), `browserconfig.xml` (Windows
+ * tiles) and an HTML snippet with the matching `<link>` and `<meta>` tags.
+ */
+
+import {
+  getFormatMimeType,
+  type ExportVariantConfig,
+} from "@/src/types/preset";
+import { isSolidColor, type BackgroundValue } from "./gradients";
+import { getIcoSizes } from "./renderer";
+
+export const WEB_MANIFEST_FILENAME = "site.webmanifest";
+export const BROWSER_CONFIG_FILENAME = "browserconfig.xml";
+export const HEAD_SNIPPET_FILENAME = "head-snippet.html";
+
+/** Windows tile sizes listed in browserconfig.xml */
+const TILE_SIZES = [70, 150, 310] as const;
+
+/**
+ * Variant fields used to describe exported files
+ */
+export type WebManifestVariant = Pick<
+  ExportVariantConfig,
+  | "filename"
+  | "width"
+  | "height"
+  | "format"
+  | "adaptiveLayer"
+  | "icoSizes"
+  | "purpose"
+  | "glyphColor"
+>;
+
+export interface WebManifestOptions {
+  /** Exported variants (files are assumed to be served from the site root) */
+  variants: WebManifestVariant[];
+  /** Background used for `theme_color`, `background_color` and the tile color */
+  backgroundColor: BackgroundValue;
+}
+
+/**
+ * Solid color matching a background (first stop of a gradient).
+ * Returns null for transparent backgrounds.
+ */
+export function getThemeColor(backgroundColor: BackgroundValue): string | null {
+  if (isSolidColor(backgroundColor)) {
+    return backgroundColor === "transparent" ? null : backgroundColor;
+  }
+  const [firstStop] = [...backgroundColor.stops].sort(
+    (a, b) => a.offset - b.offset
+  );
+  return firstStop?.color ?? null;
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;");
+}
+
+function getBasename(filename: string): string {
+  return filename.slice(filename.lastIndexOf("/") + 1);
+}
+
+/**
+ * Plain raster variants (adaptive icon layers are not standalone icons)
+ */
+function isRasterIcon(variant: WebManifestVariant): boolean {
+  return (
+    (variant.format === "png" || variant.format === "webp") &&
+    !variant.adaptiveLayer
+  );
+}
+
+/**
+ * Variants listed in the manifest's `icons` array
+ */
+function getManifestIcons(
+  variants: WebManifestVariant[]
+): WebManifestVariant[] {
+  return variants.filter(
+    (variant) => variant.purpose !== undefined && isRasterIcon(variant)
+  );
+}
+
+/**
+ * Build `site.webmanifest` with every variant that has a purpose
+ */
+export function createWebManifest(options: WebManifestOptions): string {
+  const themeColor = getThemeColor(options.backgroundColor);
+  const icons = getManifestIcons(options.variants).map((variant) => ({
+    src: variant.filename,
+    sizes: `${variant.width}x${variant.height}`,
+    type: getFormatMimeType(variant.format),
+    purpose: variant.purpose,
+  }));
+
+  return JSON.stringify(
+    {
+      name: "",
+      short_name: "",
+      icons,
+      ...(themeColor && {
+        theme_color: themeColor,
+        background_color: themeColor,
+      }),
+      display: "standalone",
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Build `browserconfig.xml`, using the smallest square PNG that covers each
+ * tile size. Returns null when no PNG is large enough for any tile.
+ */
+export function createBrowserConfig(
+  options: WebManifestOptions
+): string | null {
+  const pngs = options.variants
+    .filter(
+      (variant) =>
+        variant.format === "png" &&
+        !variant.adaptiveLayer &&
+        variant.width === variant.height
+    )
+    .sort((a, b) => a.width - b.width);
+
+  const tiles = TILE_SIZES.flatMap((size) => {
+    const variant = pngs.find((png) => png.width >= size);
+    return variant
+      ? [
+          `      <square${size}x${size}logo src="${escapeAttribute(variant.filename)}"/>`,
+        ]
+      : [];
+  });
+  if (tiles.length === 0) {
+    return null;
+  }
+
+  const themeColor = getThemeColor(options.backgroundColor);
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    "<browserconfig>",
+    "  <msapplication>",
+    "    <tile>",
+    ...tiles,
+    ...(themeColor ? [`      <TileColor>${themeColor}</TileColor>`] : []),
+    "    </tile>",
+    "  </msapplication>",
+    "</browserconfig>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Build the `<head>` tags for the exported favicons. Manifest icons are
+ * referenced through `site.webmanifest` instead of their own `<link>`.
+ */
+export function createHeadSnippet(options: WebManifestOptions): string {
+  const lines: string[] = [];
+  const href = (filename: string) => escapeAttribute(`/${filename}`);
+
+  for (const variant of options.variants) {
+    if (variant.format === "ico") {
+      const sizes = getIcoSizes(variant)
+        .map((size) => `${size}x${size}`)
+        .join(" ");
+      lines.push(
+        `<link rel="icon" href="${href(variant.filename)}" sizes="${sizes}">`
+      );
+    } else if (variant.format === "svg") {
+      lines.push(
+        `<link rel="icon" href="${href(variant.filename)}" type="image/svg+xml">`
+      );
+    }
+  }
+
+  for (const variant of options.variants) {
+    if (!isRasterIcon(variant) || variant.purpose !== undefined) {
+      continue;
+    }
+    const sizes = `${variant.width}x${variant.height}`;
+    lines.push(
+      getBasename(variant.filename).startsWith("apple-touch-icon")
+        ? `<link rel="apple-touch-icon" sizes="${sizes}" href="${href(variant.filename)}">`
+        : `<link rel="icon" type="${getFormatMimeType(variant.format)}" sizes="${sizes}" href="${href(variant.filename)}">`
+    );
+  }
+
+  lines.push(`<link rel="manifest" href="${href(WEB_MANIFEST_FILENAME)}">`);
+  if (createBrowserConfig(options) !== null) {
+    lines.push(
+      `<meta name="msapplication-config" content="${href(BROWSER_CONFIG_FILENAME)}">`
+    );
+  }
+
+  const themeColor = getThemeColor(options.backgroundColor);
+  if (themeColor) {
+    lines.push(`<meta name="theme-color" content="${themeColor}">`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Generate the manifest, browserconfig and head snippet for the exported
+ * files. Returns a map of ZIP path to file content.
+ */
+export function generateWebManifestFiles(
+  filenames: string[],
+  options: WebManifestOptions
+): Map<string, string> {
+  const exported = new Set(filenames);
+  const exportedOptions: WebManifestOptions = {
+    ...options,
+    variants: options.variants.filter((variant) =>
+      exported.has(variant.filename)
+    ),
+  };
+
+  const files = new Map<string, string>();
+  files.set(WEB_MANIFEST_FILENAME, createWebManifest(exportedOptions));
+  const browserConfig = createBrowserConfig(exportedOptions);
+  if (browserConfig) {
+    files.set(BROWSER_CONFIG_FILENAME, browserConfig);
+  }
+  files.set(HEAD_SNIPPET_FILENAME, createHeadSnippet(exportedOptions));
+  return files;
+}
@@ -0,0 +1,219 @@
+/**
+ * Xcode asset catalog helpers
+ *
+ * Describes every image slot of an `AppIcon.appiconset` (iOS, iPadOS,
+ * watchOS and macOS) and builds the matching `Contents.json`, so an export
+ * ZIP can be dropped straight into an Xcode project.
+ */
+
+import type { ExportVariantConfig } from "@/src/types/preset";
+
+/** Default app icon set folder inside the export ZIP */
+export const APP_ICON_SET_FOLDER = "AppIcon.appiconset";
+
+const CONTENTS_FILENAME = "Contents.json";
+
+export type AppIconIdiom =
+  | "iphone"
+  | "ipad"
+  | "ios-marketing"
+  | "watch"
+  | "watch-marketing"
+  | "mac";
+
+/**
+ * Image entry of an app icon set `Contents.json`
+ */
+export interface AppIconSetImage {
+  /** Filename relative to the `.appiconset` folder */
+  filename: string;
+  idiom: AppIconIdiom;
+  /** Point size, e.g. "83.5x83.5" */
+  size: string;
+  scale: "1x" | "2x" | "3x";
+  /** Apple Watch usage (watch idiom only) */
+  role?:
+    | "notificationCenter"
+    | "companionSettings"
+    | "appLauncher"
+    | "quickLook";
+  /** Apple Watch case size (watch idiom only) */
+  subtype?: string;
+}
+
+type AppIconSlot = Omit<AppIconSetImage, "filename">;
+
+function slots(
+  idiom: AppIconIdiom,
+  points: number,
+  scales: AppIconSlot["scale"][],
+  watch?: Pick<AppIconSlot, "role" | "subtype">
+): AppIconSlot[] {
+  return scales.map((scale) => ({
+    idiom,
+    size: `${points}x${points}`,
+    scale,
+    ...watch,
+  }));
+}
+
+/**
+ * Every slot of a full app icon set, in Xcode's order
+ */
+const APP_ICON_SLOTS: AppIconSlot[] = [
+  ...slots("iphone", 20, ["2x", "3x"]),
+  ...slots("iphone", 29, ["2x", "3x"]),
+  ...slots("iphone", 40, ["2x", "3x"]),
+  ...slots("iphone", 60, ["2x", "3x"]),
+  ...slots("ipad", 20, ["1x", "2x"]),
+  ...slots("ipad", 29, ["1x", "2x"]),
+  ...slots("ipad", 40, ["1x", "2x"]),
+  ...slots("ipad", 76, ["1x", "2x"]),
+  ...slots("ipad", 83.5, ["2x"]),
+  ...slots("ios-marketing", 1024, ["1x"]),
+  ...slots("watch", 24, ["2x"], {
+    role: "notificationCenter",
+    subtype: "38mm",
+  }),
+  ...slots("watch", 27.5, ["2x"], {
+    role: "notificationCenter",
+    subtype: "42mm",
+  }),
+  ...slots("watch", 33, ["2x"], {
+    role: "notificationCenter",
+    subtype: "45mm",
+  }),
+  ...slots("watch", 29, ["2x", "3x"], { role: "companionSettings" }),
+  ...slots("watch", 40, ["2x"], { role: "appLauncher", subtype: "38mm" }),
+  ...slots("watch", 44, ["2x"], { role: "appLauncher", subtype: "40mm" }),
+  ...slots("watch", 46, ["2x"], { role: "appLauncher", subtype: "41mm" }),
+  ...slots("watch", 50, ["2x"], { role: "appLauncher", subtype: "44mm" }),
+  ...slots("watch", 51, ["2x"], { role: "appLauncher", subtype: "45mm" }),
+  ...slots("watch", 54, ["2x"], { role: "appLauncher", subtype: "49mm" }),
+  ...slots("watch", 86, ["2x"], { role: "quickLook", subtype: "38mm" }),
+  ...slots("watch", 98, ["2x"], { role: "quickLook", subtype: "42mm" }),
+  ...slots("watch", 108, ["2x"], { role: "quickLook", subtype: "44mm" }),
+  ...slots("watch", 117, ["2x"], { role: "quickLook", subtype: "45mm" }),
+  ...slots("watch", 129, ["2x"], { role: "quickLook", subtype: "49mm" }),
+  ...slots("watch-marketing", 1024, ["1x"]),
+  ...slots("mac", 16, ["1x", "2x"]),
+  ...slots("mac", 32, ["1x", "2x"]),
+  ...slots("mac", 128, ["1x", "2x"]),
+  ...slots("mac", 256, ["1x", "2x"]),
+  ...slots("mac", 512, ["1x", "2x"]),
+];
+
+function getSlotPixels(slot: AppIconSlot): number {
+  return parseFloat(slot.size) * parseInt(slot.scale);
+}
+
+/**
+ * macOS icons keep their transparency and shape; every other idiom is
+ * masked by the system and must be opaque
+ */
+function isOpaqueIdiom(idiom: AppIconIdiom): boolean {
+  return idiom !== "mac";
+}
+
+/**
+ * Files are shared between slots with the same pixel size and opacity
+ */
+function getSlotFilename(slot: AppIconSlot): string {
+  const pixels = getSlotPixels(slot);
+  return isOpaqueIdiom(slot.idiom)
+    ? `icon-${pixels}.png`
+    : `icon-mac-${pixels}.png`;
+}
+
+/**
+ * All image entries of a full app icon set
+ */
+export const APP_ICON_SET_IMAGES: AppIconSetImage[] = APP_ICON_SLOTS.map(
+  (slot) => ({ filename: getSlotFilename(slot), ...slot })
+);
+
+/**
+ * Export variants for every file of an app icon set (one per unique file).
+ * iOS, iPadOS and watchOS files are flattened onto an opaque background.
+ */
+export function getAppIconSetVariants(
+  folder: string = APP_ICON_SET_FOLDER
+): ExportVariantConfig[] {
+  const variants = new Map<string, ExportVariantConfig>();
+
+  for (const slot of APP_ICON_SLOTS) {
+    const filename = getSlotFilename(slot);
+    if (variants.has(filename)) {
+      continue;
+    }
+
+    const pixels = getSlotPixels(slot);
+    variants.set(filename, {
+      filename: `${folder}/${filename}`,
+      width: pixels,
+      height: pixels,
+      format: "png",
+      description:
+        slot.idiom === "mac"
+          ? `macOS ${slot.size} @${slot.scale}`
+          : `iOS/iPadOS/watchOS ${pixels}×${pixels} (opaque)`,
+      ...(isOpaqueIdiom(slot.idiom) && { flattenTransparency: true }),
+    });
+  }
+
+  return Array.from(variants.values()).sort((a, b) => a.width - b.width);
+}
+
+/**
+ * Build `Contents.json` for an app icon set, listing the slots whose file
+ * was exported
+ */
+export function createAppIconSetContents(exportedFilenames: string[]): string {
+  const exported = new Set(exportedFilenames);
+  const images = APP_ICON_SET_IMAGES.filter((image) =>
+    exported.has(image.filename)
+  ).map(({ filename, idiom, role, scale, size, subtype }) => ({
+    filename,
+    idiom,
+    ...(role && { role }),
+    scale,
+    size,
+    ...(subtype && { subtype }),
+  }));
+
+  return JSON.stringify(
+    { images, info: { author: "xcode", version: 1 } },
+    null,
+    2
+  );
+}
+
+/**
+ * Generate a `Contents.json` for every `.appiconset` folder in an export.
+ * Returns a map of ZIP path to file content.
+ */
+export function generateAssetCatalogFiles(
+  filenames: string[]
+): Map<string, string> {
+  const filesByFolder = new Map<string, string[]>();
+
+  for (const path of filenames) {
+    const separator = path.lastIndexOf("/");
+    const folder = path.slice(0, separator);
+    if (separator === -1 || !folder.endsWith(".appiconset")) {
+      continue;
+    }
+    const files = filesByFolder.get(folder) ?? [];
+    files.push(path.slice(separator + 1));
+    filesByFolder.set(folder, files);
+  }
+
+  const files = new Map<string, string>();
+  for (const [folder, folderFiles] of filesByFolder) {
+    files.set(
+      `${folder}/${CONTENTS_FILENAME}`,
+      createAppIconSetContents(folderFiles)
+    );
+  }
+  return files;
+}